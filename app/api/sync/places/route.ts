@@ -0,0 +1,106 @@
+import { NextResponse } from "next/server";
+import { PlaceSyncInProgressError, syncPlaces } from "@/lib/api/place-sync-api";
+import { isApiDate } from "@/lib/utils/date-utils";
+import type { PlaceSyncTrigger } from "@/lib/types/place";
+
+/**
+ * 관광지 카탈로그(places) 증분 동기화 API
+ *
+ * 한국관광공사 areaBasedSyncList2 변경분을 Supabase places 테이블에 반영합니다.
+ * 외부에 노출되면 안 되므로 `Authorization: Bearer <CRON_SECRET>` 헤더로 보호합니다.
+ *
+ * - GET: 예약 실행(Vercel Cron 등)에서 호출 (trigger: cron)
+ * - POST: 수동 실행, 본문으로 옵션 전달 가능 (trigger: manual)
+ *   { "modifiedSince": "YYYYMMDD", "full": false, "maxPages": 20 }
+ *
+ * 다른 동기화(예약/수동/CLI)가 실행 중이면 409를 반환합니다.
+ *
+ * @see {@link /lib/api/place-sync-api.ts} - syncPlaces
+ */
+
+// 항상 최신 변경분을 조회해야 하므로 캐싱하지 않음
+export const dynamic = "force-dynamic";
+
+/**
+ * 요청 인증 확인 (CRON_SECRET Bearer 토큰)
+ */
+function isAuthorized(req: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error("CRON_SECRET 환경변수가 설정되지 않았습니다.");
+    return false;
+  }
+  return req.headers.get("authorization") === `Bearer ${secret}`;
+}
+
+/**
+ * 동기화 실행 및 응답 생성
+ */
+async function runSync(
+  trigger: PlaceSyncTrigger,
+  options: { modifiedSince?: string; full?: boolean; maxPages?: number } = {}
+) {
+  try {
+    const result = await syncPlaces({ trigger, ...options });
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    if (error instanceof PlaceSyncInProgressError) {
+      return NextResponse.json(
+        { error: "Sync already running", details: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error("Sync places error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to sync places",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(req: Request) {
+  if (!isAuthorized(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return runSync("cron");
+}
+
+export async function POST(req: Request) {
+  if (!isAuthorized(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // 본문이 없거나 JSON이 아니면 기본 옵션으로 실행
+  const body = (await req.json().catch(() => ({}))) as {
+    modifiedSince?: unknown;
+    full?: unknown;
+    maxPages?: unknown;
+  };
+
+  const modifiedSince =
+    typeof body.modifiedSince === "string" && isApiDate(body.modifiedSince)
+      ? body.modifiedSince
+      : undefined;
+  const maxPages =
+    typeof body.maxPages === "number" && Number.isInteger(body.maxPages) && body.maxPages >= 1
+      ? body.maxPages
+      : undefined;
+
+  if (body.modifiedSince !== undefined && modifiedSince === undefined) {
+    return NextResponse.json({ error: "modifiedSince must be YYYYMMDD" }, { status: 400 });
+  }
+  if (body.maxPages !== undefined && maxPages === undefined) {
+    return NextResponse.json({ error: "maxPages must be a positive integer" }, { status: 400 });
+  }
+
+  return runSync("manual", {
+    modifiedSince,
+    full: body.full === true,
+    maxPages,
+  });
+}
@@ -0,0 +1,25 @@
+import { z } from "zod";
+import { getAreaBasedListWithPagination } from "@/lib/api/tour-api";
+import { arrangeParam, codeParam, createTourProxyHandler, pagingParams } from "@/lib/api/tour-proxy";
+
+/**
+ * 지역 기반 관광지 목록 프록시 API (areaBasedList2)
+ *
+ * GET /api/tour/area-based?areaCode=1&contentTypeId=12&arrange=C&numOfRows=10&pageNo=2
+ *
+ * @see {@link /lib/api/tour-api.ts} - getAreaBasedListWithPagination
+ */
+export const GET = createTourProxyHandler({
+  schema: z.object({
+    areaCode: codeParam.optional(),
+    sigunguCode: codeParam.optional(),
+    contentTypeId: codeParam.optional(),
+    cat1: codeParam.optional(),
+    cat2: codeParam.optional(),
+    cat3: codeParam.optional(),
+    arrange: arrangeParam.optional(),
+    ...pagingParams,
+  }),
+  cacheStrategy: "areaBasedList",
+  handler: getAreaBasedListWithPagination,
+});
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import {
+  getTourApiCacheStats,
+  getTourApiCircuitState,
+  getTourApiUsage,
+} from "@/lib/api/tour-api";
+import { getTourApiMode } from "@/lib/api/tour-api-fixtures";
+
+/**
+ * 한국관광공사 API 요청 캐시 통계 API
+ *
+ * GET /api/tour/cache-stats
+ * 서버 인스턴스의 요청 캐시 적중/미적중 수, 서킷 브레이커 상태, 오늘 API 사용량과
+ * API 호출 모드(live/record/mock)를 반환합니다.
+ * 운영 정보이므로 `Authorization: Bearer <CRON_SECRET>` 헤더로 보호합니다.
+ * (개발 환경에서는 인증 없이 조회 가능)
+ *
+ * 클라이언트 캐시 통계는 브라우저에서 getTourClientCacheStats()로 확인합니다.
+ *
+ * @see {@link /lib/api/tour-cache.ts} - 요청 캐시
+ */
+
+// 서버 인스턴스의 현재 상태를 반환하므로 캐싱하지 않음
+export const dynamic = "force-dynamic";
+
+/**
+ * 요청 인증 확인 (CRON_SECRET Bearer 토큰)
+ */
+function isAuthorized(req: Request): boolean {
+  if (process.env.NODE_ENV === "development") {
+    return true;
+  }
+  const secret = process.env.CRON_SECRET;
+  return !!secret && req.headers.get("authorization") === `Bearer ${secret}`;
+}
+
+export async function GET(req: Request) {
+  if (!isAuthorized(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return NextResponse.json({
+    mode: getTourApiMode(),
+    cache: getTourApiCacheStats(),
+    circuit: getTourApiCircuitState(),
+    usage: await getTourApiUsage(),
+  });
+}
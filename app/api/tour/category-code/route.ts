@@ -0,0 +1,25 @@
+import { z } from "zod";
+import { getCategoryCode } from "@/lib/api/tour-api";
+import { codeParam, createTourProxyHandler } from "@/lib/api/tour-proxy";
+
+/**
+ * 서비스 분류코드 조회 프록시 API (categoryCode2)
+ *
+ * GET /api/tour/category-code?contentTypeId=12&cat1=A01
+ *
+ * @see {@link /lib/api/tour-api.ts} - getCategoryCode
+ */
+export const GET = createTourProxyHandler({
+  schema: z
+    .object({
+      contentTypeId: codeParam.optional(),
+      cat1: codeParam.optional(),
+      cat2: codeParam.optional(),
+    })
+    .refine((params) => !params.cat2 || params.cat1, {
+      message: "중분류(cat2)를 지정하려면 대분류(cat1)가 필요합니다.",
+      path: ["cat2"],
+    }),
+  cacheStrategy: "categoryCode",
+  handler: getCategoryCode,
+});
@@ -0,0 +1,32 @@
+import { z } from "zod";
+import { getDetailCommonBatch } from "@/lib/api/tour-api";
+import { codeParam, createTourProxyHandler } from "@/lib/api/tour-proxy";
+import type { DetailCommonBatchResult } from "@/lib/types/tour";
+
+/**
+ * 한 번에 조회할 수 있는 최대 콘텐츠 ID 수
+ */
+const MAX_CONTENT_IDS = 20;
+
+/**
+ * 관광지 상세 정보 일괄 조회 프록시 API (detailCommon2)
+ *
+ * GET /api/tour/detail-common-batch?contentIds=125266,126508
+ * (콘텐츠 ID는 쉼표로 구분, 최대 20개)
+ *
+ * 북마크 목록처럼 여러 관광지를 한 번에 조회할 때 IP별 요청 제한을 한 번만 사용합니다.
+ * 일부 조회에 실패한 결과는 CDN에 캐시하지 않습니다.
+ *
+ * @see {@link /lib/api/tour-api.ts} - getDetailCommonBatch
+ */
+export const GET = createTourProxyHandler({
+  schema: z.object({
+    contentIds: z
+      .string()
+      .transform((value) => value.split(","))
+      .pipe(z.array(codeParam).min(1).max(MAX_CONTENT_IDS)),
+  }),
+  cacheStrategy: "detailCommon",
+  handler: getDetailCommonBatch,
+  isCacheable: (data) => (data as DetailCommonBatchResult).failedIds.length === 0,
+});
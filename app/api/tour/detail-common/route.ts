@@ -0,0 +1,19 @@
+import { z } from "zod";
+import { getDetailCommon } from "@/lib/api/tour-api";
+import { codeParam, createTourProxyHandler } from "@/lib/api/tour-proxy";
+
+/**
+ * 관광지 상세 정보 프록시 API (detailCommon2)
+ *
+ * GET /api/tour/detail-common?contentId=125266
+ * (관광지가 없으면 null 반환)
+ *
+ * @see {@link /lib/api/tour-api.ts} - getDetailCommon
+ */
+export const GET = createTourProxyHandler({
+  schema: z.object({
+    contentId: codeParam,
+  }),
+  cacheStrategy: "detailCommon",
+  handler: getDetailCommon,
+});
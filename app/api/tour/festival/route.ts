@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { searchFestival } from "@/lib/api/tour-api";
+import {
+  arrangeParam,
+  codeParam,
+  createTourProxyHandler,
+  dateParam,
+  pagingParams,
+} from "@/lib/api/tour-proxy";
+
+/**
+ * 축제/행사 기간 검색 프록시 API (searchFestival2)
+ *
+ * GET /api/tour/festival?eventStartDate=20251201&eventEndDate=20251231&areaCode=1&pageNo=2
+ *
+ * @see {@link /lib/api/tour-api.ts} - searchFestival
+ */
+export const GET = createTourProxyHandler({
+  schema: z.object({
+    eventStartDate: dateParam,
+    eventEndDate: dateParam.optional(),
+    areaCode: codeParam.optional(),
+    sigunguCode: codeParam.optional(),
+    arrange: arrangeParam.optional(),
+    ...pagingParams,
+  }),
+  cacheStrategy: "searchFestival",
+  handler: searchFestival,
+});
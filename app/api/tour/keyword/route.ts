@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { searchKeywordWithPagination } from "@/lib/api/tour-api";
+import { arrangeParam, codeParam, createTourProxyHandler, pagingParams } from "@/lib/api/tour-proxy";
+
+/**
+ * 키워드 검색 프록시 API (searchKeyword2)
+ *
+ * GET /api/tour/keyword?keyword=경복궁&areaCode=1&pageNo=2
+ *
+ * @see {@link /lib/api/tour-api.ts} - searchKeywordWithPagination
+ */
+export const GET = createTourProxyHandler({
+  schema: z.object({
+    keyword: z.string().trim().min(1).max(100),
+    areaCode: codeParam.optional(),
+    sigunguCode: codeParam.optional(),
+    contentTypeId: codeParam.optional(),
+    cat1: codeParam.optional(),
+    cat2: codeParam.optional(),
+    cat3: codeParam.optional(),
+    arrange: arrangeParam.optional(),
+    ...pagingParams,
+  }),
+  cacheStrategy: "searchKeyword",
+  handler: searchKeywordWithPagination,
+});
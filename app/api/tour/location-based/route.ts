@@ -0,0 +1,24 @@
+import { z } from "zod";
+import { getLocationBasedList } from "@/lib/api/tour-api";
+import { arrangeParam, codeParam, createTourProxyHandler, pagingParams } from "@/lib/api/tour-proxy";
+import { LOCATION_RADIUS } from "@/lib/types/tour";
+
+/**
+ * 위치 기반 관광지 목록 프록시 API (locationBasedList2)
+ *
+ * GET /api/tour/location-based?mapX=126.98&mapY=37.57&radius=5000&arrange=E&pageNo=2
+ *
+ * @see {@link /lib/api/tour-api.ts} - getLocationBasedList
+ */
+export const GET = createTourProxyHandler({
+  schema: z.object({
+    mapX: z.coerce.number().min(-180).max(180),
+    mapY: z.coerce.number().min(-90).max(90),
+    radius: z.coerce.number().int().min(1).max(LOCATION_RADIUS.MAX).optional(),
+    contentTypeId: codeParam.optional(),
+    arrange: arrangeParam.optional(),
+    ...pagingParams,
+  }),
+  cacheStrategy: "locationBasedList",
+  handler: getLocationBasedList,
+});
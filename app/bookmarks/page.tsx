@@ -18,6 +18,9 @@ import { redirect } from "next/navigation";
 import { Suspense } from "react";
 import BookmarkList from "@/components/bookmarks/bookmark-list";
 import { Skeleton } from "@/components/ui/skeleton";
+import { localizePath } from "@/lib/i18n/config";
+import { MESSAGES } from "@/lib/i18n/messages";
+import { getLocale } from "@/lib/i18n/server";
 
 /**
  * 북마크 페이지 로딩 스켈레톤
@@ -41,14 +44,17 @@ function BookmarksSkeleton() {
 export default async function BookmarksPage() {
   // 인증 확인
   const { userId } = await auth();
+  const locale = await getLocale();
   if (!userId) {
-    redirect("/sign-in");
+    redirect(localizePath("/sign-in", locale));
   }
 
   return (
     <main className="min-h-[calc(100vh-4rem)]">
       <div className="container max-w-7xl mx-auto px-4 py-8">
-        <h1 className="text-3xl font-bold mb-6">내 북마크</h1>
+        <h1 className="text-3xl font-bold mb-6">
+          {MESSAGES[locale].bookmarks.pageTitle}
+        </h1>
         <Suspense fallback={<BookmarksSkeleton />}>
           <BookmarkList />
         </Suspense>
@@ -23,6 +23,9 @@ import Link from "next/link";
 import { AlertCircle, RefreshCw, Home } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { BugReportButton } from "@/components/feedback/bug-report-button";
+import { getRecoveryAction } from "@/components/ui/error";
+import { toTourApiErrorInfo } from "@/lib/api/tour-api-errors";
+import { useI18n } from "@/hooks/use-i18n";
 import * as Sentry from "@sentry/nextjs";
 
 interface ErrorProps {
@@ -34,6 +37,8 @@ interface ErrorProps {
  * 세그먼트별 에러 바운더리 컴포넌트
  */
 export default function Error({ error, reset }: ErrorProps) {
+  const { messages, localizePath } = useI18n();
+
   useEffect(() => {
     // 에러 로깅 (개발 환경에서 상세 정보 표시)
     if (process.env.NODE_ENV === "development") {
@@ -60,19 +65,13 @@ export default function Error({ error, reset }: ErrorProps) {
     }
   }, [error]);
 
-  // 에러 타입에 따른 메시지 결정
-  const getErrorMessage = () => {
-    if (error.message.includes("Rate Limit") || error.message.includes("429")) {
-      return "요청이 너무 많습니다. 잠시 후 다시 시도해주세요.";
-    }
-    if (error.message.includes("network") || error.message.includes("fetch")) {
-      return "네트워크 연결을 확인해주세요.";
-    }
-    if (error.message.includes("404") || error.message.includes("Not Found")) {
-      return "요청한 데이터를 찾을 수 없습니다.";
-    }
-    return "예기치 않은 오류가 발생했습니다. 잠시 후 다시 시도해주세요.";
-  };
+  // Tour API 에러는 에러 종류에 맞는 메시지와 복구 방법 사용
+  // (서버 컴포넌트 에러는 프로덕션에서 메시지가 제거되므로 일반 메시지 표시)
+  const tourApiError = toTourApiErrorInfo(error);
+  const recoveryAction = getRecoveryAction(tourApiError);
+  const errorMessage = tourApiError
+    ? messages.tourApiErrors[tourApiError.kind] || tourApiError.message
+    : messages.errorPage.description;
 
   return (
     <main className="min-h-[calc(100vh-4rem)]">
@@ -85,18 +84,18 @@ export default function Error({ error, reset }: ErrorProps) {
 
           {/* 제목 */}
           <h1 className="text-3xl md:text-4xl font-bold text-destructive mb-4">
-            오류가 발생했습니다
+            {messages.errorPage.title}
           </h1>
 
           {/* 에러 메시지 */}
           <div className="space-y-2 mb-8 text-center max-w-md">
             <p className="text-base text-muted-foreground">
-              {getErrorMessage()}
+              {errorMessage}
             </p>
             {process.env.NODE_ENV === "development" && error.message && (
               <details className="mt-4 text-left">
                 <summary className="text-sm text-muted-foreground cursor-pointer hover:text-foreground">
-                  상세 정보 (개발 모드)
+                  {messages.common.devDetails}
                 </summary>
                 <pre className="mt-2 p-4 bg-muted rounded-lg text-xs overflow-auto max-w-md">
                   {error.message}
@@ -108,14 +107,16 @@ export default function Error({ error, reset }: ErrorProps) {
 
           {/* 액션 버튼 */}
           <div className="flex flex-col sm:flex-row items-center gap-4">
-            <Button onClick={reset} size="lg">
-              <RefreshCw className="w-4 h-4 mr-2" />
-              다시 시도
-            </Button>
+            {(recoveryAction === "retry" || recoveryAction === "wait") && (
+              <Button onClick={reset} size="lg">
+                <RefreshCw className="w-4 h-4 mr-2" />
+                {messages.common.retry}
+              </Button>
+            )}
             <Button asChild variant="outline" size="lg">
-              <Link href="/">
+              <Link href={localizePath("/")}>
                 <Home className="w-4 h-4 mr-2" />
-                홈으로 돌아가기
+                {messages.common.backToHome}
               </Link>
             </Button>
             <BugReportButton
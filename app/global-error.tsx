@@ -23,6 +23,9 @@
 
 import { useEffect } from "react";
 import { BugReportButton } from "@/components/feedback/bug-report-button";
+import { I18nProvider } from "@/components/providers/i18n-provider";
+import { DEFAULT_LOCALE, localizePath, splitLocalePath } from "@/lib/i18n/config";
+import { MESSAGES } from "@/lib/i18n/messages";
 import * as Sentry from "@sentry/nextjs";
 
 interface GlobalErrorProps {
@@ -35,6 +38,13 @@ interface GlobalErrorProps {
  * html, body 태그를 포함해야 함 (root layout을 대체)
  */
 export default function GlobalError({ error, reset }: GlobalErrorProps) {
+  // root layout의 I18nProvider를 사용할 수 없으므로 URL 경로에서 언어를 직접 결정
+  const locale =
+    typeof window !== "undefined"
+      ? splitLocalePath(window.location.pathname).locale
+      : DEFAULT_LOCALE;
+  const messages = MESSAGES[locale];
+
   useEffect(() => {
     // 에러 로깅
     console.error("전역 에러 발생:", {
@@ -57,84 +67,86 @@ export default function GlobalError({ error, reset }: GlobalErrorProps) {
   }, [error]);
 
   return (
-    <html lang="ko">
+    <html lang={locale}>
       <body className="antialiased">
-        <div className="min-h-screen flex items-center justify-center bg-background p-4">
-          <div className="max-w-md w-full space-y-6 text-center">
-            {/* 에러 아이콘 */}
-            <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-destructive/10">
-              <svg
-                className="w-8 h-8 text-destructive"
-                fill="none"
-                viewBox="0 0 24 24"
-                stroke="currentColor"
-                aria-hidden="true"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
-                />
-              </svg>
-            </div>
+        <I18nProvider locale={locale} messages={messages}>
+          <div className="min-h-screen flex items-center justify-center bg-background p-4">
+            <div className="max-w-md w-full space-y-6 text-center">
+              {/* 에러 아이콘 */}
+              <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-destructive/10">
+                <svg
+                  className="w-8 h-8 text-destructive"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                  aria-hidden="true"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+                  />
+                </svg>
+              </div>
 
-            {/* 제목 */}
-            <h1 className="text-2xl font-bold text-foreground">
-              예기치 않은 오류가 발생했습니다
-            </h1>
+              {/* 제목 */}
+              <h1 className="text-2xl font-bold text-foreground">
+                {messages.globalError.title}
+              </h1>
 
-            {/* 메시지 */}
-            <p className="text-muted-foreground">
-              애플리케이션에서 심각한 오류가 발생했습니다.
-              <br />
-              페이지를 새로고침하거나 잠시 후 다시 시도해주세요.
-            </p>
+              {/* 메시지 */}
+              <p className="text-muted-foreground">
+                {messages.globalError.description}
+                <br />
+                {messages.globalError.hint}
+              </p>
 
-            {/* 재시도 버튼 */}
-            <div className="flex flex-col gap-3">
-              <button
-                onClick={reset}
-                className="px-6 py-3 bg-primary text-primary-foreground rounded-lg font-medium hover:bg-primary/90 transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
-              >
-                다시 시도
-              </button>
-              <button
-                onClick={() => {
-                  window.location.href = "/";
-                }}
-                className="px-6 py-3 border border-border rounded-lg font-medium hover:bg-muted transition-colors focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
-              >
-                홈으로 돌아가기
-              </button>
-              <div className="flex justify-center">
-                <BugReportButton
-                  size="lg"
-                  variant="outline"
-                  initialErrorStack={error.stack}
-                  initialPageUrl={
-                    typeof window !== "undefined"
-                      ? window.location.href
-                      : undefined
-                  }
-                />
+              {/* 재시도 버튼 */}
+              <div className="flex flex-col gap-3">
+                <button
+                  onClick={reset}
+                  className="px-6 py-3 bg-primary text-primary-foreground rounded-lg font-medium hover:bg-primary/90 transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
+                >
+                  {messages.common.retry}
+                </button>
+                <button
+                  onClick={() => {
+                    window.location.href = localizePath("/", locale);
+                  }}
+                  className="px-6 py-3 border border-border rounded-lg font-medium hover:bg-muted transition-colors focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                >
+                  {messages.common.backToHome}
+                </button>
+                <div className="flex justify-center">
+                  <BugReportButton
+                    size="lg"
+                    variant="outline"
+                    initialErrorStack={error.stack}
+                    initialPageUrl={
+                      typeof window !== "undefined"
+                        ? window.location.href
+                        : undefined
+                    }
+                  />
+                </div>
               </div>
-            </div>
 
-            {/* 개발 환경에서만 상세 정보 표시 */}
-            {process.env.NODE_ENV === "development" && (
-              <details className="mt-6 text-left">
-                <summary className="text-sm text-muted-foreground cursor-pointer hover:text-foreground mb-2">
-                  상세 정보 (개발 모드)
-                </summary>
-                <pre className="p-4 bg-muted rounded-lg text-xs overflow-auto max-h-64">
-                  {error.message}
-                  {error.stack && `\n\n${error.stack}`}
-                </pre>
-              </details>
-            )}
+              {/* 개발 환경에서만 상세 정보 표시 */}
+              {process.env.NODE_ENV === "development" && (
+                <details className="mt-6 text-left">
+                  <summary className="text-sm text-muted-foreground cursor-pointer hover:text-foreground mb-2">
+                    {messages.common.devDetails}
+                  </summary>
+                  <pre className="p-4 bg-muted rounded-lg text-xs overflow-auto max-h-64">
+                    {error.message}
+                    {error.stack && `\n\n${error.stack}`}
+                  </pre>
+                </details>
+              )}
+            </div>
           </div>
-        </div>
+        </I18nProvider>
       </body>
     </html>
   );
@@ -6,7 +6,11 @@ import Navbar from "@/components/Navbar";
 import Footer from "@/components/Footer";
 import { SyncUserProvider } from "@/components/providers/sync-user-provider";
 import { ThemeProvider } from "@/components/providers/theme-provider";
-import { clerkLocalization } from "@/lib/clerk/localization";
+import { I18nProvider } from "@/components/providers/i18n-provider";
+import { getClerkLocalization } from "@/lib/clerk/localization";
+import { LOCALE_INFO, localizePath } from "@/lib/i18n/config";
+import { MESSAGES } from "@/lib/i18n/messages";
+import { getLocale } from "@/lib/i18n/server";
 import { Toaster } from "@/components/ui/sonner";
 import { WebVitalsReporter } from "@/components/analytics/web-vitals-reporter";
 import "./globals.css";
@@ -39,71 +43,82 @@ function getSiteUrl(): string {
 
 const siteUrl = getSiteUrl();
 
-export const metadata: Metadata = {
-  metadataBase: new URL(siteUrl),
-  title: {
-    default: "My Trip - 한국 관광지 정보 서비스",
-    template: "%s | My Trip",
-  },
-  description: "한국관광공사 공공 API를 활용한 전국 관광지 정보 검색 서비스",
-  keywords: ["관광지", "여행", "한국", "관광 정보", "My Trip"],
-  authors: [{ name: "My Trip" }],
-  creator: "My Trip",
-  publisher: "My Trip",
-  robots: {
-    index: true,
-    follow: true,
-    googleBot: {
+/**
+ * 사이트 기본 메타데이터 (현재 언어의 카탈로그 사용)
+ */
+export async function generateMetadata(): Promise<Metadata> {
+  const locale = await getLocale();
+  const messages = MESSAGES[locale];
+  const localizedUrl = new URL(localizePath("/", locale), siteUrl).toString();
+
+  return {
+    metadataBase: new URL(siteUrl),
+    title: {
+      default: messages.meta.title,
+      template: "%s | My Trip",
+    },
+    description: messages.meta.description,
+    keywords: messages.meta.keywords,
+    authors: [{ name: "My Trip" }],
+    creator: "My Trip",
+    publisher: "My Trip",
+    robots: {
       index: true,
       follow: true,
-      "max-video-preview": -1,
-      "max-image-preview": "large",
-      "max-snippet": -1,
-    },
-  },
-  openGraph: {
-    type: "website",
-    locale: "ko_KR",
-    url: siteUrl,
-    siteName: "My Trip",
-    title: "My Trip - 한국 관광지 정보 서비스",
-    description: "한국관광공사 공공 API를 활용한 전국 관광지 정보 검색 서비스",
-    images: [
-      {
-        url: "/og-image.png",
-        width: 1200,
-        height: 630,
-        alt: "My Trip - 한국 관광지 정보 서비스",
+      googleBot: {
+        index: true,
+        follow: true,
+        "max-video-preview": -1,
+        "max-image-preview": "large",
+        "max-snippet": -1,
       },
-    ],
-  },
-  twitter: {
-    card: "summary_large_image",
-    title: "My Trip - 한국 관광지 정보 서비스",
-    description: "한국관광공사 공공 API를 활용한 전국 관광지 정보 검색 서비스",
-    images: ["/og-image.png"],
-    creator: "@mytrip", // 실제 Twitter 계정이 있으면 업데이트
-  },
-  alternates: {
-    canonical: siteUrl,
-  },
-  verification: {
-    // Google Search Console, Naver Search Advisor 등 검증 코드 추가 가능
-    // google: "your-google-verification-code",
-    // other: {
-    //   "naver-site-verification": "your-naver-verification-code",
-    // },
-  },
-};
+    },
+    openGraph: {
+      type: "website",
+      locale: LOCALE_INFO[locale].ogLocale,
+      url: localizedUrl,
+      siteName: "My Trip",
+      title: messages.meta.title,
+      description: messages.meta.description,
+      images: [
+        {
+          url: "/og-image.png",
+          width: 1200,
+          height: 630,
+          alt: messages.meta.title,
+        },
+      ],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: messages.meta.title,
+      description: messages.meta.description,
+      images: ["/og-image.png"],
+      creator: "@mytrip", // 실제 Twitter 계정이 있으면 업데이트
+    },
+    alternates: {
+      canonical: localizedUrl,
+    },
+    verification: {
+      // Google Search Console, Naver Search Advisor 등 검증 코드 추가 가능
+      // google: "your-google-verification-code",
+      // other: {
+      //   "naver-site-verification": "your-naver-verification-code",
+      // },
+    },
+  };
+}
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await getLocale();
+
   return (
-    <ClerkProvider localization={clerkLocalization}>
-      <html lang="ko" suppressHydrationWarning>
+    <ClerkProvider localization={getClerkLocalization(locale)}>
+      <html lang={locale} suppressHydrationWarning>
         <body
           className={`${geistSans.variable} ${geistMono.variable} antialiased`}
         >
@@ -113,13 +128,15 @@ export default function RootLayout({
             enableSystem
             disableTransitionOnChange
           >
-            <SyncUserProvider>
-              <WebVitalsReporter />
-              <Navbar />
-              {children}
-              <Footer />
-              <Toaster />
-            </SyncUserProvider>
+            <I18nProvider locale={locale} messages={MESSAGES[locale]}>
+              <SyncUserProvider>
+                <WebVitalsReporter />
+                <Navbar />
+                {children}
+                <Footer />
+                <Toaster />
+              </SyncUserProvider>
+            </I18nProvider>
           </ThemeProvider>
         </body>
       </html>
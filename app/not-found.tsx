@@ -17,11 +17,18 @@
 import Link from "next/link";
 import { Home, Search, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { localizePath } from "@/lib/i18n/config";
+import { MESSAGES } from "@/lib/i18n/messages";
+import { getLocale } from "@/lib/i18n/server";
 
 /**
  * 404 Not Found 페이지 컴포넌트
  */
-export default function NotFound() {
+export default async function NotFound() {
+  const locale = await getLocale();
+  const messages = MESSAGES[locale];
+  const homePath = localizePath("/", locale);
+
   return (
     <main className="min-h-[calc(100vh-4rem)]">
       <div className="container max-w-7xl mx-auto px-4 py-8">
@@ -38,26 +45,26 @@ export default function NotFound() {
 
           {/* 메시지 */}
           <h2 className="text-2xl font-semibold text-foreground mb-2">
-            페이지를 찾을 수 없습니다
+            {messages.notFound.title}
           </h2>
           <p className="text-muted-foreground text-center mb-8 max-w-md">
-            요청하신 페이지가 존재하지 않거나 이동되었을 수 있습니다.
+            {messages.notFound.description}
             <br />
-            URL을 확인하시거나 홈으로 돌아가시기 바랍니다.
+            {messages.notFound.hint}
           </p>
 
           {/* 액션 버튼 */}
           <div className="flex flex-col sm:flex-row items-center gap-4">
             <Button asChild size="lg">
-              <Link href="/">
+              <Link href={homePath}>
                 <Home className="w-4 h-4 mr-2" />
-                홈으로 돌아가기
+                {messages.common.backToHome}
               </Link>
             </Button>
             <Button asChild variant="outline" size="lg">
-              <Link href="/">
+              <Link href={homePath}>
                 <Search className="w-4 h-4 mr-2" />
-                관광지 검색하기
+                {messages.notFound.search}
               </Link>
             </Button>
           </div>
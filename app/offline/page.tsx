@@ -21,12 +21,14 @@ import { useRouter } from "next/navigation";
 import { WifiOff, RefreshCw, Home } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
+import { useI18n } from "@/hooks/use-i18n";
 
 /**
  * 오프라인 페이지 컴포넌트
  */
 export default function OfflinePage() {
   const router = useRouter();
+  const { messages, localizePath } = useI18n();
   const [isOnline, setIsOnline] = useState(false);
 
   // 온라인 상태 확인
@@ -73,30 +75,30 @@ export default function OfflinePage() {
 
           {/* 제목 */}
           <h1 className="text-4xl md:text-5xl font-bold text-foreground mb-4">
-            오프라인 상태
+            {messages.offline.title}
           </h1>
 
           {/* 메시지 */}
           <h2 className="text-2xl font-semibold text-foreground mb-2">
-            인터넷 연결을 확인해주세요
+            {messages.offline.heading}
           </h2>
           <p className="text-muted-foreground text-center mb-4 max-w-md">
-            현재 인터넷에 연결되어 있지 않습니다.
+            {messages.offline.description}
             <br />
-            네트워크 연결을 확인한 후 다시 시도해주세요.
+            {messages.offline.hint}
           </p>
           <p className="text-sm text-muted-foreground text-center mb-8 max-w-md">
-            일부 캐시된 콘텐츠는 오프라인에서도 사용할 수 있습니다.
+            {messages.offline.cached}
           </p>
 
           {/* 상태 표시 */}
           {isOnline ? (
             <div className="mb-6 px-4 py-2 rounded-md bg-green-500/10 text-green-600 dark:text-green-400 text-sm">
-              연결이 복구되었습니다. 페이지를 새로고침합니다...
+              {messages.offline.reconnected}
             </div>
           ) : (
             <div className="mb-6 px-4 py-2 rounded-md bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 text-sm">
-              오프라인 상태입니다.
+              {messages.offline.status}
             </div>
           )}
 
@@ -104,12 +106,12 @@ export default function OfflinePage() {
           <div className="flex flex-col sm:flex-row items-center gap-4">
             <Button onClick={handleRetry} size="lg" disabled={!isOnline}>
               <RefreshCw className="w-4 h-4 mr-2" />
-              다시 시도
+              {messages.common.retry}
             </Button>
             <Button asChild variant="outline" size="lg">
-              <Link href="/">
+              <Link href={localizePath("/")}>
                 <Home className="w-4 h-4 mr-2" />
-                홈으로 돌아가기
+                {messages.common.backToHome}
               </Link>
             </Button>
           </div>
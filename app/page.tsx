@@ -9,22 +9,45 @@
  * - 관광지 목록 조회 및 표시
  * - 네이버 지도 연동
  * - 무한 스크롤
- * - 필터 기능 (지역, 관광 타입, 정렬)
+ * - 필터 기능 (지역, 시/군/구, 관광 타입, 서비스 분류, 정렬)
+ * - 지역/관광 타입 다중 선택 (조합별 조회 결과를 정렬 순서대로 병합)
+ * - 서버 사이드 정렬 (API arrange 파라미터, 이미지 있는 항목만 보기)
+ * - 내 주변 관광지 조회 (위치 기반, 거리 표시)
+ * - 축제/행사 기간 검색
  * - 관광지 상세 페이지 이동
+ * - 현재 언어(경로 접두사)의 관광 정보 서비스로 조회 (지역명, 관광지명 등)
  *
  * @see {@link /docs/PRD.md} - MVP 2.1 관광지 목록, MVP 2.2 네이버 지도 연동
  */
 
 import { Suspense } from "react";
 import {
+  getArrangeFromSort,
   getAreaBasedListWithPagination,
   getAreaCode,
+  getLocationBasedList,
+  runWithTourLanguage,
+  searchFestival,
   searchKeywordWithPagination,
+  trackStaleResponses,
 } from "@/lib/api/tour-api";
 import TourListContainer from "@/components/tour-list-container";
 import TourFilters from "@/components/tour-filters";
 import TourSearch from "@/components/tour-search";
+import { LOCATION_RADIUS } from "@/lib/types/tour";
+import { isApiDate } from "@/lib/utils/date-utils";
+import { normalizeTourApiError } from "@/lib/api/tour-api-errors";
+import type { TourApiErrorInfo } from "@/lib/api/tour-api-errors";
+import {
+  createMergedListState,
+  fetchMergedPage,
+  parseMultiValue,
+} from "@/lib/utils/merged-pagination";
+import type { MergedListState, MergedQueryFetcher } from "@/lib/utils/merged-pagination";
 import { Skeleton } from "@/components/ui/skeleton";
+import { LOCALE_INFO, formatMessage } from "@/lib/i18n/config";
+import { MESSAGES } from "@/lib/i18n/messages";
+import { getLocale } from "@/lib/i18n/server";
 
 /**
  * 로딩 스켈레톤 컴포넌트
@@ -58,10 +81,53 @@ export default async function Home({
   // URL 쿼리 파라미터 읽기
   const params = await searchParams;
   const keyword = typeof params.keyword === "string" ? params.keyword : undefined;
-  const areaCode = typeof params.areaCode === "string" ? params.areaCode : undefined;
+  // 지역/관광 타입은 쉼표로 구분해 여러 개 선택 가능 (예: areaCode=1,6)
+  const selectedAreaCodes = parseMultiValue(params.areaCode);
+  const selectedContentTypeIds = parseMultiValue(params.contentTypeId);
+  const areaCode = selectedAreaCodes.length === 1 ? selectedAreaCodes[0] : undefined;
   const contentTypeId =
-    typeof params.contentTypeId === "string" ? params.contentTypeId : undefined;
-  const sort = typeof params.sort === "string" ? params.sort : "latest";
+    selectedContentTypeIds.length === 1 ? selectedContentTypeIds[0] : undefined;
+  // 시/군/구 코드는 시/도 코드가 하나일 때만 유효
+  const sigunguCode =
+    areaCode && typeof params.sigunguCode === "string" ? params.sigunguCode : undefined;
+  const cat1 = typeof params.cat1 === "string" ? params.cat1 : undefined;
+  // 중분류/소분류는 상위 분류가 있을 때만 유효
+  const cat2 = cat1 && typeof params.cat2 === "string" ? params.cat2 : undefined;
+  const cat3 = cat2 && typeof params.cat3 === "string" ? params.cat3 : undefined;
+  const mapX = typeof params.mapX === "string" ? params.mapX : undefined;
+  const mapY = typeof params.mapY === "string" ? params.mapY : undefined;
+  const radius =
+    typeof params.radius === "string" && !isNaN(Number(params.radius))
+      ? Number(params.radius)
+      : LOCATION_RADIUS.DEFAULT;
+  const isKeywordMode = Boolean(keyword && keyword.trim().length > 0);
+  const isNearbyMode = !isKeywordMode && Boolean(mapX && mapY);
+  const eventStartDate =
+    typeof params.eventStartDate === "string" ? params.eventStartDate : undefined;
+  const eventEndDate =
+    typeof params.eventEndDate === "string" && isApiDate(params.eventEndDate)
+      ? params.eventEndDate
+      : undefined;
+  const isFestivalMode = !isKeywordMode && !isNearbyMode && isApiDate(eventStartDate);
+  // 목록 모드에 따라 호출할 API (에러 정보의 엔드포인트에도 사용)
+  const listEndpoint = isKeywordMode
+    ? "searchKeyword2"
+    : isNearbyMode
+      ? "locationBasedList2"
+      : isFestivalMode
+        ? "searchFestival2"
+        : "areaBasedList2";
+  const sort = typeof params.sort === "string" ? params.sort : undefined;
+  const imageOnly = params.imageOnly === "true";
+  // 정렬은 API arrange 파라미터로 서버에서 처리 (무한 스크롤 시에도 순서 유지)
+  const arrange = getArrangeFromSort(sort, { imageOnly, isLocationMode: isNearbyMode });
+  // 다중 선택 시 조합별로 나눠 조회 (위치 기반은 지역, 축제는 타입 조건을 지원하지 않음)
+  const mergeAreaCodes = isNearbyMode ? [] : selectedAreaCodes;
+  const mergeContentTypeIds = isFestivalMode ? [] : selectedContentTypeIds;
+  const isMergedMode = mergeAreaCodes.length > 1 || mergeContentTypeIds.length > 1;
+  // 현재 언어 (지역명, 관광지 목록을 해당 언어 서비스로 조회)
+  const language = await getLocale();
+  const messages = MESSAGES[language];
 
   let initialTours = [];
   let initialPagination = {
@@ -70,49 +136,114 @@ export default async function Home({
     totalCount: 0,
     totalPages: 0,
   };
-  let initialError: Error | null = null;
+  // 클라이언트 컴포넌트로 전달되므로 직렬화 가능한 에러 정보로 보관
+  let initialError: TourApiErrorInfo | null = null;
+  let initialMergedState: MergedListState | undefined;
+  let initialStaleSince: string | null = null;
   let areaCodes: Array<{ code: string; name: string }> = [];
+  let sigunguCodes: Array<{ code: string; name: string }> = [];
 
   try {
     // 지역 코드 목록 조회 (필터용)
-    areaCodes = await getAreaCode();
+    areaCodes = await runWithTourLanguage(language, () => getAreaCode());
   } catch (err: unknown) {
     console.error("지역 코드 조회 실패:", err);
     // 지역 코드 조회 실패해도 계속 진행
   }
 
-  try {
-    // 검색어가 있으면 검색 API, 없으면 일반 목록 API 사용
-    let result;
-    if (keyword && keyword.trim().length > 0) {
+  if (areaCode && !isNearbyMode) {
+    try {
+      // 선택한 시/도의 시/군/구 코드 목록 조회 (필터용)
+      sigunguCodes = await runWithTourLanguage(language, () => getAreaCode(areaCode));
+    } catch (err: unknown) {
+      console.error("시/군/구 코드 조회 실패:", err);
+      // 시/군/구 코드 조회 실패해도 계속 진행
+    }
+  }
+
+  // 조회 조건(지역 코드, 콘텐츠 타입)별 한 페이지 조회 (모드에 따라 API 선택)
+  const fetchTourPage: MergedQueryFetcher = (query, pageNo, numOfRows) => {
+    if (isKeywordMode) {
       // 검색 모드
-      result = await searchKeywordWithPagination({
+      return searchKeywordWithPagination({
         keyword: keyword.trim(),
-        areaCode,
-        contentTypeId,
-        numOfRows: 10,
-        pageNo: 1,
+        areaCode: query.areaCode,
+        sigunguCode,
+        contentTypeId: query.contentTypeId,
+        cat1,
+        cat2,
+        cat3,
+        arrange,
+        numOfRows,
+        pageNo,
+      });
+    }
+    if (isNearbyMode) {
+      // 내 주변 모드 (위치 기반, 지역/분류 조건은 지원하지 않으므로 필터에서도 해제된 것으로 표시)
+      return getLocationBasedList({
+        mapX,
+        mapY,
+        radius,
+        contentTypeId: query.contentTypeId,
+        arrange,
+        numOfRows,
+        pageNo,
       });
-    } else {
-      // 일반 모드
-      result = await getAreaBasedListWithPagination({
-        areaCode,
-        contentTypeId,
-        numOfRows: 10,
-        pageNo: 1,
+    }
+    if (isFestivalMode) {
+      // 축제 기간 모드
+      return searchFestival({
+        eventStartDate,
+        eventEndDate,
+        areaCode: query.areaCode,
+        sigunguCode,
+        arrange,
+        numOfRows,
+        pageNo,
       });
     }
+    // 일반 모드
+    return getAreaBasedListWithPagination({
+      areaCode: query.areaCode,
+      sigunguCode,
+      contentTypeId: query.contentTypeId,
+      cat1,
+      cat2,
+      cat3,
+      arrange,
+      numOfRows,
+      pageNo,
+    });
+  };
+
+  try {
+    // API 장애로 저장된 응답을 받았는지 함께 확인 (안내 배너 표시용)
+    const { result, staleSince } = await trackStaleResponses(() =>
+      runWithTourLanguage(language, async () => {
+        if (isMergedMode) {
+          // 다중 선택 모드 (조합별 조회 결과 병합)
+          const merged = await fetchMergedPage(
+            createMergedListState({
+              areaCodes: mergeAreaCodes,
+              contentTypeIds: mergeContentTypeIds,
+              numOfRows: 10,
+            }),
+            fetchTourPage,
+            arrange
+          );
+          initialMergedState = merged.state;
+          return merged;
+        }
+        return fetchTourPage({ areaCode, contentTypeId }, 1, 10);
+      })
+    );
+    initialStaleSince = staleSince;
 
     initialTours = result.items;
     initialPagination = result.pagination;
   } catch (err: unknown) {
     console.error("관광지 목록 조회 실패:", err);
-    if (err instanceof Error) {
-      initialError = err;
-    } else {
-      const errorMessage = err ? String(err) : "Unknown error";
-      initialError = new Error(errorMessage);
-    }
+    initialError = normalizeTourApiError(err, listEndpoint).toJSON();
   }
 
   return (
@@ -121,10 +252,10 @@ export default async function Home({
       <section className="container max-w-7xl mx-auto px-4 py-12 md:py-16">
         <div className="text-center space-y-4">
           <h1 className="text-4xl md:text-5xl font-bold tracking-tight">
-            한국의 아름다운 관광지를 탐험하세요
+            {messages.home.heroTitle}
           </h1>
           <p className="text-lg md:text-xl text-muted-foreground max-w-2xl mx-auto">
-            전국 관광지 정보를 한눈에 확인하고, 지도로 위치를 찾아보세요
+            {messages.home.heroDescription}
           </p>
         </div>
 
@@ -139,8 +270,10 @@ export default async function Home({
         {keyword && keyword.trim().length > 0 && (
           <div className="mt-6 text-center">
             <p className="text-sm text-muted-foreground">
-              <span className="font-semibold text-foreground">&quot;{keyword}&quot;</span> 검색
-              결과: {initialPagination.totalCount.toLocaleString()}개
+              <span className="font-semibold text-foreground">&quot;{keyword}&quot;</span>{" "}
+              {formatMessage(messages.home.searchResultCount, {
+                count: initialPagination.totalCount.toLocaleString(LOCALE_INFO[language].intlLocale),
+              })}
             </p>
           </div>
         )}
@@ -148,7 +281,7 @@ export default async function Home({
 
       {/* 필터 컴포넌트 (useSearchParams 사용하므로 Suspense 필요) */}
       <Suspense fallback={<div className="h-20 border-b border-border" />}>
-        <TourFilters areaCodes={areaCodes} isLoading={false} />
+        <TourFilters areaCodes={areaCodes} sigunguCodes={sigunguCodes} isLoading={false} />
       </Suspense>
 
       <Suspense fallback={<HomePageSkeleton />}>
@@ -157,10 +290,18 @@ export default async function Home({
             initialTours={initialTours}
             initialPagination={initialPagination}
             initialError={initialError}
+            initialStaleSince={initialStaleSince}
             searchKeyword={keyword}
             areaCode={areaCode}
+            sigunguCode={sigunguCode}
             contentTypeId={contentTypeId}
-            sort={sort}
+            cat1={cat1}
+            cat2={cat2}
+            cat3={cat3}
+            location={isNearbyMode ? { mapX, mapY, radius } : undefined}
+            festival={isFestivalMode ? { eventStartDate, eventEndDate } : undefined}
+            initialMergedState={initialMergedState}
+            arrange={arrange}
           />
         </div>
       </Suspense>
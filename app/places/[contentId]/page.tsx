@@ -8,9 +8,11 @@
  * 주요 기능:
  * - 동적 라우팅 (/places/[contentId])
  * - 기본 정보 표시 (이름, 이미지, 주소, 전화번호, 홈페이지, 개요)
+ * - 반복 정보 표시 (숙박 객실, 여행코스 경유지, 추가 정보)
  * - 에러 처리 (404, API 에러)
  * - 로딩 상태 (Suspense + Skeleton UI)
  * - Open Graph 메타태그 (SEO 최적화)
+ * - 현재 언어(경로 접두사)의 관광 정보 서비스로 조회 (번역이 없으면 한국어 정보 표시)
  *
  * @see {@link /docs/PRD.md} - MVP 2.4.1 기본 정보 섹션, MVP 2.4.5 공유 기능
  * @see {@link /docs/DESIGN.md} - 상세페이지 레이아웃
@@ -24,16 +26,30 @@ import { headers } from "next/headers";
 import {
   getDetailCommon,
   getDetailIntro,
+  getDetailInfo,
   getDetailImage,
   getDetailPetTour,
+  runWithTourLanguage,
+  trackStaleResponses,
 } from "@/lib/api/tour-api";
 import DetailInfo from "@/components/tour-detail/detail-info";
 import DetailIntro from "@/components/tour-detail/detail-intro";
+import DetailRooms from "@/components/tour-detail/detail-rooms";
+import DetailCourse from "@/components/tour-detail/detail-course";
+import DetailExtraInfo from "@/components/tour-detail/detail-extra-info";
 import DetailMap from "@/components/tour-detail/detail-map";
 import DetailPetTour from "@/components/tour-detail/detail-pet-tour";
 import DetailRecommendations from "@/components/tour-detail/detail-recommendations";
+import StaleDataBanner from "@/components/stale-data-banner";
+import TranslationFallbackNotice from "@/components/tour-detail/translation-fallback-notice";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Error as ErrorComponent } from "@/components/ui/error";
+import { normalizeTourApiError } from "@/lib/api/tour-api-errors";
+import type { TourApiErrorInfo } from "@/lib/api/tour-api-errors";
+import type { CourseStop, TourRepeatInfo } from "@/lib/types/tour";
+import { LOCALE_INFO, formatMessage, localizePath } from "@/lib/i18n/config";
+import { MESSAGES } from "@/lib/i18n/messages";
+import { getLocale } from "@/lib/i18n/server";
 
 // 이미지 갤러리 컴포넌트를 동적 import로 로드 (swiper 라이브러리 크기 최적화)
 const DetailGallery = dynamic(() => import("@/components/tour-detail/detail-gallery"), {
@@ -58,15 +74,17 @@ export async function generateMetadata({
   params,
 }: PlaceDetailPageProps): Promise<Metadata> {
   const { contentId } = await params;
+  const language = await getLocale();
+  const messages = MESSAGES[language];
 
   try {
-    // 관광지 기본 정보 조회
-    const detail = await getDetailCommon({ contentId });
+    // 관광지 기본 정보 조회 (선택한 언어, 번역이 없으면 한국어)
+    const detail = await runWithTourLanguage(language, () => getDetailCommon({ contentId }));
 
     if (!detail) {
       return {
-        title: "관광지 정보를 찾을 수 없습니다",
-        description: "요청하신 관광지 정보를 찾을 수 없습니다.",
+        title: messages.detail.notFoundTitle,
+        description: messages.detail.notFoundDescription,
       };
     }
 
@@ -75,10 +93,11 @@ export async function generateMetadata({
     const host = headersList.get("host") || "localhost:3000";
     const protocol = process.env.NODE_ENV === "production" ? "https" : "http";
     const baseUrl = `${protocol}://${host}`;
-    const pageUrl = `${baseUrl}/places/${contentId}`;
+    const pageUrl = `${baseUrl}${localizePath(`/places/${contentId}`, language)}`;
 
     // 설명 텍스트 준비 (100자 이내)
-    let description = detail.overview || `${detail.title} 관광지 정보`;
+    let description =
+      detail.overview || formatMessage(messages.detail.defaultDescription, { title: detail.title });
     if (description.length > 100) {
       description = description.substring(0, 97) + "...";
     }
@@ -90,7 +109,7 @@ export async function generateMetadata({
           url: imageUrl,
           width: 1200,
           height: 630,
-          alt: `${detail.title} 대표 이미지`,
+          alt: formatMessage(messages.detail.mainImageAlt, { title: detail.title }),
         }
       : undefined;
 
@@ -103,7 +122,7 @@ export async function generateMetadata({
         url: pageUrl,
         siteName: "My Trip",
         images: ogImage ? [ogImage] : [],
-        locale: "ko_KR",
+        locale: LOCALE_INFO[detail.language ?? language].ogLocale,
         type: "website",
       },
       twitter: {
@@ -116,13 +135,33 @@ export async function generateMetadata({
   } catch (error) {
     console.error("메타데이터 생성 실패:", error);
     return {
-      title: "관광지 정보 - My Trip",
-      description:
-        "한국관광공사 공공 API를 활용한 전국 관광지 정보 검색 서비스",
+      title: `${messages.detail.fallbackTitle} - My Trip`,
+      description: messages.meta.description,
     };
   }
 }
 
+/**
+ * 여행코스 경유지에 좌표 보강
+ * detailInfo2 경유지 항목에는 좌표가 없으므로 경유지별 detailCommon2로 조회합니다.
+ * (조회에 실패한 경유지는 좌표 없이 유지)
+ */
+async function withStopCoordinates(stops: CourseStop[]): Promise<CourseStop[]> {
+  const results = await Promise.allSettled(
+    stops.map((stop) =>
+      stop.subcontentid ? getDetailCommon({ contentId: stop.subcontentid }) : Promise.resolve(null)
+    )
+  );
+
+  return stops.map((stop, index) => {
+    const result = results[index];
+    if (result.status === "fulfilled" && result.value?.mapx && result.value?.mapy) {
+      return { ...stop, mapx: result.value.mapx, mapy: result.value.mapy };
+    }
+    return stop;
+  });
+}
+
 /**
  * 로딩 스켈레톤 컴포넌트
  */
@@ -168,62 +207,84 @@ export default async function PlaceDetailPage({
     notFound();
   }
 
+  // 현재 언어
+  const language = await getLocale();
+  const messages = MESSAGES[language];
+
   // API 호출
   let detail;
   let intro = null;
+  let repeatInfo: TourRepeatInfo | null = null;
   let images = [];
   let petInfo = null;
-  let error: Error | null = null;
+  let error: TourApiErrorInfo | null = null;
+  let staleSince: string | null = null;
 
   try {
-    detail = await getDetailCommon({ contentId });
-
-    // 기본 정보가 있으면 운영 정보, 이미지, 반려동물 정보도 조회 (선택적)
-    if (detail) {
-      // 병렬로 운영 정보, 이미지, 반려동물 정보 조회
-      const [introResult, imagesResult, petInfoResult] =
-        await Promise.allSettled([
-          getDetailIntro({
-            contentId,
-            contentTypeId: detail.contenttypeid,
-          }),
-          getDetailImage({ contentId }),
-          getDetailPetTour({ contentId }),
-        ]);
-
-      // 운영 정보 처리
-      if (introResult.status === "fulfilled") {
-        intro = introResult.value;
-      } else {
-        console.warn("운영 정보 조회 실패 (무시됨):", introResult.reason);
-      }
+    // API 장애로 저장된 응답을 받았는지 함께 확인 (안내 배너 표시용)
+    const tracked = await trackStaleResponses(async () => {
+      detail = await runWithTourLanguage(language, () => getDetailCommon({ contentId }));
 
-      // 이미지 처리
-      if (imagesResult.status === "fulfilled") {
-        images = imagesResult.value;
-      } else {
-        console.warn("이미지 목록 조회 실패 (무시됨):", imagesResult.reason);
-      }
+      // 기본 정보가 있으면 운영 정보, 반복 정보, 이미지, 반려동물 정보도 조회 (선택적)
+      // 번역이 없어 한국어로 대체된 관광지는 나머지 정보도 한국어 서비스로 조회
+      if (detail) {
+        await runWithTourLanguage(detail.language ?? language, async () => {
+          // 병렬로 운영 정보, 반복 정보, 이미지, 반려동물 정보 조회
+          const [introResult, repeatInfoResult, imagesResult, petInfoResult] =
+            await Promise.allSettled([
+              getDetailIntro({
+                contentId,
+                contentTypeId: detail.contenttypeid,
+              }),
+              getDetailInfo({
+                contentId,
+                contentTypeId: detail.contenttypeid,
+              }),
+              getDetailImage({ contentId }),
+              getDetailPetTour({ contentId }),
+            ]);
+
+          // 운영 정보 처리
+          if (introResult.status === "fulfilled") {
+            intro = introResult.value;
+          } else {
+            console.warn("운영 정보 조회 실패 (무시됨):", introResult.reason);
+          }
+
+          // 반복 정보 처리 (여행코스는 경로 표시를 위해 경유지 좌표 보강)
+          if (repeatInfoResult.status === "fulfilled") {
+            repeatInfo = repeatInfoResult.value;
+            if (repeatInfo.kind === "course") {
+              repeatInfo = { kind: "course", items: await withStopCoordinates(repeatInfo.items) };
+            }
+          } else {
+            console.warn("반복 정보 조회 실패 (무시됨):", repeatInfoResult.reason);
+          }
 
-      // 반려동물 정보 처리
-      if (petInfoResult.status === "fulfilled") {
-        petInfo = petInfoResult.value;
-      } else {
-        console.warn("반려동물 정보 조회 실패 (무시됨):", petInfoResult.reason);
+          // 이미지 처리
+          if (imagesResult.status === "fulfilled") {
+            images = imagesResult.value;
+          } else {
+            console.warn("이미지 목록 조회 실패 (무시됨):", imagesResult.reason);
+          }
+
+          // 반려동물 정보 처리
+          if (petInfoResult.status === "fulfilled") {
+            petInfo = petInfoResult.value;
+          } else {
+            console.warn("반려동물 정보 조회 실패 (무시됨):", petInfoResult.reason);
+          }
+        });
       }
-    }
+    });
+    staleSince = tracked.staleSince;
   } catch (err: unknown) {
     console.error("상세 정보 조회 실패:", err);
-    if (err instanceof Error) {
-      error = err;
-    } else {
-      const errorMessage = err ? String(err) : "Unknown error";
-      error = new Error(errorMessage);
-    }
+    error = normalizeTourApiError(err, "detailCommon2").toJSON();
   }
 
   // 데이터가 없으면 404
-  if (!detail && !error) {
+  if ((!detail && !error) || error?.kind === "not_found") {
     notFound();
   }
 
@@ -232,7 +293,8 @@ export default async function PlaceDetailPage({
     return (
       <div className="container max-w-7xl mx-auto px-4 py-8">
         <ErrorComponent
-          message={error.message || "관광지 정보를 불러올 수 없습니다."}
+          message={messages.detail.loadError}
+          error={error}
           type="api"
         />
       </div>
@@ -242,11 +304,27 @@ export default async function PlaceDetailPage({
   // 정상 데이터 표시
   return (
     <main className="min-h-[calc(100vh-4rem)]">
+      {staleSince && (
+        <div className="container max-w-7xl mx-auto px-4 pt-6">
+          <StaleDataBanner staleSince={staleSince} />
+        </div>
+      )}
+      {detail!.language && detail!.language !== language && (
+        <div className="container max-w-7xl mx-auto px-4 pt-6">
+          <TranslationFallbackNotice language={language} shownLanguage={detail!.language} />
+        </div>
+      )}
       <Suspense fallback={<DetailPageSkeleton />}>
         <DetailInfo detail={detail!} />
         <DetailIntro intro={intro} />
+        {repeatInfo?.kind === "room" && <DetailRooms rooms={repeatInfo.items} />}
+        {repeatInfo?.kind === "course" && <DetailCourse stops={repeatInfo.items} />}
+        {repeatInfo?.kind === "extra" && <DetailExtraInfo rows={repeatInfo.items} />}
         <DetailGallery images={images} title={detail!.title} />
-        <DetailMap detail={detail!} />
+        <DetailMap
+          detail={detail!}
+          courseStops={repeatInfo?.kind === "course" ? repeatInfo.items : undefined}
+        />
         <DetailPetTour petInfo={petInfo} />
         <DetailRecommendations detail={detail!} />
       </Suspense>
@@ -17,7 +17,7 @@
  */
 
 import type { MetadataRoute } from "next";
-import { getAreaBasedList } from "@/lib/api/tour-api";
+import { getAreaBasedList, runWithTourApiPriority } from "@/lib/api/tour-api";
 
 /**
  * 사이트 기본 URL 가져오기
@@ -60,10 +60,15 @@ async function getTourItemsForSitemap(): Promise<
     // 여러 페이지를 조회하여 최근 업데이트된 관광지 수집
     for (let pageNo = 1; pageNo <= maxPages; pageNo++) {
       try {
-        const items = await getAreaBasedList({
-          numOfRows: itemsPerPage,
-          pageNo,
-        });
+        // arrange=C: 수정일순 (최근 업데이트된 관광지부터 조회)
+        // 배경 작업 우선순위로 호출 (호출 속도는 요청 스케줄러가 제한)
+        const items = await runWithTourApiPriority("background", () =>
+          getAreaBasedList({
+            arrange: "C",
+            numOfRows: itemsPerPage,
+            pageNo,
+          })
+        );
 
         if (items.length === 0) {
           break; // 더 이상 데이터가 없으면 중단
@@ -83,11 +88,6 @@ async function getTourItemsForSitemap(): Promise<
         if (allItems.length >= maxItems) {
           break;
         }
-
-        // Rate Limit 방지를 위한 짧은 대기 (선택적)
-        if (pageNo < maxPages && pageNo % 5 === 0) {
-          await new Promise((resolve) => setTimeout(resolve, 100));
-        }
       } catch (error) {
         console.error(`Sitemap: 페이지 ${pageNo} 조회 실패:`, error);
         // 개별 페이지 실패는 무시하고 계속 진행
@@ -31,6 +31,7 @@ import StatsSummary, {
 } from "@/components/stats/stats-summary";
 import { RegionChartSkeleton } from "@/components/stats/region-chart";
 import { TypeChartSkeleton } from "@/components/stats/type-chart";
+import { getMessages } from "@/lib/i18n/server";
 
 // 차트 컴포넌트를 동적 import로 로드 (recharts 라이브러리 크기 최적화)
 const RegionChartWrapper = dynamicImport(
@@ -85,36 +86,38 @@ function StatsPageSkeleton() {
  * 통계 대시보드 페이지 컴포넌트
  */
 export default async function StatsPage() {
+  const messages = await getMessages();
+
   return (
     <main className="min-h-[calc(100vh-4rem)]">
       <div className="container max-w-7xl mx-auto px-4 py-8">
         {/* 페이지 제목 */}
         <div className="mb-8 space-y-2">
-          <h1 className="text-3xl font-bold tracking-tight">통계 대시보드</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{messages.stats.title}</h1>
           <p className="text-lg text-muted-foreground">
-            전국 관광지 현황을 한눈에 확인하세요
+            {messages.stats.description}
           </p>
         </div>
 
         <Suspense fallback={<StatsPageSkeleton />}>
           {/* 통계 요약 카드 영역 (상단) */}
-          <section className="mb-8" aria-label="통계 요약">
+          <section className="mb-8" aria-label={messages.stats.summary}>
             <Suspense fallback={<StatsSummarySkeleton />}>
               <StatsSummary />
             </Suspense>
           </section>
 
           {/* 지역별 분포 차트 영역 (중단) */}
-          <section className="mb-8" aria-label="지역별 관광지 분포">
-            <h2 className="text-2xl font-semibold mb-4">지역별 관광지 분포</h2>
+          <section className="mb-8" aria-label={messages.stats.regionSection}>
+            <h2 className="text-2xl font-semibold mb-4">{messages.stats.regionSection}</h2>
             <Suspense fallback={<RegionChartSkeleton />}>
               <RegionChartWrapper />
             </Suspense>
           </section>
 
           {/* 타입별 분포 차트 영역 (하단) */}
-          <section className="mb-8" aria-label="타입별 관광지 분포">
-            <h2 className="text-2xl font-semibold mb-4">타입별 관광지 분포</h2>
+          <section className="mb-8" aria-label={messages.stats.typeSection}>
+            <h2 className="text-2xl font-semibold mb-4">{messages.stats.typeSection}</h2>
             <Suspense fallback={<TypeChartSkeleton />}>
               <TypeChartWrapper />
             </Suspense>
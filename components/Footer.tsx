@@ -8,15 +8,17 @@
  * 구성 요소:
  * - 저작권 표시: "My Trip © 2025"
  * - 링크: About, Contact (향후 구현 가능)
- * - API 제공 안내: "한국관광공사 API 제공"
+ * - API 제공 안내: "한국관광공사 API 제공" (현재 언어로 표시)
  *
  * @see {@link /docs/DESIGN.md} - 디자인 시스템 참고
  */
 
 import Link from "next/link";
 import { FeedbackButton } from "@/components/feedback/feedback-button";
+import { getMessages } from "@/lib/i18n/server";
 
-export default function Footer() {
+export default async function Footer() {
+  const messages = await getMessages();
   const currentYear = new Date().getFullYear();
 
   return (
@@ -46,7 +48,7 @@ export default function Footer() {
 
             {/* API 제공 안내 */}
             <div className="text-center md:text-left">
-              한국관광공사 API 제공
+              {messages.footer.poweredBy}
             </div>
           </div>
         </div>
@@ -9,17 +9,22 @@ import { Home, BarChart3, Bookmark, Menu, ArrowLeft } from "lucide-react";
 import { useState, useEffect, Suspense } from "react";
 import TourSearch from "@/components/tour-search";
 import { ThemeToggle } from "@/components/theme-toggle";
+import LanguageSwitcher from "@/components/language-switcher";
+import { useI18n } from "@/hooks/use-i18n";
+import { splitLocalePath } from "@/lib/i18n/config";
 
 const Navbar = () => {
-  const pathname = usePathname();
+  // 언어 접두사를 뗀 경로로 비교 (/en/stats → /stats)
+  const pathname = splitLocalePath(usePathname() ?? "/").pathname;
   const router = useRouter();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [isDetailPage, setIsDetailPage] = useState(false);
   const [isMounted, setIsMounted] = useState(false);
+  const { messages, localizePath } = useI18n();
 
   const navLinks = [
-    { href: "/", label: "홈", icon: Home },
-    { href: "/stats", label: "통계", icon: BarChart3 },
+    { href: "/", label: messages.nav.home, icon: Home },
+    { href: "/stats", label: messages.nav.stats, icon: BarChart3 },
   ];
 
   const isActive = (href: string) => pathname === href;
@@ -32,7 +37,7 @@ const Navbar = () => {
   // 상세페이지 여부 확인 (/places/[contentId])
   // 클라이언트 사이드에서만 확인하여 hydration mismatch 방지
   useEffect(() => {
-    setIsDetailPage(pathname?.startsWith("/places/") ?? false);
+    setIsDetailPage(pathname.startsWith("/places/"));
   }, [pathname]);
 
   // 모바일 메뉴 Esc 키로 닫기
@@ -62,12 +67,12 @@ const Navbar = () => {
               size="icon"
               onClick={() => router.back()}
               className="flex-shrink-0"
-              aria-label="뒤로가기"
+              aria-label={messages.nav.back}
             >
               <ArrowLeft className="h-5 w-5" aria-hidden="true" />
             </Button>
           )}
-          <Link href="/" className="flex items-center space-x-2">
+          <Link href={localizePath("/")} className="flex items-center space-x-2">
             <span className="text-2xl font-bold bg-gradient-to-r from-primary to-primary/60 bg-clip-text text-transparent">
               My Trip
             </span>
@@ -75,13 +80,13 @@ const Navbar = () => {
         </div>
 
         {/* 데스크톱 네비게이션 */}
-        <nav className="hidden md:flex items-center gap-6" aria-label="메인 네비게이션">
+        <nav className="hidden md:flex items-center gap-6" aria-label={messages.nav.mainNavigation}>
           {navLinks.map((link) => {
             const Icon = link.icon;
             return (
               <Link
                 key={link.href}
-                href={link.href}
+                href={localizePath(link.href)}
                 className={cn(
                   "flex items-center gap-2 text-sm font-medium transition-colors hover:text-primary",
                   isActive(link.href)
@@ -97,7 +102,7 @@ const Navbar = () => {
           })}
           <SignedIn>
             <Link
-              href="/bookmarks"
+              href={localizePath("/bookmarks")}
               className={cn(
                 "flex items-center gap-2 text-sm font-medium transition-colors hover:text-primary",
                 isActive("/bookmarks")
@@ -107,7 +112,7 @@ const Navbar = () => {
               aria-current={isActive("/bookmarks") ? "page" : undefined}
             >
               {isMounted && <Bookmark className="h-4 w-4" aria-hidden="true" />}
-              북마크
+              {messages.nav.bookmarks}
             </Link>
           </SignedIn>
         </nav>
@@ -122,10 +127,13 @@ const Navbar = () => {
           </div>
 
           <div className="flex items-center gap-2">
+            <div className="hidden md:block">
+              <LanguageSwitcher />
+            </div>
             <ThemeToggle />
             <SignedOut>
               <SignInButton mode="modal">
-                <Button size="sm">로그인</Button>
+                <Button size="sm">{messages.nav.signIn}</Button>
               </SignInButton>
             </SignedOut>
             <SignedIn>
@@ -139,7 +147,7 @@ const Navbar = () => {
             size="icon"
             className="md:hidden"
             onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
-            aria-label="메뉴 토글"
+            aria-label={messages.nav.toggleMenu}
           >
             {isMounted && <Menu className="h-5 w-5" aria-hidden="true" />}
           </Button>
@@ -148,7 +156,7 @@ const Navbar = () => {
 
       {/* 모바일 메뉴 */}
       {mobileMenuOpen && (
-        <nav className="md:hidden border-t bg-background" aria-label="모바일 네비게이션">
+        <nav className="md:hidden border-t bg-background" aria-label={messages.nav.mobileNavigation}>
           <div className="container px-4 py-4 space-y-2">
             {/* 모바일 검색창 */}
             <div className="mb-4">
@@ -161,7 +169,7 @@ const Navbar = () => {
               return (
                 <Link
                   key={link.href}
-                  href={link.href}
+                  href={localizePath(link.href)}
                   onClick={() => setMobileMenuOpen(false)}
                   className={cn(
                     "flex items-center gap-3 px-3 py-2 rounded-md text-sm font-medium transition-colors",
@@ -178,7 +186,7 @@ const Navbar = () => {
             })}
             <SignedIn>
               <Link
-                href="/bookmarks"
+                href={localizePath("/bookmarks")}
                 onClick={() => setMobileMenuOpen(false)}
                 className={cn(
                   "flex items-center gap-3 px-3 py-2 rounded-md text-sm font-medium transition-colors",
@@ -189,12 +197,17 @@ const Navbar = () => {
                 aria-current={isActive("/bookmarks") ? "page" : undefined}
               >
                 {isMounted && <Bookmark className="h-5 w-5" aria-hidden="true" />}
-                북마크
+                {messages.nav.bookmarks}
               </Link>
             </SignedIn>
+            {/* 모바일 언어 선택 */}
+            <div className="flex items-center justify-between px-3 py-2 border-t mt-2 pt-2">
+              <span className="text-sm font-medium text-muted-foreground">{messages.nav.language}</span>
+              <LanguageSwitcher />
+            </div>
             {/* 모바일 테마 전환 */}
             <div className="flex items-center justify-between px-3 py-2 border-t mt-2 pt-2">
-              <span className="text-sm font-medium text-muted-foreground">테마</span>
+              <span className="text-sm font-medium text-muted-foreground">{messages.nav.theme}</span>
               <ThemeToggle />
             </div>
           </div>
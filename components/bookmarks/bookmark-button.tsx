@@ -25,6 +25,7 @@ import { useAuth, SignInButton } from "@clerk/nextjs";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 import { getBookmark, addBookmark, removeBookmark } from "@/lib/api/supabase-api";
+import { useI18n } from "@/hooks/use-i18n";
 
 interface BookmarkButtonProps {
   /** 관광지 콘텐츠 ID */
@@ -47,6 +48,7 @@ export default function BookmarkButton({
   className,
 }: BookmarkButtonProps) {
   const { isLoaded, userId } = useAuth();
+  const { messages } = useI18n();
   const [isBookmarked, setIsBookmarked] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isToggling, setIsToggling] = useState(false);
@@ -95,10 +97,10 @@ export default function BookmarkButton({
         size={size}
         disabled
         className={className}
-        aria-label="북마크"
+        aria-label={messages.bookmarks.button}
       >
         <StarOff className="w-4 h-4 mr-2" aria-hidden="true" />
-        북마크
+        {messages.bookmarks.button}
       </Button>
     );
   }
@@ -109,7 +111,7 @@ export default function BookmarkButton({
   const handleToggleBookmark = async () => {
     // 로그인하지 않은 경우
     if (!userId) {
-      toast.info("북마크 기능을 사용하려면 로그인이 필요합니다.");
+      toast.info(messages.bookmarks.signInRequired);
       return;
     }
 
@@ -121,29 +123,31 @@ export default function BookmarkButton({
         const result = await removeBookmark(contentId);
         if (result.success) {
           setIsBookmarked(false);
-          toast.success("북마크에서 제거되었습니다.");
+          toast.success(messages.bookmarks.removed);
         } else {
-          toast.error(result.error || "북마크 제거에 실패했습니다.");
+          console.error("북마크 제거 실패:", result.error);
+          toast.error(messages.bookmarks.removeFailed);
         }
       } else {
         // 북마크 추가
         const result = await addBookmark(contentId);
         if (result.success) {
           setIsBookmarked(true);
-          toast.success("북마크에 추가되었습니다.");
+          toast.success(messages.bookmarks.added);
         } else {
           // 중복 북마크인 경우는 이미 추가된 것으로 처리
-          if (result.error?.includes("이미 북마크")) {
+          if (result.code === "duplicate") {
             setIsBookmarked(true);
-            toast.info("이미 북마크된 관광지입니다.");
+            toast.info(messages.bookmarks.alreadyBookmarked);
           } else {
-            toast.error(result.error || "북마크 추가에 실패했습니다.");
+            console.error("북마크 추가 실패:", result.error);
+            toast.error(messages.bookmarks.addFailed);
           }
         }
       }
     } catch (error) {
       console.error("북마크 토글 실패:", error);
-      toast.error("북마크 처리 중 오류가 발생했습니다.");
+      toast.error(messages.bookmarks.toggleError);
     } finally {
       setIsToggling(false);
     }
@@ -157,10 +161,10 @@ export default function BookmarkButton({
         size={size}
         disabled
         className={className}
-        aria-label="북마크 로딩 중"
+        aria-label={messages.bookmarks.loadingLabel}
       >
         <Loader2 className="w-4 h-4 mr-2 animate-spin" aria-hidden="true" />
-        로딩 중
+        {messages.bookmarks.loading}
       </Button>
     );
   }
@@ -173,10 +177,10 @@ export default function BookmarkButton({
           variant={variant}
           size={size}
           className={className}
-          aria-label="로그인하여 북마크 추가"
+          aria-label={messages.bookmarks.signInToAdd}
         >
           <StarOff className="w-4 h-4 mr-2" aria-hidden="true" />
-          북마크
+          {messages.bookmarks.button}
         </Button>
       </SignInButton>
     );
@@ -190,23 +194,23 @@ export default function BookmarkButton({
       onClick={handleToggleBookmark}
       disabled={isToggling}
       className={className}
-      aria-label={isBookmarked ? "북마크 제거" : "북마크 추가"}
+      aria-label={isBookmarked ? messages.bookmarks.remove : messages.bookmarks.add}
       aria-pressed={isBookmarked}
     >
       {isToggling ? (
         <>
           <Loader2 className="w-4 h-4 mr-2 animate-spin" aria-hidden="true" />
-          처리 중
+          {messages.bookmarks.processing}
         </>
       ) : isBookmarked ? (
         <>
           <Star className="w-4 h-4 mr-2 fill-yellow-400 text-yellow-400" aria-hidden="true" />
-          북마크됨
+          {messages.bookmarks.bookmarked}
         </>
       ) : (
         <>
           <StarOff className="w-4 h-4 mr-2" aria-hidden="true" />
-          북마크
+          {messages.bookmarks.button}
         </>
       )}
     </Button>
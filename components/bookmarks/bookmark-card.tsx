@@ -24,8 +24,10 @@ import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
 import type { TourItem } from "@/lib/types/tour";
-import { CONTENT_TYPE } from "@/lib/types/tour";
 import { removeBookmark } from "@/lib/api/supabase-api";
+import { useI18n } from "@/hooks/use-i18n";
+import { formatMessage } from "@/lib/i18n/config";
+import { getContentTypeLabel } from "@/lib/i18n/labels";
 import {
   Dialog,
   DialogContent,
@@ -36,32 +38,6 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 
-/**
- * Content Type ID를 한글 이름으로 변환
- */
-function getContentTypeName(contentTypeId: string): string {
-  switch (contentTypeId) {
-    case CONTENT_TYPE.TOURIST_SPOT:
-      return "관광지";
-    case CONTENT_TYPE.CULTURAL_FACILITY:
-      return "문화시설";
-    case CONTENT_TYPE.FESTIVAL:
-      return "축제/행사";
-    case CONTENT_TYPE.TRAVEL_COURSE:
-      return "여행코스";
-    case CONTENT_TYPE.LEISURE_SPORTS:
-      return "레포츠";
-    case CONTENT_TYPE.ACCOMMODATION:
-      return "숙박";
-    case CONTENT_TYPE.SHOPPING:
-      return "쇼핑";
-    case CONTENT_TYPE.RESTAURANT:
-      return "음식점";
-    default:
-      return "기타";
-  }
-}
-
 interface BookmarkCardProps {
   tour: TourItem;
   onDelete?: (contentId: string) => Promise<void>;
@@ -79,10 +55,11 @@ export default function BookmarkCard({
   priority = false,
 }: BookmarkCardProps) {
   const router = useRouter();
+  const { messages, localizePath } = useI18n();
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [isDeletingState, setIsDeletingState] = useState(false);
   const imageUrl = tour.firstimage || tour.firstimage2;
-  const contentTypeName = getContentTypeName(tour.contenttypeid);
+  const contentTypeName = getContentTypeLabel(messages, tour.contenttypeid);
   const address = tour.addr2 ? `${tour.addr1} ${tour.addr2}` : tour.addr1;
   const [imageError, setImageError] = useState(false);
 
@@ -100,16 +77,17 @@ export default function BookmarkCard({
       } else {
         const result = await removeBookmark(tour.contentid);
         if (result.success) {
-          toast.success("북마크가 삭제되었습니다.");
+          toast.success(messages.bookmarks.deleted);
           router.refresh();
         } else {
-          toast.error(result.error || "북마크 삭제에 실패했습니다.");
+          console.error("북마크 삭제 실패:", result.error);
+          toast.error(messages.bookmarks.deleteFailed);
         }
       }
       setShowDeleteDialog(false);
     } catch (error) {
       console.error("북마크 삭제 중 에러:", error);
-      toast.error("북마크 삭제 중 오류가 발생했습니다.");
+      toast.error(messages.bookmarks.deleteError);
     } finally {
       setIsDeletingState(false);
     }
@@ -121,9 +99,9 @@ export default function BookmarkCard({
     <>
       <div className="group relative bg-card rounded-xl shadow-md border overflow-hidden transition-all duration-300 hover:shadow-xl hover:scale-[1.02] border-border">
         <Link
-          href={`/places/${tour.contentid}`}
+          href={localizePath(`/places/${tour.contentid}`)}
           className="block"
-          aria-label={`${tour.title} 상세보기`}
+          aria-label={formatMessage(messages.common.viewDetailsOf, { title: tour.title })}
         >
           {/* 이미지 영역 */}
           <div className="relative w-full aspect-video overflow-hidden bg-muted">
@@ -150,7 +128,7 @@ export default function BookmarkCard({
               onClick={handleDeleteClick}
               disabled={isLoading}
               className="absolute top-2 right-2 p-2 rounded-full bg-background/90 backdrop-blur-sm opacity-0 group-hover:opacity-100 transition-opacity hover:bg-destructive hover:text-destructive-foreground disabled:opacity-50 disabled:cursor-not-allowed"
-              aria-label={`${tour.title} 북마크 삭제`}
+              aria-label={formatMessage(messages.bookmarks.deleteItem, { title: tour.title })}
             >
               <Trash2 className="w-4 h-4" />
             </button>
@@ -188,11 +166,11 @@ export default function BookmarkCard({
       <Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>북마크 삭제</DialogTitle>
+            <DialogTitle>{messages.bookmarks.deleteTitle}</DialogTitle>
             <DialogDescription>
-              "{tour.title}" 북마크를 삭제하시겠습니까?
+              {formatMessage(messages.bookmarks.deleteConfirm, { title: tour.title })}
               <br />
-              이 작업은 되돌릴 수 없습니다.
+              {messages.common.irreversible}
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -201,14 +179,14 @@ export default function BookmarkCard({
               onClick={() => setShowDeleteDialog(false)}
               disabled={isLoading}
             >
-              취소
+              {messages.common.cancel}
             </Button>
             <Button
               variant="destructive"
               onClick={handleDeleteConfirm}
               disabled={isLoading}
             >
-              {isLoading ? "삭제 중..." : "삭제"}
+              {isLoading ? messages.common.deleting : messages.common.delete}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -6,12 +6,12 @@
  * 정렬, 일괄 삭제, 개별 삭제 기능을 제공합니다.
  *
  * 주요 기능:
- * - 북마크 목록 조회 및 표시
+ * - 북마크 목록 조회 및 표시 (상세 정보는 20개씩 일괄 조회)
  * - 정렬 옵션 (최신순, 이름순, 지역별)
  * - 일괄 삭제 기능 (체크박스 선택)
  * - 개별 삭제 기능 (각 카드에 삭제 버튼)
  * - 빈 상태 처리
- * - 에러 처리
+ * - 에러 처리 (상세 정보를 불러오지 못한 북마크 수 표시 및 다시 시도)
  *
  * @see {@link /docs/PRD.md} - Phase 5.3 북마크 목록 페이지
  * @see {@link /docs/DESIGN.md} - 북마크 페이지 디자인 가이드
@@ -22,12 +22,13 @@
 import { useState, useEffect, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
-import { Star, ArrowUpDown, Trash2 } from "lucide-react";
+import { Star, ArrowUpDown, Trash2, RefreshCw } from "lucide-react";
 import { toast } from "sonner";
 import { getUserBookmarks, removeBookmarks } from "@/lib/api/supabase-api";
-import { getDetailCommon } from "@/lib/api/tour-api";
+import { getDetailCommonBatch } from "@/lib/api/tour-client";
 import BookmarkCard from "@/components/bookmarks/bookmark-card";
 import { Button } from "@/components/ui/button";
+import { InlineError } from "@/components/ui/error";
 import {
   Select,
   SelectContent,
@@ -46,6 +47,18 @@ import {
 } from "@/components/ui/dialog";
 import type { TourItem } from "@/lib/types/tour";
 import type { TourDetail } from "@/lib/types/tour";
+import { useI18n } from "@/hooks/use-i18n";
+import { LOCALE_INFO, formatMessage, type Locale } from "@/lib/i18n/config";
+
+/**
+ * 사용자 북마크 (콘텐츠 ID, 생성일시)
+ */
+type UserBookmark = Awaited<ReturnType<typeof getUserBookmarks>>[number];
+
+/**
+ * 상세 정보 일괄 조회 단위 (프록시 라우트의 최대 콘텐츠 ID 수)
+ */
+const DETAIL_BATCH_SIZE = 20;
 
 /**
  * TourDetail을 TourItem으로 변환
@@ -71,6 +84,47 @@ function convertDetailToItem(
   };
 }
 
+/**
+ * 북마크 상세 정보 조회
+ *
+ * 북마크마다 요청을 보내면 프록시의 IP별 요청 제한에 걸리므로,
+ * DETAIL_BATCH_SIZE개씩 나누어 순서대로 일괄 조회합니다.
+ * 조회에 실패한 북마크는 다시 시도할 수 있도록 따로 반환합니다.
+ * (관광지가 없어진 북마크는 목록에서 제외)
+ */
+async function loadBookmarkDetails(bookmarks: UserBookmark[]): Promise<{
+  tours: (TourItem & { bookmarkCreatedAt?: string })[];
+  failed: UserBookmark[];
+}> {
+  const tours: (TourItem & { bookmarkCreatedAt?: string })[] = [];
+  const failed: UserBookmark[] = [];
+
+  for (let start = 0; start < bookmarks.length; start += DETAIL_BATCH_SIZE) {
+    const chunk = bookmarks.slice(start, start + DETAIL_BATCH_SIZE);
+    try {
+      const { items, failedIds } = await getDetailCommonBatch({
+        contentIds: chunk.map((bookmark) => bookmark.content_id),
+      });
+      const createdAtById = new Map(
+        chunk.map((bookmark) => [bookmark.content_id, bookmark.created_at]),
+      );
+      tours.push(
+        ...items.map((detail) =>
+          convertDetailToItem(detail, createdAtById.get(detail.contentid)),
+        ),
+      );
+      failed.push(
+        ...chunk.filter((bookmark) => failedIds.includes(bookmark.content_id)),
+      );
+    } catch (error) {
+      console.error("북마크 상세 정보 조회 실패:", error);
+      failed.push(...chunk);
+    }
+  }
+
+  return { tours, failed };
+}
+
 /**
  * 정렬 타입
  */
@@ -82,20 +136,22 @@ type SortType = "latest" | "name" | "area";
 function sortTours(
   tours: (TourItem & { bookmarkCreatedAt?: string })[],
   sortType: SortType,
+  locale: Locale,
 ): (TourItem & { bookmarkCreatedAt?: string })[] {
   const sorted = [...tours];
+  const collator = LOCALE_INFO[locale].intlLocale;
 
   switch (sortType) {
     case "name":
-      // 이름순 (가나다순)
-      sorted.sort((a, b) => a.title.localeCompare(b.title, "ko"));
+      // 이름순 (현재 언어의 정렬 규칙 기준)
+      sorted.sort((a, b) => a.title.localeCompare(b.title, collator));
       break;
     case "area":
       // 지역별 (areacode 기준 오름차순)
       sorted.sort((a, b) => {
         const areaA = a.areacode || "";
         const areaB = b.areacode || "";
-        return areaA.localeCompare(areaB, "ko");
+        return areaA.localeCompare(areaB, collator);
       });
       break;
     case "latest":
@@ -121,6 +177,7 @@ function sortTours(
  */
 export default function BookmarkList() {
   const router = useRouter();
+  const { locale, messages, localizePath } = useI18n();
   const [tours, setTours] = useState<
     (TourItem & { bookmarkCreatedAt?: string })[]
   >([]);
@@ -129,6 +186,8 @@ export default function BookmarkList() {
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [failedBookmarks, setFailedBookmarks] = useState<UserBookmark[]>([]);
+  const [isRetrying, setIsRetrying] = useState(false);
 
   // 북마크 목록 로드
   useEffect(() => {
@@ -140,57 +199,43 @@ export default function BookmarkList() {
 
         if (bookmarks.length === 0) {
           setTours([]);
+          setFailedBookmarks([]);
           setIsLoading(false);
           return;
         }
 
-        // 각 contentId에 대해 상세 정보 조회 (병렬 처리)
-        const tourDetails = await Promise.allSettled(
-          bookmarks.map((bookmark) =>
-            getDetailCommon({ contentId: bookmark.content_id }).then(
-              (detail) => ({
-                detail,
-                created_at: bookmark.created_at,
-              }),
-            ),
-          ),
-        );
-
-        // 성공한 결과만 필터링 및 변환
-        const loadedTours: (TourItem & { bookmarkCreatedAt?: string })[] =
-          tourDetails
-            .filter(
-              (
-                result,
-              ): result is PromiseFulfilledResult<{
-                detail: TourDetail | null;
-                created_at: string;
-              }> =>
-                result.status === "fulfilled" && result.value.detail !== null,
-            )
-            .map((result) =>
-              convertDetailToItem(
-                result.value.detail!,
-                result.value.created_at,
-              ),
-            );
-
+        const { tours: loadedTours, failed } =
+          await loadBookmarkDetails(bookmarks);
         setTours(loadedTours);
+        setFailedBookmarks(failed);
       } catch (error) {
         console.error("북마크 목록 로드 실패:", error);
-        toast.error("북마크 목록을 불러오는 중 오류가 발생했습니다.");
+        toast.error(messages.bookmarks.listLoadError);
       } finally {
         setIsLoading(false);
       }
     }
 
     loadBookmarks();
-  }, []);
+  }, [messages]);
+
+  // 상세 정보를 불러오지 못한 북마크 다시 조회
+  const handleRetryFailed = async () => {
+    setIsRetrying(true);
+    try {
+      const { tours: loadedTours, failed } =
+        await loadBookmarkDetails(failedBookmarks);
+      setTours((prev) => [...prev, ...loadedTours]);
+      setFailedBookmarks(failed);
+    } finally {
+      setIsRetrying(false);
+    }
+  };
 
   // 정렬된 목록
   const sortedTours = useMemo(
-    () => sortTours(tours, sortType),
-    [tours, sortType],
+    () => sortTours(tours, sortType, locale),
+    [tours, sortType, locale],
   );
 
   // 개별 삭제 핸들러
@@ -198,7 +243,7 @@ export default function BookmarkList() {
     try {
       const result = await removeBookmarks([contentId]);
       if (result.success) {
-        toast.success("북마크가 삭제되었습니다.");
+        toast.success(messages.bookmarks.deleted);
         // 목록에서 제거
         setTours((prev) => prev.filter((tour) => tour.contentid !== contentId));
         // 선택 상태에서도 제거
@@ -209,11 +254,12 @@ export default function BookmarkList() {
         });
         router.refresh();
       } else {
-        toast.error(result.error || "북마크 삭제에 실패했습니다.");
+        console.error("북마크 삭제 실패:", result.error);
+        toast.error(messages.bookmarks.deleteFailed);
       }
     } catch (error) {
       console.error("북마크 삭제 중 에러:", error);
-      toast.error("북마크 삭제 중 오류가 발생했습니다.");
+      toast.error(messages.bookmarks.deleteError);
     }
   };
 
@@ -229,9 +275,9 @@ export default function BookmarkList() {
       const result = await removeBookmarks(contentIds);
       if (result.success) {
         toast.success(
-          `${
-            result.deletedCount || contentIds.length
-          }개의 북마크가 삭제되었습니다.`,
+          formatMessage(messages.bookmarks.deletedCount, {
+            count: result.deletedCount || contentIds.length,
+          }),
         );
         // 목록에서 제거
         setTours((prev) =>
@@ -242,11 +288,12 @@ export default function BookmarkList() {
         setShowDeleteDialog(false);
         router.refresh();
       } else {
-        toast.error(result.error || "북마크 삭제에 실패했습니다.");
+        console.error("북마크 일괄 삭제 실패:", result.error);
+        toast.error(messages.bookmarks.deleteFailed);
       }
     } catch (error) {
       console.error("북마크 일괄 삭제 중 에러:", error);
-      toast.error("북마크 삭제 중 오류가 발생했습니다.");
+      toast.error(messages.bookmarks.deleteError);
     } finally {
       setIsDeleting(false);
     }
@@ -278,26 +325,26 @@ export default function BookmarkList() {
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
-        <p className="text-muted-foreground">북마크 목록을 불러오는 중...</p>
+        <p className="text-muted-foreground">{messages.bookmarks.listLoading}</p>
       </div>
     );
   }
 
-  // 빈 상태 처리
-  if (tours.length === 0) {
+  // 빈 상태 처리 (상세 정보를 불러오지 못한 북마크가 있으면 다시 시도 안내 표시)
+  if (tours.length === 0 && failedBookmarks.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center min-h-[400px] rounded-lg border border-dashed border-border p-12">
         <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-muted mb-4">
           <Star className="w-8 h-8 text-muted-foreground" />
         </div>
         <h3 className="text-lg font-semibold text-foreground mb-2">
-          아직 북마크한 관광지가 없습니다
+          {messages.bookmarks.emptyTitle}
         </h3>
         <p className="text-sm text-muted-foreground text-center mb-6">
-          관광지 상세 페이지에서 북마크를 추가해보세요.
+          {messages.bookmarks.emptyDescription}
         </p>
         <Button asChild variant="outline">
-          <Link href="/">관광지 둘러보기 →</Link>
+          <Link href={localizePath("/")}>{messages.bookmarks.browse}</Link>
         </Button>
       </div>
     );
@@ -323,13 +370,13 @@ export default function BookmarkList() {
               value={sortType}
               onValueChange={(value) => setSortType(value as SortType)}
             >
-              <SelectTrigger className="w-[140px]" aria-label="정렬 옵션 선택">
+              <SelectTrigger className="w-[140px]" aria-label={messages.bookmarks.selectSort}>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="latest">최신순</SelectItem>
-                <SelectItem value="name">이름순</SelectItem>
-                <SelectItem value="area">지역별</SelectItem>
+                <SelectItem value="latest">{messages.bookmarks.sort.latest}</SelectItem>
+                <SelectItem value="name">{messages.bookmarks.sort.name}</SelectItem>
+                <SelectItem value="area">{messages.bookmarks.sort.area}</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -342,30 +389,34 @@ export default function BookmarkList() {
                   id="select-all"
                   checked={isAllSelected}
                   onCheckedChange={handleSelectAll}
-                  aria-label="전체 선택"
+                  aria-label={messages.bookmarks.selectAll}
                 />
                 <label
                   htmlFor="select-all"
                   className="text-sm text-muted-foreground cursor-pointer"
                 >
-                  전체 선택
+                  {messages.bookmarks.selectAll}
                 </label>
               </div>
 
               {selectedIds.size > 0 && (
                 <>
                   <span className="text-sm text-muted-foreground">
-                    {selectedIds.size}개 선택됨
+                    {formatMessage(messages.bookmarks.selectedCount, {
+                      count: selectedIds.size,
+                    })}
                   </span>
                   <Button
                     variant="destructive"
                     size="sm"
                     onClick={() => setShowDeleteDialog(true)}
                     disabled={isDeleting}
-                    aria-label={`선택한 ${selectedIds.size}개 북마크 일괄 삭제`}
+                    aria-label={formatMessage(messages.bookmarks.batchDeleteLabel, {
+                      count: selectedIds.size,
+                    })}
                   >
                     <Trash2 className="w-4 h-4 mr-2" aria-hidden="true" />
-                    일괄 삭제
+                    {messages.bookmarks.batchDelete}
                   </Button>
                 </>
               )}
@@ -375,10 +426,30 @@ export default function BookmarkList() {
 
         {/* 북마크 개수 */}
         <p className="text-sm text-muted-foreground">
-          총 {tours.length}개의 북마크된 관광지
+          {formatMessage(messages.bookmarks.total, { count: tours.length })}
         </p>
       </div>
 
+      {/* 상세 정보를 불러오지 못한 북마크 */}
+      {failedBookmarks.length > 0 && (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-destructive/50 p-3">
+          <InlineError
+            message={formatMessage(messages.bookmarks.detailLoadFailed, {
+              count: failedBookmarks.length,
+            })}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleRetryFailed}
+            disabled={isRetrying}
+          >
+            <RefreshCw className="w-4 h-4 mr-2" aria-hidden="true" />
+            {messages.common.retry}
+          </Button>
+        </div>
+      )}
+
       {/* 북마크 목록 */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         {sortedTours.map((tour) => (
@@ -397,7 +468,7 @@ export default function BookmarkList() {
                 onCheckedChange={(checked) =>
                   handleSelectItem(tour.contentid, checked === true)
                 }
-                aria-label={`${tour.title} 선택`}
+                aria-label={formatMessage(messages.bookmarks.selectItem, { title: tour.title })}
                 className="bg-background/90 backdrop-blur-sm shadow-md"
               />
             </div>
@@ -414,10 +485,13 @@ export default function BookmarkList() {
       <Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>북마크 일괄 삭제</DialogTitle>
+            <DialogTitle>{messages.bookmarks.batchDeleteTitle}</DialogTitle>
             <DialogDescription>
-              선택한 {selectedIds.size}개의 북마크를 삭제하시겠습니까?
-              <br />이 작업은 되돌릴 수 없습니다.
+              {formatMessage(messages.bookmarks.batchDeleteConfirm, {
+                count: selectedIds.size,
+              })}
+              <br />
+              {messages.common.irreversible}
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -426,14 +500,14 @@ export default function BookmarkList() {
               onClick={() => setShowDeleteDialog(false)}
               disabled={isDeleting}
             >
-              취소
+              {messages.common.cancel}
             </Button>
             <Button
               variant="destructive"
               onClick={handleBatchDelete}
               disabled={isDeleting}
             >
-              {isDeleting ? "삭제 중..." : "삭제"}
+              {isDeleting ? messages.common.deleting : messages.common.delete}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -11,6 +11,7 @@
 import { Bug } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { BugReportForm } from "./bug-report-form";
+import { useI18n } from "@/hooks/use-i18n";
 
 interface BugReportButtonProps {
   /**
@@ -45,6 +46,8 @@ export function BugReportButton({
   initialErrorStack,
   initialPageUrl,
 }: BugReportButtonProps) {
+  const { messages } = useI18n();
+
   return (
     <BugReportForm
       initialErrorStack={initialErrorStack}
@@ -54,10 +57,10 @@ export function BugReportButton({
           size={size}
           variant={variant}
           className={className}
-          aria-label="버그 리포트 제출"
+          aria-label={messages.bugReport.buttonLabel}
         >
           <Bug className="w-4 h-4 mr-2" aria-hidden="true" />
-          버그 리포트
+          {messages.bugReport.button}
         </Button>
       }
     />
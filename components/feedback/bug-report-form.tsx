@@ -31,6 +31,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { submitBugReport } from "@/lib/api/bug-report-api";
 import { toast } from "sonner";
+import { useI18n } from "@/hooks/use-i18n";
 
 interface BugReportFormProps {
   /**
@@ -65,6 +66,7 @@ export function BugReportForm({
   initialErrorStack,
   initialPageUrl,
 }: BugReportFormProps) {
+  const { messages } = useI18n();
   const [internalOpen, setInternalOpen] = useState(false);
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
@@ -99,12 +101,12 @@ export function BugReportForm({
     e.preventDefault();
 
     if (!title.trim()) {
-      toast.error("버그 제목을 입력해주세요.");
+      toast.error(messages.bugReport.titleRequired);
       return;
     }
 
     if (!description.trim()) {
-      toast.error("버그 설명을 입력해주세요.");
+      toast.error(messages.bugReport.descriptionRequired);
       return;
     }
 
@@ -120,18 +122,19 @@ export function BugReportForm({
       });
 
       if (result.success) {
-        toast.success("버그 리포트가 제출되었습니다. 감사합니다!");
+        toast.success(messages.bugReport.submitted);
         // 폼 초기화
         setTitle("");
         setDescription("");
         setErrorStack("");
         setOpen(false);
       } else {
-        toast.error(result.error || "버그 리포트 제출에 실패했습니다.");
+        console.error("[BugReportForm] 버그 리포트 제출 실패:", result.error);
+        toast.error(messages.bugReport.submitFailed);
       }
     } catch (error) {
       console.error("[BugReportForm] 버그 리포트 제출 에러:", error);
-      toast.error("예기치 않은 오류가 발생했습니다.");
+      toast.error(messages.common.unexpectedError);
     } finally {
       setIsSubmitting(false);
     }
@@ -161,26 +164,26 @@ export function BugReportForm({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Bug className="w-5 h-5" />
-            버그 리포트
+            {messages.bugReport.title}
           </DialogTitle>
           <DialogDescription>
-            발견하신 버그를 자세히 설명해주세요. 빠른 해결을 위해 가능한 한 많은 정보를 제공해주시면 도움이 됩니다.
+            {messages.bugReport.description}
           </DialogDescription>
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-4">
           {/* 버그 제목 */}
           <div className="space-y-2">
-            <Label htmlFor="bug-title">버그 제목 *</Label>
+            <Label htmlFor="bug-title">{messages.bugReport.titleLabel}</Label>
             <Input
               id="bug-title"
-              placeholder="버그를 간단히 설명해주세요..."
+              placeholder={messages.bugReport.titlePlaceholder}
               value={title}
               onChange={(e) => setTitle(e.target.value)}
               disabled={isSubmitting}
               maxLength={200}
               required
-              aria-label="버그 제목 입력"
+              aria-label={messages.bugReport.titleInput}
             />
             <p className="text-xs text-muted-foreground text-right">
               {title.length} / 200
@@ -189,10 +192,10 @@ export function BugReportForm({
 
           {/* 버그 설명 */}
           <div className="space-y-2">
-            <Label htmlFor="bug-description">버그 설명 *</Label>
+            <Label htmlFor="bug-description">{messages.bugReport.descriptionLabel}</Label>
             <Textarea
               id="bug-description"
-              placeholder="버그가 발생한 상황, 재현 방법, 예상 동작 등을 자세히 설명해주세요..."
+              placeholder={messages.bugReport.descriptionPlaceholder}
               value={description}
               onChange={(e) => setDescription(e.target.value)}
               disabled={isSubmitting}
@@ -200,7 +203,7 @@ export function BugReportForm({
               maxLength={10000}
               required
               className="resize-none"
-              aria-label="버그 설명 입력"
+              aria-label={messages.bugReport.descriptionInput}
             />
             <p className="text-xs text-muted-foreground text-right">
               {description.length} / 10000
@@ -211,32 +214,34 @@ export function BugReportForm({
           <div className="space-y-2">
             <Label htmlFor="bug-error-stack" className="flex items-center gap-2">
               <AlertCircle className="w-4 h-4" />
-              에러 스택 (선택 사항)
+              {messages.bugReport.stackLabel}
             </Label>
             <Textarea
               id="bug-error-stack"
-              placeholder="에러 스택 트레이스가 있다면 붙여넣어주세요..."
+              placeholder={messages.bugReport.stackPlaceholder}
               value={errorStack}
               onChange={(e) => setErrorStack(e.target.value)}
               disabled={isSubmitting}
               rows={4}
               className="resize-none font-mono text-xs"
-              aria-label="에러 스택 입력"
+              aria-label={messages.bugReport.stackInput}
             />
           </div>
 
           {/* 자동 수집 정보 (읽기 전용) */}
           <div className="space-y-2">
-            <Label>자동 수집 정보</Label>
+            <Label>{messages.bugReport.autoCollected}</Label>
             <div className="space-y-2 text-sm">
               <div>
-                <span className="text-muted-foreground">페이지 URL: </span>
-                <span className="font-mono text-xs break-all">{pageUrl || "수집 중..."}</span>
+                <span className="text-muted-foreground">{messages.bugReport.pageUrl}</span>
+                <span className="font-mono text-xs break-all">
+                  {pageUrl || messages.bugReport.collecting}
+                </span>
               </div>
               <div>
-                <span className="text-muted-foreground">브라우저: </span>
+                <span className="text-muted-foreground">{messages.bugReport.browser}</span>
                 <span className="font-mono text-xs break-all">
-                  {userAgent || "수집 중..."}
+                  {userAgent || messages.bugReport.collecting}
                 </span>
               </div>
             </div>
@@ -250,16 +255,16 @@ export function BugReportForm({
               onClick={() => handleOpenChange(false)}
               disabled={isSubmitting}
             >
-              취소
+              {messages.common.cancel}
             </Button>
             <Button type="submit" disabled={isSubmitting || !title.trim() || !description.trim()}>
               {isSubmitting ? (
                 <>
                   <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  제출 중...
+                  {messages.common.submitting}
                 </>
               ) : (
-                "제출"
+                messages.common.submit
               )}
             </Button>
           </div>
@@ -11,6 +11,7 @@
 import { MessageSquare } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { FeedbackForm } from "./feedback-form";
+import { useI18n } from "@/hooks/use-i18n";
 
 interface FeedbackButtonProps {
   /**
@@ -35,6 +36,8 @@ export function FeedbackButton({
   variant = "outline",
   className,
 }: FeedbackButtonProps) {
+  const { messages } = useI18n();
+
   return (
     <FeedbackForm
       trigger={
@@ -42,10 +45,10 @@ export function FeedbackButton({
           size={size}
           variant={variant}
           className={className}
-          aria-label="피드백 제출"
+          aria-label={messages.feedback.buttonLabel}
         >
           <MessageSquare className="w-4 h-4 mr-2" aria-hidden="true" />
-          피드백
+          {messages.feedback.button}
         </Button>
       }
     />
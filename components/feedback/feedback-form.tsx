@@ -36,6 +36,13 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { submitFeedback, type FeedbackType } from "@/lib/api/feedback-api";
 import { toast } from "sonner";
+import { useI18n } from "@/hooks/use-i18n";
+import { formatMessage } from "@/lib/i18n/config";
+
+/**
+ * 평점 선택 옵션 (높은 점수부터)
+ */
+const RATING_OPTIONS = [5, 4, 3, 2, 1];
 
 interface FeedbackFormProps {
   /**
@@ -60,6 +67,7 @@ export function FeedbackForm({
   onOpenChange: controlledOnOpenChange,
   trigger,
 }: FeedbackFormProps) {
+  const { messages } = useI18n();
   const [internalOpen, setInternalOpen] = useState(false);
   const [type, setType] = useState<FeedbackType>("general");
   const [content, setContent] = useState("");
@@ -77,7 +85,7 @@ export function FeedbackForm({
     e.preventDefault();
 
     if (!content.trim()) {
-      toast.error("피드백 내용을 입력해주세요.");
+      toast.error(messages.feedback.contentRequired);
       return;
     }
 
@@ -91,18 +99,19 @@ export function FeedbackForm({
       });
 
       if (result.success) {
-        toast.success("피드백이 제출되었습니다. 감사합니다!");
+        toast.success(messages.feedback.submitted);
         // 폼 초기화
         setContent("");
         setRating(undefined);
         setType("general");
         setOpen(false);
       } else {
-        toast.error(result.error || "피드백 제출에 실패했습니다.");
+        console.error("[FeedbackForm] 피드백 제출 실패:", result.error);
+        toast.error(messages.feedback.submitFailed);
       }
     } catch (error) {
       console.error("[FeedbackForm] 피드백 제출 에러:", error);
-      toast.error("예기치 않은 오류가 발생했습니다.");
+      toast.error(messages.common.unexpectedError);
     } finally {
       setIsSubmitting(false);
     }
@@ -130,46 +139,46 @@ export function FeedbackForm({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <MessageSquare className="w-5 h-5" />
-            피드백 제출
+            {messages.feedback.title}
           </DialogTitle>
           <DialogDescription>
-            서비스 개선을 위한 의견을 남겨주세요. 모든 피드백은 검토 후 반영됩니다.
+            {messages.feedback.description}
           </DialogDescription>
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-4">
           {/* 피드백 타입 선택 */}
           <div className="space-y-2">
-            <Label htmlFor="feedback-type">피드백 타입</Label>
+            <Label htmlFor="feedback-type">{messages.feedback.type}</Label>
             <Select
               value={type}
               onValueChange={(value) => setType(value as FeedbackType)}
               disabled={isSubmitting}
             >
-              <SelectTrigger id="feedback-type" aria-label="피드백 타입 선택">
+              <SelectTrigger id="feedback-type" aria-label={messages.feedback.selectType}>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="general">일반 피드백</SelectItem>
-                <SelectItem value="feature">기능 제안</SelectItem>
-                <SelectItem value="improvement">개선 사항</SelectItem>
+                <SelectItem value="general">{messages.feedback.types.general}</SelectItem>
+                <SelectItem value="feature">{messages.feedback.types.feature}</SelectItem>
+                <SelectItem value="improvement">{messages.feedback.types.improvement}</SelectItem>
               </SelectContent>
             </Select>
           </div>
 
           {/* 피드백 내용 */}
           <div className="space-y-2">
-            <Label htmlFor="feedback-content">피드백 내용</Label>
+            <Label htmlFor="feedback-content">{messages.feedback.content}</Label>
             <Textarea
               id="feedback-content"
-              placeholder="피드백 내용을 입력해주세요..."
+              placeholder={messages.feedback.contentPlaceholder}
               value={content}
               onChange={(e) => setContent(e.target.value)}
               disabled={isSubmitting}
               rows={5}
               maxLength={5000}
               className="resize-none"
-              aria-label="피드백 내용 입력"
+              aria-label={messages.feedback.contentInput}
             />
             <p className="text-xs text-muted-foreground text-right">
               {content.length} / 5000
@@ -180,7 +189,7 @@ export function FeedbackForm({
           <div className="space-y-2">
             <Label htmlFor="feedback-rating" className="flex items-center gap-2">
               <Star className="w-4 h-4" />
-              평점 (선택 사항)
+              {messages.feedback.rating}
             </Label>
             <Select
               value={rating?.toString() || ""}
@@ -189,16 +198,19 @@ export function FeedbackForm({
               }
               disabled={isSubmitting}
             >
-              <SelectTrigger id="feedback-rating" aria-label="평점 선택">
-                <SelectValue placeholder="평점을 선택하세요 (선택 사항)" />
+              <SelectTrigger id="feedback-rating" aria-label={messages.feedback.selectRating}>
+                <SelectValue placeholder={messages.feedback.ratingPlaceholder} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="">평점 없음</SelectItem>
-                <SelectItem value="5">⭐⭐⭐⭐⭐ (5점)</SelectItem>
-                <SelectItem value="4">⭐⭐⭐⭐ (4점)</SelectItem>
-                <SelectItem value="3">⭐⭐⭐ (3점)</SelectItem>
-                <SelectItem value="2">⭐⭐ (2점)</SelectItem>
-                <SelectItem value="1">⭐ (1점)</SelectItem>
+                <SelectItem value="">{messages.feedback.noRating}</SelectItem>
+                {RATING_OPTIONS.map((score) => (
+                  <SelectItem key={score} value={String(score)}>
+                    {formatMessage(messages.feedback.ratingOption, {
+                      stars: "⭐".repeat(score),
+                      score,
+                    })}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -211,16 +223,16 @@ export function FeedbackForm({
               onClick={() => handleOpenChange(false)}
               disabled={isSubmitting}
             >
-              취소
+              {messages.common.cancel}
             </Button>
             <Button type="submit" disabled={isSubmitting || !content.trim()}>
               {isSubmitting ? (
                 <>
                   <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  제출 중...
+                  {messages.common.submitting}
                 </>
               ) : (
-                "제출"
+                messages.common.submit
               )}
             </Button>
           </div>
@@ -0,0 +1,65 @@
+/**
+ * @file language-switcher.tsx
+ * @description 언어 선택 컴포넌트
+ *
+ * 화면 문구와 관광 정보(관광지 이름, 주소, 개요 등)를 표시할 언어를 선택합니다.
+ * 현재 페이지의 언어 접두사만 바꾼 주소(/places/125266 → /en/places/125266)로 이동합니다.
+ *
+ * 루트 레이아웃은 클라이언트 내비게이션에서 다시 렌더링되지 않으므로
+ * (I18nProvider, ClerkProvider의 언어가 바뀌지 않음) 전체 페이지를 새로 불러옵니다.
+ *
+ * @see {@link /lib/i18n/config.ts} - 지원 언어, 경로 규칙
+ */
+
+"use client";
+
+import { useState } from "react";
+import { Languages } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from "@/components/ui/select";
+import { useI18n } from "@/hooks/use-i18n";
+import { LOCALES, LOCALE_INFO, localizePath, parseLocale, splitLocalePath } from "@/lib/i18n/config";
+
+/**
+ * 언어 선택 컴포넌트
+ */
+export default function LanguageSwitcher() {
+  const { locale, messages } = useI18n();
+  const [isNavigating, setIsNavigating] = useState(false);
+
+  const handleChange = (value: string) => {
+    const nextLocale = parseLocale(value);
+    if (nextLocale === locale) {
+      return;
+    }
+    setIsNavigating(true);
+    const { pathname } = splitLocalePath(window.location.pathname);
+    window.location.assign(
+      localizePath(`${pathname}${window.location.search}`, nextLocale)
+    );
+  };
+
+  return (
+    <Select value={locale} onValueChange={handleChange} disabled={isNavigating}>
+      <SelectTrigger
+        className="w-9 h-9 p-0 border-0 focus:ring-2 focus:ring-ring"
+        aria-label={messages.languageSwitcher.label}
+      >
+        <div className="flex items-center justify-center">
+          <Languages className="h-4 w-4" aria-hidden="true" />
+        </div>
+      </SelectTrigger>
+      <SelectContent align="end">
+        {LOCALES.map((code) => (
+          <SelectItem key={code} value={code} lang={code}>
+            {LOCALE_INFO[code].label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * @file map-legend.tsx
+ * @description 지도 범례 컴포넌트
+ *
+ * 지도에 표시 중인 관광 타입별 마커 색상을 보여주고,
+ * 타입별 체크박스로 해당 마커를 숨기거나 다시 표시합니다.
+ * 이미 불러온 관광지 마커의 표시 여부만 바꾸므로 API를 다시 호출하지 않습니다.
+ *
+ * 구성 요소:
+ * - 범례 펼치기/접기 버튼
+ * - 타입별 체크박스 (색상 견본, 타입 이름, 관광지 수)
+ *
+ * @see {@link /lib/utils/marker-styles.ts} - 콘텐츠 타입별 마커 스타일
+ */
+
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ChevronUp, Layers } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { getContentTypeLabel } from "@/lib/i18n/labels";
+import { getMarkerColor, type MarkerTypeKey } from "@/lib/utils/marker-styles";
+import { useI18n } from "@/hooks/use-i18n";
+
+interface MapLegendProps {
+  /** 범례에 표시할 타입별 관광지 수 (표시 순서대로) */
+  items: { typeKey: MarkerTypeKey; count: number }[];
+  /** 숨긴 타입 */
+  hiddenTypes: ReadonlySet<MarkerTypeKey>;
+  /** 타입 표시 여부 변경 콜백 */
+  onToggleType: (typeKey: MarkerTypeKey, visible: boolean) => void;
+  /** 다크 테마 여부 (색상 견본을 마커와 같은 색으로 표시) */
+  isDark: boolean;
+}
+
+/**
+ * 지도 범례 컴포넌트
+ */
+export default function MapLegend({ items, hiddenTypes, onToggleType, isDark }: MapLegendProps) {
+  const { messages } = useI18n();
+  const [isOpen, setIsOpen] = useState(true);
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-background/95 border border-border rounded-lg shadow-md text-sm">
+      <button
+        type="button"
+        onClick={() => setIsOpen((prev) => !prev)}
+        className="flex w-full items-center gap-2 px-3 py-2 font-medium"
+        aria-expanded={isOpen}
+        aria-controls="map-legend-items"
+      >
+        <Layers className="w-4 h-4" aria-hidden="true" />
+        {messages.map.legend}
+        {isOpen ? (
+          <ChevronDown className="w-4 h-4 ml-auto" aria-hidden="true" />
+        ) : (
+          <ChevronUp className="w-4 h-4 ml-auto" aria-hidden="true" />
+        )}
+      </button>
+
+      {isOpen && (
+        <ul id="map-legend-items" className="space-y-1.5 px-3 pb-3">
+          {items.map(({ typeKey, count }) => {
+            const id = `map-legend-${typeKey}`;
+            return (
+              <li key={typeKey} className="flex items-center gap-2">
+                <Checkbox
+                  id={id}
+                  checked={!hiddenTypes.has(typeKey)}
+                  onCheckedChange={(checked) => onToggleType(typeKey, checked === true)}
+                />
+                <span
+                  className="inline-block w-3 h-3 rounded-full shrink-0"
+                  style={{ backgroundColor: getMarkerColor(typeKey, isDark) }}
+                  aria-hidden="true"
+                />
+                <Label htmlFor={id} className="text-sm font-normal cursor-pointer">
+                  {getContentTypeLabel(messages, typeKey)}
+                  <span className="text-muted-foreground">({count})</span>
+                </Label>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,64 +1,85 @@
 /**
  * @file naver-map.tsx
- * @description 네이버 지도 컴포넌트
+ * @description 관광지 지도 컴포넌트
  *
- * Naver Maps API v3 (NCP)를 사용하여 관광지 목록을 지도에 마커로 표시합니다.
+ * 설정된 지도 제공자(Naver Maps API v3 또는 Leaflet)를 사용하여 관광지 목록을 지도에 마커로 표시합니다.
+ * 네이버 지도를 불러오지 못하면 OpenStreetMap 호환 타일 지도로 자동 대체합니다.
  * 리스트와 지도를 양방향으로 연동하여 선택된 관광지를 강조 표시합니다.
  *
  * 주요 기능:
- * - 관광지 마커 표시
+ * - 관광지 마커 표시 (목록이 늘어나면 추가된 관광지 마커만 생성)
+ * - 줌 레벨에 따른 마커 클러스터링 (개수 버블 클릭 시 확대)
  * - 마커 클릭 시 인포윈도우 표시
- * - 선택된 관광지 마커 강조
- * - 지도 컨트롤 (줌 인/아웃, 지도 유형 선택)
+ * - 관광 타입별 마커 색상/아이콘, 선택된 관광지 마커 강조
+ * - 범례에서 관광 타입별 마커 숨기기/표시 (다시 조회하지 않음)
+ * - 라이트/다크 테마에 맞춘 마커 스타일
+ * - 지도 컨트롤 (줌 인/아웃, 지도 유형 선택 - 위성 지도를 지원하는 제공자만)
+ * - 사용자가 지도를 움직이면 "이 지역에서 검색" 버튼 표시
+ * - 거리 필터 반경 원 표시 (중심/가장자리 핸들을 끌어서 위치와 반경 조절)
  *
  * @see {@link /docs/PRD.md} - MVP 2.2 네이버 지도 연동
  * @see {@link /docs/DESIGN.md} - 레이아웃 및 디자인 시스템
+ * @see {@link /hooks/use-map.ts} - 지도 생성 및 제공자 대체
  */
 
 "use client";
 
-import { useEffect, useRef, useState } from "react";
-import Script from "next/script";
-import { convertKATECToWGS84 } from "@/lib/utils/coordinate";
-import { calculateCenterFromTours } from "@/lib/utils/map-utils";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useTheme } from "next-themes";
+import { convertToWGS84 } from "@/lib/utils/coordinate";
+import {
+  calculateCenterFromTours,
+  DISTANCE_FILTER_RADIUS,
+  getSearchAreaFromBounds,
+  type SearchArea,
+} from "@/lib/utils/map-utils";
+import { getBoundingBoxFromRadius, getDestinationPoint, getDistanceMeters } from "@/lib/utils/geo";
+import {
+  clusterPoints,
+  DEFAULT_CLUSTER_OPTIONS,
+  type ClusterPoint,
+  type MarkerCluster,
+} from "@/lib/utils/marker-cluster";
+import {
+  getMarkerTheme,
+  getMarkerTypeKey,
+  getTourMarkerIcon,
+  MARKER_TYPE_KEYS,
+  type MarkerTypeKey,
+} from "@/lib/utils/marker-styles";
 import type { TourItem } from "@/lib/types/tour";
-import { Loader2, MapPin } from "lucide-react";
+import { Loader2, MapPin, RefreshCw } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { ZoomIn, ZoomOut, Map, Satellite } from "lucide-react";
-
-// Naver Maps API 타입 정의
-type NaverMap = any;
-type NaverMarker = any;
-type NaverInfoWindow = any;
-
-declare global {
-  interface Window {
-    naver: {
-      maps: {
-        LatLng: new (lat: number, lng: number) => any;
-        Map: new (element: HTMLElement, options: any) => NaverMap;
-        Marker: new (options: any) => NaverMarker;
-        InfoWindow: new (options: any) => NaverInfoWindow;
-        Point: new (x: number, y: number) => any;
-        Event: {
-          addListener: (
-            target: any,
-            event: string,
-            handler: () => void,
-          ) => void;
-          removeListener: (
-            target: any,
-            event: string,
-            handler: () => void,
-          ) => void;
-        };
-        MapTypeId: {
-          NORMAL: string;
-          SATELLITE: string;
-        };
-      };
-    };
-  }
+import MapLegend from "@/components/map-legend";
+import { ZoomIn, ZoomOut, Map as MapIcon, Satellite } from "lucide-react";
+import { useI18n } from "@/hooks/use-i18n";
+import { useMap } from "@/hooks/use-map";
+import { formatMessage } from "@/lib/i18n/config";
+import type { MapInfoWindow, MapMarker, MapMarkerIcon } from "@/lib/maps";
+
+/**
+ * 관광지 마커 (콘텐츠 ID별로 한 번만 생성)
+ */
+interface TourMarkerEntry {
+  tour: TourItem;
+  marker: MapMarker;
+  infoWindow: MapInfoWindow;
+  /** 마커 클릭 리스너 해제 (마커 제거 시 호출) */
+  removeClickListener: () => void;
+  lat: number;
+  lng: number;
+  /** 지도에 표시 중인지 여부 (클러스터에 포함되면 숨김) */
+  isVisible: boolean;
+}
+
+/**
+ * 클러스터 마커 (클러스터 키별로 재사용)
+ */
+interface ClusterMarkerEntry {
+  marker: MapMarker;
+  cluster: MarkerCluster<string>;
+  /** 클러스터 클릭 리스너 해제 (클러스터 마커 제거 시 호출) */
+  removeClickListener: () => void;
 }
 
 interface NaverMapProps {
@@ -72,10 +93,20 @@ interface NaverMapProps {
   mapType?: "normal" | "satellite";
   /** 지도 유형 변경 콜백 */
   onMapTypeChange?: (mapType: "normal" | "satellite") => void;
+  /** 초기 지도 위치 (지정하면 관광지 목록에 맞춰 지도를 자동 이동하지 않음) */
+  initialView?: { lat: number; lng: number; zoom: number };
+  /** "이 지역에서 검색" 클릭 시 콜백 (없으면 버튼 미표시) */
+  onSearchArea?: (area: SearchArea, zoom: number) => void;
+  /** 거리 필터 반경 원 (없으면 미표시) */
+  radiusCircle?: SearchArea;
+  /** 반경 원의 중심/반경을 끌어서 바꿨을 때 콜백 (없으면 핸들 미표시) */
+  onRadiusCircleChange?: (circle: SearchArea) => void;
+  /** 지도 이동/확대가 끝났을 때 현재 중심 좌표 전달 */
+  onCenterChange?: (center: { lat: number; lng: number }) => void;
 }
 
 /**
- * 네이버 지도 컴포넌트
+ * 관광지 지도 컴포넌트
  */
 export default function NaverMap({
   tours,
@@ -83,251 +114,471 @@ export default function NaverMap({
   onMarkerClick,
   mapType = "normal",
   onMapTypeChange,
+  initialView,
+  onSearchArea,
+  radiusCircle,
+  onRadiusCircleChange,
+  onCenterChange,
 }: NaverMapProps) {
   const mapRef = useRef<HTMLDivElement>(null);
-  const mapInstanceRef = useRef<NaverMap | null>(null);
-  const markersRef = useRef<NaverMarker[]>([]);
-  const infoWindowsRef = useRef<NaverInfoWindow[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [isScriptLoaded, setIsScriptLoaded] = useState(false);
-
-  // Naver Maps API 클라이언트 ID
-  const clientId = process.env.NEXT_PUBLIC_NAVER_MAP_CLIENT_ID;
-
-  // 스크립트 로드 완료 핸들러
-  const handleScriptLoad = () => {
-    // 스크립트가 로드되었지만 naver 객체가 있는지 확인
-    if (typeof window !== "undefined" && window.naver && window.naver.maps) {
-      setIsScriptLoaded(true);
-    } else {
-      console.error(
-        "네이버 지도 API 스크립트는 로드되었지만 naver 객체를 찾을 수 없습니다.",
-      );
-      setError(
-        "네이버 지도 API를 초기화할 수 없습니다. API 키와 서비스 설정을 확인해주세요.",
-      );
-      setIsLoading(false);
-    }
-  };
-
-  // 스크립트 로드 에러 핸들러
-  const handleScriptError = (error?: Error | string) => {
-    console.error("네이버 지도 API 스크립트 로드 실패:", error);
-    setError(
-      "네이버 지도 API를 로드할 수 없습니다. Vercel 환경변수에서 NEXT_PUBLIC_NAVER_MAP_CLIENT_ID를 확인해주세요.",
-    );
-    setIsLoading(false);
-  };
-
-  // 지도 초기화
+  const markersRef = useRef<Map<string, TourMarkerEntry>>(new Map());
+  const clusterMarkersRef = useRef<Map<string, ClusterMarkerEntry>>(new Map());
+  const selectedIdRef = useRef<string | undefined>(undefined);
+  const onMarkerClickRef = useRef(onMarkerClick);
+  const initialViewRef = useRef(initialView);
+  const onRadiusCircleChangeRef = useRef(onRadiusCircleChange);
+  const onCenterChangeRef = useRef(onCenterChange);
+  // 마커 생성 시점의 선택/테마/인포윈도우 내용 (마커 증분 갱신이 이 값들로 다시 실행되지 않도록 ref로 참조)
+  const selectedTourIdRef = useRef(selectedTourId);
+  const isDarkRef = useRef(false);
+  const getInfoWindowContentRef = useRef<(tour: TourItem) => string>(() => "");
+  // 핸들을 끌어서 알린 반경 원 (이 값으로 다시 그릴 때는 지도를 옮기지 않음)
+  const reportedCircleRef = useRef<SearchArea | null>(null);
+  const hasRadiusCircleRef = useRef(Boolean(radiusCircle));
+  // 코드에서 지도를 이동한 경우 다음 idle 이벤트를 사용자 이동으로 보지 않음
+  // (지도 생성 직후의 idle 포함)
+  const isProgrammaticMoveRef = useRef(true);
+  const [mapZoom, setMapZoom] = useState<number | null>(null);
+  const [isAreaChanged, setIsAreaChanged] = useState(false);
+  const [hiddenTypes, setHiddenTypes] = useState<ReadonlySet<MarkerTypeKey>>(new Set());
+  const { messages, localizePath } = useI18n();
+  const { resolvedTheme } = useTheme();
+  const isDark = resolvedTheme === "dark";
+
+  // 마커는 한 번만 생성하므로 클릭 콜백은 최신 값을 ref로 참조
+  onMarkerClickRef.current = onMarkerClick;
+  selectedTourIdRef.current = selectedTourId;
+  isDarkRef.current = isDark;
+  initialViewRef.current = initialView;
+  onRadiusCircleChangeRef.current = onRadiusCircleChange;
+  onCenterChangeRef.current = onCenterChange;
+  hasRadiusCircleRef.current = Boolean(radiusCircle);
+
+  // 지도 생성 (한 번만 생성, 관광지 목록이 바뀌어도 지도를 다시 만들지 않음)
+  // URL에 지도 위치가 있으면 해당 위치로, 없으면 한국 중심 좌표로 시작
+  // (후자는 마커 갱신 시 관광지 중심으로 이동)
+  const { map, isLoading, error } = useMap(mapRef, {
+    center: initialView ?? calculateCenterFromTours([]),
+    zoom: initialView?.zoom ?? 7,
+  });
+
+  // 지도 이동/확대가 끝나면 현재 줌 레벨로 클러스터 재계산
   useEffect(() => {
-    if (!isScriptLoaded || !mapRef.current || !clientId) {
-      if (!clientId) {
-        setError(
-          "네이버 지도 API 키가 설정되지 않았습니다. Vercel 환경변수를 확인해주세요.",
-        );
-        setIsLoading(false);
+    if (!map) return;
+
+    setMapZoom(map.getZoom());
+    onCenterChangeRef.current?.(map.getCenter());
+    return map.onIdle(() => {
+      setMapZoom(map.getZoom());
+      onCenterChangeRef.current?.(map.getCenter());
+      if (isProgrammaticMoveRef.current) {
+        isProgrammaticMoveRef.current = false;
+        return;
       }
-      return;
-    }
-
-    // naver 객체 확인
-    if (typeof window === "undefined" || !window.naver || !window.naver.maps) {
-      console.error("naver.maps 객체를 찾을 수 없습니다.");
-      setError(
-        "네이버 지도 API가 로드되지 않았습니다. 페이지를 새로고침해주세요.",
-      );
-      setIsLoading(false);
-      return;
-    }
+      setIsAreaChanged(true);
+    });
+  }, [map]);
 
-    try {
-      // 중심 좌표 계산
-      const center = calculateCenterFromTours(tours);
-      const centerLatLng = new naver.maps.LatLng(center.lat, center.lng);
-
-      // 지도 생성
-      const map = new naver.maps.Map(mapRef.current, {
-        center: centerLatLng,
-        zoom: tours.length > 0 ? 10 : 7, // 관광지가 있으면 줌 10, 없으면 7
-        mapTypeControl: false, // 기본 컨트롤 숨김 (커스텀 컨트롤 사용)
-        zoomControl: false, // 기본 컨트롤 숨김 (커스텀 컨트롤 사용)
+  // 지도가 제거되면 마커와 리스너 정리
+  useEffect(() => {
+    if (!map) return;
+
+    const entries = markersRef.current;
+    const clusterMarkers = clusterMarkersRef.current;
+    return () => {
+      entries.forEach((entry) => {
+        entry.removeClickListener();
+        entry.infoWindow.close();
+        entry.marker.remove();
       });
+      entries.clear();
+      clusterMarkers.forEach((entry) => {
+        entry.removeClickListener();
+        entry.marker.remove();
+      });
+      clusterMarkers.clear();
+      selectedIdRef.current = undefined;
+    };
+  }, [map]);
 
-      mapInstanceRef.current = map;
-      setIsLoading(false);
-      setError(null);
-    } catch (err) {
-      console.error("지도 초기화 실패:", err);
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      setError(`지도를 초기화할 수 없습니다: ${errorMessage}`);
-      setIsLoading(false);
-    }
-  }, [isScriptLoaded, clientId, tours]);
-
-  // 마커 생성 및 업데이트
+  // 마커 증분 갱신 (추가된 관광지만 생성, 사라진 관광지만 제거)
   useEffect(() => {
-    if (!mapInstanceRef.current || !isScriptLoaded) return;
-
-    const map = mapInstanceRef.current;
-
-    // 기존 마커 및 인포윈도우 제거
-    markersRef.current.forEach((marker) => marker.setMap(null));
-    infoWindowsRef.current.forEach((infoWindow) => infoWindow.close());
-    markersRef.current = [];
-    infoWindowsRef.current = [];
-
-    // 관광지가 없는 경우 종료
-    if (tours.length === 0) {
-      console.log("관광지 목록이 비어있습니다.");
-      return;
-    }
-
-    console.log(`마커 생성 시작: ${tours.length}개 관광지`);
+    if (!map) return;
 
-    let successCount = 0;
-    let failCount = 0;
+    const entries = markersRef.current;
+    const previousSize = entries.size;
 
-    // 마커 생성
+    // 좌표가 유효한 관광지만 마커 대상
+    const nextTours = new Map<string, { tour: TourItem; lat: number; lng: number }>();
     tours.forEach((tour) => {
-      if (!tour.mapx || !tour.mapy) {
-        console.warn("좌표가 없는 관광지:", tour.contentid, tour.title);
-        failCount++;
+      const coord = convertToWGS84(tour.mapx, tour.mapy);
+      if (!coord.valid) {
+        console.warn("좌표가 유효하지 않은 관광지:", tour.contentid, tour.title, coord.reason);
         return;
       }
+      nextTours.set(tour.contentid, { tour, lat: coord.lat, lng: coord.lng });
+    });
 
-      try {
-        // 좌표 변환
-        const coord = convertKATECToWGS84(tour.mapx, tour.mapy);
-        console.log(`관광지 ${tour.title} 좌표 변환:`, {
-          원본: { mapx: tour.mapx, mapy: tour.mapy },
-          변환: coord,
-        });
+    // 목록에서 사라진 관광지 마커 제거
+    let removedCount = 0;
+    entries.forEach((entry, contentId) => {
+      if (!nextTours.has(contentId)) {
+        entry.removeClickListener();
+        entry.infoWindow.close();
+        entry.marker.remove();
+        entries.delete(contentId);
+        removedCount++;
+      }
+    });
 
-        const position = new naver.maps.LatLng(coord.lat, coord.lng);
+    // 새로 추가된 관광지 마커 생성 (표시 여부는 클러스터 갱신에서 결정)
+    let addedCount = 0;
+    let failCount = 0;
+    nextTours.forEach(({ tour, lat, lng }, contentId) => {
+      if (entries.has(contentId)) return;
 
-        // 마커 생성
-        const marker = new naver.maps.Marker({
-          position,
-          map,
+      try {
+        const marker = map.addMarker({
+          position: { lat, lng },
           title: tour.title,
-          icon: {
-            content: getMarkerIcon(
-              tour.contenttypeid,
-              tour.contentid === selectedTourId,
-            ),
-            anchor: new naver.maps.Point(12, 34),
-          },
+          icon: getTourMarkerIcon(tour.contenttypeid, {
+            isSelected: contentId === selectedTourIdRef.current,
+            isDark: isDarkRef.current,
+          }),
+          visible: false,
         });
 
-        // 인포윈도우 생성
-        const infoWindow = new naver.maps.InfoWindow({
-          content: getInfoWindowContent(tour),
-        });
+        const infoWindow = map.createInfoWindow(getInfoWindowContentRef.current(tour));
 
-        // 마커 클릭 이벤트
-        naver.maps.Event.addListener(marker, "click", () => {
+        // 마커 클릭 이벤트 (최신 콜백은 ref로 참조)
+        const removeClickListener = marker.onClick(() => {
           // 다른 인포윈도우 닫기
-          infoWindowsRef.current.forEach((iw) => {
-            if (iw !== infoWindow) iw.close();
+          markersRef.current.forEach((other) => {
+            if (other.infoWindow !== infoWindow) other.infoWindow.close();
           });
 
-          // 인포윈도우 열기
-          infoWindow.open(map, marker);
-
-          // 콜백 호출
-          if (onMarkerClick) {
-            onMarkerClick(tour.contentid);
-          }
+          infoWindow.open(marker);
+          onMarkerClickRef.current?.(contentId);
         });
 
-        markersRef.current.push(marker);
-        infoWindowsRef.current.push(infoWindow);
-        successCount++;
+        entries.set(contentId, {
+          tour,
+          marker,
+          infoWindow,
+          removeClickListener,
+          lat,
+          lng,
+          isVisible: false,
+        });
+        addedCount++;
       } catch (err) {
         console.error("마커 생성 실패:", tour.contentid, tour.title, err);
         failCount++;
       }
     });
 
-    console.log(
-      `마커 생성 완료: 성공 ${successCount}개, 실패 ${failCount}개, 총 ${markersRef.current.length}개 마커`,
-    );
-  }, [tours, selectedTourId, isScriptLoaded, onMarkerClick]);
+    // 목록이 처음 로드되거나 통째로 바뀌면 관광지 중심으로 이동
+    // (URL에 지도 위치가 있거나 거리 필터 반경 원이 있으면 해당 화면을 유지)
+    const isReplaced = removedCount === previousSize;
+    if (isReplaced && entries.size > 0 && !initialViewRef.current && !hasRadiusCircleRef.current) {
+      const center = calculateCenterFromTours(tours);
+      isProgrammaticMoveRef.current = true;
+      map.setCenter(center);
+      map.setZoom(10);
+    }
 
-  // 선택된 관광지로 지도 이동
+    // 마커 변경 요약은 개발 환경에서만 출력 (실패한 마커는 위에서 따로 에러로 기록)
+    if (process.env.NODE_ENV === "development" && (addedCount > 0 || removedCount > 0 || failCount > 0)) {
+      console.log(
+        `마커 갱신 완료: 추가 ${addedCount}개, 제거 ${removedCount}개, 실패 ${failCount}개, 총 ${entries.size}개 마커`,
+      );
+    }
+  }, [tours, map]);
+
+  // 선택된 관광지 마커 아이콘 갱신 (이전/현재 선택 마커만 변경)
   useEffect(() => {
-    if (!mapInstanceRef.current || !isScriptLoaded || !selectedTourId) return;
+    const previousId = selectedIdRef.current;
+    selectedIdRef.current = selectedTourId;
+    if (!map || previousId === selectedTourId) return;
+
+    [previousId, selectedTourId].forEach((contentId) => {
+      const entry = contentId ? markersRef.current.get(contentId) : undefined;
+      if (!entry) return;
+      entry.marker.setIcon(
+        getTourMarkerIcon(entry.tour.contenttypeid, {
+          isSelected: contentId === selectedTourId,
+          isDark,
+        })
+      );
+    });
+  }, [selectedTourId, map, isDark]);
 
-    const map = mapInstanceRef.current;
-    const selectedTour = tours.find(
-      (tour) => tour.contentid === selectedTourId,
-    );
+  // 테마가 바뀌면 모든 관광지 마커 아이콘 갱신 (클러스터 버블은 클러스터 갱신에서 처리)
+  useEffect(() => {
+    if (!map) return;
+
+    markersRef.current.forEach((entry, contentId) => {
+      entry.marker.setIcon(
+        getTourMarkerIcon(entry.tour.contenttypeid, {
+          isSelected: contentId === selectedIdRef.current,
+          isDark,
+        })
+      );
+    });
+  }, [isDark, map]);
 
-    if (!selectedTour || !selectedTour.mapx || !selectedTour.mapy) return;
+  // 클러스터 갱신 (줌 레벨 또는 마커 목록이 바뀔 때)
+  useEffect(() => {
+    if (!map || mapZoom === null) return;
 
-    try {
-      // 좌표 변환
-      const coord = convertKATECToWGS84(selectedTour.mapx, selectedTour.mapy);
-      const position = new naver.maps.LatLng(coord.lat, coord.lng);
+    const entries = markersRef.current;
 
+    // 선택된 관광지는 항상 개별 마커로 표시, 범례에서 숨긴 타입은 클러스터에서도 제외
+    const points: ClusterPoint<string>[] = [];
+    entries.forEach((entry, contentId) => {
+      if (contentId === selectedTourId) return;
+      if (hiddenTypes.has(getMarkerTypeKey(entry.tour.contenttypeid))) return;
+      points.push({ id: contentId, lat: entry.lat, lng: entry.lng, data: contentId });
+    });
+    const clusters = clusterPoints(points, mapZoom);
+
+    // 개별 마커 표시 여부 갱신 (상태가 바뀐 마커만 setVisible 호출)
+    const visibleIds = new Set<string>();
+    if (selectedTourId) visibleIds.add(selectedTourId);
+    clusters.forEach((cluster) => {
+      if (cluster.points.length === 1) visibleIds.add(cluster.points[0].id);
+    });
+    entries.forEach((entry, contentId) => {
+      const shouldShow = visibleIds.has(contentId);
+      if (entry.isVisible === shouldShow) return;
+      entry.marker.setVisible(shouldShow);
+      if (!shouldShow) entry.infoWindow.close();
+      entry.isVisible = shouldShow;
+    });
+
+    // 클러스터 마커 생성/재사용/제거
+    const clusterMarkers = clusterMarkersRef.current;
+    const activeKeys = new Set<string>();
+    clusters.forEach((cluster) => {
+      if (cluster.points.length === 1) return;
+      activeKeys.add(cluster.key);
+
+      const position = { lat: cluster.lat, lng: cluster.lng };
+      const size = getClusterSize(cluster.points.length);
+      const icon: MapMarkerIcon = {
+        html: getClusterIcon(cluster.points.length, size, isDark),
+        size: { width: size, height: size },
+        anchor: { x: size / 2, y: size / 2 },
+      };
+      const title = formatMessage(messages.map.clusterTitle, {
+        count: cluster.points.length,
+      });
+
+      const existing = clusterMarkers.get(cluster.key);
+      if (existing) {
+        existing.marker.setPosition(position);
+        existing.marker.setIcon(icon);
+        existing.marker.setTitle(title);
+        existing.cluster = cluster;
+        return;
+      }
+
+      const marker = map.addMarker({ position, title, icon });
+      const clusterEntry: ClusterMarkerEntry = { marker, cluster, removeClickListener: () => {} };
+
+      // 클러스터 클릭 시 포함된 관광지가 모두 보이도록 확대
+      clusterEntry.removeClickListener = marker.onClick(() => {
+        const { bounds } = clusterEntry.cluster;
+        if (bounds.minLat === bounds.maxLat && bounds.minLng === bounds.maxLng) {
+          // 모든 관광지가 같은 좌표이면 클러스터링이 풀리는 줌 레벨로 확대
+          map.setCenter(position);
+          map.setZoom(DEFAULT_CLUSTER_OPTIONS.maxZoom, true);
+          return;
+        }
+        map.fitBounds(bounds, { top: 48, right: 48, bottom: 48, left: 48 });
+      });
+
+      clusterMarkers.set(cluster.key, clusterEntry);
+    });
+
+    clusterMarkers.forEach((entry, key) => {
+      if (!activeKeys.has(key)) {
+        entry.removeClickListener();
+        entry.marker.remove();
+        clusterMarkers.delete(key);
+      }
+    });
+  }, [tours, selectedTourId, map, mapZoom, messages, hiddenTypes, isDark]);
+
+  // 선택된 관광지로 지도 이동
+  useEffect(() => {
+    if (!map || !selectedTourId) return;
+
+    const entry = markersRef.current.get(selectedTourId);
+    if (!entry) return;
+
+    try {
       // 지도 중심 이동 및 줌 조정
-      map.setCenter(position);
+      isProgrammaticMoveRef.current = true;
+      map.setCenter({ lat: entry.lat, lng: entry.lng });
       map.setZoom(15, true); // true: 애니메이션 사용
 
-      // 해당 마커의 인포윈도우 열기
-      const markerIndex = markersRef.current.findIndex(
-        (marker) => marker.getTitle() === selectedTour.title,
-      );
+      // 다른 인포윈도우 닫기
+      markersRef.current.forEach((other) => {
+        if (other !== entry) other.infoWindow.close();
+      });
 
-      if (markerIndex !== -1 && infoWindowsRef.current[markerIndex]) {
-        // 다른 인포윈도우 닫기
-        infoWindowsRef.current.forEach((iw, index) => {
-          if (index !== markerIndex) iw.close();
-        });
+      // 약간의 지연을 두어 지도 이동 후 인포윈도우 열기
+      const timer = setTimeout(() => {
+        entry.infoWindow.open(entry.marker);
+      }, 300);
 
-        // 약간의 지연을 두어 지도 이동 후 인포윈도우 열기
-        setTimeout(() => {
-          infoWindowsRef.current[markerIndex].open(
-            map,
-            markersRef.current[markerIndex],
-          );
-        }, 300);
-      }
+      return () => clearTimeout(timer);
     } catch (err) {
       console.error("지도 이동 실패:", selectedTourId, err);
     }
-  }, [selectedTourId, tours, isScriptLoaded]);
+  }, [selectedTourId, tours, map]);
+
+  // 거리 필터 반경 원 표시 (중심 핸들로 이동, 가장자리 핸들로 반경 조절)
+  const circleLat = radiusCircle?.lat;
+  const circleLng = radiusCircle?.lng;
+  const circleRadius = radiusCircle?.radius;
+  const isCircleEditable = Boolean(onRadiusCircleChange);
+  useEffect(() => {
+    if (!map || circleLat === undefined || circleLng === undefined || circleRadius === undefined) {
+      return;
+    }
+
+    let center = { lat: circleLat, lng: circleLng };
+    let radius = circleRadius;
+    const circle = map.addCircle({ center, radius, color: "#3b82f6", fillOpacity: 0.08 });
+
+    // 핸들로 바꾼 값이 아니면 반경 원 전체가 보이도록 지도 이동
+    const reported = reportedCircleRef.current;
+    const isReported =
+      reported?.lat === circleLat && reported.lng === circleLng && reported.radius === circleRadius;
+    if (!isReported) {
+      isProgrammaticMoveRef.current = true;
+      map.fitBounds(getBoundingBoxFromRadius(circleLat, circleLng, circleRadius), {
+        top: 48,
+        right: 48,
+        bottom: 48,
+        left: 48,
+      });
+    }
+
+    if (!isCircleEditable) {
+      return () => circle.remove();
+    }
+
+    // 가장자리 핸들은 중심의 동쪽에 표시
+    const getEdgePosition = () => getDestinationPoint(center.lat, center.lng, 90, radius);
+    const report = () => {
+      const next = { lat: center.lat, lng: center.lng, radius };
+      reportedCircleRef.current = next;
+      onRadiusCircleChangeRef.current?.(next);
+    };
+
+    const centerHandle = map.addMarker({
+      position: center,
+      icon: getHandleIcon(18),
+      title: messages.map.radiusCenter,
+      draggable: true,
+    });
+    const edgeHandle = map.addMarker({
+      position: getEdgePosition(),
+      icon: getHandleIcon(14),
+      title: messages.map.radiusHandle,
+      draggable: true,
+    });
+
+    const removeListeners = [
+      centerHandle.onDrag((position) => {
+        center = position;
+        circle.setCenter(position);
+        edgeHandle.setPosition(getEdgePosition());
+      }),
+      centerHandle.onDragEnd(report),
+      edgeHandle.onDrag((position) => {
+        const distance = getDistanceMeters(center.lat, center.lng, position.lat, position.lng);
+        radius = Math.min(Math.max(distance, DISTANCE_FILTER_RADIUS.MIN), DISTANCE_FILTER_RADIUS.MAX);
+        circle.setRadius(radius);
+      }),
+      edgeHandle.onDragEnd(() => {
+        // 반경은 100m 단위로 맞추고 핸들을 원 위로 되돌림
+        radius = Math.round(radius / 100) * 100;
+        circle.setRadius(radius);
+        edgeHandle.setPosition(getEdgePosition());
+        report();
+      }),
+    ];
+
+    return () => {
+      removeListeners.forEach((remove) => remove());
+      centerHandle.remove();
+      edgeHandle.remove();
+      circle.remove();
+    };
+  }, [map, circleLat, circleLng, circleRadius, isCircleEditable, messages]);
+
+  // 범례 항목 (마커로 표시되는 관광지의 타입별 개수, 스타일 정의 순서)
+  const legendItems = useMemo(() => {
+    const counts = new Map<MarkerTypeKey, number>();
+    tours.forEach((tour) => {
+      if (!convertToWGS84(tour.mapx, tour.mapy).valid) return;
+      const typeKey = getMarkerTypeKey(tour.contenttypeid);
+      counts.set(typeKey, (counts.get(typeKey) ?? 0) + 1);
+    });
+    return MARKER_TYPE_KEYS.filter((typeKey) => counts.has(typeKey)).map((typeKey) => ({
+      typeKey,
+      count: counts.get(typeKey) ?? 0,
+    }));
+  }, [tours]);
+
+  // 범례에서 타입 표시 여부 변경 (불러온 마커의 표시 여부만 바꿈)
+  const handleToggleType = (typeKey: MarkerTypeKey, visible: boolean) => {
+    setHiddenTypes((prev) => {
+      const next = new Set(prev);
+      if (visible) {
+        next.delete(typeKey);
+      } else {
+        next.add(typeKey);
+      }
+      return next;
+    });
+  };
 
   // 지도 유형 변경
   useEffect(() => {
-    if (!mapInstanceRef.current) return;
+    if (!map) return;
 
-    const map = mapInstanceRef.current;
-    const mapTypeId =
-      mapType === "satellite"
-        ? naver.maps.MapTypeId.SATELLITE
-        : naver.maps.MapTypeId.NORMAL;
-    map.setMapTypeId(mapTypeId);
-  }, [mapType]);
+    map.setMapType(mapType);
+  }, [mapType, map]);
 
   // 줌 인
   const handleZoomIn = () => {
-    if (mapInstanceRef.current) {
-      const currentZoom = mapInstanceRef.current.getZoom();
-      mapInstanceRef.current.setZoom(currentZoom + 1);
+    if (map) {
+      map.setZoom(map.getZoom() + 1);
     }
   };
 
   // 줌 아웃
   const handleZoomOut = () => {
-    if (mapInstanceRef.current) {
-      const currentZoom = mapInstanceRef.current.getZoom();
-      mapInstanceRef.current.setZoom(currentZoom - 1);
+    if (map) {
+      map.setZoom(map.getZoom() - 1);
     }
   };
 
+  // 현재 화면 영역으로 검색
+  const handleSearchArea = () => {
+    if (!map || !onSearchArea) return;
+
+    const area = getSearchAreaFromBounds(map.getBounds());
+
+    setIsAreaChanged(false);
+    onSearchArea(area, map.getZoom());
+  };
+
   // 지도 유형 토글
   const handleMapTypeToggle = () => {
     if (onMapTypeChange) {
@@ -335,14 +586,29 @@ export default function NaverMap({
     }
   };
 
-  // 마커 아이콘 생성 (SVG)
-  const getMarkerIcon = (contentTypeId: string, isSelected: boolean) => {
-    const color = isSelected ? "#ef4444" : "#3b82f6"; // 선택: 빨강, 기본: 파랑
+  // 반경 원 핸들 아이콘 (끌 수 있도록 흰 원 + 파란 테두리, 중앙 기준)
+  const getHandleIcon = (size: number): MapMarkerIcon => ({
+    html: `
+      <div style="width: ${size}px; height: ${size}px; box-sizing: border-box; border-radius: 9999px; background: white; border: 3px solid #3b82f6; box-shadow: 0 1px 4px rgba(0, 0, 0, 0.3); cursor: grab;"></div>
+    `,
+    size: { width: size, height: size },
+    anchor: { x: size / 2, y: size / 2 },
+  });
+
+  // 클러스터 버블 크기 (포함된 마커 수에 비례)
+  const getClusterSize = (count: number) => {
+    if (count < 10) return 36;
+    if (count < 100) return 44;
+    return 52;
+  };
+
+  // 클러스터 버블 아이콘 생성 (개수 표시, 테마별 색상)
+  const getClusterIcon = (count: number, size: number, isDark: boolean) => {
+    const theme = getMarkerTheme(isDark);
     return `
-      <svg width="24" height="34" viewBox="0 0 24 34" fill="none" xmlns="http://www.w3.org/2000/svg">
-        <path d="M12 0C5.373 0 0 5.373 0 12c0 8.5 12 22 12 22s12-13.5 12-22C24 5.373 18.627 0 12 0z" fill="${color}"/>
-        <circle cx="12" cy="12" r="6" fill="white"/>
-      </svg>
+      <div style="width: ${size}px; height: ${size}px; display: flex; align-items: center; justify-content: center; border-radius: 9999px; background: ${theme.clusterFill}; border: 3px solid ${theme.clusterBorder}; box-shadow: 0 2px 6px rgba(0, 0, 0, 0.3); color: ${theme.clusterText}; font-size: 13px; font-weight: 600; cursor: pointer; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;">
+        ${count}
+      </div>
     `;
   };
 
@@ -357,8 +623,8 @@ export default function NaverMap({
   const getInfoWindowContent = (tour: TourItem) => {
     const address = tour.addr2 ? `${tour.addr1} ${tour.addr2}` : tour.addr1;
     const escapedTitle = escapeHtml(tour.title);
-    const escapedAddress = escapeHtml(address || "주소 정보 없음");
-    const escapedContentId = escapeHtml(tour.contentid);
+    const escapedAddress = escapeHtml(address || messages.common.noAddress);
+    const escapedHref = escapeHtml(localizePath(`/places/${tour.contentid}`));
     return `
       <div style="padding: 12px; min-width: 200px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;">
         <h3 style="margin: 0 0 8px 0; font-size: 16px; font-weight: 600; color: #1f2937;">
@@ -368,130 +634,117 @@ export default function NaverMap({
           ${escapedAddress}
         </p>
         <a 
-          href="/places/${escapedContentId}" 
+          href="${escapedHref}" 
           style="display: inline-block; padding: 6px 12px; background: #3b82f6; color: white; text-decoration: none; border-radius: 4px; font-size: 14px; font-weight: 500;"
           onmouseover="this.style.background='#2563eb'"
           onmouseout="this.style.background='#3b82f6'"
         >
-          상세보기
+          ${escapeHtml(messages.common.viewDetails)}
         </a>
       </div>
     `;
   };
-
-  if (!clientId) {
-    return (
-      <div className="flex items-center justify-center h-[400px] md:h-[600px] bg-muted rounded-lg border border-border">
-        <div className="text-center space-y-2">
-          <p className="text-sm text-muted-foreground">
-            네이버 지도 API 키가 설정되지 않았습니다.
-          </p>
-          <p className="text-xs text-muted-foreground">
-            NEXT_PUBLIC_NAVER_MAP_CLIENT_ID 환경변수를 설정해주세요.
-          </p>
-        </div>
-      </div>
-    );
-  }
+  getInfoWindowContentRef.current = getInfoWindowContent;
 
   return (
-    <>
-      {/* Naver Maps API 스크립트 로드 */}
-      <Script
-        src={`https://oapi.map.naver.com/openapi/v3/maps.js?ncpKeyId=${clientId}`}
-        strategy="lazyOnload"
-        onLoad={handleScriptLoad}
-        onError={(e) => handleScriptError(e)}
-        onReady={() => {
-          // 스크립트가 준비되었을 때 naver 객체 확인
-          if (
-            typeof window !== "undefined" &&
-            window.naver &&
-            window.naver.maps
-          ) {
-            console.log("네이버 지도 API 로드 완료");
-          }
-        }}
-      />
-
-      <div className="relative w-full h-[400px] md:h-[600px] rounded-lg border border-border overflow-hidden bg-muted">
-        {/* 지도 컨테이너 */}
-        <div ref={mapRef} className="w-full h-full" aria-label="네이버 지도" />
-
-        {/* 로딩 상태 */}
-        {isLoading && (
-          <div className="absolute inset-0 flex items-center justify-center bg-background/80 backdrop-blur-sm z-10">
-            <div className="text-center space-y-2">
-              <Loader2 className="w-8 h-8 animate-spin text-primary mx-auto" />
-              <p className="text-sm text-muted-foreground">
-                지도를 불러오는 중...
-              </p>
-            </div>
+    <div className="relative w-full h-[400px] md:h-[600px] rounded-lg border border-border overflow-hidden bg-muted">
+      {/* 지도 컨테이너 */}
+      <div ref={mapRef} className="w-full h-full" aria-label={messages.map.label} />
+
+      {/* 로딩 상태 */}
+      {isLoading && (
+        <div className="absolute inset-0 flex items-center justify-center bg-background/80 backdrop-blur-sm z-10">
+          <div className="text-center space-y-2">
+            <Loader2 className="w-8 h-8 animate-spin text-primary mx-auto" />
+            <p className="text-sm text-muted-foreground">
+              {messages.map.loading}
+            </p>
           </div>
-        )}
-
-        {/* 에러 상태 */}
-        {error && !isLoading && (
-          <div className="absolute inset-0 flex items-center justify-center bg-background/80 backdrop-blur-sm z-10">
-            <div className="text-center space-y-3 px-4 max-w-md">
-              <MapPin className="w-12 h-12 text-muted-foreground mx-auto opacity-50" />
-              <p className="text-sm font-medium text-destructive">{error}</p>
-              {!clientId && (
-                <p className="text-xs text-muted-foreground mt-2">
-                  Vercel 대시보드 → Settings → Environment Variables에서
-                  <br />
-                  NEXT_PUBLIC_NAVER_MAP_CLIENT_ID를 설정해주세요.
-                </p>
-              )}
-            </div>
+        </div>
+      )}
+
+      {/* 에러 상태 */}
+      {error && !isLoading && (
+        <div className="absolute inset-0 flex items-center justify-center bg-background/80 backdrop-blur-sm z-10">
+          <div className="text-center space-y-3 px-4 max-w-md">
+            <MapPin className="w-12 h-12 text-muted-foreground mx-auto opacity-50" />
+            <p className="text-sm font-medium text-destructive">{error}</p>
           </div>
-        )}
-
-        {/* 지도 컨트롤 */}
-        {!isLoading && !error && (
-          <div className="absolute top-4 right-4 z-20 flex flex-col gap-2">
-            {/* 줌 컨트롤 */}
-            <div className="flex flex-col bg-background border border-border rounded-lg shadow-md overflow-hidden">
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={handleZoomIn}
-                className="rounded-none"
-                aria-label="줌 인"
-              >
-                <ZoomIn className="w-4 h-4" />
-              </Button>
-              <div className="border-t border-border" />
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={handleZoomOut}
-                className="rounded-none"
-                aria-label="줌 아웃"
-              >
-                <ZoomOut className="w-4 h-4" />
-              </Button>
-            </div>
-
-            {/* 지도 유형 선택 */}
+        </div>
+      )}
+
+      {/* 이 지역에서 검색 (사용자가 지도를 이동/확대한 후에만 표시) */}
+      {!isLoading && !error && onSearchArea && isAreaChanged && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20">
+          <Button
+            size="sm"
+            onClick={handleSearchArea}
+            className="rounded-full shadow-md"
+          >
+            <RefreshCw className="w-4 h-4 mr-2" aria-hidden="true" />
+            {messages.map.searchArea}
+          </Button>
+        </div>
+      )}
+
+      {/* 지도 컨트롤 */}
+      {!isLoading && !error && (
+        <div className="absolute top-4 right-4 z-20 flex flex-col gap-2">
+          {/* 줌 컨트롤 */}
+          <div className="flex flex-col bg-background border border-border rounded-lg shadow-md overflow-hidden">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleZoomIn}
+              className="rounded-none"
+              aria-label={messages.map.zoomIn}
+            >
+              <ZoomIn className="w-4 h-4" />
+            </Button>
+            <div className="border-t border-border" />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleZoomOut}
+              className="rounded-none"
+              aria-label={messages.map.zoomOut}
+            >
+              <ZoomOut className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {/* 지도 유형 선택 (위성 지도를 지원하는 제공자만) */}
+          {map?.supportsSatellite && (
             <Button
               variant="ghost"
               size="icon"
               onClick={handleMapTypeToggle}
               className="bg-background border border-border shadow-md"
               aria-label={
-                mapType === "normal" ? "위성 지도로 전환" : "일반 지도로 전환"
+                mapType === "normal" ? messages.map.toSatellite : messages.map.toNormal
               }
             >
               {mapType === "normal" ? (
                 <Satellite className="w-4 h-4" />
               ) : (
-                <Map className="w-4 h-4" />
+                <MapIcon className="w-4 h-4" />
               )}
             </Button>
-          </div>
-        )}
-      </div>
-    </>
+          )}
+        </div>
+      )}
+
+      {/* 범례 (관광 타입별 마커 숨기기/표시, 하단의 지도 제공자 로고를 가리지 않도록 띄움) */}
+      {!isLoading && !error && (
+        <div className="absolute bottom-8 left-4 z-20 max-w-[calc(100%-2rem)]">
+          <MapLegend
+            items={legendItems}
+            hiddenTypes={hiddenTypes}
+            onToggleType={handleToggleType}
+            isDark={isDark}
+          />
+        </div>
+      )}
+    </div>
   );
 }
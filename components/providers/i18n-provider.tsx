@@ -0,0 +1,36 @@
+"use client";
+
+import { createContext } from "react";
+import { DEFAULT_LOCALE } from "@/lib/i18n/config";
+import type { Locale } from "@/lib/i18n/config";
+import { ko } from "@/lib/i18n/messages/ko";
+import type { Messages } from "@/lib/i18n/messages";
+
+interface I18nContextValue {
+  locale: Locale;
+  messages: Messages;
+}
+
+/**
+ * 현재 언어와 메시지 카탈로그
+ *
+ * 프로바이더 밖(global-error 등)에서는 기본 언어를 사용합니다.
+ */
+export const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_LOCALE,
+  messages: ko,
+});
+
+/**
+ * 클라이언트 컴포넌트에 현재 언어의 메시지 카탈로그를 전달하는 프로바이더
+ *
+ * RootLayout에서 서버가 판단한 언어(lib/i18n/server.ts)와 해당 언어의 카탈로그만 전달합니다.
+ * 클라이언트 컴포넌트에서는 useI18n() 훅으로 사용합니다.
+ */
+export function I18nProvider({
+  locale,
+  messages,
+  children,
+}: I18nContextValue & { children: React.ReactNode }) {
+  return <I18nContext.Provider value={{ locale, messages }}>{children}</I18nContext.Provider>;
+}
@@ -0,0 +1,63 @@
+/**
+ * @file stale-data-banner.tsx
+ * @description 저장된 데이터 표시 안내 배너
+ *
+ * 한국관광공사 API 장애로 마지막 정상 응답(저장된 데이터)을 대신 표시할 때
+ * 데이터가 최신이 아닐 수 있음을 알리는 배너입니다.
+ *
+ * @see {@link /lib/api/tour-api.ts} - 서킷 브레이커, trackStaleResponses
+ */
+
+"use client";
+
+import { History } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/hooks/use-i18n";
+import { LOCALE_INFO, formatMessage } from "@/lib/i18n/config";
+import type { Locale } from "@/lib/i18n/config";
+
+interface StaleDataBannerProps {
+  /** 저장된 데이터의 저장 시각 (ISO 8601) */
+  staleSince: string;
+  /** 추가 클래스명 */
+  className?: string;
+}
+
+/**
+ * 저장 시각을 HH:MM 형식으로 변환 (한국 시간 기준)
+ */
+function formatStaleTime(staleSince: string, locale: Locale): string {
+  return new Date(staleSince).toLocaleTimeString(LOCALE_INFO[locale].intlLocale, {
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+    timeZone: "Asia/Seoul",
+  });
+}
+
+/**
+ * 저장된 데이터 표시 안내 배너
+ */
+export default function StaleDataBanner({ staleSince, className }: StaleDataBannerProps) {
+  const { locale, messages } = useI18n();
+
+  return (
+    <div
+      role="status"
+      className={cn(
+        "flex items-start gap-3 p-4 bg-amber-50 dark:bg-amber-950/20 border border-amber-200 dark:border-amber-800 rounded-lg",
+        className
+      )}
+    >
+      <History className="w-5 h-5 text-amber-600 dark:text-amber-400 flex-shrink-0 mt-0.5" aria-hidden="true" />
+      <div>
+        <p className="text-sm font-medium text-amber-900 dark:text-amber-200">
+          {formatMessage(messages.staleData.title, { time: formatStaleTime(staleSince, locale) })}
+        </p>
+        <p className="text-sm text-amber-800 dark:text-amber-300">
+          {messages.staleData.description}
+        </p>
+      </div>
+    </div>
+  );
+}
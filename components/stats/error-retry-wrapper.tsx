@@ -4,6 +4,7 @@
  *
  * 서버 컴포넌트에서 발생한 에러를 표시하고 재시도 기능을 제공하는 클라이언트 컴포넌트입니다.
  * router.refresh()를 사용하여 서버 컴포넌트를 재렌더링합니다.
+ * Tour API 에러 정보를 함께 전달하면 에러 종류에 맞는 복구 방법을 표시합니다.
  *
  * @see {@link /docs/PRD.md} - 통계 대시보드 요구사항 (2.6절)
  */
@@ -12,6 +13,7 @@
 
 import { useRouter } from "next/navigation";
 import { Error } from "@/components/ui/error";
+import type { TourApiErrorInfo } from "@/lib/api/tour-api-errors";
 
 /**
  * 에러 재시도 래퍼 컴포넌트 Props
@@ -19,6 +21,8 @@ import { Error } from "@/components/ui/error";
 interface ErrorRetryWrapperProps {
   /** 에러 메시지 */
   message: string;
+  /** Tour API 에러 정보 (서버에서 toTourApiErrorInfo로 변환한 값) */
+  error?: TourApiErrorInfo | null;
   /** 에러 타입 */
   type?: "api" | "network" | "unknown";
 }
@@ -31,10 +35,12 @@ interface ErrorRetryWrapperProps {
  *
  * @param props - 컴포넌트 Props
  * @param props.message - 에러 메시지
+ * @param props.error - Tour API 에러 정보
  * @param props.type - 에러 타입 (기본값: "api")
  */
 export default function ErrorRetryWrapper({
   message,
+  error,
   type = "api",
 }: ErrorRetryWrapperProps) {
   const router = useRouter();
@@ -49,7 +55,7 @@ export default function ErrorRetryWrapper({
 
   return (
     <div className="p-6 border border-border rounded-lg bg-card min-h-[400px] md:min-h-[500px] flex items-center justify-center">
-      <Error message={message} type={type} onRetry={handleRetry} />
+      <Error message={message} error={error} type={type} onRetry={handleRetry} />
     </div>
   );
 }
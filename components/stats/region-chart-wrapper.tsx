@@ -10,6 +10,8 @@
 import { getRegionStats } from "@/lib/api/stats-api";
 import RegionChart from "./region-chart";
 import ErrorRetryWrapper from "./error-retry-wrapper";
+import { toTourApiErrorInfo } from "@/lib/api/tour-api-errors";
+import { getMessages } from "@/lib/i18n/server";
 
 /**
  * 지역별 분포 차트 래퍼 컴포넌트 (서버 컴포넌트)
@@ -17,6 +19,8 @@ import ErrorRetryWrapper from "./error-retry-wrapper";
  * 서버에서 지역별 통계 데이터를 가져와서 클라이언트 컴포넌트에 전달합니다.
  */
 export default async function RegionChartWrapper() {
+  const messages = await getMessages();
+
   try {
     const data = await getRegionStats();
     return <RegionChart data={data} />;
@@ -24,7 +28,8 @@ export default async function RegionChartWrapper() {
     console.error("지역별 통계 데이터 로드 실패:", error);
     return (
       <ErrorRetryWrapper
-        message="지역별 통계 데이터를 불러오는 중 오류가 발생했습니다."
+        message={messages.stats.regionLoadError}
+        error={toTourApiErrorInfo(error)}
         type="api"
       />
     );
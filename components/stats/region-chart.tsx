@@ -30,6 +30,9 @@ import {
 } from "@/components/ui/chart";
 import { Skeleton } from "@/components/ui/skeleton";
 import type { RegionStats } from "@/lib/types/stats";
+import { useI18n } from "@/hooks/use-i18n";
+import { LOCALE_INFO, formatMessage } from "@/lib/i18n/config";
+import { getRegionLabel } from "@/lib/i18n/labels";
 
 /**
  * 지역별 차트 데이터 타입
@@ -61,16 +64,6 @@ const CHART_COLORS = [
   "hsl(var(--chart-5))",
 ] as const;
 
-/**
- * 차트 설정
- */
-const chartConfig = {
-  count: {
-    label: "관광지 개수",
-    color: "hsl(var(--chart-1))",
-  },
-} as const;
-
 /**
  * 지역별 분포 차트 컴포넌트
  *
@@ -79,27 +72,38 @@ const chartConfig = {
  */
 export default function RegionChart({ data }: RegionChartProps) {
   const router = useRouter();
+  const { locale, messages, localizePath } = useI18n();
+  const { intlLocale } = LOCALE_INFO[locale];
+
+  // 차트 설정
+  const chartConfig = {
+    count: {
+      label: messages.stats.placeCount,
+      color: "hsl(var(--chart-1))",
+    },
+  };
 
   // 상위 10개 지역만 표시
   const topRegions = data.slice(0, 10);
 
-  // 차트 데이터 준비 (색상 추가)
+  // 차트 데이터 준비 (색상 추가, 지역 이름은 현재 언어로 변환)
   const chartData: RegionChartData[] = topRegions.map((region, index) => ({
     ...region,
+    name: getRegionLabel(messages, region.code, region.name),
     fill: CHART_COLORS[index % CHART_COLORS.length],
   }));
 
   // 바 클릭 핸들러
   const handleBarClick = (data: RegionChartData) => {
     // 해당 지역의 관광지 목록 페이지로 이동
-    router.push(`/?areaCode=${data.code}`);
+    router.push(localizePath(`/?areaCode=${data.code}`));
   };
 
   // 데이터가 없을 경우
   if (chartData.length === 0) {
     return (
       <div className="p-6 border border-border rounded-lg bg-card min-h-[400px] flex items-center justify-center">
-        <p className="text-muted-foreground">표시할 데이터가 없습니다.</p>
+        <p className="text-muted-foreground">{messages.common.noData}</p>
       </div>
     );
   }
@@ -108,7 +112,7 @@ export default function RegionChart({ data }: RegionChartProps) {
     <div
       className="p-6 border border-border rounded-lg bg-card min-h-[400px] md:min-h-[500px]"
       role="region"
-      aria-label="지역별 관광지 분포 차트"
+      aria-label={messages.stats.regionChart}
     >
       <ChartContainer config={chartConfig} className="h-[400px] md:h-[500px]">
         <BarChart
@@ -125,7 +129,7 @@ export default function RegionChart({ data }: RegionChartProps) {
           />
           <YAxis
             tick={{ fontSize: 12 }}
-            tickFormatter={(value) => value.toLocaleString("ko-KR")}
+            tickFormatter={(value) => value.toLocaleString(intlLocale)}
           />
           <ChartTooltip
             content={({ active, payload }) => {
@@ -139,14 +143,16 @@ export default function RegionChart({ data }: RegionChartProps) {
                   label={data.name}
                   payload={[
                     {
-                      name: "관광지 개수",
+                      name: messages.stats.placeCount,
                       value: data.count,
                       color: data.fill || CHART_COLORS[0],
                     },
                   ]}
                   formatter={(value) => [
-                    `${value?.toLocaleString("ko-KR")}개`,
-                    "관광지 개수",
+                    formatMessage(messages.common.count, {
+                      count: value?.toLocaleString(intlLocale),
+                    }),
+                    messages.stats.placeCount,
                   ]}
                 />
               );
@@ -19,8 +19,13 @@
 
 import { getStatsSummary } from "@/lib/api/stats-api";
 import ErrorRetryWrapper from "./error-retry-wrapper";
+import { toTourApiErrorInfo } from "@/lib/api/tour-api-errors";
 import { Skeleton } from "@/components/ui/skeleton";
 import { MapPin, Tag, Clock, BarChart3 } from "lucide-react";
+import { LOCALE_INFO, formatMessage } from "@/lib/i18n/config";
+import { getContentTypeLabel, getRegionLabel } from "@/lib/i18n/labels";
+import { MESSAGES } from "@/lib/i18n/messages";
+import { getLocale } from "@/lib/i18n/server";
 
 /**
  * 날짜 포맷팅 함수
@@ -67,15 +72,27 @@ function StatsSummarySkeleton() {
  * Suspense로 감싸서 사용하면 자동으로 로딩 상태가 처리됩니다.
  */
 export default async function StatsSummary() {
+  const locale = await getLocale();
+  const messages = MESSAGES[locale];
+  const { intlLocale } = LOCALE_INFO[locale];
+
   try {
     const summary = await getStatsSummary();
 
     // 전체 관광지 수 포맷팅 (천 단위 콤마)
-    const formattedTotalCount = summary.totalCount.toLocaleString("ko-KR");
+    const formattedTotalCount = summary.totalCount.toLocaleString(intlLocale);
 
-    // Top 1 지역 및 타입
+    // Top 1 지역 및 타입 (이름은 현재 언어로 변환)
     const topRegion = summary.topRegions[0];
     const topType = summary.topTypes[0];
+    const topRegionName = topRegion
+      ? getRegionLabel(messages, topRegion.code, topRegion.name)
+      : "-";
+    const topTypeName = topType
+      ? getContentTypeLabel(messages, topType.contentTypeId)
+      : "-";
+    const formatCount = (count: number) =>
+      formatMessage(messages.common.count, { count: count.toLocaleString(intlLocale) });
 
     // 마지막 업데이트 시간 포맷팅
     const formattedLastUpdated = formatDate(summary.lastUpdated);
@@ -83,16 +100,16 @@ export default async function StatsSummary() {
     return (
       <div
         className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4"
-        aria-label="통계 요약"
+        aria-label={messages.stats.summary}
       >
         {/* 전체 관광지 수 카드 */}
         <div
           className="p-6 border border-border rounded-lg bg-card hover:shadow-md transition-shadow"
-          aria-label={`전체 관광지 수: ${formattedTotalCount}개`}
+          aria-label={`${messages.stats.totalCount}: ${formatMessage(messages.common.count, { count: formattedTotalCount })}`}
         >
           <div className="flex items-center gap-2 mb-2">
             <BarChart3 className="w-5 h-5 text-muted-foreground" aria-hidden="true" />
-            <p className="text-sm text-muted-foreground">전체 관광지 수</p>
+            <p className="text-sm text-muted-foreground">{messages.stats.totalCount}</p>
           </div>
           <p className="text-2xl font-bold">{formattedTotalCount}</p>
         </div>
@@ -100,16 +117,16 @@ export default async function StatsSummary() {
         {/* Top 1 지역 카드 */}
         <div
           className="p-6 border border-border rounded-lg bg-card hover:shadow-md transition-shadow"
-          aria-label={`가장 많은 관광지 지역: ${topRegion?.name || "-"} (${topRegion?.count || 0}개)`}
+          aria-label={`${messages.stats.topRegion}: ${topRegionName} (${formatCount(topRegion?.count || 0)})`}
         >
           <div className="flex items-center gap-2 mb-2">
             <MapPin className="w-5 h-5 text-muted-foreground" aria-hidden="true" />
-            <p className="text-sm text-muted-foreground">가장 많은 관광지 지역</p>
+            <p className="text-sm text-muted-foreground">{messages.stats.topRegion}</p>
           </div>
-          <p className="text-2xl font-bold">{topRegion?.name || "-"}</p>
+          <p className="text-2xl font-bold">{topRegionName}</p>
           {topRegion && (
             <p className="text-sm text-muted-foreground mt-1">
-              {topRegion.count.toLocaleString("ko-KR")}개
+              {formatCount(topRegion.count)}
             </p>
           )}
         </div>
@@ -117,16 +134,16 @@ export default async function StatsSummary() {
         {/* Top 1 타입 카드 */}
         <div
           className="p-6 border border-border rounded-lg bg-card hover:shadow-md transition-shadow"
-          aria-label={`가장 많은 관광지 타입: ${topType?.name || "-"} (${topType?.count || 0}개)`}
+          aria-label={`${messages.stats.topType}: ${topTypeName} (${formatCount(topType?.count || 0)})`}
         >
           <div className="flex items-center gap-2 mb-2">
             <Tag className="w-5 h-5 text-muted-foreground" aria-hidden="true" />
-            <p className="text-sm text-muted-foreground">가장 많은 관광지 타입</p>
+            <p className="text-sm text-muted-foreground">{messages.stats.topType}</p>
           </div>
-          <p className="text-2xl font-bold">{topType?.name || "-"}</p>
+          <p className="text-2xl font-bold">{topTypeName}</p>
           {topType && (
             <p className="text-sm text-muted-foreground mt-1">
-              {topType.count.toLocaleString("ko-KR")}개
+              {formatCount(topType.count)}
             </p>
           )}
         </div>
@@ -134,11 +151,11 @@ export default async function StatsSummary() {
         {/* 마지막 업데이트 시간 카드 */}
         <div
           className="p-6 border border-border rounded-lg bg-card hover:shadow-md transition-shadow"
-          aria-label={`마지막 업데이트: ${formattedLastUpdated}`}
+          aria-label={`${messages.stats.lastUpdated}: ${formattedLastUpdated}`}
         >
           <div className="flex items-center gap-2 mb-2">
             <Clock className="w-5 h-5 text-muted-foreground" aria-hidden="true" />
-            <p className="text-sm text-muted-foreground">마지막 업데이트</p>
+            <p className="text-sm text-muted-foreground">{messages.stats.lastUpdated}</p>
           </div>
           <p className="text-sm font-medium">{formattedLastUpdated}</p>
         </div>
@@ -148,7 +165,8 @@ export default async function StatsSummary() {
     console.error("통계 요약 데이터 로드 실패:", error);
     return (
       <ErrorRetryWrapper
-        message="통계 데이터를 불러오는 중 오류가 발생했습니다."
+        message={messages.stats.loadError}
+        error={toTourApiErrorInfo(error)}
         type="api"
       />
     );
@@ -10,6 +10,8 @@
 import { getTypeStats } from "@/lib/api/stats-api";
 import TypeChart from "./type-chart";
 import ErrorRetryWrapper from "./error-retry-wrapper";
+import { toTourApiErrorInfo } from "@/lib/api/tour-api-errors";
+import { getMessages } from "@/lib/i18n/server";
 
 /**
  * 타입별 분포 차트 래퍼 컴포넌트 (서버 컴포넌트)
@@ -17,6 +19,8 @@ import ErrorRetryWrapper from "./error-retry-wrapper";
  * 서버에서 타입별 통계 데이터를 가져와서 클라이언트 컴포넌트에 전달합니다.
  */
 export default async function TypeChartWrapper() {
+  const messages = await getMessages();
+
   try {
     const data = await getTypeStats();
     return <TypeChart data={data} />;
@@ -24,7 +28,8 @@ export default async function TypeChartWrapper() {
     console.error("타입별 통계 데이터 로드 실패:", error);
     return (
       <ErrorRetryWrapper
-        message="타입별 통계 데이터를 불러오는 중 오류가 발생했습니다."
+        message={messages.stats.typeLoadError}
+        error={toTourApiErrorInfo(error)}
         type="api"
       />
     );
@@ -32,6 +32,9 @@ import {
 } from "@/components/ui/chart";
 import { Skeleton } from "@/components/ui/skeleton";
 import type { TypeStats } from "@/lib/types/stats";
+import { useI18n } from "@/hooks/use-i18n";
+import { LOCALE_INFO, formatMessage } from "@/lib/i18n/config";
+import { getContentTypeLabel } from "@/lib/i18n/labels";
 
 /**
  * 타입별 차트 데이터 타입
@@ -107,16 +110,6 @@ const getChartColors = (): string[] => {
   });
 };
 
-/**
- * 차트 설정
- */
-const chartConfig = {
-  count: {
-    label: "관광지 개수",
-    color: "hsl(var(--chart-1))",
-  },
-} as const;
-
 /**
  * 타입별 분포 차트 컴포넌트
  *
@@ -125,6 +118,8 @@ const chartConfig = {
  */
 export default function TypeChart({ data }: TypeChartProps) {
   const router = useRouter();
+  const { locale, messages, localizePath } = useI18n();
+  const { intlLocale } = LOCALE_INFO[locale];
   const [chartColors, setChartColors] = useState<string[]>([
     "#8884d8",
     "#82ca9d",
@@ -141,12 +136,21 @@ export default function TypeChart({ data }: TypeChartProps) {
     setChartColors(getChartColors());
   }, []);
 
+  // 차트 설정
+  const chartConfig = {
+    count: {
+      label: messages.stats.placeCount,
+      color: "hsl(var(--chart-1))",
+    },
+  };
+
   // 전체 개수 계산
   const total = data.reduce((sum, item) => sum + item.count, 0);
 
-  // 차트 데이터 준비 (비율 및 색상 추가)
+  // 차트 데이터 준비 (비율 및 색상 추가, 타입 이름은 현재 언어로 변환)
   const chartData: TypeChartData[] = data.map((type, index) => ({
     ...type,
+    name: getContentTypeLabel(messages, type.contentTypeId),
     percentage: total > 0 ? (type.count / total) * 100 : 0,
     fill: chartColors[index % chartColors.length],
   }));
@@ -154,14 +158,14 @@ export default function TypeChart({ data }: TypeChartProps) {
   // 섹션 클릭 핸들러
   const handlePieClick = (data: TypeChartData) => {
     // 해당 타입의 관광지 목록 페이지로 이동
-    router.push(`/?contentTypeId=${data.contentTypeId}`);
+    router.push(localizePath(`/?contentTypeId=${data.contentTypeId}`));
   };
 
   // 데이터가 없을 경우
   if (chartData.length === 0) {
     return (
       <div className="p-6 border border-border rounded-lg bg-card min-h-[400px] flex items-center justify-center">
-        <p className="text-muted-foreground">표시할 데이터가 없습니다.</p>
+        <p className="text-muted-foreground">{messages.common.noData}</p>
       </div>
     );
   }
@@ -170,7 +174,7 @@ export default function TypeChart({ data }: TypeChartProps) {
     <div
       className="p-6 border border-border rounded-lg bg-card min-h-[400px] md:min-h-[500px]"
       role="region"
-      aria-label="타입별 관광지 분포 차트"
+      aria-label={messages.stats.typeChart}
     >
       <ChartContainer config={chartConfig} className="h-[400px] md:h-[500px]">
         <PieChart>
@@ -208,21 +212,26 @@ export default function TypeChart({ data }: TypeChartProps) {
                   label={data.name}
                   payload={[
                     {
-                      name: "관광지 개수",
+                      name: messages.stats.placeCount,
                       value: data.count,
                       color: data.fill || chartColors[0],
                     },
                     {
-                      name: "비율",
+                      name: messages.stats.ratio,
                       value: `${data.percentage.toFixed(1)}%`,
                       color: data.fill || chartColors[0],
                     },
                   ]}
                   formatter={(value, name) => {
-                    if (name === "비율") {
-                      return [value, "비율"];
+                    if (name === messages.stats.ratio) {
+                      return [value, messages.stats.ratio];
                     }
-                    return [`${value?.toLocaleString("ko-KR")}개`, "관광지 개수"];
+                    return [
+                      formatMessage(messages.common.count, {
+                        count: value?.toLocaleString(intlLocale),
+                      }),
+                      messages.stats.placeCount,
+                    ];
                   }}
                 />
               );
@@ -233,7 +242,9 @@ export default function TypeChart({ data }: TypeChartProps) {
             height={36}
             formatter={(value, entry) => {
               const data = entry.payload as TypeChartData;
-              return `${value} (${data.count.toLocaleString("ko-KR")}개)`;
+              return `${value} (${formatMessage(messages.common.count, {
+                count: data.count.toLocaleString(intlLocale),
+              })})`;
             }}
           />
         </PieChart>
@@ -27,12 +27,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { useI18n } from "@/hooks/use-i18n";
 
 /**
  * 테마 전환 버튼 컴포넌트
  */
 export function ThemeToggle() {
   const { theme, setTheme, resolvedTheme } = useTheme();
+  const { messages } = useI18n();
   const [mounted, setMounted] = useState(false);
 
   // 클라이언트 사이드 마운트 확인 (hydration mismatch 방지)
@@ -64,7 +66,7 @@ export function ThemeToggle() {
     <Select value={theme} onValueChange={setTheme}>
       <SelectTrigger
         className="w-9 h-9 p-0 border-0 focus:ring-2 focus:ring-ring"
-        aria-label="테마 전환"
+        aria-label={messages.theme.toggle}
       >
         <div className="flex items-center justify-center">
           {getThemeIcon()}
@@ -74,19 +76,19 @@ export function ThemeToggle() {
         <SelectItem value="light">
           <div className="flex items-center gap-2">
             <Sun className="h-4 w-4" aria-hidden="true" />
-            <span>라이트</span>
+            <span>{messages.theme.light}</span>
           </div>
         </SelectItem>
         <SelectItem value="dark">
           <div className="flex items-center gap-2">
             <Moon className="h-4 w-4" aria-hidden="true" />
-            <span>다크</span>
+            <span>{messages.theme.dark}</span>
           </div>
         </SelectItem>
         <SelectItem value="system">
           <div className="flex items-center gap-2">
             <Monitor className="h-4 w-4" aria-hidden="true" />
-            <span>시스템</span>
+            <span>{messages.theme.system}</span>
           </div>
         </SelectItem>
       </SelectContent>
@@ -10,6 +10,8 @@
  * - 관광지명
  * - 주소 표시
  * - 관광 타입 뱃지
+ * - 거리 뱃지 (위치 기반 조회 시)
+ * - 행사 기간 및 진행중 뱃지 (축제/행사)
  * - 호버 효과 (scale, shadow)
  * - 클릭 시 상세페이지 이동
  *
@@ -21,36 +23,14 @@
 
 import Link from "next/link";
 import Image from "next/image";
-import { MapPin } from "lucide-react";
+import { MapPin, Navigation, CalendarDays } from "lucide-react";
 import { useState } from "react";
 import type { TourItem } from "@/lib/types/tour";
-import { CONTENT_TYPE } from "@/lib/types/tour";
-
-/**
- * Content Type ID를 한글 이름으로 변환
- */
-function getContentTypeName(contentTypeId: string): string {
-  switch (contentTypeId) {
-    case CONTENT_TYPE.TOURIST_SPOT:
-      return "관광지";
-    case CONTENT_TYPE.CULTURAL_FACILITY:
-      return "문화시설";
-    case CONTENT_TYPE.FESTIVAL:
-      return "축제/행사";
-    case CONTENT_TYPE.TRAVEL_COURSE:
-      return "여행코스";
-    case CONTENT_TYPE.LEISURE_SPORTS:
-      return "레포츠";
-    case CONTENT_TYPE.ACCOMMODATION:
-      return "숙박";
-    case CONTENT_TYPE.SHOPPING:
-      return "쇼핑";
-    case CONTENT_TYPE.RESTAURANT:
-      return "음식점";
-    default:
-      return "기타";
-  }
-}
+import { formatDistance } from "@/lib/utils/map-utils";
+import { formatEventPeriod, isEventOngoing } from "@/lib/utils/date-utils";
+import { useI18n } from "@/hooks/use-i18n";
+import { formatMessage } from "@/lib/i18n/config";
+import { getContentTypeLabel } from "@/lib/i18n/labels";
 
 interface TourCardProps {
   tour: TourItem;
@@ -68,9 +48,14 @@ export default function TourCard({
   onClick,
   priority = false,
 }: TourCardProps) {
+  const { messages, localizePath } = useI18n();
+  const detailPath = localizePath(`/places/${tour.contentid}`);
   const imageUrl = tour.firstimage || tour.firstimage2;
-  const contentTypeName = getContentTypeName(tour.contenttypeid);
+  const contentTypeName = getContentTypeLabel(messages, tour.contenttypeid);
   const address = tour.addr2 ? `${tour.addr1} ${tour.addr2}` : tour.addr1;
+  const distance = formatDistance(tour.dist);
+  const eventPeriod = formatEventPeriod(tour.eventstartdate, tour.eventenddate);
+  const isOngoing = isEventOngoing(tour.eventstartdate, tour.eventenddate);
   const [imageError, setImageError] = useState(false);
 
   const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
@@ -89,14 +74,14 @@ export default function TourCard({
         onClick();
       } else {
         // onClick이 없으면 기본 링크 동작 (프로그래밍 방식으로 이동)
-        window.location.href = `/places/${tour.contentid}`;
+        window.location.href = detailPath;
       }
     }
   };
 
   return (
     <Link
-      href={`/places/${tour.contentid}`}
+      href={detailPath}
       onClick={handleClick}
       onKeyDown={handleKeyDown}
       className={`group block bg-card rounded-xl shadow-md border overflow-hidden transition-all duration-300 hover:shadow-xl hover:scale-[1.02] cursor-pointer focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 ${
@@ -104,7 +89,7 @@ export default function TourCard({
           ? "border-primary shadow-lg ring-2 ring-primary/20"
           : "border-border"
       }`}
-      aria-label={`${tour.title} 상세보기`}
+      aria-label={formatMessage(messages.common.viewDetailsOf, { title: tour.title })}
       aria-current={isSelected ? "true" : undefined}
       tabIndex={0}
     >
@@ -145,11 +130,33 @@ export default function TourCard({
           </span>
         </div>
 
+        {/* 행사 기간 (축제/행사) */}
+        {eventPeriod && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CalendarDays className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+            <span>{eventPeriod}</span>
+          </div>
+        )}
+
         {/* 관광 타입 뱃지 */}
         <div className="flex items-center gap-2">
           <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-primary/10 text-primary">
             {contentTypeName}
           </span>
+          {isOngoing && (
+            <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-green-500/15 text-green-700 dark:text-green-400">
+              {messages.tourCard.ongoing}
+            </span>
+          )}
+          {distance && (
+            <span
+              className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-muted text-muted-foreground"
+              aria-label={formatMessage(messages.tourCard.distanceFrom, { distance })}
+            >
+              <Navigation className="w-3 h-3" aria-hidden="true" />
+              {distance}
+            </span>
+          )}
         </div>
       </div>
     </Link>
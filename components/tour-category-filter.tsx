@@ -0,0 +1,223 @@
+/**
+ * @file tour-category-filter.tsx
+ * @description 서비스 분류 필터 컴포넌트
+ *
+ * 한국관광공사 서비스 분류코드(categoryCode2)를 대분류 → 중분류 → 소분류 순으로
+ * 선택하는 연쇄 필터입니다. "사찰", "해수욕장"처럼 관광 타입보다 세부적인 조건으로
+ * 목록을 좁힐 수 있습니다.
+ * 선택한 분류는 URL 쿼리 파라미터(cat1, cat2, cat3)와 동기화됩니다.
+ *
+ * 구성 요소:
+ * - 대분류 선택 (관광 타입이 선택되어 있으면 해당 타입의 분류만 표시)
+ * - 중분류 선택 (대분류 선택 시 표시)
+ * - 소분류 선택 (중분류 선택 시 표시)
+ *
+ * @see {@link /lib/api/tour-client.ts} - getCategoryCode (/api/tour/category-code 프록시)
+ */
+
+"use client";
+
+import { useRouter, useSearchParams } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import { Layers } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getCategoryCode } from "@/lib/api/tour-client";
+import { parseMultiValue } from "@/lib/utils/merged-pagination";
+import type { CategoryCode } from "@/lib/types/tour";
+import { useI18n } from "@/hooks/use-i18n";
+import { formatMessage } from "@/lib/i18n/config";
+
+/**
+ * 분류 단계별 URL 파라미터 (상위 → 하위 순서)
+ */
+const CATEGORY_PARAMS = ["cat1", "cat2", "cat3"] as const;
+
+type CategoryParam = (typeof CATEGORY_PARAMS)[number];
+
+/**
+ * 분류 필터와 함께 사용할 수 없는 URL 파라미터
+ * (locationBasedList2, searchFestival2는 분류 코드 필터를 지원하지 않음)
+ */
+const CATEGORY_EXCLUSIVE_PARAMS = [
+  "mapX",
+  "mapY",
+  "radius",
+  "mapZoom",
+  "eventStartDate",
+  "eventEndDate",
+] as const;
+
+interface TourCategoryFilterProps {
+  /** 로딩 상태 */
+  isLoading?: boolean;
+}
+
+/**
+ * 분류코드 목록 조회 훅
+ *
+ * 상위 조건이 준비되지 않았으면(enabled=false) 조회하지 않고 빈 목록을 반환합니다.
+ */
+function useCategoryOptions(
+  enabled: boolean,
+  params: { contentTypeId?: string; cat1?: string; cat2?: string }
+): { options: CategoryCode[]; isLoading: boolean } {
+  const [options, setOptions] = useState<CategoryCode[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { contentTypeId, cat1, cat2 } = params;
+
+  useEffect(() => {
+    if (!enabled) {
+      setOptions([]);
+      return;
+    }
+
+    // 빠르게 선택을 바꿀 때 이전 요청 결과가 덮어쓰지 않도록 처리
+    let ignore = false;
+
+    const fetchOptions = async () => {
+      try {
+        setIsLoading(true);
+        const codes = await getCategoryCode({ contentTypeId, cat1, cat2 });
+        if (!ignore) {
+          setOptions(codes);
+        }
+      } catch (err) {
+        console.error("서비스 분류코드 조회 실패:", err);
+        if (!ignore) {
+          setOptions([]);
+        }
+      } finally {
+        if (!ignore) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchOptions();
+
+    return () => {
+      ignore = true;
+    };
+  }, [enabled, contentTypeId, cat1, cat2]);
+
+  return { options, isLoading };
+}
+
+/**
+ * 서비스 분류 필터 컴포넌트
+ */
+export default function TourCategoryFilter({ isLoading }: TourCategoryFilterProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { messages, localizePath } = useI18n();
+
+  // 관광 타입을 여러 개 선택한 경우에는 타입 구분 없이 전체 분류 표시
+  const contentTypeIds = parseMultiValue(searchParams.get("contentTypeId"));
+  const contentTypeId = contentTypeIds.length === 1 ? contentTypeIds[0] : undefined;
+  const currentCat1 = searchParams.get("cat1") || undefined;
+  const currentCat2 = (currentCat1 && searchParams.get("cat2")) || undefined;
+  const currentCat3 = (currentCat2 && searchParams.get("cat3")) || undefined;
+
+  const cat1Query = useCategoryOptions(true, { contentTypeId });
+  const cat2Query = useCategoryOptions(Boolean(currentCat1), {
+    contentTypeId,
+    cat1: currentCat1,
+  });
+  const cat3Query = useCategoryOptions(Boolean(currentCat2), {
+    contentTypeId,
+    cat1: currentCat1,
+    cat2: currentCat2,
+  });
+
+  // 분류 변경 (하위 분류는 초기화)
+  const updateCategory = useCallback(
+    (key: CategoryParam, value: string) => {
+      const params = new URLSearchParams(searchParams.toString());
+
+      if (value && value !== "all") {
+        params.set(key, value);
+      } else {
+        params.delete(key);
+      }
+
+      // 상위 분류가 바뀌면 하위 분류 선택은 의미가 없으므로 제거
+      CATEGORY_PARAMS.slice(CATEGORY_PARAMS.indexOf(key) + 1).forEach((lowerKey) =>
+        params.delete(lowerKey)
+      );
+
+      if (params.has("cat1")) {
+        CATEGORY_EXCLUSIVE_PARAMS.forEach((exclusiveKey) => params.delete(exclusiveKey));
+        if (params.get("sort") === "distance") {
+          params.delete("sort");
+        }
+      }
+      params.delete("pageNo");
+
+      router.push(localizePath(`/?${params.toString()}`), { scroll: false });
+    },
+    [router, searchParams, localizePath]
+  );
+
+  const levels = [
+    {
+      key: "cat1" as const,
+      value: currentCat1,
+      query: cat1Query,
+      visible: true,
+      placeholder: messages.category.cat1,
+      label: messages.category.cat1Select,
+    },
+    {
+      key: "cat2" as const,
+      value: currentCat2,
+      query: cat2Query,
+      visible: Boolean(currentCat1),
+      placeholder: messages.category.cat2,
+      label: messages.category.cat2Select,
+    },
+    {
+      key: "cat3" as const,
+      value: currentCat3,
+      query: cat3Query,
+      visible: Boolean(currentCat2),
+      placeholder: messages.category.cat3,
+      label: messages.category.cat3Select,
+    },
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Layers className="w-4 h-4 text-muted-foreground" aria-hidden="true" />
+      {levels
+        .filter((level) => level.visible)
+        .map((level) => (
+          <Select
+            key={level.key}
+            value={level.value || "all"}
+            onValueChange={(value) => updateCategory(level.key, value)}
+            disabled={isLoading || level.query.isLoading}
+          >
+            <SelectTrigger className="w-[120px] md:w-[140px]" aria-label={level.label}>
+              <SelectValue placeholder={level.placeholder} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">
+                {formatMessage(messages.common.allOf, { label: level.placeholder })}
+              </SelectItem>
+              {level.query.options.map((option) => (
+                <SelectItem key={option.code} value={option.code}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+/**
+ * @file detail-course.tsx
+ * @description 여행코스 경유지 섹션 컴포넌트
+ *
+ * 여행코스(25) 관광지의 경유지 목록(detailInfo2)을 순서대로 표시하는 컴포넌트입니다.
+ * 경유지의 위치는 지도 섹션(DetailMap)에 경로선으로 함께 표시됩니다.
+ *
+ * 주요 기능:
+ * - 경유지 순번, 이름, 개요, 이미지 표시
+ * - 경유지 상세페이지 링크 (경유지 콘텐츠 ID가 있는 경우)
+ * - 경유지가 없으면 섹션 숨김 처리
+ *
+ * @see {@link /docs/PRD.md} - MVP 2.4 상세페이지
+ * @see {@link /docs/DESIGN.md} - 상세페이지 레이아웃
+ */
+
+"use client";
+
+import Link from "next/link";
+import Image from "next/image";
+import { Route, ChevronRight } from "lucide-react";
+import type { CourseStop } from "@/lib/types/tour";
+import { useI18n } from "@/hooks/use-i18n";
+import { formatMessage } from "@/lib/i18n/config";
+
+interface DetailCourseProps {
+  stops: CourseStop[];
+}
+
+/**
+ * 여행코스 경유지 섹션 컴포넌트
+ */
+export default function DetailCourse({ stops }: DetailCourseProps) {
+  const { messages, localizePath } = useI18n();
+
+  // 경유지가 없으면 섹션 자체를 숨김
+  if (stops.length === 0) {
+    return null;
+  }
+
+  return (
+    <section
+      className="container max-w-7xl mx-auto px-4 py-8"
+      aria-label={messages.detailCourse.title}
+    >
+      <div className="bg-card rounded-lg border border-border p-6">
+        <h2 className="text-xl font-semibold text-foreground mb-4 flex items-center gap-2">
+          <Route className="w-5 h-5" aria-hidden="true" />
+          {messages.detailCourse.title}
+          <span className="text-sm font-normal text-muted-foreground">
+            {formatMessage(messages.detailCourse.stopCount, { count: stops.length })}
+          </span>
+        </h2>
+
+        <ol className="space-y-6 border-l-2 border-primary/30 ml-3">
+          {stops.map((stop, index) => (
+            <li key={`${stop.subnum}-${stop.subcontentid ?? stop.subname}`} className="relative pl-6">
+              {/* 순번 표시 */}
+              <span
+                className="absolute -left-[13px] flex items-center justify-center w-6 h-6 rounded-full bg-primary text-primary-foreground text-xs font-semibold"
+                aria-hidden="true"
+              >
+                {index + 1}
+              </span>
+
+              <div className="flex flex-col sm:flex-row gap-4">
+                {stop.subdetailimg && (
+                  <div className="relative w-full sm:w-40 h-28 flex-shrink-0 overflow-hidden rounded-lg bg-muted">
+                    <Image
+                      src={stop.subdetailimg}
+                      alt={stop.subdetailalt || stop.subname}
+                      fill
+                      sizes="(max-width: 640px) 100vw, 160px"
+                      className="object-cover"
+                    />
+                  </div>
+                )}
+
+                <div className="flex-1 min-w-0">
+                  {stop.subcontentid ? (
+                    <Link
+                      href={localizePath(`/places/${stop.subcontentid}`)}
+                      className="inline-flex items-center gap-1 text-base font-semibold text-foreground hover:text-primary"
+                    >
+                      {stop.subname}
+                      <ChevronRight className="w-4 h-4" aria-hidden="true" />
+                    </Link>
+                  ) : (
+                    <p className="text-base font-semibold text-foreground">{stop.subname}</p>
+                  )}
+                  {stop.subdetailoverview && (
+                    <p className="mt-1 text-sm text-muted-foreground whitespace-pre-line line-clamp-4">
+                      {stop.subdetailoverview}
+                    </p>
+                  )}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </section>
+  );
+}
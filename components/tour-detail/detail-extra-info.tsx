@@ -0,0 +1,62 @@
+/**
+ * @file detail-extra-info.tsx
+ * @description 관광지 추가 정보 섹션 컴포넌트
+ *
+ * 숙박/여행코스 외 타입의 반복 정보(detailInfo2)를 항목명-내용 목록으로 표시하는 컴포넌트입니다.
+ * (예: 입장료, 화장실, 이용 가능 시설, 외국어 안내 등)
+ *
+ * 주요 기능:
+ * - 항목명과 내용을 순번대로 표시
+ * - 추가 정보가 없으면 섹션 숨김 처리
+ *
+ * @see {@link /docs/PRD.md} - MVP 2.4 상세페이지
+ * @see {@link /docs/DESIGN.md} - 상세페이지 레이아웃
+ */
+
+"use client";
+
+import type { ExtraInfoRow } from "@/lib/types/tour";
+import { useI18n } from "@/hooks/use-i18n";
+
+interface DetailExtraInfoProps {
+  rows: ExtraInfoRow[];
+}
+
+/**
+ * 관광지 추가 정보 섹션 컴포넌트
+ */
+export default function DetailExtraInfo({ rows }: DetailExtraInfoProps) {
+  const { messages } = useI18n();
+
+  // 추가 정보가 없으면 섹션 자체를 숨김
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return (
+    <section
+      className="container max-w-7xl mx-auto px-4 py-8"
+      aria-label={messages.detailExtraInfo.title}
+    >
+      <div className="bg-card rounded-lg border border-border p-6">
+        <h2 className="text-xl font-semibold text-foreground mb-4">
+          {messages.detailExtraInfo.title}
+        </h2>
+
+        <dl className="divide-y divide-border">
+          {rows.map((row, index) => (
+            <div
+              key={`${row.serialnum ?? index}-${row.infoname}`}
+              className="grid gap-1 py-3 first:pt-0 last:pb-0 sm:grid-cols-[160px_1fr] sm:gap-4"
+            >
+              <dt className="text-sm text-muted-foreground">{row.infoname}</dt>
+              <dd className="text-base text-foreground break-words whitespace-pre-line">
+                {row.infotext}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </section>
+  );
+}
@@ -26,9 +26,12 @@ import { MapPin, X, ChevronLeft, ChevronRight } from "lucide-react";
 import { Dialog, DialogContent, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import type { TourImage } from "@/lib/types/tour";
+import { useI18n } from "@/hooks/use-i18n";
+import { formatMessage } from "@/lib/i18n/config";
 
 interface DetailGalleryProps {
   images: TourImage[];
+  /** 섹션 제목 (기본값: "이미지 갤러리") */
   title?: string;
 }
 
@@ -37,8 +40,10 @@ interface DetailGalleryProps {
  */
 export default function DetailGallery({
   images,
-  title = "이미지 갤러리",
+  title: titleProp,
 }: DetailGalleryProps) {
+  const { messages } = useI18n();
+  const title = titleProp ?? messages.detailGallery.title;
   const [selectedImageIndex, setSelectedImageIndex] = useState<number | null>(
     null,
   );
@@ -61,7 +66,7 @@ export default function DetailGallery({
             <div className="text-center space-y-2">
               <MapPin className="w-16 h-16 text-muted-foreground mx-auto opacity-50" />
               <p className="text-sm text-muted-foreground">
-                이미지가 없습니다.
+                {messages.detailGallery.empty}
               </p>
             </div>
           </div>
@@ -120,7 +125,7 @@ export default function DetailGallery({
           }}
           tabIndex={0}
           role="region"
-          aria-label="이미지 갤러리 (화살표 키로 네비게이션)"
+          aria-label={messages.detailGallery.carouselLabel}
         >
           <Swiper
             modules={[Navigation, Pagination, Keyboard]}
@@ -155,13 +160,18 @@ export default function DetailGallery({
                 <button
                   onClick={() => handleImageClick(index)}
                   className="relative w-full aspect-video rounded-lg overflow-hidden bg-muted cursor-pointer group hover:opacity-90 transition-opacity focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
-                  aria-label={`${
-                    image.imgname || `이미지 ${index + 1}`
-                  } 전체화면 보기`}
+                  aria-label={formatMessage(messages.detailGallery.openFullscreen, {
+                    name:
+                      image.imgname ||
+                      formatMessage(messages.detailGallery.imageName, { index: index + 1 }),
+                  })}
                 >
                   <Image
                     src={image.originimgurl}
-                    alt={image.imgname || `${title} 이미지 ${index + 1}`}
+                    alt={
+                      image.imgname ||
+                      formatMessage(messages.detailGallery.imageAlt, { title, index: index + 1 })
+                    }
                     fill
                     className="object-cover group-hover:scale-105 transition-transform duration-300"
                     sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw"
@@ -181,7 +191,7 @@ export default function DetailGallery({
           {/* 커스텀 네비게이션 버튼 */}
           <button
             className="swiper-button-prev-custom absolute left-2 top-1/2 -translate-y-1/2 z-10 w-10 h-10 rounded-full bg-background/80 backdrop-blur-sm border border-border flex items-center justify-center hover:bg-background transition-colors focus:outline-none focus:ring-2 focus:ring-primary"
-            aria-label="이전 이미지"
+            aria-label={messages.detailGallery.previous}
           >
             <ChevronLeft
               className="w-5 h-5 text-foreground"
@@ -190,7 +200,7 @@ export default function DetailGallery({
           </button>
           <button
             className="swiper-button-next-custom absolute right-2 top-1/2 -translate-y-1/2 z-10 w-10 h-10 rounded-full bg-background/80 backdrop-blur-sm border border-border flex items-center justify-center hover:bg-background transition-colors focus:outline-none focus:ring-2 focus:ring-primary"
-            aria-label="다음 이미지"
+            aria-label={messages.detailGallery.next}
           >
             <ChevronRight
               className="w-5 h-5 text-foreground"
@@ -242,7 +252,10 @@ export default function DetailGallery({
                     <div className="relative w-full h-full flex items-center justify-center p-4">
                       <Image
                         src={image.originimgurl}
-                        alt={image.imgname || `${title} 이미지 ${index + 1}`}
+                        alt={
+                          image.imgname ||
+                          formatMessage(messages.detailGallery.imageAlt, { title, index: index + 1 })
+                        }
                         fill
                         className="object-contain"
                         sizes="100vw"
@@ -260,13 +273,13 @@ export default function DetailGallery({
               {/* 모달 네비게이션 버튼 */}
               <button
                 className="modal-swiper-button-prev absolute left-4 top-1/2 -translate-y-1/2 z-20 w-12 h-12 rounded-full bg-white/10 backdrop-blur-sm border border-white/20 flex items-center justify-center hover:bg-white/20 transition-colors text-white focus:outline-none focus:ring-2 focus:ring-white/50"
-                aria-label="이전 이미지"
+                aria-label={messages.detailGallery.previous}
               >
                 <ChevronLeft className="w-6 h-6" aria-hidden="true" />
               </button>
               <button
                 className="modal-swiper-button-next absolute right-4 top-1/2 -translate-y-1/2 z-20 w-12 h-12 rounded-full bg-white/10 backdrop-blur-sm border border-white/20 flex items-center justify-center hover:bg-white/20 transition-colors text-white focus:outline-none focus:ring-2 focus:ring-white/50"
-                aria-label="다음 이미지"
+                aria-label={messages.detailGallery.next}
               >
                 <ChevronRight className="w-6 h-6" aria-hidden="true" />
               </button>
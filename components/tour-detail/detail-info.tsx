@@ -27,35 +27,11 @@ import { MapPin, Phone, Globe, Copy, Check, ExternalLink } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 import type { TourDetail } from "@/lib/types/tour";
-import { CONTENT_TYPE } from "@/lib/types/tour";
 import ShareButton from "@/components/tour-detail/share-button";
 import BookmarkButton from "@/components/bookmarks/bookmark-button";
-
-/**
- * Content Type ID를 한글 이름으로 변환
- */
-function getContentTypeName(contentTypeId: string): string {
-  switch (contentTypeId) {
-    case CONTENT_TYPE.TOURIST_SPOT:
-      return "관광지";
-    case CONTENT_TYPE.CULTURAL_FACILITY:
-      return "문화시설";
-    case CONTENT_TYPE.FESTIVAL:
-      return "축제/행사";
-    case CONTENT_TYPE.TRAVEL_COURSE:
-      return "여행코스";
-    case CONTENT_TYPE.LEISURE_SPORTS:
-      return "레포츠";
-    case CONTENT_TYPE.ACCOMMODATION:
-      return "숙박";
-    case CONTENT_TYPE.SHOPPING:
-      return "쇼핑";
-    case CONTENT_TYPE.RESTAURANT:
-      return "음식점";
-    default:
-      return "기타";
-  }
-}
+import { useI18n } from "@/hooks/use-i18n";
+import { formatMessage } from "@/lib/i18n/config";
+import { getContentTypeLabel } from "@/lib/i18n/labels";
 
 /**
  * HTML 이스케이프 처리 (XSS 방지)
@@ -111,9 +87,10 @@ function extractUrlFromHtml(html: string): { url: string; displayText: string }
 export default function DetailInfo({ detail }: DetailInfoProps) {
   const [imageError, setImageError] = useState(false);
   const [addressCopied, setAddressCopied] = useState(false);
+  const { messages } = useI18n();
 
   const imageUrl = detail.firstimage || detail.firstimage2;
-  const contentTypeName = getContentTypeName(detail.contenttypeid);
+  const contentTypeName = getContentTypeLabel(messages, detail.contenttypeid);
   const address = detail.addr2 ? `${detail.addr1} ${detail.addr2}` : detail.addr1;
   
   // 홈페이지 URL 추출 (HTML 태그가 있을 수 있음)
@@ -130,7 +107,7 @@ export default function DetailInfo({ detail }: DetailInfoProps) {
       if (typeof window !== "undefined" && window.isSecureContext) {
         await navigator.clipboard.writeText(address);
         setAddressCopied(true);
-        toast.success("주소가 복사되었습니다.");
+        toast.success(messages.detailInfo.addressCopied);
         setTimeout(() => setAddressCopied(false), 2000);
       } else {
         // HTTPS가 아닌 경우 fallback
@@ -143,12 +120,12 @@ export default function DetailInfo({ detail }: DetailInfoProps) {
         document.execCommand("copy");
         document.body.removeChild(textArea);
         setAddressCopied(true);
-        toast.success("주소가 복사되었습니다.");
+        toast.success(messages.detailInfo.addressCopied);
         setTimeout(() => setAddressCopied(false), 2000);
       }
     } catch (err) {
       console.error("주소 복사 실패:", err);
-      toast.error("주소 복사에 실패했습니다.");
+      toast.error(messages.detailInfo.copyAddressFailed);
     }
   };
 
@@ -172,13 +149,13 @@ export default function DetailInfo({ detail }: DetailInfoProps) {
   };
 
   return (
-    <article className="container max-w-7xl mx-auto px-4 py-8 space-y-8" aria-label="관광지 상세 정보">
+    <article className="container max-w-7xl mx-auto px-4 py-8 space-y-8" aria-label={messages.detailInfo.label}>
       {/* 대표 이미지 */}
       <figure className="relative w-full aspect-video md:aspect-[21/9] rounded-xl overflow-hidden bg-muted">
         {imageUrl && !imageError ? (
           <Image
             src={imageUrl}
-            alt={`${detail.title} 대표 이미지`}
+            alt={formatMessage(messages.detail.mainImageAlt, { title: detail.title })}
             fill
             className="object-cover"
             sizes="(max-width: 1280px) 100vw, 1280px"
@@ -186,7 +163,7 @@ export default function DetailInfo({ detail }: DetailInfoProps) {
             onError={() => setImageError(true)}
           />
         ) : (
-          <div className="w-full h-full flex items-center justify-center" aria-label="이미지 없음">
+          <div className="w-full h-full flex items-center justify-center" aria-label={messages.detailInfo.noImage}>
             <MapPin className="w-24 h-24 text-muted-foreground opacity-50" aria-hidden="true" />
           </div>
         )}
@@ -214,33 +191,35 @@ export default function DetailInfo({ detail }: DetailInfoProps) {
       <div className="grid gap-6 md:grid-cols-2">
         {/* 왼쪽 컬럼: 기본 정보 */}
         <div className="space-y-6">
-          <section aria-label="기본 정보">
-            <h2 className="text-xl font-semibold mb-4 text-foreground">기본 정보</h2>
+          <section aria-label={messages.detailInfo.basicInfo}>
+            <h2 className="text-xl font-semibold mb-4 text-foreground">
+              {messages.detailInfo.basicInfo}
+            </h2>
             <div className="space-y-4">
               {/* 주소 */}
               {address && (
                 <div className="flex items-start gap-3">
                   <MapPin className="w-5 h-5 mt-0.5 text-muted-foreground flex-shrink-0" aria-hidden="true" />
                   <div className="flex-1 min-w-0">
-                    <p className="text-sm text-muted-foreground mb-1">주소</p>
+                    <p className="text-sm text-muted-foreground mb-1">{messages.detailInfo.address}</p>
                     <p className="text-base text-foreground break-words">{address}</p>
                     <Button
                       variant="ghost"
                       size="sm"
                       onClick={handleCopyAddress}
                       className="mt-2 h-8"
-                      aria-label={`${address} 주소 복사`}
+                      aria-label={formatMessage(messages.detailInfo.copyAddress, { address })}
                       aria-pressed={addressCopied}
                     >
                       {addressCopied ? (
                         <>
                           <Check className="w-4 h-4 mr-1" aria-hidden="true" />
-                          복사됨
+                          {messages.common.copied}
                         </>
                       ) : (
                         <>
                           <Copy className="w-4 h-4 mr-1" aria-hidden="true" />
-                          복사
+                          {messages.common.copy}
                         </>
                       )}
                     </Button>
@@ -253,11 +232,11 @@ export default function DetailInfo({ detail }: DetailInfoProps) {
                 <div className="flex items-start gap-3">
                   <Phone className="w-5 h-5 mt-0.5 text-muted-foreground flex-shrink-0" aria-hidden="true" />
                   <div className="flex-1 min-w-0">
-                    <p className="text-sm text-muted-foreground mb-1">전화번호</p>
+                    <p className="text-sm text-muted-foreground mb-1">{messages.detailInfo.phone}</p>
                     <a
                       href={`tel:${detail.tel.replace(/[^0-9-]/g, "")}`}
                       className="text-base text-primary hover:underline focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 rounded"
-                      aria-label={`${detail.tel}로 전화하기`}
+                      aria-label={formatMessage(messages.detailInfo.call, { tel: detail.tel })}
                     >
                       {detail.tel}
                     </a>
@@ -270,13 +249,15 @@ export default function DetailInfo({ detail }: DetailInfoProps) {
                 <div className="flex items-start gap-3">
                   <Globe className="w-5 h-5 mt-0.5 text-muted-foreground flex-shrink-0" aria-hidden="true" />
                   <div className="flex-1 min-w-0">
-                    <p className="text-sm text-muted-foreground mb-1">홈페이지</p>
+                    <p className="text-sm text-muted-foreground mb-1">{messages.detailInfo.homepage}</p>
                     <a
                       href={homepageData.url}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-base text-primary hover:underline inline-flex items-center gap-1 focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 rounded break-all"
-                      aria-label={`${homepageData.displayText} 홈페이지 새 창에서 열기`}
+                      aria-label={formatMessage(messages.detailInfo.openHomepage, {
+                        site: homepageData.displayText,
+                      })}
                     >
                       {homepageData.displayText}
                       <ExternalLink className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
@@ -291,8 +272,10 @@ export default function DetailInfo({ detail }: DetailInfoProps) {
         {/* 오른쪽 컬럼: 개요 */}
         <div className="space-y-6">
           {detail.overview && (
-            <section aria-label="개요">
-              <h2 className="text-xl font-semibold mb-4 text-foreground">개요</h2>
+            <section aria-label={messages.detailInfo.overview}>
+              <h2 className="text-xl font-semibold mb-4 text-foreground">
+                {messages.detailInfo.overview}
+              </h2>
               <div className="bg-card rounded-lg border border-border p-6">
                 {renderOverview()}
               </div>
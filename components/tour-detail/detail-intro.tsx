@@ -3,16 +3,16 @@
  * @description 관광지 운영 정보 섹션 컴포넌트
  *
  * 관광지의 운영 정보를 표시하는 컴포넌트입니다.
- * 운영시간, 휴무일, 이용요금, 주차, 수용인원, 체험 프로그램, 유모차/반려동물 동반 가능 여부 등을 표시합니다.
+ * 운영 정보는 콘텐츠 타입(contenttypeid)별로 필드가 다르므로,
+ * 타입별 섹션(관광지, 문화시설, 축제/행사, 여행코스, 레포츠, 숙박, 쇼핑, 음식점)으로 나누어 표시합니다.
  *
  * 주요 기능:
- * - 운영시간/개장시간 표시
- * - 휴무일 표시
- * - 이용요금 표시
- * - 주차 가능 여부 표시
- * - 수용인원 표시
- * - 체험 프로그램 표시
- * - 유모차/반려동물 동반 가능 여부 표시
+ * - 공통: 운영시간, 휴무일, 문의처, 주차, 유모차/반려동물/신용카드 가능 여부
+ * - 음식점: 대표 메뉴, 취급 메뉴, 좌석 수, 포장/예약
+ * - 숙박: 입실/퇴실 시간, 객실 정보, 예약/환불 안내, 부대시설
+ * - 축제/행사: 행사 기간, 장소, 공연 시간, 프로그램, 주최/주관
+ * - 레포츠: 개장 기간, 입장료, 체험 가능 연령, 예약 안내
+ * - 여행코스: 코스 거리, 소요시간, 테마
  * - 정보 없는 항목 숨김 처리
  *
  * @see {@link /docs/PRD.md} - MVP 2.4.2 운영 정보 섹션
@@ -31,8 +31,25 @@ import {
   Baby,
   Dog,
   Phone,
+  CreditCard,
+  UtensilsCrossed,
+  BedDouble,
+  LogIn,
+  LogOut,
+  MapPin,
+  Ticket,
+  Route,
+  Timer,
+  ShoppingBag,
+  Info,
+  Globe,
+  type LucideIcon,
 } from "lucide-react";
-import type { TourIntro } from "@/lib/types/tour";
+import { CONTENT_TYPE } from "@/lib/types/tour";
+import type { AccommodationIntro, TourIntro } from "@/lib/types/tour";
+import { formatEventPeriod } from "@/lib/utils/date-utils";
+import { useI18n } from "@/hooks/use-i18n";
+import type { Messages } from "@/lib/i18n/messages";
 
 interface DetailIntroProps {
   intro: TourIntro | null;
@@ -63,123 +80,269 @@ function InfoItem({ icon, label, value }: InfoItemProps) {
   );
 }
 
+/**
+ * 표시할 정보 항목
+ */
+interface IntroEntry {
+  icon: LucideIcon;
+  label: string;
+  value: string | null | undefined;
+}
+
+/**
+ * 숙박 부대시설 항목 (값이 "1"이면 보유, 이름은 메시지 카탈로그의 detailIntro.facilities)
+ */
+const LODGING_FACILITIES: Array<
+  keyof AccommodationIntro & keyof Messages["detailIntro"]["facilities"]
+> = [
+  "barbecue",
+  "beauty",
+  "beverage",
+  "bicycle",
+  "campfire",
+  "fitness",
+  "karaoke",
+  "publicbath",
+  "publicpc",
+  "sauna",
+  "seminar",
+  "sports",
+];
+
+/**
+ * 콘텐츠 타입별 섹션 제목과 정보 항목 구성
+ */
+function getIntroSection(
+  intro: TourIntro,
+  messages: Messages
+): { title: string; entries: IntroEntry[] } {
+  const { titles, labels } = messages.detailIntro;
+
+  switch (intro.contenttypeid) {
+    case CONTENT_TYPE.TOURIST_SPOT:
+      return {
+        title: titles.touristSpot,
+        entries: [
+          { icon: Clock, label: labels.useTime, value: intro.usetime },
+          { icon: Calendar, label: labels.restDate, value: intro.restdate },
+          { icon: Calendar, label: labels.useSeason, value: intro.useseason },
+          { icon: Phone, label: labels.contact, value: intro.infocenter },
+          { icon: Car, label: labels.parking, value: intro.parking },
+          { icon: Users, label: labels.capacity, value: intro.accomcount },
+          { icon: Sparkles, label: labels.experienceGuide, value: intro.expguide },
+          { icon: Users, label: labels.experienceAge, value: intro.expagerange },
+          { icon: Baby, label: labels.babyCarriage, value: intro.chkbabycarriage },
+          { icon: Dog, label: labels.pets, value: intro.chkpet },
+          { icon: CreditCard, label: labels.creditCard, value: intro.chkcreditcard },
+        ],
+      };
+    case CONTENT_TYPE.CULTURAL_FACILITY:
+      return {
+        title: titles.culturalFacility,
+        entries: [
+          { icon: Clock, label: labels.useTime, value: intro.usetimeculture },
+          { icon: Calendar, label: labels.restDate, value: intro.restdateculture },
+          { icon: DollarSign, label: labels.fee, value: intro.usefee },
+          { icon: Ticket, label: labels.discount, value: intro.discountinfo },
+          { icon: Timer, label: labels.spendTime, value: intro.spendtime },
+          { icon: Phone, label: labels.contact, value: intro.infocenterculture },
+          { icon: Car, label: labels.parking, value: intro.parkingculture },
+          { icon: DollarSign, label: labels.parkingFee, value: intro.parkingfee },
+          { icon: Users, label: labels.capacity, value: intro.accomcountculture },
+          { icon: Info, label: labels.scale, value: intro.scale },
+          { icon: Baby, label: labels.babyCarriage, value: intro.chkbabycarriageculture },
+          { icon: Dog, label: labels.pets, value: intro.chkpetculture },
+          { icon: CreditCard, label: labels.creditCard, value: intro.chkcreditcardculture },
+        ],
+      };
+    case CONTENT_TYPE.FESTIVAL:
+      return {
+        title: titles.festival,
+        entries: [
+          {
+            icon: Calendar,
+            label: labels.eventPeriod,
+            value: formatEventPeriod(intro.eventstartdate, intro.eventenddate),
+          },
+          { icon: MapPin, label: labels.eventPlace, value: intro.eventplace },
+          { icon: MapPin, label: labels.placeInfo, value: intro.placeinfo },
+          { icon: Clock, label: labels.playTime, value: intro.playtime },
+          { icon: DollarSign, label: labels.fee, value: intro.usetimefestival },
+          { icon: Ticket, label: labels.discount, value: intro.discountinfofestival },
+          { icon: Ticket, label: labels.bookingPlace, value: intro.bookingplace },
+          { icon: Users, label: labels.ageLimit, value: intro.agelimit },
+          { icon: Timer, label: labels.spendTime, value: intro.spendtimefestival },
+          { icon: Sparkles, label: labels.program, value: intro.program },
+          { icon: Sparkles, label: labels.subEvent, value: intro.subevent },
+          {
+            icon: Phone,
+            label: labels.sponsor,
+            value: [intro.sponsor1, intro.sponsor1tel].filter(Boolean).join(" · "),
+          },
+          {
+            icon: Phone,
+            label: labels.organizer,
+            value: [intro.sponsor2, intro.sponsor2tel].filter(Boolean).join(" · "),
+          },
+          { icon: Globe, label: labels.eventHomepage, value: intro.eventhomepage },
+        ],
+      };
+    case CONTENT_TYPE.TRAVEL_COURSE:
+      return {
+        title: titles.travelCourse,
+        entries: [
+          { icon: Route, label: labels.courseDistance, value: intro.distance },
+          { icon: Timer, label: labels.courseTime, value: intro.taketime },
+          { icon: Calendar, label: labels.schedule, value: intro.schedule },
+          { icon: Sparkles, label: labels.courseTheme, value: intro.theme },
+          { icon: Phone, label: labels.contact, value: intro.infocentertourcourse },
+        ],
+      };
+    case CONTENT_TYPE.LEISURE_SPORTS:
+      return {
+        title: titles.leisureSports,
+        entries: [
+          { icon: Clock, label: labels.useTime, value: intro.usetimeleports },
+          { icon: Calendar, label: labels.openPeriod, value: intro.openperiod },
+          { icon: Calendar, label: labels.restDate, value: intro.restdateleports },
+          { icon: DollarSign, label: labels.admission, value: intro.usefeeleports },
+          { icon: Users, label: labels.experienceAge, value: intro.expagerangeleports },
+          { icon: Ticket, label: labels.reservation, value: intro.reservation },
+          { icon: Phone, label: labels.contact, value: intro.infocenterleports },
+          { icon: Car, label: labels.parking, value: intro.parkingleports },
+          { icon: DollarSign, label: labels.parkingFee, value: intro.parkingfeeleports },
+          { icon: Users, label: labels.capacity, value: intro.accomcountleports },
+          { icon: Info, label: labels.scale, value: intro.scaleleports },
+          { icon: Baby, label: labels.babyCarriage, value: intro.chkbabycarriageleports },
+          { icon: Dog, label: labels.pets, value: intro.chkpetleports },
+          { icon: CreditCard, label: labels.creditCard, value: intro.chkcreditcardleports },
+        ],
+      };
+    case CONTENT_TYPE.ACCOMMODATION:
+      return {
+        title: titles.accommodation,
+        entries: [
+          { icon: LogIn, label: labels.checkIn, value: intro.checkintime },
+          { icon: LogOut, label: labels.checkOut, value: intro.checkouttime },
+          { icon: BedDouble, label: labels.roomType, value: intro.roomtype },
+          { icon: BedDouble, label: labels.roomCount, value: intro.roomcount },
+          { icon: Users, label: labels.lodgingCapacity, value: intro.accomcountlodging },
+          { icon: UtensilsCrossed, label: labels.cooking, value: intro.chkcooking },
+          { icon: UtensilsCrossed, label: labels.foodPlace, value: intro.foodplace },
+          { icon: Ticket, label: labels.reservation, value: intro.reservationlodging },
+          { icon: Globe, label: labels.reservationUrl, value: intro.reservationurl },
+          { icon: Info, label: labels.refund, value: intro.refundregulation },
+          { icon: Car, label: labels.parking, value: intro.parkinglodging },
+          { icon: Car, label: labels.pickup, value: intro.pickup },
+          { icon: Phone, label: labels.contact, value: intro.infocenterlodging },
+          { icon: Info, label: labels.scale, value: intro.scalelodging },
+          { icon: Sparkles, label: labels.subFacility, value: intro.subfacility },
+        ],
+      };
+    case CONTENT_TYPE.SHOPPING:
+      return {
+        title: titles.shopping,
+        entries: [
+          { icon: Clock, label: labels.openTime, value: intro.opentime },
+          { icon: Calendar, label: labels.restDate, value: intro.restdateshopping },
+          { icon: Calendar, label: labels.fairDay, value: intro.fairday },
+          { icon: ShoppingBag, label: labels.saleItem, value: intro.saleitem },
+          { icon: DollarSign, label: labels.saleItemCost, value: intro.saleitemcost },
+          { icon: Info, label: labels.shopGuide, value: intro.shopguide },
+          { icon: Phone, label: labels.contact, value: intro.infocentershopping },
+          { icon: Car, label: labels.parking, value: intro.parkingshopping },
+          { icon: Info, label: labels.restroom, value: intro.restroom },
+          { icon: Info, label: labels.scale, value: intro.scaleshopping },
+          { icon: Baby, label: labels.babyCarriage, value: intro.chkbabycarriageshopping },
+          { icon: Dog, label: labels.pets, value: intro.chkpetshopping },
+          { icon: CreditCard, label: labels.creditCard, value: intro.chkcreditcardshopping },
+        ],
+      };
+    case CONTENT_TYPE.RESTAURANT:
+      return {
+        title: titles.restaurant,
+        entries: [
+          { icon: UtensilsCrossed, label: labels.firstMenu, value: intro.firstmenu },
+          { icon: UtensilsCrossed, label: labels.treatMenu, value: intro.treatmenu },
+          { icon: Clock, label: labels.openTime, value: intro.opentimefood },
+          { icon: Calendar, label: labels.restDate, value: intro.restdatefood },
+          { icon: Users, label: labels.seat, value: intro.seat },
+          { icon: ShoppingBag, label: labels.packing, value: intro.packing },
+          { icon: Ticket, label: labels.reservation, value: intro.reservationfood },
+          { icon: Ticket, label: labels.discount, value: intro.discountinfofood },
+          { icon: Baby, label: labels.kidsFacility, value: intro.kidsfacility },
+          { icon: Info, label: labels.smoking, value: intro.smoking },
+          { icon: Phone, label: labels.contact, value: intro.infocenterfood },
+          { icon: Car, label: labels.parking, value: intro.parkingfood },
+          { icon: CreditCard, label: labels.creditCard, value: intro.chkcreditcardfood },
+        ],
+      };
+  }
+}
+
 /**
  * 관광지 운영 정보 섹션 컴포넌트
  */
 export default function DetailIntro({ intro }: DetailIntroProps) {
+  const { messages } = useI18n();
+
   // 운영 정보가 없으면 섹션 자체를 숨김
   if (!intro) {
     return null;
   }
 
-  // 표시할 정보가 있는지 확인
-  const hasInfo =
-    intro.usetime ||
-    intro.restdate ||
-    intro.infocenter ||
-    intro.infotext ||
-    intro.parking ||
-    intro.accomcount ||
-    intro.expguide ||
-    intro.chkbabycarriage ||
-    intro.chkpet;
-
-  if (!hasInfo) {
+  const { title, entries } = getIntroSection(intro, messages);
+  const visibleEntries = entries.filter((entry) => Boolean(entry.value));
+
+  // 숙박 부대시설 (보유한 시설만)
+  const facilities =
+    intro.contenttypeid === CONTENT_TYPE.ACCOMMODATION
+      ? LODGING_FACILITIES.filter((facility) => intro[facility] === "1")
+      : [];
+
+  // 표시할 정보가 없으면 섹션 숨김
+  if (visibleEntries.length === 0 && facilities.length === 0) {
     return null;
   }
 
   return (
     <section
       className="container max-w-7xl mx-auto px-4 py-8"
-      aria-label="운영 정보"
+      aria-label={title}
     >
       <div className="bg-card rounded-lg border border-border p-6 space-y-6">
-        <h2 className="text-xl font-semibold text-foreground mb-4">운영 정보</h2>
+        <h2 className="text-xl font-semibold text-foreground mb-4">{title}</h2>
 
         <div className="space-y-4">
-          {/* 운영시간 */}
-          {intro.usetime && (
+          {visibleEntries.map((entry) => (
             <InfoItem
-              icon={<Clock className="w-5 h-5" />}
-              label="운영시간"
-              value={intro.usetime}
+              key={entry.label}
+              icon={<entry.icon className="w-5 h-5" />}
+              label={entry.label}
+              value={entry.value!}
             />
-          )}
-
-          {/* 휴무일 */}
-          {intro.restdate && (
-            <InfoItem
-              icon={<Calendar className="w-5 h-5" />}
-              label="휴무일"
-              value={intro.restdate}
-            />
-          )}
-
-          {/* 문의처 */}
-          {intro.infocenter && (
-            <InfoItem
-              icon={<Phone className="w-5 h-5" />}
-              label="문의처"
-              value={intro.infocenter}
-            />
-          )}
-
-          {/* 이용요금 (타입별 필드가 다를 수 있음, infotext 또는 기타 필드 확인 필요) */}
-          {intro.infotext && (
-            <InfoItem
-              icon={<DollarSign className="w-5 h-5" />}
-              label="이용요금"
-              value={intro.infotext}
-            />
-          )}
-
-          {/* 주차 가능 여부 */}
-          {intro.parking && (
-            <InfoItem
-              icon={<Car className="w-5 h-5" />}
-              label="주차"
-              value={intro.parking}
-            />
-          )}
-
-          {/* 수용인원 */}
-          {intro.accomcount && (
-            <InfoItem
-              icon={<Users className="w-5 h-5" />}
-              label="수용인원"
-              value={intro.accomcount}
-            />
-          )}
-
-          {/* 체험 프로그램 */}
-          {intro.expguide && (
-            <InfoItem
-              icon={<Sparkles className="w-5 h-5" />}
-              label="체험 프로그램"
-              value={intro.expguide}
-            />
-          )}
-
-          {/* 유모차 동반 가능 여부 */}
-          {intro.chkbabycarriage && (
-            <InfoItem
-              icon={<Baby className="w-5 h-5" />}
-              label="유모차 동반"
-              value={intro.chkbabycarriage}
-            />
-          )}
-
-          {/* 반려동물 동반 가능 여부 */}
-          {intro.chkpet && (
-            <InfoItem
-              icon={<Dog className="w-5 h-5" />}
-              label="반려동물 동반"
-              value={intro.chkpet}
-            />
-          )}
+          ))}
         </div>
+
+        {/* 숙박 부대시설 */}
+        {facilities.length > 0 && (
+          <div>
+            <p className="text-sm text-muted-foreground mb-2">
+              {messages.detailIntro.facilitiesTitle}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {facilities.map((facility) => (
+                <span
+                  key={facility}
+                  className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-primary/10 text-primary"
+                >
+                  {messages.detailIntro.facilities[facility]}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </section>
   );
 }
-
@@ -2,13 +2,15 @@
  * @file detail-map.tsx
  * @description 관광지 위치 지도 섹션 컴포넌트
  *
- * 관광지의 위치를 네이버 지도에 단일 마커로 표시하고, 길찾기 기능을 제공합니다.
+ * 관광지의 위치를 지도에 단일 마커로 표시하고, 길찾기 기능을 제공합니다.
+ * 네이버 지도를 불러오지 못하면 OpenStreetMap 호환 타일 지도로 자동 대체합니다.
  *
  * 주요 기능:
- * - 해당 관광지 위치를 네이버 지도에 표시
+ * - 해당 관광지 위치를 지도에 표시
  * - 마커 1개 표시
  * - 길찾기 버튼 (네이버 지도 앱/웹 연동)
  * - 좌표 정보 표시 및 복사
+ * - 여행코스: 경유지 번호 마커와 경로선(Polyline) 표시
  *
  * @see {@link /docs/PRD.md} - MVP 2.4.4 지도 섹션
  * @see {@link /docs/DESIGN.md} - 상세페이지 레이아웃
@@ -16,185 +18,173 @@
 
 "use client";
 
-import { useEffect, useRef, useState } from "react";
-import Script from "next/script";
-import { convertKATECToWGS84 } from "@/lib/utils/coordinate";
-import type { TourDetail } from "@/lib/types/tour";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { convertToWGS84 } from "@/lib/utils/coordinate";
+import type { CourseStop, TourDetail } from "@/lib/types/tour";
 import { Loader2, MapPin, Navigation, Copy, Check } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
-
-// Naver Maps API 타입 정의
-type NaverMap = any;
-type NaverMarker = any;
-type NaverInfoWindow = any;
-
-declare global {
-  interface Window {
-    naver: {
-      maps: {
-        LatLng: new (lat: number, lng: number) => any;
-        Map: new (element: HTMLElement, options: any) => NaverMap;
-        Marker: new (options: any) => NaverMarker;
-        InfoWindow: new (options: any) => NaverInfoWindow;
-        Point: new (x: number, y: number) => any;
-        Event: {
-          addListener: (
-            target: any,
-            event: string,
-            handler: () => void,
-          ) => void;
-          removeListener: (
-            target: any,
-            event: string,
-            handler: () => void,
-          ) => void;
-        };
-        MapTypeId: {
-          NORMAL: string;
-          SATELLITE: string;
-        };
-      };
-    };
-  }
-}
+import { useI18n } from "@/hooks/use-i18n";
+import { useMap } from "@/hooks/use-map";
+import type { MapMarker, MapMarkerIcon, MapPolyline } from "@/lib/maps";
 
 interface DetailMapProps {
   detail: TourDetail;
+  /** 여행코스 경유지 (좌표가 있는 경유지만 경로선으로 표시) */
+  courseStops?: CourseStop[];
 }
 
 /**
  * 관광지 위치 지도 컴포넌트
  */
-export default function DetailMap({ detail }: DetailMapProps) {
+export default function DetailMap({ detail, courseStops }: DetailMapProps) {
   const mapRef = useRef<HTMLDivElement>(null);
-  const mapInstanceRef = useRef<NaverMap | null>(null);
-  const markerRef = useRef<NaverMarker | null>(null);
-  const infoWindowRef = useRef<NaverInfoWindow | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [isScriptLoaded, setIsScriptLoaded] = useState(false);
-  const [coordinates, setCoordinates] = useState<{ lat: number; lng: number } | null>(null);
   const [coordinateCopied, setCoordinateCopied] = useState(false);
-
-  // Naver Maps API 클라이언트 ID
-  const clientId = process.env.NEXT_PUBLIC_NAVER_MAP_CLIENT_ID;
-
-  // 좌표 변환
-  useEffect(() => {
-    if (detail.mapx && detail.mapy) {
-      const coord = convertKATECToWGS84(detail.mapx, detail.mapy);
-      setCoordinates(coord);
-    } else {
-      setError("좌표 정보가 없습니다.");
-      setIsLoading(false);
-    }
-  }, [detail.mapx, detail.mapy]);
-
-  // 스크립트 로드 완료 핸들러
-  const handleScriptLoad = () => {
-    // 스크립트가 로드되었지만 naver 객체가 있는지 확인
-    if (typeof window !== "undefined" && window.naver && window.naver.maps) {
-      setIsScriptLoaded(true);
-    } else {
-      console.error("네이버 지도 API 스크립트는 로드되었지만 naver 객체를 찾을 수 없습니다.");
-      setError("네이버 지도 API를 초기화할 수 없습니다. API 키와 서비스 설정을 확인해주세요.");
-      setIsLoading(false);
+  const { messages } = useI18n();
+
+  // 좌표 변환 (유효하지 않으면 지도를 만들지 않음)
+  const coordinates = useMemo(() => {
+    const coord = convertToWGS84(detail.mapx, detail.mapy);
+    if (!coord.valid) {
+      if (coord.reason !== "missing") {
+        console.warn("좌표가 유효하지 않습니다:", detail.contentid, coord.reason);
+      }
+      return null;
     }
-  };
-
-  // 스크립트 로드 에러 핸들러
-  const handleScriptError = (error?: Error | string) => {
-    console.error("네이버 지도 API 스크립트 로드 실패:", error);
-    setError(
-      "네이버 지도 API를 로드할 수 없습니다. Vercel 환경변수에서 NEXT_PUBLIC_NAVER_MAP_CLIENT_ID를 확인해주세요."
-    );
-    setIsLoading(false);
-  };
+    return { lat: coord.lat, lng: coord.lng };
+  }, [detail.contentid, detail.mapx, detail.mapy]);
+
+  // 지도 생성 (상세 위치를 위한 줌 레벨)
+  const {
+    map,
+    isLoading: isMapLoading,
+    error: mapError,
+  } = useMap(mapRef, {
+    center: coordinates ?? { lat: 0, lng: 0 },
+    zoom: 15,
+    enabled: Boolean(coordinates),
+  });
+  const isLoading = Boolean(coordinates) && isMapLoading;
+  const error = coordinates ? mapError : messages.map.errors.noCoordinates;
+
+  // 관광지 마커 및 인포윈도우 생성
+  useEffect(() => {
+    if (!map || !coordinates) return;
+
+    map.setCenter(coordinates);
+
+    const marker = map.addMarker({
+      position: coordinates,
+      title: detail.title,
+      icon: getMarkerIcon(),
+    });
+
+    const address = detail.addr2 ? `${detail.addr1} ${detail.addr2}` : detail.addr1;
+    const infoWindow = map.createInfoWindow(getInfoWindowContent(detail.title, address));
+
+    // 마커 클릭 시 인포윈도우 열기
+    const removeClickListener = marker.onClick(() => {
+      infoWindow.open(marker);
+    });
+
+    // 초기 인포윈도우 열기
+    const timer = setTimeout(() => {
+      infoWindow.open(marker);
+    }, 300);
+
+    return () => {
+      clearTimeout(timer);
+      removeClickListener();
+      infoWindow.close();
+      marker.remove();
+    };
+  }, [map, coordinates, detail, messages]);
 
-  // 지도 초기화 및 마커 생성
+  // 여행코스 경유지 마커 및 경로선 표시 (지도 초기화 이후 실행)
   useEffect(() => {
-    if (!isScriptLoaded || !mapRef.current || !clientId || !coordinates) {
-      if (!clientId) {
-        setError("네이버 지도 API 키가 설정되지 않았습니다. Vercel 환경변수를 확인해주세요.");
-        setIsLoading(false);
-      }
+    if (!map || !courseStops) {
       return;
     }
 
-    // naver 객체 확인
-    if (typeof window === "undefined" || !window.naver || !window.naver.maps) {
-      console.error("naver.maps 객체를 찾을 수 없습니다.");
-      setError("네이버 지도 API가 로드되지 않았습니다. 페이지를 새로고침해주세요.");
-      setIsLoading(false);
+    const path = courseStops.flatMap((stop) => {
+      const coord = convertToWGS84(stop.mapx, stop.mapy);
+      return coord.valid ? [{ stop, position: { lat: coord.lat, lng: coord.lng } }] : [];
+    });
+
+    // 경유지가 2곳 이상일 때만 경로로 표시
+    if (path.length < 2) {
       return;
     }
 
-    try {
-      const centerLatLng = new naver.maps.LatLng(coordinates.lat, coordinates.lng);
-
-      // 지도 생성
-      const map = new naver.maps.Map(mapRef.current, {
-        center: centerLatLng,
-        zoom: 15, // 상세 위치를 위한 줌 레벨
-        mapTypeControl: false,
-        zoomControl: false,
-      });
-
-      mapInstanceRef.current = map;
-
-      // 마커 생성
-      const marker = new naver.maps.Marker({
-        position: centerLatLng,
-        map,
-        title: detail.title,
-        icon: {
-          content: getMarkerIcon(),
-          anchor: new naver.maps.Point(12, 34),
-        },
-      });
-
-      markerRef.current = marker;
-
-      // 인포윈도우 생성
-      const address = detail.addr2 ? `${detail.addr1} ${detail.addr2}` : detail.addr1;
-      const infoWindow = new naver.maps.InfoWindow({
-        content: getInfoWindowContent(detail.title, address),
-      });
-
-      infoWindowRef.current = infoWindow;
-
-      // 마커 클릭 시 인포윈도우 열기
-      naver.maps.Event.addListener(marker, "click", () => {
-        infoWindow.open(map, marker);
-      });
-
-      // 초기 인포윈도우 열기
-      setTimeout(() => {
-        infoWindow.open(map, marker);
-      }, 300);
-
-      setIsLoading(false);
-      setError(null);
-    } catch (err) {
-      console.error("지도 초기화 실패:", err);
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      setError(`지도를 초기화할 수 없습니다: ${errorMessage}`);
-      setIsLoading(false);
-    }
-  }, [isScriptLoaded, clientId, coordinates, detail]);
+    const overlays: (MapMarker | MapPolyline)[] = [];
+
+    overlays.push(
+      map.addPolyline({
+        path: path.map((point) => point.position),
+        color: "#3b82f6",
+        weight: 4,
+        opacity: 0.8,
+      })
+    );
+
+    path.forEach((point, index) => {
+      overlays.push(
+        map.addMarker({
+          position: point.position,
+          title: point.stop.subname,
+          icon: getCourseStopIcon(index + 1),
+        })
+      );
+    });
+
+    // 전체 경로가 보이도록 지도 범위 조정
+    const lats = path.map((point) => point.position.lat);
+    const lngs = path.map((point) => point.position.lng);
+    map.fitBounds(
+      {
+        minLat: Math.min(...lats),
+        maxLat: Math.max(...lats),
+        minLng: Math.min(...lngs),
+        maxLng: Math.max(...lngs),
+      },
+      { top: 40, right: 40, bottom: 40, left: 40 }
+    );
+
+    return () => {
+      overlays.forEach((overlay) => overlay.remove());
+    };
+  }, [map, courseStops]);
+
+  /**
+   * 여행코스 경유지 번호 마커 아이콘 생성
+   */
+  const getCourseStopIcon = (order: number): MapMarkerIcon => {
+    return {
+      html: `
+        <div style="width: 24px; height: 24px; box-sizing: border-box; border-radius: 9999px; background: #3b82f6; color: white; border: 2px solid white; box-shadow: 0 1px 3px rgba(0,0,0,0.3); display: flex; align-items: center; justify-content: center; font-size: 12px; font-weight: 600;">
+          ${order}
+        </div>
+      `,
+      size: { width: 24, height: 24 },
+      anchor: { x: 12, y: 12 },
+    };
+  };
 
   /**
    * 마커 아이콘 생성 (SVG)
    */
-  const getMarkerIcon = () => {
+  const getMarkerIcon = (): MapMarkerIcon => {
     const color = "#ef4444"; // 빨간색 마커
-    return `
-      <svg width="24" height="34" viewBox="0 0 24 34" fill="none" xmlns="http://www.w3.org/2000/svg">
-        <path d="M12 0C5.373 0 0 5.373 0 12c0 8.5 12 22 12 22s12-13.5 12-22C24 5.373 18.627 0 12 0z" fill="${color}"/>
-        <circle cx="12" cy="12" r="6" fill="white"/>
-      </svg>
-    `;
+    return {
+      html: `
+        <svg width="24" height="34" viewBox="0 0 24 34" fill="none" xmlns="http://www.w3.org/2000/svg">
+          <path d="M12 0C5.373 0 0 5.373 0 12c0 8.5 12 22 12 22s12-13.5 12-22C24 5.373 18.627 0 12 0z" fill="${color}"/>
+          <circle cx="12" cy="12" r="6" fill="white"/>
+        </svg>
+      `,
+      size: { width: 24, height: 34 },
+      anchor: { x: 12, y: 34 },
+    };
   };
 
   /**
@@ -211,7 +201,7 @@ export default function DetailMap({ detail }: DetailMapProps) {
    */
   const getInfoWindowContent = (title: string, address: string) => {
     const escapedTitle = escapeHtml(title);
-    const escapedAddress = escapeHtml(address || "주소 정보 없음");
+    const escapedAddress = escapeHtml(address || messages.common.noAddress);
     return `
       <div style="padding: 12px; min-width: 200px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;">
         <h3 style="margin: 0 0 8px 0; font-size: 16px; font-weight: 600; color: #1f2937;">
@@ -247,7 +237,7 @@ export default function DetailMap({ detail }: DetailMapProps) {
       if (typeof window !== "undefined" && window.isSecureContext) {
         await navigator.clipboard.writeText(coordText);
         setCoordinateCopied(true);
-        toast.success("좌표가 복사되었습니다.");
+        toast.success(messages.detailMap.coordinatesCopied);
         setTimeout(() => setCoordinateCopied(false), 2000);
       } else {
         // HTTPS가 아닌 경우 fallback
@@ -260,137 +250,91 @@ export default function DetailMap({ detail }: DetailMapProps) {
         document.execCommand("copy");
         document.body.removeChild(textArea);
         setCoordinateCopied(true);
-        toast.success("좌표가 복사되었습니다.");
+        toast.success(messages.detailMap.coordinatesCopied);
         setTimeout(() => setCoordinateCopied(false), 2000);
       }
     } catch (err) {
       console.error("좌표 복사 실패:", err);
-      toast.error("좌표 복사에 실패했습니다.");
+      toast.error(messages.detailMap.copyCoordinatesFailed);
     }
   };
 
-  if (!clientId) {
-    return (
-      <section
-        className="container max-w-7xl mx-auto px-4 py-8"
-        aria-label="위치 정보"
-      >
-        <div className="bg-card rounded-lg border border-border p-6">
-          <h2 className="text-xl font-semibold text-foreground mb-4">위치 정보</h2>
-          <div className="flex items-center justify-center h-[400px] md:h-[500px] bg-muted rounded-lg border border-border">
-            <div className="text-center space-y-2">
-              <p className="text-sm text-muted-foreground">
-                네이버 지도 API 키가 설정되지 않았습니다.
-              </p>
-              <p className="text-xs text-muted-foreground">
-                NEXT_PUBLIC_NAVER_MAP_CLIENT_ID 환경변수를 설정해주세요.
-              </p>
-            </div>
-          </div>
-        </div>
-      </section>
-    );
-  }
-
   return (
-    <>
-      {/* Naver Maps API 스크립트 로드 */}
-      <Script
-        src={`https://oapi.map.naver.com/openapi/v3/maps.js?ncpKeyId=${clientId}`}
-        strategy="lazyOnload"
-        onLoad={handleScriptLoad}
-        onError={(e) => handleScriptError(e)}
-        onReady={() => {
-          // 스크립트가 준비되었을 때 naver 객체 확인
-          if (typeof window !== "undefined" && window.naver && window.naver.maps) {
-            console.log("네이버 지도 API 로드 완료");
-          }
-        }}
-      />
-
-      <section
-        className="container max-w-7xl mx-auto px-4 py-8"
-        aria-label="위치 정보"
-      >
-        <div className="bg-card rounded-lg border border-border p-6">
-          <h2 className="text-xl font-semibold text-foreground mb-4">위치 정보</h2>
-
-          <div className="relative w-full h-[400px] md:h-[500px] rounded-lg border border-border overflow-hidden bg-muted">
-            {/* 지도 컨테이너 */}
-            <div ref={mapRef} className="w-full h-full" aria-label="네이버 지도" />
-
-            {/* 로딩 상태 */}
-            {isLoading && (
-              <div className="absolute inset-0 flex items-center justify-center bg-background/80 backdrop-blur-sm z-10">
-                <div className="text-center space-y-2">
-                  <Loader2 className="w-8 h-8 animate-spin text-primary mx-auto" />
-                  <p className="text-sm text-muted-foreground">지도를 불러오는 중...</p>
-                </div>
+    <section
+      className="container max-w-7xl mx-auto px-4 py-8"
+      aria-label={messages.detailMap.title}
+    >
+      <div className="bg-card rounded-lg border border-border p-6">
+        <h2 className="text-xl font-semibold text-foreground mb-4">{messages.detailMap.title}</h2>
+
+        <div className="relative w-full h-[400px] md:h-[500px] rounded-lg border border-border overflow-hidden bg-muted">
+          {/* 지도 컨테이너 */}
+          <div ref={mapRef} className="w-full h-full" aria-label={messages.map.label} />
+
+          {/* 로딩 상태 */}
+          {isLoading && (
+            <div className="absolute inset-0 flex items-center justify-center bg-background/80 backdrop-blur-sm z-10">
+              <div className="text-center space-y-2">
+                <Loader2 className="w-8 h-8 animate-spin text-primary mx-auto" />
+                <p className="text-sm text-muted-foreground">{messages.map.loading}</p>
               </div>
-            )}
-
-            {/* 에러 상태 */}
-            {error && !isLoading && (
-              <div className="absolute inset-0 flex items-center justify-center bg-background/80 backdrop-blur-sm z-10">
-                <div className="text-center space-y-3 px-4 max-w-md">
-                  <MapPin className="w-12 h-12 text-muted-foreground mx-auto opacity-50" />
-                  <p className="text-sm font-medium text-destructive">{error}</p>
-                  {!clientId && (
-                    <p className="text-xs text-muted-foreground mt-2">
-                      Vercel 대시보드 → Settings → Environment Variables에서
-                      <br />
-                      NEXT_PUBLIC_NAVER_MAP_CLIENT_ID를 설정해주세요.
-                    </p>
-                  )}
-                </div>
+            </div>
+          )}
+
+          {/* 에러 상태 */}
+          {error && !isLoading && (
+            <div className="absolute inset-0 flex items-center justify-center bg-background/80 backdrop-blur-sm z-10">
+              <div className="text-center space-y-3 px-4 max-w-md">
+                <MapPin className="w-12 h-12 text-muted-foreground mx-auto opacity-50" />
+                <p className="text-sm font-medium text-destructive">{error}</p>
               </div>
-            )}
-          </div>
+            </div>
+          )}
+        </div>
 
-          {/* 액션 버튼들 */}
-          {coordinates && !error && (
-            <div className="mt-4 flex flex-wrap gap-3">
+        {/* 액션 버튼들 */}
+        {coordinates && !error && (
+          <div className="mt-4 flex flex-wrap gap-3">
+            <Button
+              onClick={handleDirections}
+              className="flex items-center gap-2"
+              aria-label={messages.detailMap.directions}
+            >
+              <Navigation className="w-4 h-4" />
+              {messages.detailMap.directions}
+            </Button>
+
+            {/* 좌표 정보 표시 및 복사 */}
+            <div className="flex items-center gap-2 px-3 py-2 bg-muted rounded-lg border border-border">
+              <MapPin className="w-4 h-4 text-muted-foreground" />
+              <span className="text-sm text-muted-foreground">
+                {coordinates.lat.toFixed(6)}, {coordinates.lng.toFixed(6)}
+              </span>
               <Button
-                onClick={handleDirections}
-                className="flex items-center gap-2"
-                aria-label="길찾기"
+                variant="ghost"
+                size="sm"
+                onClick={handleCopyCoordinates}
+                className="h-8 px-2"
+                aria-label={messages.detailMap.copyCoordinates}
+                aria-pressed={coordinateCopied}
               >
-                <Navigation className="w-4 h-4" />
-                길찾기
+                {coordinateCopied ? (
+                  <>
+                    <Check className="w-4 h-4 mr-1" />
+                    {messages.common.copied}
+                  </>
+                ) : (
+                  <>
+                    <Copy className="w-4 h-4 mr-1" />
+                    {messages.common.copy}
+                  </>
+                )}
               </Button>
-
-              {/* 좌표 정보 표시 및 복사 */}
-              <div className="flex items-center gap-2 px-3 py-2 bg-muted rounded-lg border border-border">
-                <MapPin className="w-4 h-4 text-muted-foreground" />
-                <span className="text-sm text-muted-foreground">
-                  {coordinates.lat.toFixed(6)}, {coordinates.lng.toFixed(6)}
-                </span>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={handleCopyCoordinates}
-                  className="h-8 px-2"
-                  aria-label="좌표 복사"
-                  aria-pressed={coordinateCopied}
-                >
-                  {coordinateCopied ? (
-                    <>
-                      <Check className="w-4 h-4 mr-1" />
-                      복사됨
-                    </>
-                  ) : (
-                    <>
-                      <Copy className="w-4 h-4 mr-1" />
-                      복사
-                    </>
-                  )}
-                </Button>
-              </div>
             </div>
-          )}
-        </div>
-      </section>
-    </>
+          </div>
+        )}
+      </div>
+    </section>
   );
 }
 
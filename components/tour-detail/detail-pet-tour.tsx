@@ -24,6 +24,7 @@
 
 import { Dog, Ruler, MapPin, DollarSign, Info, Car, AlertTriangle } from "lucide-react";
 import type { PetTourInfo } from "@/lib/types/tour";
+import { useI18n } from "@/hooks/use-i18n";
 
 interface DetailPetTourProps {
   petInfo: PetTourInfo | null;
@@ -55,20 +56,20 @@ function InfoItem({ icon, label, value }: InfoItemProps) {
 }
 
 /**
- * 반려동물 크기 뱃지 생성
+ * 반려동물 크기 뱃지 종류 (문구는 메시지 카탈로그의 detailPetTour.sizes)
  */
-function getPetSizeBadge(size?: string): string | null {
+function getPetSizeBadge(size?: string): "small" | "medium" | "large" | null {
   if (!size) return null;
 
   const sizeLower = size.toLowerCase();
   if (sizeLower.includes("소형") || sizeLower.includes("small")) {
-    return "소형견 가능";
+    return "small";
   }
   if (sizeLower.includes("중형") || sizeLower.includes("medium")) {
-    return "중형견 가능";
+    return "medium";
   }
   if (sizeLower.includes("대형") || sizeLower.includes("large")) {
-    return "대형견 가능";
+    return "large";
   }
   return null;
 }
@@ -77,6 +78,8 @@ function getPetSizeBadge(size?: string): string | null {
  * 관광지 반려동물 동반 여행 정보 섹션 컴포넌트
  */
 export default function DetailPetTour({ petInfo }: DetailPetTourProps) {
+  const { messages } = useI18n();
+
   // 반려동물 정보가 없으면 섹션 자체를 숨김
   if (!petInfo) {
     return null;
@@ -101,12 +104,12 @@ export default function DetailPetTour({ petInfo }: DetailPetTourProps) {
   return (
     <section
       className="container max-w-7xl mx-auto px-4 py-8"
-      aria-label="반려동물 동반 여행 정보"
+      aria-label={messages.detailPetTour.title}
     >
       <div className="bg-card rounded-lg border border-border p-6 space-y-6">
         <div className="flex items-center gap-2 mb-4">
           <Dog className="w-6 h-6 text-primary" aria-hidden="true" />
-          <h2 className="text-xl font-semibold text-foreground">반려동물 동반 여행 정보</h2>
+          <h2 className="text-xl font-semibold text-foreground">{messages.detailPetTour.title}</h2>
         </div>
 
         {/* 반려동물 동반 가능 여부 뱃지 */}
@@ -115,17 +118,17 @@ export default function DetailPetTour({ petInfo }: DetailPetTourProps) {
             {isPetAllowed ? (
               <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
                 <Dog className="w-3 h-3 mr-1" aria-hidden="true" />
-                반려동물 동반 가능
+                {messages.detailPetTour.allowed}
               </span>
             ) : (
               <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-muted text-muted-foreground">
                 <AlertTriangle className="w-3 h-3 mr-1" aria-hidden="true" />
-                반려동물 동반 제한
+                {messages.detailPetTour.restricted}
               </span>
             )}
             {petSizeBadge && (
               <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium border border-border bg-background">
-                {petSizeBadge}
+                {messages.detailPetTour.sizes[petSizeBadge]}
               </span>
             )}
           </div>
@@ -136,7 +139,7 @@ export default function DetailPetTour({ petInfo }: DetailPetTourProps) {
           {petInfo.chkpetleash && (
             <InfoItem
               icon={<Dog className="w-5 h-5" />}
-              label="반려동물 동반 여부"
+              label={messages.detailPetTour.leash}
               value={petInfo.chkpetleash}
             />
           )}
@@ -145,7 +148,7 @@ export default function DetailPetTour({ petInfo }: DetailPetTourProps) {
           {petInfo.chkpetsize && (
             <InfoItem
               icon={<Ruler className="w-5 h-5" />}
-              label="반려동물 크기 제한"
+              label={messages.detailPetTour.size}
               value={petInfo.chkpetsize}
             />
           )}
@@ -154,7 +157,7 @@ export default function DetailPetTour({ petInfo }: DetailPetTourProps) {
           {petInfo.chkpetplace && (
             <InfoItem
               icon={<MapPin className="w-5 h-5" />}
-              label="입장 가능 장소"
+              label={messages.detailPetTour.place}
               value={petInfo.chkpetplace}
             />
           )}
@@ -163,7 +166,7 @@ export default function DetailPetTour({ petInfo }: DetailPetTourProps) {
           {petInfo.chkpetfee && (
             <InfoItem
               icon={<DollarSign className="w-5 h-5" />}
-              label="반려동물 동반 추가 요금"
+              label={messages.detailPetTour.fee}
               value={petInfo.chkpetfee}
             />
           )}
@@ -172,7 +175,7 @@ export default function DetailPetTour({ petInfo }: DetailPetTourProps) {
           {petInfo.parking && (
             <InfoItem
               icon={<Car className="w-5 h-5" />}
-              label="주차장 정보"
+              label={messages.detailPetTour.parking}
               value={petInfo.parking}
             />
           )}
@@ -183,7 +186,9 @@ export default function DetailPetTour({ petInfo }: DetailPetTourProps) {
               <div className="flex items-start gap-3">
                 <Info className="w-5 h-5 mt-0.5 text-primary flex-shrink-0" aria-hidden="true" />
                 <div className="flex-1 min-w-0">
-                  <p className="text-sm font-medium text-foreground mb-2">반려동물 정보</p>
+                  <p className="text-sm font-medium text-foreground mb-2">
+                    {messages.detailPetTour.etc}
+                  </p>
                   <p className="text-base text-foreground break-words whitespace-pre-line">
                     {petInfo.petinfo}
                   </p>
@@ -200,10 +205,10 @@ export default function DetailPetTour({ petInfo }: DetailPetTourProps) {
               <AlertTriangle className="w-5 h-5 text-amber-600 dark:text-amber-400 flex-shrink-0 mt-0.5" aria-hidden="true" />
               <div>
                 <p className="text-sm font-medium text-amber-900 dark:text-amber-200 mb-1">
-                  주의사항
+                  {messages.detailPetTour.cautionTitle}
                 </p>
                 <p className="text-sm text-amber-800 dark:text-amber-300">
-                  반려동물과 함께 방문하실 때는 목줄 착용, 배변 봉투 준비 등 반려동물 매너를 지켜주세요.
+                  {messages.detailPetTour.caution}
                 </p>
               </div>
             </div>
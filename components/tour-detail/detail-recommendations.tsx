@@ -21,10 +21,11 @@
 
 import { useEffect, useState } from "react";
 import { Sparkles } from "lucide-react";
-import { getAreaBasedList } from "@/lib/api/tour-api";
+import { getAreaBasedList } from "@/lib/api/tour-client";
 import TourCard from "@/components/tour-card";
 import { Skeleton } from "@/components/ui/skeleton";
 import type { TourItem, TourDetail } from "@/lib/types/tour";
+import { useI18n } from "@/hooks/use-i18n";
 
 interface DetailRecommendationsProps {
   /** 현재 관광지 정보 */
@@ -35,6 +36,7 @@ interface DetailRecommendationsProps {
  * 관광지 추천 섹션 컴포넌트
  */
 export default function DetailRecommendations({ detail }: DetailRecommendationsProps) {
+  const { messages } = useI18n();
   const [recommendations, setRecommendations] = useState<TourItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -60,26 +62,28 @@ export default function DetailRecommendations({ detail }: DetailRecommendationsP
         setRecommendations(filtered);
       } catch (err) {
         console.error("추천 관광지 조회 실패:", err);
-        setError("추천 관광지를 불러올 수 없습니다.");
+        setError(messages.detailRecommendations.loadError);
       } finally {
         setIsLoading(false);
       }
     };
 
     fetchRecommendations();
-  }, [detail.contentid, detail.contenttypeid]);
+  }, [detail.contentid, detail.contenttypeid, messages]);
 
   // 로딩 중
   if (isLoading) {
     return (
       <section
         className="container max-w-7xl mx-auto px-4 py-8"
-        aria-label="추천 관광지"
+        aria-label={messages.detailRecommendations.label}
       >
         <div className="space-y-6">
           <div className="flex items-center gap-2">
             <Sparkles className="w-6 h-6 text-primary" aria-hidden="true" />
-            <h2 className="text-xl font-semibold text-foreground">이런 관광지도 추천해요</h2>
+            <h2 className="text-xl font-semibold text-foreground">
+              {messages.detailRecommendations.title}
+            </h2>
           </div>
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
             {[1, 2, 3, 4, 5, 6].map((i) => (
@@ -110,12 +114,14 @@ export default function DetailRecommendations({ detail }: DetailRecommendationsP
   return (
     <section
       className="container max-w-7xl mx-auto px-4 py-8"
-      aria-label="추천 관광지"
+      aria-label={messages.detailRecommendations.label}
     >
       <div className="space-y-6">
         <div className="flex items-center gap-2">
           <Sparkles className="w-6 h-6 text-primary" aria-hidden="true" />
-          <h2 className="text-xl font-semibold text-foreground">이런 관광지도 추천해요</h2>
+          <h2 className="text-xl font-semibold text-foreground">
+            {messages.detailRecommendations.title}
+          </h2>
         </div>
 
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
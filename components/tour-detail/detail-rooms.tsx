@@ -0,0 +1,178 @@
+/**
+ * @file detail-rooms.tsx
+ * @description 숙박 객실 정보 섹션 컴포넌트
+ *
+ * 숙박(32) 관광지의 객실 정보(detailInfo2)를 표 형태로 표시하는 컴포넌트입니다.
+ *
+ * 주요 기능:
+ * - 객실명, 크기, 기준/최대 인원 표시
+ * - 비수기/성수기 주중·주말 최소 요금 표시
+ * - 객실 편의시설 뱃지 (TV, 에어컨, 인터넷 등)
+ * - 객실 정보가 없으면 섹션 숨김 처리
+ *
+ * @see {@link /docs/PRD.md} - MVP 2.4 상세페이지
+ * @see {@link /docs/DESIGN.md} - 상세페이지 레이아웃
+ */
+
+"use client";
+
+import { BedDouble } from "lucide-react";
+import type { RoomInfo } from "@/lib/types/tour";
+import { useI18n } from "@/hooks/use-i18n";
+import { LOCALE_INFO, formatMessage } from "@/lib/i18n/config";
+import type { Locale } from "@/lib/i18n/config";
+import type { Messages } from "@/lib/i18n/messages";
+
+interface DetailRoomsProps {
+  rooms: RoomInfo[];
+}
+
+/**
+ * 객실 편의시설 항목 (값이 "Y"이면 보유, 이름은 메시지 카탈로그의 detailRooms.amenityLabels)
+ */
+const ROOM_AMENITIES: Array<keyof RoomInfo & keyof Messages["detailRooms"]["amenityLabels"]> = [
+  "roombathfacility",
+  "roombath",
+  "roomhometheater",
+  "roomaircondition",
+  "roomtv",
+  "roompc",
+  "roomcable",
+  "roominternet",
+  "roomrefrigerator",
+  "roomtoiletries",
+  "roomsofa",
+  "roomcook",
+  "roomtable",
+  "roomhairdryer",
+];
+
+/**
+ * 요금 포맷팅 (숫자가 아니거나 0이면 "-")
+ */
+function formatFee(fee: string | undefined, messages: Messages, locale: Locale): string {
+  const amount = Number(fee);
+  if (!fee || !Number.isFinite(amount) || amount <= 0) {
+    return "-";
+  }
+  return formatMessage(messages.detailRooms.fee, {
+    amount: amount.toLocaleString(LOCALE_INFO[locale].intlLocale),
+  });
+}
+
+/**
+ * 객실 크기 포맷팅 (㎡ 우선, 없으면 평)
+ */
+function formatRoomSize(room: RoomInfo, messages: Messages): string {
+  if (room.roomsize2 && Number(room.roomsize2) > 0) {
+    return `${room.roomsize2}㎡`;
+  }
+  if (room.roomsize1 && Number(room.roomsize1) > 0) {
+    return formatMessage(messages.detailRooms.sizePyeong, { size: room.roomsize1 });
+  }
+  return "-";
+}
+
+/**
+ * 인원 포맷팅 (기준/최대)
+ */
+function formatCapacity(room: RoomInfo, messages: Messages): string {
+  if (!room.roombasecount && !room.roommaxcount) {
+    return "-";
+  }
+  return formatMessage(messages.detailRooms.people, {
+    base: room.roombasecount || "-",
+    max: room.roommaxcount || "-",
+  });
+}
+
+/**
+ * 숙박 객실 정보 섹션 컴포넌트
+ */
+export default function DetailRooms({ rooms }: DetailRoomsProps) {
+  const { locale, messages } = useI18n();
+
+  // 객실 정보가 없으면 섹션 자체를 숨김
+  if (rooms.length === 0) {
+    return null;
+  }
+
+  return (
+    <section
+      className="container max-w-7xl mx-auto px-4 py-8"
+      aria-label={messages.detailRooms.title}
+    >
+      <div className="bg-card rounded-lg border border-border p-6">
+        <h2 className="text-xl font-semibold text-foreground mb-4 flex items-center gap-2">
+          <BedDouble className="w-5 h-5" aria-hidden="true" />
+          {messages.detailRooms.title}
+        </h2>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <caption className="sr-only">{messages.detailRooms.caption}</caption>
+            <thead>
+              <tr className="border-b border-border text-left text-muted-foreground">
+                <th scope="col" className="py-2 pr-4 font-medium">{messages.detailRooms.room}</th>
+                <th scope="col" className="py-2 pr-4 font-medium">{messages.detailRooms.size}</th>
+                <th scope="col" className="py-2 pr-4 font-medium">{messages.detailRooms.capacity}</th>
+                <th scope="col" className="py-2 pr-4 font-medium">{messages.detailRooms.offSeason}</th>
+                <th scope="col" className="py-2 pr-4 font-medium">{messages.detailRooms.peakSeason}</th>
+                <th scope="col" className="py-2 font-medium">{messages.detailRooms.amenities}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rooms.map((room, index) => {
+                const amenities = ROOM_AMENITIES.filter(
+                  (amenity) => room[amenity] === "Y"
+                );
+
+                return (
+                  <tr
+                    key={room.roomcode || `${room.roomtitle}-${index}`}
+                    className="border-b border-border last:border-0 align-top"
+                  >
+                    <th scope="row" className="py-3 pr-4 text-left font-medium text-foreground">
+                      {room.roomtitle}
+                      {room.roomintro && (
+                        <p className="mt-1 text-xs font-normal text-muted-foreground whitespace-pre-line">
+                          {room.roomintro}
+                        </p>
+                      )}
+                    </th>
+                    <td className="py-3 pr-4 whitespace-nowrap">{formatRoomSize(room, messages)}</td>
+                    <td className="py-3 pr-4 whitespace-nowrap">{formatCapacity(room, messages)}</td>
+                    <td className="py-3 pr-4 whitespace-nowrap">
+                      {formatFee(room.roomoffseasonminfee1, messages, locale)} /{" "}
+                      {formatFee(room.roomoffseasonminfee2, messages, locale)}
+                    </td>
+                    <td className="py-3 pr-4 whitespace-nowrap">
+                      {formatFee(room.roompeakseasonminfee1, messages, locale)} /{" "}
+                      {formatFee(room.roompeakseasonminfee2, messages, locale)}
+                    </td>
+                    <td className="py-3">
+                      {amenities.length > 0 ? (
+                        <div className="flex flex-wrap gap-1">
+                          {amenities.map((amenity) => (
+                            <span
+                              key={amenity}
+                              className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-primary/10 text-primary"
+                            >
+                              {messages.detailRooms.amenityLabels[amenity]}
+                            </span>
+                          ))}
+                        </div>
+                      ) : (
+                        "-"
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -21,6 +21,7 @@ import { useState } from "react";
 import { Share2, Link, Check } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
+import { useI18n } from "@/hooks/use-i18n";
 
 interface ShareButtonProps {
   /** 공유할 URL (기본값: 현재 페이지 URL) */
@@ -42,6 +43,7 @@ export default function ShareButton({
   variant = "outline",
   className,
 }: ShareButtonProps) {
+  const { messages } = useI18n();
   const [copied, setCopied] = useState(false);
 
   /**
@@ -52,7 +54,7 @@ export default function ShareButton({
     const shareUrl = url || (typeof window !== "undefined" ? window.location.href : "");
 
     if (!shareUrl) {
-      toast.error("공유할 URL을 찾을 수 없습니다.");
+      toast.error(messages.share.noUrl);
       return;
     }
 
@@ -62,7 +64,7 @@ export default function ShareButton({
         // 클립보드 API 사용 (최신 방법)
         await navigator.clipboard.writeText(shareUrl);
         setCopied(true);
-        toast.success("링크가 복사되었습니다.");
+        toast.success(messages.share.linkCopied);
         setTimeout(() => setCopied(false), 2000);
       } else {
         // HTTPS가 아닌 경우 fallback (document.execCommand)
@@ -79,7 +81,7 @@ export default function ShareButton({
           const successful = document.execCommand("copy");
           if (successful) {
             setCopied(true);
-            toast.success("링크가 복사되었습니다.");
+            toast.success(messages.share.linkCopied);
             setTimeout(() => setCopied(false), 2000);
           } else {
             throw new Error("복사 실패");
@@ -92,7 +94,7 @@ export default function ShareButton({
       }
     } catch (err) {
       console.error("URL 복사 실패:", err);
-      toast.error("링크 복사에 실패했습니다.");
+      toast.error(messages.share.copyFailed);
     }
   };
 
@@ -102,18 +104,18 @@ export default function ShareButton({
       size={size}
       onClick={handleShare}
       className={className}
-      aria-label={copied ? "링크가 복사되었습니다" : "링크 복사"}
+      aria-label={copied ? messages.share.linkCopied : messages.share.copyLink}
       aria-pressed={copied}
     >
       {copied ? (
         <>
           <Check className="w-4 h-4 mr-2" aria-hidden="true" />
-          복사됨
+          {messages.common.copied}
         </>
       ) : (
         <>
           <Share2 className="w-4 h-4 mr-2" aria-hidden="true" />
-          공유
+          {messages.share.share}
         </>
       )}
     </Button>
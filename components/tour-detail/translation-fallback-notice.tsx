@@ -0,0 +1,55 @@
+/**
+ * @file translation-fallback-notice.tsx
+ * @description 번역 없음 안내 배너
+ *
+ * 선택한 언어 서비스에 관광지 정보가 없어 다른 언어(주로 한국어) 정보를 대신 표시할 때
+ * 선택한 언어로 안내하는 배너입니다.
+ *
+ * @see {@link /lib/api/tour-api.ts} - getDetailCommon (다른 언어 대체 조회)
+ */
+
+import { Languages } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { TourLanguage } from "@/lib/api/tour-language";
+import { MESSAGES } from "@/lib/i18n/messages";
+import { LOCALE_INFO, formatMessage } from "@/lib/i18n/config";
+
+interface TranslationFallbackNoticeProps {
+  /** 사용자가 선택한 언어 */
+  language: TourLanguage;
+  /** 실제로 표시하는 정보의 언어 */
+  shownLanguage: TourLanguage;
+  /** 추가 클래스명 */
+  className?: string;
+}
+
+/**
+ * 번역 없음 안내 배너
+ */
+export default function TranslationFallbackNotice({
+  language,
+  shownLanguage,
+  className,
+}: TranslationFallbackNoticeProps) {
+  const messages = MESSAGES[language];
+
+  return (
+    <div
+      role="status"
+      lang={language}
+      className={cn(
+        "flex items-center gap-3 p-4 bg-muted/50 border border-border rounded-lg",
+        className
+      )}
+    >
+      <Languages className="w-5 h-5 text-muted-foreground flex-shrink-0" aria-hidden="true" />
+      <p className="text-sm text-muted-foreground">
+        {shownLanguage === "ko"
+          ? messages.detail.translationFallback
+          : formatMessage(messages.detail.translationFallbackOther, {
+              language: LOCALE_INFO[shownLanguage].label,
+            })}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+/**
+ * @file tour-distance-filter.tsx
+ * @description 거리 필터 컴포넌트
+ *
+ * 불러온 관광지 목록을 기준 위치로부터 일정 거리 이내로 거르고 가까운 순으로 정렬합니다.
+ * 위치 기반 조회(내 주변)와 달리 API를 다시 호출하지 않고 현재 목록에만 적용합니다.
+ * 기준 위치와 반경은 지도의 반경 원을 끌어서 바꿀 수도 있습니다.
+ *
+ * 구성 요소:
+ * - 기준 위치 선택 (지도 중심, 선택한 관광지, 내 위치)
+ * - 거리 반경 선택 (기준 위치가 있을 때)
+ * - 가까운 순 정렬 토글
+ * - 결과 개수 및 필터 해제 버튼
+ *
+ * @see {@link /lib/utils/map-utils.ts} - applyDistanceFilter
+ */
+
+"use client";
+
+import { useCallback } from "react";
+import { ArrowUpDown, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DISTANCE_FILTER_RADIUS,
+  formatDistance,
+  type DistanceFilter,
+  type DistanceOrigin,
+} from "@/lib/utils/map-utils";
+import { convertToWGS84 } from "@/lib/utils/coordinate";
+import { formatMessage } from "@/lib/i18n/config";
+import type { TourItem } from "@/lib/types/tour";
+import { useI18n } from "@/hooks/use-i18n";
+import { useCurrentPosition } from "@/hooks/use-current-position";
+
+/**
+ * 거리 반경 옵션 (불러온 목록에 적용하므로 위치 기반 조회 최대 반경보다 넓게 허용)
+ */
+const RADIUS_OPTIONS = ["1000", "3000", "5000", "10000", "20000", "50000"] as const;
+
+/** 반경 제한 없이 거리 표시/정렬만 하는 옵션 값 */
+const ANY_RADIUS = "any";
+
+/** 거리 필터를 사용하지 않는 옵션 값 */
+const NO_ORIGIN = "none";
+
+interface TourDistanceFilterProps {
+  /** 현재 거리 필터 (없으면 null) */
+  value: DistanceFilter | null;
+  /** 거리 필터 변경 콜백 (해제 시 null) */
+  onChange: (filter: DistanceFilter | null) => void;
+  /** 현재 지도 중심 조회 (지도 중심 기준에 사용) */
+  getMapCenter: () => { lat: number; lng: number };
+  /** 선택한 관광지 (선택한 관광지 기준에 사용) */
+  selectedTour?: TourItem;
+  /** 필터를 통과한 관광지 수 */
+  matchedCount: number;
+  /** 불러온 전체 관광지 수 */
+  loadedCount: number;
+}
+
+/**
+ * 거리 필터 컴포넌트
+ */
+export default function TourDistanceFilter({
+  value,
+  onChange,
+  getMapCenter,
+  selectedTour,
+  matchedCount,
+  loadedCount,
+}: TourDistanceFilterProps) {
+  const { messages } = useI18n();
+  const { isLocating, locate } = useCurrentPosition();
+
+  const currentRadius = !value || value.radius === null ? ANY_RADIUS : String(value.radius);
+  // 지도에서 반경 원을 끌어 정한 반경은 기본 옵션에 없을 수 있으므로 옵션에 추가
+  const radiusOptions: string[] =
+    currentRadius === ANY_RADIUS || (RADIUS_OPTIONS as readonly string[]).includes(currentRadius)
+      ? [...RADIUS_OPTIONS]
+      : [...RADIUS_OPTIONS, currentRadius].sort((a, b) => Number(a) - Number(b));
+
+  // 기준 위치 적용 (반경/정렬 설정은 유지)
+  const applyOrigin = useCallback(
+    (origin: DistanceOrigin, point: { lat: number; lng: number }) => {
+      onChange({
+        origin,
+        lat: point.lat,
+        lng: point.lng,
+        radius: value ? value.radius : DISTANCE_FILTER_RADIUS.DEFAULT,
+        sortByDistance: value ? value.sortByDistance : true,
+      });
+    },
+    [onChange, value]
+  );
+
+  // 기준 위치 변경
+  const handleOriginChange = useCallback(
+    (next: string) => {
+      switch (next) {
+        case NO_ORIGIN:
+          onChange(null);
+          return;
+        case "map":
+          applyOrigin("map", getMapCenter());
+          return;
+        case "place": {
+          if (!selectedTour) {
+            toast.info(messages.distanceFilter.noPlaceSelected);
+            return;
+          }
+          const coord = convertToWGS84(selectedTour.mapx, selectedTour.mapy);
+          if (!coord.valid) {
+            toast.error(messages.map.errors.noCoordinates);
+            return;
+          }
+          applyOrigin("place", coord);
+          return;
+        }
+        case "user":
+          locate((position) => applyOrigin("user", position));
+          return;
+      }
+    },
+    [onChange, applyOrigin, getMapCenter, selectedTour, locate, messages]
+  );
+
+  // 거리 반경 변경
+  const handleRadiusChange = useCallback(
+    (next: string) => {
+      if (!value) return;
+      onChange({ ...value, radius: next === ANY_RADIUS ? null : Number(next) });
+    },
+    [onChange, value]
+  );
+
+  // 가까운 순 정렬 토글
+  const handleSortToggle = useCallback(() => {
+    if (!value) return;
+    onChange({ ...value, sortByDistance: !value.sortByDistance });
+  }, [onChange, value]);
+
+  // 지정한 위치는 지도에서 반경 원을 옮긴 경우에만 표시
+  const origins: DistanceOrigin[] =
+    value?.origin === "custom" ? ["map", "place", "user", "custom"] : ["map", "place", "user"];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={value ? value.origin : NO_ORIGIN}
+        onValueChange={handleOriginChange}
+        disabled={isLocating}
+      >
+        <SelectTrigger className="w-[140px]" aria-label={messages.distanceFilter.selectOrigin}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_ORIGIN}>{messages.distanceFilter.off}</SelectItem>
+          {origins.map((origin) => (
+            <SelectItem key={origin} value={origin}>
+              {messages.distanceFilter.origins[origin]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {isLocating && (
+        <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" aria-hidden="true" />
+      )}
+
+      {value && (
+        <>
+          <Select value={currentRadius} onValueChange={handleRadiusChange}>
+            <SelectTrigger className="w-[110px]" aria-label={messages.distanceFilter.selectRadius}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_RADIUS}>{messages.distanceFilter.anyRadius}</SelectItem>
+              {radiusOptions.map((radius) => (
+                <SelectItem key={radius} value={radius}>
+                  {formatDistance(radius) ?? radius}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Button
+            variant={value.sortByDistance ? "default" : "outline"}
+            size="sm"
+            onClick={handleSortToggle}
+            className="gap-2"
+            aria-pressed={value.sortByDistance}
+          >
+            <ArrowUpDown className="w-4 h-4" aria-hidden="true" />
+            {messages.distanceFilter.sortByDistance}
+          </Button>
+
+          <span className="text-sm text-muted-foreground" aria-live="polite">
+            {formatMessage(messages.distanceFilter.summary, {
+              count: matchedCount,
+              total: loadedCount,
+            })}
+          </span>
+
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(null)}
+            className="h-8 w-8"
+            aria-label={messages.distanceFilter.clear}
+          >
+            <X className="w-4 h-4" aria-hidden="true" />
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+/**
+ * @file tour-festival-filter.tsx
+ * @description 축제/행사 기간 필터 컴포넌트
+ *
+ * 지정한 기간에 진행되는 축제/행사만 조회하는 모드로 전환하는 컴포넌트입니다.
+ * 기간은 URL 쿼리 파라미터(eventStartDate, eventEndDate, YYYYMMDD)와 동기화됩니다.
+ *
+ * 구성 요소:
+ * - 축제 기간 버튼 (오늘부터 진행 중인 축제 조회)
+ * - 시작일/종료일 선택 (축제 모드일 때)
+ * - 이번 주말 빠른 선택
+ * - 축제 모드 해제 버튼
+ *
+ * @see {@link /lib/api/tour-api.ts} - searchFestival
+ */
+
+"use client";
+
+import { useRouter, useSearchParams } from "next/navigation";
+import { useCallback } from "react";
+import { CalendarDays, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  apiDateToInputValue,
+  getUpcomingWeekend,
+  inputValueToApiDate,
+  isApiDate,
+  toApiDate,
+} from "@/lib/utils/date-utils";
+import { useI18n } from "@/hooks/use-i18n";
+
+/**
+ * 축제 모드와 함께 사용할 수 없는 URL 파라미터
+ * (searchFestival2는 콘텐츠 타입/키워드/좌표/분류 코드를 지원하지 않음)
+ */
+const FESTIVAL_EXCLUSIVE_PARAMS = [
+  "contentTypeId",
+  "keyword",
+  "mapX",
+  "mapY",
+  "radius",
+  "mapZoom",
+  "cat1",
+  "cat2",
+  "cat3",
+] as const;
+
+interface TourFestivalFilterProps {
+  /** 로딩 상태 */
+  isLoading?: boolean;
+}
+
+/**
+ * 축제/행사 기간 필터 컴포넌트
+ */
+export default function TourFestivalFilter({ isLoading }: TourFestivalFilterProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { messages, localizePath } = useI18n();
+
+  const currentStartDate = searchParams.get("eventStartDate") || undefined;
+  const currentEndDate = searchParams.get("eventEndDate") || undefined;
+  const isFestivalMode = isApiDate(currentStartDate);
+
+  // 기간 적용 (URL 업데이트)
+  const applyPeriod = useCallback(
+    (startDate: string, endDate?: string) => {
+      if (endDate && endDate < startDate) {
+        toast.error(messages.festival.invalidRange);
+        return;
+      }
+
+      const params = new URLSearchParams(searchParams.toString());
+      params.set("eventStartDate", startDate);
+      if (endDate) {
+        params.set("eventEndDate", endDate);
+      } else {
+        params.delete("eventEndDate");
+      }
+      FESTIVAL_EXCLUSIVE_PARAMS.forEach((key) => params.delete(key));
+      if (params.get("sort") === "distance") {
+        params.delete("sort");
+      }
+      params.delete("pageNo");
+
+      router.push(localizePath(`/?${params.toString()}`), { scroll: false });
+    },
+    [router, searchParams, localizePath, messages]
+  );
+
+  // 축제 모드 해제
+  const handleClear = useCallback(() => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete("eventStartDate");
+    params.delete("eventEndDate");
+    params.delete("pageNo");
+    router.push(localizePath(`/?${params.toString()}`), { scroll: false });
+  }, [router, searchParams, localizePath]);
+
+  // 이번 주말 선택
+  const handleWeekend = useCallback(() => {
+    const weekend = getUpcomingWeekend();
+    applyPeriod(weekend.start, weekend.end);
+  }, [applyPeriod]);
+
+  if (!isFestivalMode) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => applyPeriod(toApiDate())}
+        disabled={isLoading}
+        className="gap-2"
+        aria-label={messages.festival.label}
+      >
+        <CalendarDays className="w-4 h-4" aria-hidden="true" />
+        {messages.festival.button}
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <CalendarDays className="w-4 h-4 text-muted-foreground" aria-hidden="true" />
+      <Input
+        type="date"
+        value={apiDateToInputValue(currentStartDate)}
+        onChange={(e) => {
+          const startDate = inputValueToApiDate(e.target.value);
+          if (startDate) {
+            applyPeriod(startDate, currentEndDate);
+          }
+        }}
+        disabled={isLoading}
+        className="w-[150px]"
+        aria-label={messages.festival.startDate}
+      />
+      <span className="text-sm text-muted-foreground" aria-hidden="true">
+        ~
+      </span>
+      <Input
+        type="date"
+        value={apiDateToInputValue(currentEndDate)}
+        min={apiDateToInputValue(currentStartDate)}
+        onChange={(e) => {
+          applyPeriod(currentStartDate!, inputValueToApiDate(e.target.value) || undefined);
+        }}
+        disabled={isLoading}
+        className="w-[150px]"
+        aria-label={messages.festival.endDate}
+      />
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={handleWeekend}
+        disabled={isLoading}
+      >
+        {messages.festival.thisWeekend}
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={handleClear}
+        disabled={isLoading}
+        className="h-8 w-8"
+        aria-label={messages.festival.clear}
+      >
+        <X className="w-4 h-4" aria-hidden="true" />
+      </Button>
+    </div>
+  );
+}
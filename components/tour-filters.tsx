@@ -6,9 +6,13 @@
  * 필터 상태는 URL 쿼리 파라미터와 동기화되어 공유 가능한 URL을 제공합니다.
  *
  * 구성 요소:
- * - 지역 필터 (시/도 선택)
- * - 관광 타입 필터 (단일 선택)
- * - 정렬 옵션 (최신순, 이름순)
+ * - 내 주변 필터 (현재 위치 기반 조회)
+ * - 축제 기간 필터 (기간 내 진행되는 축제/행사 조회)
+ * - 지역 필터 (시/도 다중 선택, 하나만 선택하면 시/군/구 선택)
+ * - 관광 타입 필터 (다중 선택)
+ * - 서비스 분류 필터 (대분류 → 중분류 → 소분류)
+ * - 정렬 옵션 (최신순, 이름순, 등록순, 거리순 - API arrange 파라미터로 서버 정렬)
+ * - 이미지 있는 항목만 보기
  * - 필터 초기화 버튼
  *
  * @see {@link /docs/PRD.md} - MVP 2.1 필터 요구사항
@@ -19,8 +23,22 @@
 
 import { useRouter, useSearchParams } from "next/navigation";
 import { useCallback } from "react";
-import { MapPin, Tag, ArrowUpDown, X } from "lucide-react";
+import {
+  MapPin,
+  Tag,
+  ArrowUpDown,
+  X,
+  LocateFixed,
+  CalendarDays,
+  Image as ImageIcon,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import TourNearbyFilter from "@/components/tour-nearby-filter";
+import TourFestivalFilter from "@/components/tour-festival-filter";
+import TourCategoryFilter from "@/components/tour-category-filter";
+import TourMultiSelect from "@/components/tour-multi-select";
 import {
   Select,
   SelectContent,
@@ -30,73 +48,72 @@ import {
 } from "@/components/ui/select";
 import { CONTENT_TYPE } from "@/lib/types/tour";
 import type { AreaCode } from "@/lib/types/tour";
+import { formatEventPeriod, isApiDate } from "@/lib/utils/date-utils";
+import { parseMultiValue } from "@/lib/utils/merged-pagination";
+import { useI18n } from "@/hooks/use-i18n";
+import { formatMessage } from "@/lib/i18n/config";
+import { getContentTypeLabel, getRegionLabel } from "@/lib/i18n/labels";
 
 interface TourFiltersProps {
   /** 지역 코드 목록 */
   areaCodes: AreaCode[];
+  /** 선택한 시/도의 시/군/구 코드 목록 */
+  sigunguCodes?: AreaCode[];
   /** 로딩 상태 */
   isLoading?: boolean;
 }
 
 /**
- * Content Type ID를 한글 이름으로 변환
+ * 관광 타입 필터 옵션 (이름은 메시지 카탈로그의 contentTypes)
  */
-function getContentTypeName(contentTypeId: string): string {
-  switch (contentTypeId) {
-    case CONTENT_TYPE.TOURIST_SPOT:
-      return "관광지";
-    case CONTENT_TYPE.CULTURAL_FACILITY:
-      return "문화시설";
-    case CONTENT_TYPE.FESTIVAL:
-      return "축제/행사";
-    case CONTENT_TYPE.TRAVEL_COURSE:
-      return "여행코스";
-    case CONTENT_TYPE.LEISURE_SPORTS:
-      return "레포츠";
-    case CONTENT_TYPE.ACCOMMODATION:
-      return "숙박";
-    case CONTENT_TYPE.SHOPPING:
-      return "쇼핑";
-    case CONTENT_TYPE.RESTAURANT:
-      return "음식점";
-    default:
-      return "기타";
-  }
-}
+const CONTENT_TYPE_IDS = [
+  CONTENT_TYPE.TOURIST_SPOT,
+  CONTENT_TYPE.CULTURAL_FACILITY,
+  CONTENT_TYPE.FESTIVAL,
+  CONTENT_TYPE.TRAVEL_COURSE,
+  CONTENT_TYPE.LEISURE_SPORTS,
+  CONTENT_TYPE.ACCOMMODATION,
+  CONTENT_TYPE.SHOPPING,
+  CONTENT_TYPE.RESTAURANT,
+] as const;
 
 /**
- * Content Type ID와 한글 이름 매핑
+ * 정렬 옵션 (이름은 메시지 카탈로그의 filters.sort)
  */
-const CONTENT_TYPE_OPTIONS = [
-  { value: CONTENT_TYPE.TOURIST_SPOT, label: "관광지" },
-  { value: CONTENT_TYPE.CULTURAL_FACILITY, label: "문화시설" },
-  { value: CONTENT_TYPE.FESTIVAL, label: "축제/행사" },
-  { value: CONTENT_TYPE.TRAVEL_COURSE, label: "여행코스" },
-  { value: CONTENT_TYPE.LEISURE_SPORTS, label: "레포츠" },
-  { value: CONTENT_TYPE.ACCOMMODATION, label: "숙박" },
-  { value: CONTENT_TYPE.SHOPPING, label: "쇼핑" },
-  { value: CONTENT_TYPE.RESTAURANT, label: "음식점" },
-] as const;
+const SORT_VALUES = ["latest", "name", "created"] as const;
 
 /**
- * 정렬 옵션
+ * 위치 기반 모드 전용 정렬 옵션
  */
-const SORT_OPTIONS = [
-  { value: "latest", label: "최신순" },
-  { value: "name", label: "이름순" },
-] as const;
+const DISTANCE_SORT_VALUE = "distance";
 
 /**
  * 관광지 필터 컴포넌트
  */
-export default function TourFilters({ areaCodes, isLoading }: TourFiltersProps) {
+export default function TourFilters({
+  areaCodes,
+  sigunguCodes = [],
+  isLoading,
+}: TourFiltersProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
+  const { messages, localizePath } = useI18n();
 
   // 현재 필터 값 읽기 (빈 문자열 대신 undefined 사용)
-  const currentAreaCode = searchParams.get("areaCode") || undefined;
-  const currentContentTypeId = searchParams.get("contentTypeId") || undefined;
-  const currentSort = searchParams.get("sort") || "latest";
+  // 지역/관광 타입은 쉼표로 구분된 다중 선택 값
+  // 위치 기반 모드에서는 지역/분류 조건이 조회에 쓰이지 않으므로 URL에 남아 있어도 선택하지 않은 것으로 표시
+  const isNearbyMode = Boolean(searchParams.get("mapX") && searchParams.get("mapY"));
+  const currentAreaCodes = isNearbyMode ? [] : parseMultiValue(searchParams.get("areaCode"));
+  const currentContentTypeIds = parseMultiValue(searchParams.get("contentTypeId"));
+  const currentAreaCode = currentAreaCodes.length === 1 ? currentAreaCodes[0] : undefined;
+  const currentSigunguCode = (currentAreaCode && searchParams.get("sigunguCode")) || undefined;
+  const currentCat1 = (!isNearbyMode && searchParams.get("cat1")) || undefined;
+  const currentEventStartDate = searchParams.get("eventStartDate") || undefined;
+  const currentEventEndDate = searchParams.get("eventEndDate") || undefined;
+  const isFestivalMode = !isNearbyMode && isApiDate(currentEventStartDate);
+  const currentSort = searchParams.get("sort") || (isNearbyMode ? "distance" : "latest");
+  const sortValues = isNearbyMode ? [DISTANCE_SORT_VALUE, ...SORT_VALUES] : SORT_VALUES;
+  const isImageOnly = searchParams.get("imageOnly") === "true";
 
   // 필터 변경 핸들러
   const updateFilter = useCallback(
@@ -113,18 +130,51 @@ export default function TourFilters({ areaCodes, isLoading }: TourFiltersProps)
       // pageNo는 필터 변경 시 1로 리셋
       params.delete("pageNo");
 
-      router.push(`/?${params.toString()}`, { scroll: false });
+      // 시/도가 바뀌면 시/군/구 선택 해제
+      if (key === "areaCode") {
+        params.delete("sigunguCode");
+      }
+
+      // 지역을 선택하면 위치 기반 모드 해제 (locationBasedList2는 지역 코드 미지원)
+      if (key === "areaCode" && params.has("areaCode")) {
+        params.delete("mapX");
+        params.delete("mapY");
+        params.delete("radius");
+        params.delete("mapZoom");
+      }
+
+      // 타입을 선택하면 축제 기간 모드 해제 (searchFestival2는 타입 필터 미지원)
+      if (key === "contentTypeId" && params.has("contentTypeId")) {
+        params.delete("eventStartDate");
+        params.delete("eventEndDate");
+      }
+
+      // 타입이 바뀌면 분류 선택 해제 (분류 목록이 타입별로 다름)
+      if (key === "contentTypeId") {
+        params.delete("cat1");
+        params.delete("cat2");
+        params.delete("cat3");
+      }
+
+      router.push(localizePath(`/?${params.toString()}`), { scroll: false });
     },
-    [router, searchParams]
+    [router, searchParams, localizePath]
   );
 
   // 필터 초기화
   const resetFilters = useCallback(() => {
-    router.push("/", { scroll: false });
-  }, [router]);
+    router.push(localizePath("/"), { scroll: false });
+  }, [router, localizePath]);
 
   // 필터가 하나라도 적용되어 있는지 확인
-  const hasActiveFilters = Boolean(currentAreaCode || currentContentTypeId);
+  const hasActiveFilters = Boolean(
+    currentAreaCodes.length > 0 ||
+      currentContentTypeIds.length > 0 ||
+      currentCat1 ||
+      isNearbyMode ||
+      isFestivalMode ||
+      isImageOnly
+  );
 
   return (
     <div className="sticky top-16 z-40 border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
@@ -132,56 +182,72 @@ export default function TourFilters({ areaCodes, isLoading }: TourFiltersProps)
         <div className="flex flex-col md:flex-row items-start md:items-center gap-4">
           {/* 필터 그룹 */}
           <div className="flex flex-wrap items-center gap-3 flex-1">
+            {/* 내 주변 필터 */}
+            <TourNearbyFilter isLoading={isLoading} />
+
+            {/* 축제 기간 필터 */}
+            <TourFestivalFilter isLoading={isLoading} />
+
             {/* 지역 필터 */}
             <div className="flex items-center gap-2">
               <MapPin className="w-4 h-4 text-muted-foreground" aria-hidden="true" />
-              <Select
-                value={currentAreaCode || "all"}
-                onValueChange={(value) => updateFilter("areaCode", value)}
+              <TourMultiSelect
+                options={areaCodes.map((area) => ({
+                  value: area.code,
+                  label: getRegionLabel(messages, area.code, area.name),
+                }))}
+                values={currentAreaCodes}
+                onValuesChange={(values) => updateFilter("areaCode", values.join(","))}
                 disabled={isLoading}
-              >
-                <SelectTrigger 
-                  className="w-[140px] md:w-[160px]"
-                  aria-label="지역 선택"
+                className="w-[140px] md:w-[160px]"
+                ariaLabel={messages.filters.selectRegion}
+              />
+              {/* 시/군/구 필터 (시/도를 하나만 선택했을 때 표시) */}
+              {currentAreaCode && sigunguCodes.length > 0 && (
+                <Select
+                  value={currentSigunguCode || "all"}
+                  onValueChange={(value) => updateFilter("sigunguCode", value)}
+                  disabled={isLoading}
                 >
-                  <SelectValue placeholder="지역 선택" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">전체</SelectItem>
-                  {areaCodes.map((area) => (
-                    <SelectItem key={area.code} value={area.code}>
-                      {area.name}
+                  <SelectTrigger
+                    className="w-[120px] md:w-[140px]"
+                    aria-label={messages.filters.selectSigungu}
+                  >
+                    <SelectValue placeholder={messages.filters.sigungu} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">
+                      {formatMessage(messages.common.allOf, { label: messages.filters.sigungu })}
                     </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+                    {sigunguCodes.map((sigungu) => (
+                      <SelectItem key={sigungu.code} value={sigungu.code}>
+                        {sigungu.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
             </div>
 
             {/* 관광 타입 필터 */}
             <div className="flex items-center gap-2">
               <Tag className="w-4 h-4 text-muted-foreground" aria-hidden="true" />
-              <Select
-                value={currentContentTypeId || "all"}
-                onValueChange={(value) => updateFilter("contentTypeId", value)}
-                disabled={isLoading}
-              >
-                <SelectTrigger 
-                  className="w-[140px] md:w-[160px]"
-                  aria-label="관광 타입 선택"
-                >
-                  <SelectValue placeholder="타입 선택" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">전체</SelectItem>
-                  {CONTENT_TYPE_OPTIONS.map((option) => (
-                    <SelectItem key={option.value} value={option.value}>
-                      {option.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <TourMultiSelect
+                options={CONTENT_TYPE_IDS.map((typeId) => ({
+                  value: typeId,
+                  label: getContentTypeLabel(messages, typeId),
+                }))}
+                values={isFestivalMode ? [CONTENT_TYPE.FESTIVAL] : currentContentTypeIds}
+                onValuesChange={(values) => updateFilter("contentTypeId", values.join(","))}
+                disabled={isLoading || isFestivalMode}
+                className="w-[140px] md:w-[160px]"
+                ariaLabel={messages.filters.selectContentType}
+              />
             </div>
 
+            {/* 서비스 분류 필터 (위치 기반/축제 기간 모드에서는 미지원) */}
+            {!isNearbyMode && !isFestivalMode && <TourCategoryFilter isLoading={isLoading} />}
+
             {/* 정렬 옵션 */}
             <div className="flex items-center gap-2">
               <ArrowUpDown className="w-4 h-4 text-muted-foreground" aria-hidden="true" />
@@ -192,19 +258,37 @@ export default function TourFilters({ areaCodes, isLoading }: TourFiltersProps)
               >
                 <SelectTrigger 
                   className="w-[120px] md:w-[140px]"
-                  aria-label="정렬 옵션 선택"
+                  aria-label={messages.filters.selectSort}
                 >
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {SORT_OPTIONS.map((option) => (
-                    <SelectItem key={option.value} value={option.value}>
-                      {option.label}
+                  {sortValues.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {messages.filters.sort[value]}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
+
+            {/* 이미지 있는 항목만 보기 */}
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="filter-image-only"
+                checked={isImageOnly}
+                onCheckedChange={(checked) =>
+                  updateFilter("imageOnly", checked === true ? "true" : "")
+                }
+                disabled={isLoading}
+              />
+              <Label
+                htmlFor="filter-image-only"
+                className="text-sm font-normal text-muted-foreground cursor-pointer"
+              >
+                {messages.filters.imageOnly}
+              </Label>
+            </div>
           </div>
 
           {/* 필터 초기화 버튼 */}
@@ -215,10 +299,10 @@ export default function TourFilters({ areaCodes, isLoading }: TourFiltersProps)
               onClick={resetFilters}
               className="gap-2"
               disabled={isLoading}
-              aria-label="필터 초기화"
+              aria-label={messages.filters.reset}
             >
               <X className="w-4 h-4" aria-hidden="true" />
-              필터 초기화
+              {messages.filters.reset}
             </Button>
           )}
         </div>
@@ -226,16 +310,50 @@ export default function TourFilters({ areaCodes, isLoading }: TourFiltersProps)
         {/* 선택된 필터 표시 (선택 사항) */}
         {hasActiveFilters && (
           <div className="flex flex-wrap items-center gap-2 mt-3 pt-3 border-t border-border">
-            {currentAreaCode && (
+            {isNearbyMode && (
               <div className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-primary/10 text-primary">
-                <MapPin className="w-3 h-3" />
-                {areaCodes.find((a) => a.code === currentAreaCode)?.name || "지역"}
+                <LocateFixed className="w-3 h-3" />
+                {messages.nearby.button}
               </div>
             )}
-            {currentContentTypeId && (
+            {isFestivalMode && (
               <div className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-primary/10 text-primary">
+                <CalendarDays className="w-3 h-3" />
+                {currentEventEndDate
+                  ? formatEventPeriod(currentEventStartDate, currentEventEndDate)
+                  : formatMessage(messages.filters.festivalFrom, {
+                      date: formatEventPeriod(currentEventStartDate, undefined),
+                    })}
+              </div>
+            )}
+            {currentAreaCodes.map((code) => (
+              <div
+                key={`area-${code}`}
+                className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-primary/10 text-primary"
+              >
+                <MapPin className="w-3 h-3" />
+                {getRegionLabel(
+                  messages,
+                  code,
+                  areaCodes.find((a) => a.code === code)?.name || messages.filters.region
+                )}
+                {currentSigunguCode &&
+                  ` ${sigunguCodes.find((s) => s.code === currentSigunguCode)?.name || ""}`}
+              </div>
+            ))}
+            {currentContentTypeIds.map((typeId) => (
+              <div
+                key={`type-${typeId}`}
+                className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-primary/10 text-primary"
+              >
                 <Tag className="w-3 h-3" />
-                {getContentTypeName(currentContentTypeId)}
+                {getContentTypeLabel(messages, typeId)}
+              </div>
+            ))}
+            {isImageOnly && (
+              <div className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-primary/10 text-primary">
+                <ImageIcon className="w-3 h-3" />
+                {messages.filters.imageOnly}
               </div>
             )}
           </div>
@@ -8,23 +8,35 @@
  * 주요 기능:
  * - 초기 데이터 표시
  * - 무한 스크롤로 추가 페이지 로드
- * - 누적된 목록 관리
+ * - 누적된 목록 관리 (API 정렬 순서 유지)
+ * - 거리 필터 (불러온 목록을 기준 위치에서 일정 거리 이내로 거르고 가까운 순으로 정렬)
+ * - 다중 선택 시 조합별 페이지 상태를 추적하며 병합 로드
  * - 필터/검색 변경 시 리셋
+ * - API 장애로 저장된 데이터를 받은 경우 안내 배너 표시
  *
  * @see {@link /docs/PRD.md} - 페이지네이션 요구사항
  */
 
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { useSearchParams } from "next/navigation";
 import TourListInfinite from "@/components/tour-list-infinite";
 import TourMapView from "@/components/tour-map-view";
+import StaleDataBanner from "@/components/stale-data-banner";
 import {
   getAreaBasedListWithPagination,
+  getLocationBasedList,
+  searchFestival,
   searchKeywordWithPagination,
-} from "@/lib/api/tour-api";
-import type { TourItem } from "@/lib/types/tour";
+  subscribeStaleResponses,
+} from "@/lib/api/tour-client";
+import { fetchMergedPage } from "@/lib/utils/merged-pagination";
+import { applyDistanceFilter, type DistanceFilter } from "@/lib/utils/map-utils";
+import type { MergedListState, MergedQueryFetcher } from "@/lib/utils/merged-pagination";
+import type { TourItem, TourArrange } from "@/lib/types/tour";
+import { normalizeTourApiError } from "@/lib/api/tour-api-errors";
+import type { TourApiErrorInfo } from "@/lib/api/tour-api-errors";
 
 interface TourListContainerProps {
   /** 초기 관광지 목록 */
@@ -37,69 +49,164 @@ interface TourListContainerProps {
     totalPages: number;
   };
   /** 초기 에러 상태 */
-  initialError?: Error | null;
+  initialError?: TourApiErrorInfo | null;
+  /** 초기 데이터가 저장된 응답인 경우 저장 시각 (ISO 8601) */
+  initialStaleSince?: string | null;
   /** 검색 키워드 */
   searchKeyword?: string;
   /** 지역 코드 */
   areaCode?: string;
+  /** 시/군/구 코드 */
+  sigunguCode?: string;
   /** 콘텐츠 타입 ID */
   contentTypeId?: string;
-  /** 정렬 타입 */
-  sort?: string;
+  /** 대분류 코드 */
+  cat1?: string;
+  /** 중분류 코드 */
+  cat2?: string;
+  /** 소분류 코드 */
+  cat3?: string;
+  /** 위치 기반 조회 조건 (내 주변 모드일 때) */
+  location?: {
+    /** 기준 경도 (WGS84) */
+    mapX: string;
+    /** 기준 위도 (WGS84) */
+    mapY: string;
+    /** 검색 반경 (미터) */
+    radius: number;
+  };
+  /** 축제 기간 검색 조건 (축제 기간 모드일 때) */
+  festival?: {
+    /** 행사 시작일 (YYYYMMDD) */
+    eventStartDate: string;
+    /** 행사 종료일 (YYYYMMDD) */
+    eventEndDate?: string;
+  };
+  /** 정렬 구분 (API arrange 파라미터) */
+  arrange?: TourArrange;
+  /** 다중 선택 모드의 병합 목록 상태 (첫 페이지 조회 후 상태) */
+  initialMergedState?: MergedListState;
 }
 
 /**
  * 관광지 목록 컨테이너 컴포넌트
+ *
+ * 정렬은 API arrange 파라미터로 서버에서 처리되므로,
+ * 추가 페이지는 받은 순서 그대로 누적합니다.
+ * 거리 필터는 누적된 목록을 그대로 두고 표시할 때만 적용합니다.
  */
-/**
- * 정렬 함수
- */
-function sortTours(tours: TourItem[], sortType: string): TourItem[] {
-  const sorted = [...tours];
-
-  switch (sortType) {
-    case "name":
-      // 이름순 (가나다순)
-      sorted.sort((a, b) => a.title.localeCompare(b.title, "ko"));
-      break;
-    case "latest":
-    default:
-      // 최신순 (modifiedtime 기준, 내림차순)
-      sorted.sort((a, b) => {
-        const timeA = a.modifiedtime ? parseInt(a.modifiedtime) : 0;
-        const timeB = b.modifiedtime ? parseInt(b.modifiedtime) : 0;
-        return timeB - timeA;
-      });
-      break;
-  }
-
-  return sorted;
-}
-
 export default function TourListContainer({
   initialTours,
   initialPagination,
   initialError,
+  initialStaleSince,
   searchKeyword,
   areaCode,
+  sigunguCode,
   contentTypeId,
-  sort = "latest",
+  cat1,
+  cat2,
+  cat3,
+  location,
+  festival,
+  arrange,
+  initialMergedState,
 }: TourListContainerProps) {
   const searchParams = useSearchParams();
   const [tours, setTours] = useState<TourItem[]>(initialTours);
   const [pagination, setPagination] = useState(initialPagination);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(initialError || null);
+  const [error, setError] = useState<TourApiErrorInfo | null>(initialError || null);
+  const [staleSince, setStaleSince] = useState<string | null>(initialStaleSince || null);
   const [selectedTourId, setSelectedTourId] = useState<string | undefined>();
+  const [mergedState, setMergedState] = useState<MergedListState | undefined>(
+    initialMergedState
+  );
+  const [distanceFilter, setDistanceFilter] = useState<DistanceFilter | null>(null);
 
   // 필터/검색 변경 시 목록 리셋
   useEffect(() => {
-    const sortedTours = sortTours(initialTours, sort);
-    setTours(sortedTours);
+    setTours(initialTours);
     setPagination(initialPagination);
     setError(initialError || null);
+    setStaleSince(initialStaleSince || null);
     setSelectedTourId(undefined);
-  }, [initialTours, initialPagination, initialError, sort, searchParams.toString()]);
+    setMergedState(initialMergedState);
+    setDistanceFilter(null);
+  }, [initialTours, initialPagination, initialError, initialStaleSince, initialMergedState, searchParams.toString()]);
+
+  // 추가 페이지가 저장된 응답으로 대체되면 가장 오래된 저장 시각 표시
+  useEffect(() => {
+    return subscribeStaleResponses((since) => {
+      setStaleSince((prev) => (prev && prev < since ? prev : since));
+    });
+  }, []);
+
+  // 목록 모드에 따라 호출할 API (에러 정보의 엔드포인트에도 사용)
+  const listEndpoint = useMemo(() => {
+    if (searchKeyword && searchKeyword.trim().length > 0) return "searchKeyword2";
+    if (location) return "locationBasedList2";
+    if (festival) return "searchFestival2";
+    return "areaBasedList2";
+  }, [searchKeyword, location, festival]);
+
+  // 조회 조건(지역 코드, 콘텐츠 타입)별 한 페이지 조회 (모드에 따라 API 선택)
+  const fetchTourPage = useCallback<MergedQueryFetcher>(
+    (query, pageNo, numOfRows) => {
+      if (listEndpoint === "searchKeyword2") {
+        // 검색 모드
+        return searchKeywordWithPagination({
+          keyword: searchKeyword.trim(),
+          areaCode: query.areaCode,
+          sigunguCode,
+          contentTypeId: query.contentTypeId,
+          cat1,
+          cat2,
+          cat3,
+          arrange,
+          numOfRows,
+          pageNo,
+        });
+      }
+      if (listEndpoint === "locationBasedList2") {
+        // 내 주변 모드 (위치 기반, 지역/분류 조건은 지원하지 않으므로 필터에서도 해제된 것으로 표시)
+        return getLocationBasedList({
+          mapX: location.mapX,
+          mapY: location.mapY,
+          radius: location.radius,
+          contentTypeId: query.contentTypeId,
+          arrange,
+          numOfRows,
+          pageNo,
+        });
+      }
+      if (listEndpoint === "searchFestival2") {
+        // 축제 기간 모드
+        return searchFestival({
+          eventStartDate: festival.eventStartDate,
+          eventEndDate: festival.eventEndDate,
+          areaCode: query.areaCode,
+          sigunguCode,
+          arrange,
+          numOfRows,
+          pageNo,
+        });
+      }
+      // 일반 모드
+      return getAreaBasedListWithPagination({
+        areaCode: query.areaCode,
+        sigunguCode,
+        contentTypeId: query.contentTypeId,
+        cat1,
+        cat2,
+        cat3,
+        arrange,
+        numOfRows,
+        pageNo,
+      });
+    },
+    [listEndpoint, searchKeyword, sigunguCode, cat1, cat2, cat3, location, festival, arrange]
+  );
 
   // 다음 페이지 로드 함수
   const loadMore = useCallback(async (): Promise<void> => {
@@ -111,57 +218,36 @@ export default function TourListContainer({
     setError(null);
 
     try {
-      const nextPageNo = pagination.pageNo + 1;
       let result;
 
-      if (searchKeyword && searchKeyword.trim().length > 0) {
-        // 검색 모드
-        result = await searchKeywordWithPagination({
-          keyword: searchKeyword.trim(),
-          areaCode,
-          contentTypeId,
-          numOfRows: pagination.numOfRows,
-          pageNo: nextPageNo,
-        });
+      if (mergedState) {
+        // 다중 선택 모드 (조합별 조회 결과 병합)
+        result = await fetchMergedPage(mergedState, fetchTourPage, arrange);
+        setMergedState(result.state);
       } else {
-        // 일반 모드
-        result = await getAreaBasedListWithPagination({
-          areaCode,
-          contentTypeId,
-          numOfRows: pagination.numOfRows,
-          pageNo: nextPageNo,
-        });
+        result = await fetchTourPage(
+          { areaCode, contentTypeId },
+          pagination.pageNo + 1,
+          pagination.numOfRows
+        );
       }
 
-      // 누적된 목록에 새 항목 추가 (정렬 적용)
-      const sortedNewItems = sortTours(result.items, sort);
+      // 누적된 목록에 새 항목 추가 (API 정렬 순서 유지, 페이지 경계 중복 제거)
       setTours((prev) => {
-        const combined = [...prev, ...sortedNewItems];
-        return sortTours(combined, sort); // 전체 목록 재정렬
+        const existingIds = new Set(prev.map((tour) => tour.contentid));
+        const newItems = result.items.filter((tour) => !existingIds.has(tour.contentid));
+        return [...prev, ...newItems];
       });
       setPagination(result.pagination);
     } catch (err: unknown) {
-      let error: Error;
-      if (err instanceof Error) {
-        error = err;
-      } else {
-        const errorMessage = err ? String(err) : 'Unknown error';
-        error = new Error(errorMessage);
-      }
-      setError(error);
+      const error = normalizeTourApiError(err, listEndpoint);
+      setError(error.toJSON());
       console.error("다음 페이지 로드 실패:", error);
       throw error;
     } finally {
       setIsLoading(false);
     }
-  }, [
-    isLoading,
-    pagination,
-    searchKeyword,
-    areaCode,
-    contentTypeId,
-    sort,
-  ]);
+  }, [isLoading, pagination, mergedState, fetchTourPage, listEndpoint, areaCode, contentTypeId, arrange]);
 
   // 재시도 함수
   const handleRetry = useCallback(() => {
@@ -174,20 +260,32 @@ export default function TourListContainer({
     setSelectedTourId(tourId);
   }, []);
 
+  // 거리 필터 적용 (누적된 목록은 그대로 유지)
+  const displayedTours = useMemo(
+    () => (distanceFilter ? applyDistanceFilter(tours, distanceFilter) : tours),
+    [tours, distanceFilter]
+  );
+
   const hasMore = pagination.pageNo < pagination.totalPages;
 
   return (
-    <TourMapView
-      tours={tours}
-      error={error}
-      searchKeyword={searchKeyword}
-      selectedTourId={selectedTourId}
-      onTourClick={handleTourClick}
-      loadMore={loadMore}
-      hasMore={hasMore}
-      isLoading={isLoading}
-      onRetry={handleRetry}
-    />
+    <>
+      {staleSince && <StaleDataBanner staleSince={staleSince} className="mb-4" />}
+      <TourMapView
+        tours={displayedTours}
+        error={error}
+        searchKeyword={searchKeyword}
+        selectedTourId={selectedTourId}
+        onTourClick={handleTourClick}
+        loadMore={loadMore}
+        hasMore={hasMore}
+        isLoading={isLoading}
+        onRetry={handleRetry}
+        distanceFilter={distanceFilter}
+        onDistanceFilterChange={setDistanceFilter}
+        loadedCount={tours.length}
+      />
+    </>
   );
 }
 
@@ -20,7 +20,9 @@
 import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
 import TourList from "@/components/tour-list";
 import { Loader2 } from "lucide-react";
+import { useI18n } from "@/hooks/use-i18n";
 import type { TourItem } from "@/lib/types/tour";
+import type { TourApiErrorInfo } from "@/lib/api/tour-api-errors";
 
 interface TourListInfiniteProps {
   /** 초기 관광지 목록 */
@@ -32,7 +34,7 @@ interface TourListInfiniteProps {
   /** 로딩 중인지 */
   isLoading: boolean;
   /** 에러 상태 */
-  error?: Error | null;
+  error?: TourApiErrorInfo | null;
   /** 재시도 함수 */
   onRetry?: () => void;
   /** 선택된 관광지 ID */
@@ -57,6 +59,8 @@ export default function TourListInfinite({
   onTourClick,
   searchKeyword,
 }: TourListInfiniteProps) {
+  const { messages } = useI18n();
+
   // 무한 스크롤 훅
   const { sentinelRef } = useInfiniteScroll({
     loadMore: async () => {
@@ -89,13 +93,13 @@ export default function TourListInfinite({
           {isLoading && (
             <div className="flex flex-col items-center gap-2">
               <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
-              <p className="text-sm text-muted-foreground">더 많은 관광지를 불러오는 중...</p>
+              <p className="text-sm text-muted-foreground">{messages.tourList.loadingMore}</p>
             </div>
           )}
           {!hasMore && initialTours.length > 0 && (
             <div className="flex flex-col items-center gap-2">
               <p className="text-sm text-muted-foreground">
-                모든 관광지를 불러왔습니다.
+                {messages.tourList.allLoaded}
               </p>
             </div>
           )}
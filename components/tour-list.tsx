@@ -22,7 +22,10 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Error } from "@/components/ui/error";
 import TourCard from "@/components/tour-card";
 import type { TourItem } from "@/lib/types/tour";
+import type { TourApiErrorInfo } from "@/lib/api/tour-api-errors";
 import { MapPin } from "lucide-react";
+import { useI18n } from "@/hooks/use-i18n";
+import { formatMessage } from "@/lib/i18n/config";
 
 interface TourListProps {
   /** 관광지 목록 */
@@ -30,7 +33,7 @@ interface TourListProps {
   /** 로딩 상태 */
   isLoading?: boolean;
   /** 에러 상태 */
-  error?: Error | null;
+  error?: TourApiErrorInfo | null;
   /** 재시도 함수 */
   onRetry?: () => void;
   /** 선택된 관광지 ID */
@@ -71,11 +74,14 @@ export default function TourList({
   onTourClick,
   searchKeyword,
 }: TourListProps) {
+  const { messages } = useI18n();
+
   // 에러 상태
   if (error) {
     return (
       <Error
-        message="관광지 정보를 불러오는 중 오류가 발생했습니다."
+        message={messages.tourList.loadError}
+        error={error}
         onRetry={onRetry}
         type="api"
       />
@@ -99,17 +105,17 @@ export default function TourList({
       <div className="flex flex-col items-center justify-center min-h-[400px] rounded-lg border border-dashed border-border p-12">
         <MapPin className="w-16 h-16 text-muted-foreground/50 mb-4" />
         <h3 className="text-lg font-semibold text-foreground mb-2">
-          {searchKeyword ? "검색 결과가 없습니다" : "관광지가 없습니다"}
+          {searchKeyword ? messages.tourList.noSearchResults : messages.tourList.empty}
         </h3>
         <p className="text-sm text-muted-foreground text-center">
           {searchKeyword ? (
             <>
-              <span className="font-medium">&quot;{searchKeyword}&quot;</span>에 대한 검색 결과가 없습니다.
+              {formatMessage(messages.tourList.noResultsFor, { keyword: searchKeyword })}
               <br />
-              다른 검색어를 시도하거나 필터 옵션을 변경해보세요.
+              {messages.tourList.searchHint}
             </>
           ) : (
-            "다른 필터 옵션을 선택하거나 검색어를 변경해보세요."
+            messages.tourList.filterHint
           )}
         </p>
       </div>
@@ -9,6 +9,9 @@
  * - 리스트-지도 양방향 연동
  * - 반응형 레이아웃 (데스크톱: 분할, 모바일: 탭)
  * - 선택된 관광지 강조
+ * - "이 지역에서 검색" (지도 화면 영역으로 위치 기반 조회, 지도 위치를 URL에 저장)
+ *   (적용할 수 없는 필터를 해제하거나 반경이 최대 반경으로 줄어든 경우 안내)
+ * - 거리 필터 (기준 위치에서 일정 거리 이내, 가까운 순 정렬, 지도에 반경 원 표시)
  *
  * @see {@link /docs/PRD.md} - MVP 2.2 네이버 지도 연동
  * @see {@link /docs/DESIGN.md} - 레이아웃 디자인
@@ -16,33 +19,54 @@
 
 "use client";
 
-import { useState, useEffect, Suspense } from "react";
+import { useState, useEffect, useMemo, useRef, useCallback, Suspense } from "react";
 import dynamic from "next/dynamic";
+import { useRouter, useSearchParams } from "next/navigation";
 import { List, Map as MapIcon } from "lucide-react";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import TourList from "@/components/tour-list";
 import TourListInfinite from "@/components/tour-list-infinite";
+import TourDistanceFilter from "@/components/tour-distance-filter";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { TourItem } from "@/lib/types/tour";
+import { LOCATION_EXCLUSIVE_PARAMS, LOCATION_RADIUS, type TourItem } from "@/lib/types/tour";
+import {
+  calculateCenterFromTours,
+  formatDistance,
+  type DistanceFilter,
+  type SearchArea,
+} from "@/lib/utils/map-utils";
+import type { TourApiErrorInfo } from "@/lib/api/tour-api-errors";
+import { useI18n } from "@/hooks/use-i18n";
+import { formatMessage } from "@/lib/i18n/config";
 
-// 네이버 지도 컴포넌트를 동적 import로 로드 (SSR 비활성화)
-const NaverMap = dynamic(() => import("@/components/naver-map"), {
-  ssr: false,
-  loading: () => (
+/**
+ * 지도 로딩 중 표시
+ */
+function MapLoadingPlaceholder() {
+  const { messages } = useI18n();
+
+  return (
     <div className="w-full h-[400px] md:h-[600px] rounded-lg border border-border bg-muted flex items-center justify-center">
       <div className="text-center space-y-2">
         <Skeleton className="w-12 h-12 rounded-full mx-auto" />
-        <p className="text-sm text-muted-foreground">지도를 불러오는 중...</p>
+        <p className="text-sm text-muted-foreground">{messages.map.loading}</p>
       </div>
     </div>
-  ),
+  );
+}
+
+// 네이버 지도 컴포넌트를 동적 import로 로드 (SSR 비활성화)
+const NaverMap = dynamic(() => import("@/components/naver-map"), {
+  ssr: false,
+  loading: () => <MapLoadingPlaceholder />,
 });
 
 interface TourMapViewProps {
   /** 관광지 목록 */
   tours: TourItem[];
   /** 에러 상태 */
-  error?: Error | null;
+  error?: TourApiErrorInfo | null;
   /** 검색 키워드 (검색 모드일 때) */
   searchKeyword?: string;
   /** 선택된 관광지 ID */
@@ -57,6 +81,12 @@ interface TourMapViewProps {
   isLoading?: boolean;
   /** 재시도 함수 */
   onRetry?: () => void;
+  /** 거리 필터 (없으면 null, 지정하지 않으면 거리 필터 UI 미표시) */
+  distanceFilter?: DistanceFilter | null;
+  /** 거리 필터 변경 콜백 */
+  onDistanceFilterChange?: (filter: DistanceFilter | null) => void;
+  /** 거리 필터 적용 전 불러온 관광지 수 */
+  loadedCount?: number;
 }
 
 type ViewMode = "list" | "map" | "split";
@@ -74,15 +104,36 @@ export default function TourMapView({
   hasMore = false,
   isLoading = false,
   onRetry,
+  distanceFilter,
+  onDistanceFilterChange,
+  loadedCount,
 }: TourMapViewProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { messages, localizePath } = useI18n();
   const [internalSelectedTourId, setInternalSelectedTourId] = useState<string | undefined>();
   const [viewMode, setViewMode] = useState<ViewMode>("split");
   const [mapType, setMapType] = useState<"normal" | "satellite">("normal");
   const [isMobile, setIsMobile] = useState(false);
+  // 마지막으로 확인한 지도 중심 (거리 필터의 "지도 중심" 기준)
+  const mapCenterRef = useRef<{ lat: number; lng: number } | null>(null);
 
   // 외부에서 전달된 selectedTourId 우선 사용
   const selectedTourId = externalSelectedTourId ?? internalSelectedTourId;
 
+  // URL에 저장된 지도 위치 (공유된 링크로 들어와도 같은 화면에서 시작)
+  const urlMapX = searchParams.get("mapX");
+  const urlMapY = searchParams.get("mapY");
+  const urlMapZoom = searchParams.get("mapZoom");
+  const initialView = useMemo(() => {
+    const lng = Number(urlMapX);
+    const lat = Number(urlMapY);
+    const zoom = Number(urlMapZoom);
+    if (!urlMapX || !urlMapY || !urlMapZoom) return undefined;
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || !Number.isFinite(zoom)) return undefined;
+    return { lat, lng, zoom };
+  }, [urlMapX, urlMapY, urlMapZoom]);
+
   // 화면 크기 감지 및 기본 뷰 모드 설정
   useEffect(() => {
     const checkMobile = () => {
@@ -112,6 +163,53 @@ export default function TourMapView({
     }
   };
 
+  // 지도 화면 영역으로 검색 (위치 기반 조회로 전환하고 지도 위치를 URL에 저장)
+  const handleSearchArea = (area: SearchArea, zoom: number) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.set("mapX", area.lng.toFixed(6));
+    params.set("mapY", area.lat.toFixed(6));
+    params.set("radius", String(area.radius));
+    params.set("mapZoom", String(zoom));
+    // locationBasedList2가 지원하지 않는 조건은 해제하고 안내 (필터가 적용된 것처럼 보이지 않도록)
+    const hasExclusiveParams = LOCATION_EXCLUSIVE_PARAMS.some((key) => params.has(key));
+    LOCATION_EXCLUSIVE_PARAMS.forEach((key) => params.delete(key));
+    params.delete("pageNo");
+    router.push(localizePath(`/?${params.toString()}`), { scroll: false });
+
+    if (hasExclusiveParams) {
+      toast.info(messages.map.searchAreaFiltersCleared);
+    }
+    // 화면이 최대 반경보다 넓으면 화면 가장자리는 검색되지 않음
+    if (area.radius >= LOCATION_RADIUS.MAX) {
+      toast.info(
+        formatMessage(messages.map.searchAreaClamped, {
+          radius: formatDistance(LOCATION_RADIUS.MAX) ?? String(LOCATION_RADIUS.MAX),
+        })
+      );
+    }
+  };
+
+  // 지도 중심 조회 (지도를 아직 표시하지 않았으면 관광지 목록 중심)
+  const getMapCenter = useCallback(
+    () => mapCenterRef.current ?? calculateCenterFromTours(tours),
+    [tours]
+  );
+
+  const handleCenterChange = useCallback((center: { lat: number; lng: number }) => {
+    mapCenterRef.current = center;
+  }, []);
+
+  // 지도에서 반경 원을 끌어서 바꾼 경우 (중심을 옮기면 지정한 위치 기준으로 전환)
+  const handleRadiusCircleChange = (circle: SearchArea) => {
+    if (!distanceFilter || !onDistanceFilterChange) return;
+    const isMoved = circle.lat !== distanceFilter.lat || circle.lng !== distanceFilter.lng;
+    onDistanceFilterChange({
+      ...distanceFilter,
+      ...circle,
+      origin: isMoved ? "custom" : distanceFilter.origin,
+    });
+  };
+
   // 카드 클릭 핸들러 (TourList에서 사용)
   const handleTourClick = (tourId: string) => {
     if (externalOnTourClick) {
@@ -128,30 +226,44 @@ export default function TourMapView({
 
   return (
     <div className="w-full">
+      {/* 거리 필터 */}
+      {onDistanceFilterChange && (
+        <div className="mb-4">
+          <TourDistanceFilter
+            value={distanceFilter ?? null}
+            onChange={onDistanceFilterChange}
+            getMapCenter={getMapCenter}
+            selectedTour={tours.find((tour) => tour.contentid === selectedTourId)}
+            matchedCount={tours.length}
+            loadedCount={loadedCount ?? tours.length}
+          />
+        </div>
+      )}
+
       {/* 모바일 탭 전환 UI */}
       {isMobile && (
-        <div className="flex items-center gap-2 mb-4 border-b border-border" role="tablist" aria-label="뷰 모드 선택">
+        <div className="flex items-center gap-2 mb-4 border-b border-border" role="tablist" aria-label={messages.mapView.selectView}>
           <Button
             variant={viewMode === "list" ? "default" : "ghost"}
             onClick={() => setViewMode("list")}
             className="flex-1 rounded-none border-b-2 border-transparent data-[state=active]:border-primary"
-            aria-label="목록 보기"
+            aria-label={messages.mapView.listLabel}
             aria-pressed={viewMode === "list"}
             role="tab"
           >
             <List className="w-4 h-4 mr-2" aria-hidden="true" />
-            목록
+            {messages.mapView.list}
           </Button>
           <Button
             variant={viewMode === "map" ? "default" : "ghost"}
             onClick={() => setViewMode("map")}
             className="flex-1 rounded-none border-b-2 border-transparent data-[state=active]:border-primary"
-            aria-label="지도 보기"
+            aria-label={messages.mapView.mapLabel}
             aria-pressed={viewMode === "map"}
             role="tab"
           >
             <MapIcon className="w-4 h-4 mr-2" aria-hidden="true" />
-            지도
+            {messages.mapView.map}
           </Button>
         </div>
       )}
@@ -208,15 +320,7 @@ export default function TourMapView({
               isMobile && viewMode === "list" ? "hidden" : ""
             } ${viewMode === "split" ? "sticky top-4" : ""}`}
           >
-            <Suspense
-              fallback={
-                <div className="w-full h-[400px] md:h-[600px] rounded-lg border border-border bg-muted flex items-center justify-center">
-                  <div className="text-center space-y-2">
-                    <Skeleton className="w-12 h-12 rounded-full mx-auto" />
-                    <p className="text-sm text-muted-foreground">지도를 불러오는 중...</p>
-                  </div>
-                </div>
-              }
+            <Suspense fallback={<MapLoadingPlaceholder />}
             >
               <NaverMap
                 tours={tours}
@@ -224,6 +328,15 @@ export default function TourMapView({
                 onMarkerClick={handleMarkerClick}
                 mapType={mapType}
                 onMapTypeChange={setMapType}
+                initialView={initialView}
+                onSearchArea={handleSearchArea}
+                radiusCircle={
+                  distanceFilter && distanceFilter.radius !== null
+                    ? { lat: distanceFilter.lat, lng: distanceFilter.lng, radius: distanceFilter.radius }
+                    : undefined
+                }
+                onRadiusCircleChange={onDistanceFilterChange ? handleRadiusCircleChange : undefined}
+                onCenterChange={handleCenterChange}
               />
             </Suspense>
           </div>
@@ -0,0 +1,120 @@
+/**
+ * @file tour-multi-select.tsx
+ * @description 다중 선택 드롭다운 컴포넌트
+ *
+ * Select 컴포넌트를 토글 방식으로 사용하여 여러 값을 선택할 수 있게 합니다.
+ * 항목을 고르면 선택/해제가 전환되고, "전체"를 고르면 모든 선택이 해제됩니다.
+ * 선택 개수는 최대 선택 개수(MULTI_SELECT_MAX)로 제한됩니다.
+ *
+ * @see {@link /components/tour-filters.tsx} - 지역/관광 타입 필터
+ */
+
+"use client";
+
+import { Check } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { MULTI_SELECT_MAX } from "@/lib/types/tour";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/hooks/use-i18n";
+import { formatMessage } from "@/lib/i18n/config";
+
+interface TourMultiSelectProps {
+  /** 선택 옵션 목록 */
+  options: ReadonlyArray<{ value: string; label: string }>;
+  /** 현재 선택된 값 목록 */
+  values: string[];
+  /** 선택 변경 핸들러 (빈 배열이면 전체) */
+  onValuesChange: (values: string[]) => void;
+  /** 접근성 레이블 */
+  ariaLabel: string;
+  /** 선택 없음(전체)일 때 표시할 문구 (기본값: "전체") */
+  placeholder?: string;
+  /** 비활성화 여부 */
+  disabled?: boolean;
+  /** 트리거 클래스 */
+  className?: string;
+}
+
+/**
+ * 다중 선택 드롭다운 컴포넌트
+ */
+export default function TourMultiSelect({
+  options,
+  values,
+  onValuesChange,
+  ariaLabel,
+  placeholder,
+  disabled,
+  className,
+}: TourMultiSelectProps) {
+  const { messages } = useI18n();
+
+  // 트리거에 표시할 요약 문구 (예: "서울 외 1")
+  const selectedLabels = values.map(
+    (value) => options.find((option) => option.value === value)?.label || value
+  );
+  const summary =
+    selectedLabels.length === 0
+      ? placeholder ?? messages.common.all
+      : selectedLabels.length === 1
+        ? selectedLabels[0]
+        : formatMessage(messages.multiSelect.summary, {
+            first: selectedLabels[0],
+            rest: selectedLabels.length - 1,
+          });
+
+  const handleToggle = (value: string) => {
+    if (value === "all") {
+      onValuesChange([]);
+      return;
+    }
+
+    if (values.includes(value)) {
+      onValuesChange(values.filter((item) => item !== value));
+      return;
+    }
+
+    if (values.length >= MULTI_SELECT_MAX) {
+      toast.error(formatMessage(messages.multiSelect.maxSelected, { max: MULTI_SELECT_MAX }));
+      return;
+    }
+
+    onValuesChange([...values, value]);
+  };
+
+  return (
+    // value를 항상 비워 두어 같은 항목을 다시 골라도 변경 이벤트가 발생하도록 함
+    <Select value="" onValueChange={handleToggle} disabled={disabled}>
+      <SelectTrigger
+        className={cn(className, values.length > 0 && "data-[placeholder]:text-foreground")}
+        aria-label={ariaLabel}
+      >
+        <SelectValue placeholder={summary} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">{messages.common.all}</SelectItem>
+        {options.map((option) => {
+          const isSelected = values.includes(option.value);
+          return (
+            <SelectItem key={option.value} value={option.value}>
+              <span className="flex items-center gap-2">
+                <Check
+                  className={cn("w-4 h-4", isSelected ? "opacity-100" : "opacity-0")}
+                  aria-hidden="true"
+                />
+                {option.label}
+              </span>
+            </SelectItem>
+          );
+        })}
+      </SelectContent>
+    </Select>
+  );
+}
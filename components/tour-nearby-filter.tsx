@@ -0,0 +1,163 @@
+/**
+ * @file tour-nearby-filter.tsx
+ * @description 내 주변 관광지 필터 컴포넌트
+ *
+ * 브라우저 Geolocation API로 현재 위치를 가져와 위치 기반 조회 모드로 전환하는 컴포넌트입니다.
+ * 현재 위치와 검색 반경은 URL 쿼리 파라미터(mapX, mapY, radius)와 동기화됩니다.
+ *
+ * 구성 요소:
+ * - 내 주변 버튼 (현재 위치 조회)
+ * - 검색 반경 선택 (위치 기반 모드일 때)
+ * - 위치 기반 모드 해제 버튼
+ *
+ * @see {@link /lib/api/tour-api.ts} - getLocationBasedList
+ */
+
+"use client";
+
+import { useRouter, useSearchParams } from "next/navigation";
+import { useCallback } from "react";
+import { LocateFixed, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LOCATION_EXCLUSIVE_PARAMS, LOCATION_RADIUS } from "@/lib/types/tour";
+import { formatDistance } from "@/lib/utils/map-utils";
+import { useI18n } from "@/hooks/use-i18n";
+import { useCurrentPosition } from "@/hooks/use-current-position";
+
+/**
+ * 검색 반경 옵션 (locationBasedList2 최대 반경: 20km)
+ */
+const RADIUS_OPTIONS = [
+  { value: "1000", label: "1km" },
+  { value: "3000", label: "3km" },
+  { value: "5000", label: "5km" },
+  { value: "10000", label: "10km" },
+  { value: "20000", label: "20km" },
+] as const;
+
+interface TourNearbyFilterProps {
+  /** 로딩 상태 */
+  isLoading?: boolean;
+}
+
+/**
+ * 내 주변 관광지 필터 컴포넌트
+ */
+export default function TourNearbyFilter({ isLoading }: TourNearbyFilterProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { isLocating, locate } = useCurrentPosition();
+  const { messages, localizePath } = useI18n();
+
+  const isNearbyMode = Boolean(searchParams.get("mapX") && searchParams.get("mapY"));
+  const currentRadius = searchParams.get("radius") || String(LOCATION_RADIUS.DEFAULT);
+  // "이 지역에서 검색"으로 정해진 반경은 기본 옵션에 없을 수 있으므로 옵션에 추가
+  const radiusOptions: ReadonlyArray<{ value: string; label: string }> = RADIUS_OPTIONS.some(
+    (option) => option.value === currentRadius
+  )
+    ? RADIUS_OPTIONS
+    : [...RADIUS_OPTIONS, { value: currentRadius, label: formatDistance(currentRadius) ?? currentRadius }];
+
+  // 현재 위치로 위치 기반 모드 진입
+  const handleLocate = useCallback(() => {
+    locate(({ lat, lng }) => {
+      const params = new URLSearchParams(searchParams.toString());
+      params.set("mapX", lng.toFixed(6));
+      params.set("mapY", lat.toFixed(6));
+      if (!params.get("radius")) {
+        params.set("radius", String(LOCATION_RADIUS.DEFAULT));
+      }
+      LOCATION_EXCLUSIVE_PARAMS.forEach((key) => params.delete(key));
+      // 현재 위치 기준으로 지도를 다시 맞추도록 저장된 지도 위치 제거
+      params.delete("mapZoom");
+      params.delete("sort");
+      params.delete("pageNo");
+
+      router.push(localizePath(`/?${params.toString()}`), { scroll: false });
+    });
+  }, [locate, router, searchParams, localizePath]);
+
+  // 검색 반경 변경
+  const handleRadiusChange = useCallback(
+    (value: string) => {
+      const params = new URLSearchParams(searchParams.toString());
+      params.set("radius", value);
+      params.delete("pageNo");
+      router.push(localizePath(`/?${params.toString()}`), { scroll: false });
+    },
+    [router, searchParams, localizePath]
+  );
+
+  // 위치 기반 모드 해제
+  const handleClear = useCallback(() => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete("mapX");
+    params.delete("mapY");
+    params.delete("radius");
+    params.delete("mapZoom");
+    params.delete("pageNo");
+    if (params.get("sort") === "distance") {
+      params.delete("sort");
+    }
+    router.push(localizePath(`/?${params.toString()}`), { scroll: false });
+  }, [router, searchParams, localizePath]);
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        variant={isNearbyMode ? "default" : "outline"}
+        size="sm"
+        onClick={handleLocate}
+        disabled={isLoading || isLocating}
+        className="gap-2"
+        aria-label={isNearbyMode ? messages.nearby.relocate : messages.nearby.locate}
+        aria-pressed={isNearbyMode}
+      >
+        {isLocating ? (
+          <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+        ) : (
+          <LocateFixed className="w-4 h-4" aria-hidden="true" />
+        )}
+        {messages.nearby.button}
+      </Button>
+
+      {isNearbyMode && (
+        <>
+          <Select
+            value={currentRadius}
+            onValueChange={handleRadiusChange}
+            disabled={isLoading}
+          >
+            <SelectTrigger className="w-[90px]" aria-label={messages.nearby.selectRadius}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {radiusOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={handleClear}
+            disabled={isLoading}
+            className="h-8 w-8"
+            aria-label={messages.nearby.clear}
+          >
+            <X className="w-4 h-4" aria-hidden="true" />
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
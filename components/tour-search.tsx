@@ -24,6 +24,7 @@ import { Search, X, Loader2 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import { useI18n } from "@/hooks/use-i18n";
 
 interface TourSearchProps {
   /** 검색창 크기 (small: 헤더용, large: 메인 영역용) */
@@ -50,6 +51,7 @@ export default function TourSearch({
 }: TourSearchProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
+  const { messages, localizePath } = useI18n();
   const [keyword, setKeyword] = useState(initialKeyword || searchParams.get("keyword") || "");
   const inputRef = useRef<HTMLInputElement>(null);
   const prevUrlKeywordRef = useRef<string>("");
@@ -74,7 +76,7 @@ export default function TourSearch({
       const params = new URLSearchParams(searchParams.toString());
       params.delete("keyword");
       params.delete("pageNo"); // 검색 변경 시 페이지 리셋
-      router.push(`/?${params.toString()}`, { scroll: false });
+      router.push(localizePath(`/?${params.toString()}`), { scroll: false });
       return;
     }
 
@@ -82,7 +84,17 @@ export default function TourSearch({
     const params = new URLSearchParams(searchParams.toString());
     params.set("keyword", trimmedKeyword);
     params.delete("pageNo"); // 검색 변경 시 페이지 리셋
-    router.push(`/?${params.toString()}`, { scroll: false });
+    // 키워드 검색은 위치 기반 조회/축제 기간 검색과 함께 사용할 수 없으므로 관련 파라미터 제거
+    params.delete("mapX");
+    params.delete("mapY");
+    params.delete("radius");
+    params.delete("mapZoom");
+    params.delete("eventStartDate");
+    params.delete("eventEndDate");
+    if (params.get("sort") === "distance") {
+      params.delete("sort");
+    }
+    router.push(localizePath(`/?${params.toString()}`), { scroll: false });
 
     // 커스텀 핸들러가 있으면 실행
     if (onSearch) {
@@ -114,7 +126,7 @@ export default function TourSearch({
     const params = new URLSearchParams(searchParams.toString());
     params.delete("keyword");
     params.delete("pageNo");
-    router.push(`/?${params.toString()}`, { scroll: false });
+    router.push(localizePath(`/?${params.toString()}`), { scroll: false });
   };
 
   const isLarge = size === "large";
@@ -146,7 +158,7 @@ export default function TourSearch({
         <Input
           ref={inputRef}
           type="text"
-          placeholder={isLarge ? "관광지명, 주소, 설명으로 검색..." : "검색..."}
+          placeholder={isLarge ? messages.search.placeholder : messages.search.placeholderShort}
           value={keyword}
           onChange={(e) => setKeyword(e.target.value)}
           onKeyDown={handleKeyDown}
@@ -155,7 +167,7 @@ export default function TourSearch({
             isLarge ? "text-base" : "text-sm",
             "placeholder:text-muted-foreground"
           )}
-          aria-label="관광지 검색"
+          aria-label={messages.search.label}
           disabled={isLoading}
         />
         {isLoading && (
@@ -176,7 +188,7 @@ export default function TourSearch({
               "h-auto w-auto p-0 hover:bg-transparent",
               isLarge ? "ml-2" : "ml-1"
             )}
-            aria-label="검색어 초기화"
+            aria-label={messages.search.clear}
           >
             <X
               className={cn(
@@ -194,9 +206,9 @@ export default function TourSearch({
               "ml-3 rounded-full",
               isLarge ? "px-6 py-2" : "px-4 py-1"
             )}
-            aria-label="검색 실행"
+            aria-label={messages.search.submitLabel}
           >
-            검색
+            {messages.search.submit}
           </Button>
         )}
       </div>
@@ -4,19 +4,36 @@
  *
  * API 에러, 네트워크 에러 등을 사용자 친화적으로 표시하는 컴포넌트입니다.
  * 재시도 버튼을 포함하여 사용자가 쉽게 에러를 복구할 수 있도록 합니다.
+ *
+ * Tour API 에러 정보(error)가 주어지면 에러 종류에 따라 복구 방법을 선택합니다.
+ * - 요청 과다: Retry-After 시간 동안 재시도 버튼 비활성화 (카운트다운)
+ * - 네트워크/서버 오류: 재시도 버튼
+ * - 데이터 없음: 홈으로 이동 버튼
+ * - 한도 초과/키 오류/응답 형식 오류: 재시도해도 같은 결과이므로 버튼 없음
+ *
+ * @see {@link /lib/api/tour-api-errors.ts} - Tour API 에러 종류
  */
 
 "use client";
 
-import { AlertCircle, RefreshCw } from "lucide-react";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { AlertCircle, Home, RefreshCw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import type { TourApiErrorInfo, TourApiErrorKind } from "@/lib/api/tour-api-errors";
+import { useI18n } from "@/hooks/use-i18n";
+import { formatMessage } from "@/lib/i18n/config";
 
 interface ErrorProps {
   /**
-   * 에러 메시지
+   * 에러 메시지 (Tour API 에러 정보가 있으면 에러 종류별 메시지가 우선)
    */
-  message: string;
+  message?: string;
+  /**
+   * Tour API 에러 정보 (에러 종류별 복구 방법 선택에 사용)
+   */
+  error?: TourApiErrorInfo | null;
   /**
    * 재시도 함수
    */
@@ -31,14 +48,72 @@ interface ErrorProps {
   type?: "api" | "network" | "unknown";
 }
 
-const errorMessages = {
-  api: "데이터를 불러오는 중 오류가 발생했습니다.",
-  network: "네트워크 연결을 확인해주세요.",
-  unknown: "알 수 없는 오류가 발생했습니다.",
+/**
+ * 복구 방법
+ * - retry: 바로 재시도
+ * - wait: 잠시 기다린 후 재시도
+ * - home: 홈으로 이동
+ * - none: 사용자가 할 수 있는 조치 없음
+ */
+export type RecoveryAction = "retry" | "wait" | "home" | "none";
+
+const recoveryActions: Record<TourApiErrorKind, RecoveryAction> = {
+  rate_limited: "wait",
+  quota_exceeded: "none",
+  invalid_key: "none",
+  not_found: "home",
+  upstream: "retry",
+  network: "retry",
+  schema: "none",
+  invalid_request: "home",
 };
 
-export function Error({ message, onRetry, className, type = "unknown" }: ErrorProps) {
-  const defaultMessage = errorMessages[type];
+/**
+ * 에러 정보에 맞는 복구 방법 (Tour API 에러가 아니면 재시도)
+ */
+export function getRecoveryAction(error?: Pick<TourApiErrorInfo, "kind"> | null): RecoveryAction {
+  return error ? recoveryActions[error.kind] ?? "retry" : "retry";
+}
+
+/**
+ * 재시도 가능 시각까지 남은 초 (1초마다 갱신)
+ */
+function useRetryCountdown(retryAfterMs?: number): number {
+  const [remaining, setRemaining] = useState(() =>
+    retryAfterMs ? Math.ceil(retryAfterMs / 1000) : 0
+  );
+
+  useEffect(() => {
+    if (!retryAfterMs) {
+      setRemaining(0);
+      return;
+    }
+
+    const retryAt = Date.now() + retryAfterMs;
+    setRemaining(Math.ceil(retryAfterMs / 1000));
+
+    const timer = setInterval(() => {
+      const seconds = Math.max(0, Math.ceil((retryAt - Date.now()) / 1000));
+      setRemaining(seconds);
+      if (seconds === 0) {
+        clearInterval(timer);
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [retryAfterMs]);
+
+  return remaining;
+}
+
+export function Error({ message, error, onRetry, className, type = "unknown" }: ErrorProps) {
+  const { messages, localizePath } = useI18n();
+  // Tour API 에러는 서버에서 만든 메시지 대신 현재 언어의 에러 종류별 메시지를 표시
+  const errorMessage =
+    (error && messages.tourApiErrors[error.kind]) || error?.message || message || messages.errors[type];
+  const action = getRecoveryAction(error);
+  const remainingSeconds = useRetryCountdown(action === "wait" ? error?.retryAfterMs : undefined);
+  const errorCode = error?.resultCode || error?.status;
 
   return (
     <div
@@ -49,15 +124,35 @@ export function Error({ message, onRetry, className, type = "unknown" }: ErrorPr
     >
       <AlertCircle className="h-12 w-12 text-destructive" />
       <div className="space-y-2">
-        <h3 className="text-lg font-semibold text-destructive">오류 발생</h3>
+        <h3 className="text-lg font-semibold text-destructive">{messages.errors.title}</h3>
         <p className="text-sm text-muted-foreground">
-          {message || defaultMessage}
+          {errorMessage}
         </p>
+        {errorCode && (
+          <p className="text-xs text-muted-foreground/80">
+            {formatMessage(messages.errors.code, { code: errorCode })}
+          </p>
+        )}
       </div>
-      {onRetry && (
-        <Button onClick={onRetry} variant="outline" size="sm">
+      {onRetry && (action === "retry" || action === "wait") && (
+        <Button
+          onClick={onRetry}
+          variant="outline"
+          size="sm"
+          disabled={remainingSeconds > 0}
+        >
           <RefreshCw className="mr-2 h-4 w-4" />
-          다시 시도
+          {remainingSeconds > 0
+            ? formatMessage(messages.common.retryIn, { seconds: remainingSeconds })
+            : messages.common.retry}
+        </Button>
+      )}
+      {action === "home" && (
+        <Button asChild variant="outline" size="sm">
+          <Link href={localizePath("/")}>
+            <Home className="mr-2 h-4 w-4" />
+            {messages.common.backToHome}
+          </Link>
         </Button>
       )}
     </div>
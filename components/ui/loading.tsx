@@ -6,8 +6,11 @@
  * lucide-react의 Loader2 아이콘을 사용하며, 크기 변형이 가능합니다.
  */
 
+"use client";
+
 import { Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useI18n } from "@/hooks/use-i18n";
 
 interface LoadingProps {
   /**
@@ -43,10 +46,12 @@ export function Loading({ size = "md", className, text }: LoadingProps) {
 /**
  * 전체 페이지 로딩 컴포넌트
  */
-export function PageLoading() {
+export function PageLoading({ text }: { text?: string }) {
+  const { messages } = useI18n();
+
   return (
     <div className="flex min-h-screen items-center justify-center">
-      <Loading size="lg" text="로딩 중..." />
+      <Loading size="lg" text={text ?? messages.common.loading} />
     </div>
   );
 }
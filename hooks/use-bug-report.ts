@@ -17,6 +17,7 @@
 import { useCallback, useRef } from "react";
 import { submitBugReport } from "@/lib/api/bug-report-api";
 import { toast } from "sonner";
+import { useI18n } from "@/hooks/use-i18n";
 
 interface UseBugReportOptions {
   /**
@@ -37,6 +38,7 @@ interface UseBugReportOptions {
  */
 export function useBugReport(options: UseBugReportOptions = {}) {
   const { autoSubmit = true, showToast = true } = options;
+  const { messages } = useI18n();
   const reportedErrors = useRef<Set<string>>(new Set());
 
   /**
@@ -72,7 +74,7 @@ export function useBugReport(options: UseBugReportOptions = {}) {
         const pageUrl = typeof window !== "undefined" ? window.location.href : undefined;
         const userAgent = typeof window !== "undefined" ? navigator.userAgent : undefined;
 
-        // 버그 리포트 제출
+        // 버그 리포트 제출 (리포트 본문은 관리자용이므로 한국어로 작성, 토스트만 현재 언어로 표시)
         const result = await submitBugReport({
           title: context?.title || `자동 리포트: ${error.name || "Error"}`,
           description:
@@ -89,21 +91,21 @@ export function useBugReport(options: UseBugReportOptions = {}) {
 
         if (result.success) {
           if (showToast) {
-            toast.success("버그가 자동으로 리포트되었습니다.");
+            toast.success(messages.bugReport.autoSubmitted);
           }
         } else {
           if (showToast) {
-            toast.error("버그 리포트 제출에 실패했습니다.");
+            toast.error(messages.bugReport.submitFailed);
           }
         }
       } catch (reportError) {
         console.error("[useBugReport] 버그 리포트 제출 에러:", reportError);
         if (showToast) {
-          toast.error("버그 리포트 제출 중 오류가 발생했습니다.");
+          toast.error(messages.bugReport.autoSubmitError);
         }
       }
     },
-    [showToast]
+    [showToast, messages]
   );
 
   /**
@@ -0,0 +1,83 @@
+/**
+ * @file use-current-position.ts
+ * @description 현재 위치 조회 훅
+ *
+ * 브라우저 Geolocation API로 현재 위치를 한 번 조회합니다.
+ * 조회에 실패하면 현재 언어의 에러 메시지를 토스트로 표시합니다.
+ *
+ * @see {@link /components/tour-nearby-filter.tsx} - 내 주변 관광지 필터
+ * @see {@link /components/tour-distance-filter.tsx} - 거리 필터 (내 위치 기준)
+ */
+
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+import { useI18n } from "@/hooks/use-i18n";
+import type { Messages } from "@/lib/i18n/messages";
+
+interface UseCurrentPositionReturn {
+  /** 위치 조회 중 */
+  isLocating: boolean;
+  /** 현재 위치 조회 (성공 시 WGS84 좌표로 콜백 호출) */
+  locate: (onSuccess: (position: { lat: number; lng: number }) => void) => void;
+}
+
+/**
+ * Geolocation 에러 코드를 사용자 메시지로 변환
+ */
+function getGeolocationErrorMessage(error: GeolocationPositionError, messages: Messages): string {
+  switch (error.code) {
+    case error.PERMISSION_DENIED:
+      return messages.nearby.errors.permissionDenied;
+    case error.POSITION_UNAVAILABLE:
+      return messages.nearby.errors.unavailable;
+    case error.TIMEOUT:
+      return messages.nearby.errors.timeout;
+    default:
+      return messages.nearby.errors.unknown;
+  }
+}
+
+/**
+ * 현재 위치 조회 훅
+ *
+ * @example
+ * ```tsx
+ * const { isLocating, locate } = useCurrentPosition();
+ *
+ * <Button disabled={isLocating} onClick={() => locate(({ lat, lng }) => setCenter({ lat, lng }))} />
+ * ```
+ */
+export function useCurrentPosition(): UseCurrentPositionReturn {
+  const [isLocating, setIsLocating] = useState(false);
+  const { messages } = useI18n();
+
+  const locate = useCallback<UseCurrentPositionReturn["locate"]>(
+    (onSuccess) => {
+      if (typeof navigator === "undefined" || !navigator.geolocation) {
+        toast.error(messages.nearby.unsupported);
+        return;
+      }
+
+      setIsLocating(true);
+      navigator.geolocation.getCurrentPosition(
+        (position) => {
+          setIsLocating(false);
+          onSuccess({ lat: position.coords.latitude, lng: position.coords.longitude });
+        },
+        (error) => {
+          console.error("현재 위치 조회 실패:", error);
+          setIsLocating(false);
+          toast.error(getGeolocationErrorMessage(error, messages));
+        },
+        {
+          enableHighAccuracy: false,
+          timeout: 10000,
+          maximumAge: 60000, // 1분 이내 위치는 재사용
+        }
+      );
+    },
+    [messages]
+  );
+
+  return { isLocating, locate };
+}
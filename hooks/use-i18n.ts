@@ -0,0 +1,32 @@
+/**
+ * @file use-i18n.ts
+ * @description 다국어 메시지 훅 (클라이언트 컴포넌트용)
+ *
+ * 서버 컴포넌트에서는 lib/i18n/server.ts의 getLocale(), getMessages()를 사용합니다.
+ *
+ * @see {@link /components/providers/i18n-provider.tsx} - I18nProvider
+ */
+
+"use client";
+
+import { useCallback, useContext } from "react";
+import { I18nContext } from "@/components/providers/i18n-provider";
+import { localizePath } from "@/lib/i18n/config";
+
+/**
+ * 현재 언어, 메시지 카탈로그, 언어 접두사를 붙이는 경로 함수 반환
+ *
+ * @example
+ * ```tsx
+ * const { messages, localizePath } = useI18n();
+ *
+ * <Link href={localizePath("/stats")}>{messages.nav.stats}</Link>
+ * ```
+ */
+export function useI18n() {
+  const { locale, messages } = useContext(I18nContext);
+
+  const localize = useCallback((path: string) => localizePath(path, locale), [locale]);
+
+  return { locale, messages, localizePath: localize };
+}
@@ -0,0 +1,145 @@
+/**
+ * @file use-map.ts
+ * @description 지도 생성 훅
+ *
+ * 설정된 지도 제공자(네이버 지도 또는 Leaflet)로 컨테이너 요소에 지도를 한 번 생성합니다.
+ * 컴포넌트가 언마운트되면 지도를 제거(destroy)하여 지도 내부 리스너와 DOM을 정리합니다.
+ *
+ * 주요 기능:
+ * - 스크립트 로드 (여러 지도가 있어도 한 번만 로드)
+ * - 지도 생성 (초기 중심/줌은 생성 시점 값만 사용)
+ * - 네이버 지도 로드 실패 또는 인증 실패 시 Leaflet 지도로 자동 대체
+ * - 로딩/에러 상태 및 현재 언어의 에러 메시지 제공
+ *
+ * @see {@link /lib/maps/index.ts} - 지도 제공자 선택 및 대체
+ */
+
+import { useEffect, useRef, useState } from "react";
+import {
+  createMapController,
+  MapLoadError,
+  onNaverMapsAuthFailure,
+  type LatLngLiteral,
+  type MapController,
+} from "@/lib/maps";
+import { formatMessage } from "@/lib/i18n/config";
+import { useI18n } from "@/hooks/use-i18n";
+
+interface UseMapOptions {
+  /** 초기 중심 좌표 (지도 생성 시에만 사용) */
+  center: LatLngLiteral;
+  /** 초기 줌 레벨 (지도 생성 시에만 사용) */
+  zoom: number;
+  /** false이면 지도 생성을 미룸 (기본값: true) */
+  enabled?: boolean;
+}
+
+interface UseMapReturn {
+  /** 지도 인스턴스 (생성 전 또는 실패 시 null) */
+  map: MapController | null;
+  /** 스크립트 로드 또는 지도 생성 중 */
+  isLoading: boolean;
+  /** 사용자에게 표시할 에러 메시지 */
+  error: string | null;
+}
+
+/**
+ * 지도 생성 훅
+ *
+ * @example
+ * ```tsx
+ * const mapRef = useRef<HTMLDivElement>(null);
+ * const { map, isLoading, error } = useMap(mapRef, {
+ *   center: { lat: 37.5665, lng: 126.978 },
+ *   zoom: 15,
+ * });
+ *
+ * useEffect(() => {
+ *   if (!map) return;
+ *   const marker = map.addMarker({ position: map.getCenter(), icon });
+ *   return () => marker.remove();
+ * }, [map]);
+ *
+ * return <div ref={mapRef} className="w-full h-[400px]" />;
+ * ```
+ */
+export function useMap(
+  containerRef: React.RefObject<HTMLDivElement | null>,
+  { center, zoom, enabled = true }: UseMapOptions
+): UseMapReturn {
+  const { messages } = useI18n();
+  const [map, setMap] = useState<MapController | null>(null);
+  const [error, setError] = useState<MapLoadError | null>(null);
+  const initialViewRef = useRef({ center, zoom });
+
+  // 지도 생성 시점의 최신 초기 위치를 사용
+  initialViewRef.current = { center, zoom };
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!enabled || !container) return;
+
+    let cancelled = false;
+    let controller: MapController | null = null;
+    let removeAuthFailureListener = () => {};
+
+    const handleError = (err: unknown) => {
+      if (cancelled) return;
+      console.error("지도 생성 실패:", err);
+      setError(
+        err instanceof MapLoadError
+          ? err
+          : new MapLoadError("leaflet", "init-failed", err instanceof Error ? err.message : String(err))
+      );
+    };
+
+    const mount = (created: MapController) => {
+      if (cancelled) {
+        created.destroy();
+        return;
+      }
+      controller = created;
+      setMap(created);
+      setError(null);
+    };
+
+    createMapController(container, initialViewRef.current)
+      .then((created) => {
+        mount(created);
+        if (created.provider !== "naver") return;
+
+        // 네이버 지도 인증 실패는 지도 생성 후에 알려지므로 그때 Leaflet 지도로 교체
+        removeAuthFailureListener = onNaverMapsAuthFailure(() => {
+          if (cancelled || controller !== created) return;
+          console.warn("네이버 지도 인증에 실패하여 OpenStreetMap 지도로 대체합니다.");
+          created.destroy();
+          controller = null;
+          setMap(null);
+          container.replaceChildren();
+          createMapController(container, initialViewRef.current, "leaflet")
+            .then(mount)
+            .catch(handleError);
+        });
+      })
+      .catch(handleError);
+
+    return () => {
+      cancelled = true;
+      removeAuthFailureListener();
+      controller?.destroy();
+      setMap(null);
+    };
+  }, [enabled, containerRef]);
+
+  const errorMessage = error
+    ? error.kind === "init-failed"
+      ? formatMessage(messages.map.errors.mapInitFailed, { message: error.message })
+      : messages.map.errors.loadFailed
+    : null;
+
+  return {
+    map,
+    isLoading: enabled && !map && !error,
+    error: errorMessage,
+  };
+}
@@ -0,0 +1,387 @@
+/**
+ * @file place-sync-api.ts
+ * @description 관광지 카탈로그 사본(places) 동기화 함수
+ *
+ * 한국관광공사 areaBasedSyncList2 API로 변경된 콘텐츠만 가져와
+ * Supabase places 테이블을 증분 동기화합니다.
+ * Route Handler(/api/sync/places)와 CLI 스크립트(scripts/sync-places.ts)에서 공통으로 사용합니다.
+ *
+ * 동기화 방식:
+ * - areaBasedSyncList2의 modifiedtime은 해당 날짜에 수정된 콘텐츠만 조회하므로(접두 일치),
+ *   마지막 실행에서 기록한 날짜부터 오늘(한국 시간)까지 하루씩 조회
+ * - 표출 콘텐츠(showflag=1)는 content_id 기준 upsert
+ * - 비표출 콘텐츠(showflag=0)는 deleted_at을 기록하여 소프트 삭제
+ * - 한 번에 처리할 페이지 수를 넘으면 partial 상태로 기록하고 다음 실행에서 이어서 진행
+ *
+ * 페이지 순서 (실행 사이에 목록이 바뀌어도 이어서 진행할 때 항목을 건너뛰지 않도록):
+ * - 등록일순(D)으로 조회 (수정일순은 콘텐츠가 수정될 때마다 순서가 바뀜)
+ * - 전체 동기화: 첫 페이지부터 조회 (새 콘텐츠는 앞에 추가되므로 이어서 진행하면 중복만 발생)
+ * - 날짜별 조회: 마지막 페이지부터 조회 (지난 날짜의 콘텐츠는 다시 수정되면 목록에서 빠지기만 하므로
+ *   남은 항목은 앞 페이지로만 밀려남, 오늘 날짜는 다음 실행에서 다시 조회)
+ *
+ * 동시 실행 방지:
+ * - place_sync_runs에는 running 상태 행이 하나만 있을 수 있음 (부분 유니크 인덱스)
+ * - 실행 중인 기록이 있으면 PlaceSyncInProgressError를 던지고 시작하지 않음
+ * - 오래된 running 기록(비정상 종료)은 시작 전에 failed로 정리
+ *
+ * 주의: Service Role 클라이언트를 사용하므로 서버 사이드에서만 호출해야 합니다.
+ *
+ * @see {@link /supabase/migrations/20261018090000_create_places_tables.sql} - 테이블 스키마
+ */
+
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { getAreaBasedSyncList, runWithTourApiPriority } from "@/lib/api/tour-api";
+import { addApiDays, toApiDate } from "@/lib/utils/date-utils";
+import type { SyncListItem } from "@/lib/types/tour";
+import type {
+  PlaceRow,
+  PlaceSyncResult,
+  PlaceSyncRun,
+  PlaceSyncTrigger,
+} from "@/lib/types/place";
+
+/**
+ * 페이지당 조회 항목 수
+ */
+const SYNC_PAGE_SIZE = 100;
+
+/**
+ * 한 번의 실행에서 조회할 최대 페이지 수 (기본값)
+ * (Route Handler 실행 시간 제한을 고려하여 제한)
+ */
+const DEFAULT_MAX_PAGES = 20;
+
+/**
+ * running 상태로 이 시간이 지난 실행 기록은 비정상 종료로 보고 정리 (ms)
+ */
+const STALE_RUN_TIMEOUT_MS = 60 * 60 * 1000;
+
+/**
+ * 다른 동기화가 실행 중이어서 시작하지 못한 경우의 에러
+ */
+export class PlaceSyncInProgressError extends Error {
+  constructor() {
+    super("다른 관광지 카탈로그 동기화가 실행 중입니다. 끝난 후 다시 실행해주세요.");
+    this.name = "PlaceSyncInProgressError";
+  }
+}
+
+/**
+ * 좌표 문자열을 숫자로 변환 (유효하지 않으면 null)
+ */
+function toCoordinate(value: string | undefined): number | null {
+  if (!value) return null;
+  const coordinate = Number(value);
+  return Number.isFinite(coordinate) && coordinate !== 0 ? coordinate : null;
+}
+
+/**
+ * API 동기화 항목을 places 테이블 행으로 변환
+ */
+function toPlaceRow(item: SyncListItem, syncedAt: string): PlaceRow {
+  return {
+    content_id: item.contentid,
+    content_type_id: item.contenttypeid,
+    title: item.title,
+    addr1: item.addr1 || null,
+    addr2: item.addr2 || null,
+    area_code: item.areacode || null,
+    sigungu_code: item.sigungucode || null,
+    cat1: item.cat1 || null,
+    cat2: item.cat2 || null,
+    cat3: item.cat3 || null,
+    map_x: toCoordinate(item.mapx),
+    map_y: toCoordinate(item.mapy),
+    first_image: item.firstimage || null,
+    first_image2: item.firstimage2 || null,
+    tel: item.tel || null,
+    modified_time: item.modifiedtime,
+    created_time: item.createdtime || null,
+    show_flag: true,
+    deleted_at: null,
+    raw: item,
+    synced_at: syncedAt,
+  };
+}
+
+/**
+ * 증분 동기화 시작 지점 결정
+ *
+ * - 직전 실행이 partial이면 중단한 날짜(next_modified_date)의 다음 페이지부터 이어서 진행
+ * - 아니면 마지막 성공 실행이 기록한 날짜(next_modified_date, 예전 기록은 max_modified_time 날짜)부터 조회
+ * - 성공 기록이 없으면 전체 동기화
+ */
+async function resolveSyncStart(
+  supabase: ReturnType<typeof getServiceRoleClient>
+): Promise<{
+  modifiedSince: string | null;
+  /** 이어서 조회할 페이지 (null이면 처음부터) */
+  startPageNo: number | null;
+  carriedMaxModified: string | null;
+}> {
+  const { data: lastRun, error: lastRunError } = await supabase
+    .from("place_sync_runs")
+    .select("*")
+    .in("status", ["success", "partial"])
+    .order("started_at", { ascending: false })
+    .limit(1)
+    .maybeSingle<PlaceSyncRun>();
+
+  if (lastRunError) {
+    throw new Error(`동기화 기록 조회 실패: ${lastRunError.message}`);
+  }
+
+  if (!lastRun) {
+    return { modifiedSince: null, startPageNo: null, carriedMaxModified: null };
+  }
+
+  if (lastRun.status === "partial" && lastRun.next_page_no) {
+    return {
+      // 전체 동기화 중 중단된 경우 next_modified_date는 null
+      modifiedSince: lastRun.next_modified_date ?? lastRun.modified_since,
+      startPageNo: lastRun.next_page_no,
+      carriedMaxModified: lastRun.max_modified_time,
+    };
+  }
+
+  return {
+    // 마지막으로 조회한 날짜는 그 이후 변경분이 있을 수 있으므로 다시 조회 (upsert는 멱등)
+    modifiedSince:
+      lastRun.next_modified_date ??
+      (lastRun.max_modified_time ? lastRun.max_modified_time.slice(0, 8) : null),
+    startPageNo: null,
+    carriedMaxModified: null,
+  };
+}
+
+/**
+ * 관광지 카탈로그 증분 동기화
+ *
+ * @param options - 동기화 옵션
+ * @param options.trigger - 실행 주체 (cron, manual, cli)
+ * @param options.modifiedSince - 조회 기준 수정일 (YYYYMMDD, 옵션, 지정 시 기록 대신 사용)
+ * @param options.full - 전체 동기화 여부 (기본값: false)
+ * @param options.maxPages - 한 번에 조회할 최대 페이지 수 (기본값: 20)
+ * @returns 동기화 결과
+ *
+ * @example
+ * ```ts
+ * // 마지막 동기화 이후 변경분 반영
+ * const result = await syncPlaces({ trigger: "cron" });
+ * console.log(result.upsertedCount, result.deletedCount);
+ * ```
+ */
+export async function syncPlaces(options: {
+  trigger: PlaceSyncTrigger;
+  modifiedSince?: string;
+  full?: boolean;
+  maxPages?: number;
+}): Promise<PlaceSyncResult> {
+  const { trigger, full = false, maxPages = DEFAULT_MAX_PAGES } = options;
+
+  if (options.modifiedSince && !/^\d{8}$/.test(options.modifiedSince)) {
+    throw new Error("기준 수정일은 YYYYMMDD 형식이어야 합니다.");
+  }
+
+  const supabase = getServiceRoleClient();
+
+  // 비정상 종료로 남은 running 기록 정리 (정리하지 않으면 이후 실행이 모두 막힘)
+  const { error: staleError } = await supabase
+    .from("place_sync_runs")
+    .update({
+      status: "failed",
+      error_message: "실행 시간 초과 (비정상 종료)",
+      finished_at: new Date().toISOString(),
+    })
+    .eq("status", "running")
+    .lt("started_at", new Date(Date.now() - STALE_RUN_TIMEOUT_MS).toISOString());
+
+  if (staleError) {
+    throw new Error(`오래된 동기화 기록 정리 실패: ${staleError.message}`);
+  }
+
+  // 시작 지점 결정 (직접 지정 > 전체 동기화 > 실행 기록)
+  const start =
+    options.modifiedSince || full
+      ? { modifiedSince: options.modifiedSince || null, startPageNo: null, carriedMaxModified: null }
+      : await resolveSyncStart(supabase);
+
+  // 실행 기록 생성 (running 기록은 하나만 허용되므로 다른 실행이 있으면 유니크 제약 위반)
+  const { data: run, error: runError } = await supabase
+    .from("place_sync_runs")
+    .insert({
+      trigger,
+      status: "running",
+      modified_since: start.modifiedSince,
+      start_page_no: start.startPageNo ?? 1,
+    })
+    .select("id")
+    .single<{ id: string }>();
+
+  if (runError?.code === "23505") {
+    throw new PlaceSyncInProgressError();
+  }
+  if (runError || !run) {
+    throw new Error(`동기화 기록 생성 실패: ${runError?.message || "Unknown error"}`);
+  }
+
+  const today = toApiDate();
+  // 조회 중인 날짜 (null이면 날짜 조건 없이 전체 조회)
+  let day = start.modifiedSince;
+  // 다음에 조회할 페이지 (날짜별 조회에서 null이면 전체 건수를 먼저 조회)
+  let pageNo = start.startPageNo ?? (day ? null : 1);
+  let isDone = false;
+  let pagesFetched = 0;
+  let upsertedCount = 0;
+  let deletedCount = 0;
+  let maxModifiedTime = start.carriedMaxModified;
+
+  // 다음 날짜로 이동 (오늘까지 조회했으면 완료)
+  const moveToNextDay = () => {
+    if (day && day < today) {
+      day = addApiDays(day, 1);
+      pageNo = null;
+    } else {
+      isDone = true;
+    }
+  };
+
+  try {
+    while (!isDone && pagesFetched < maxPages) {
+      // 날짜별 조회는 마지막 페이지부터 조회하므로 전체 건수를 먼저 확인
+      if (pageNo === null) {
+        const modifiedtime = day;
+        const { pagination } = await runWithTourApiPriority("background", () =>
+          getAreaBasedSyncList({ modifiedtime, arrange: "D", numOfRows: 1, pageNo: 1 })
+        );
+        pagesFetched += 1;
+        pageNo = Math.ceil(pagination.totalCount / SYNC_PAGE_SIZE);
+        if (pageNo === 0) {
+          moveToNextDay();
+        }
+        continue;
+      }
+
+      // 배경 작업 우선순위로 호출 (사용자 요청이 먼저 처리됨)
+      const currentPageNo = pageNo;
+      const result = await runWithTourApiPriority("background", () =>
+        getAreaBasedSyncList({
+          modifiedtime: day || undefined,
+          arrange: "D",
+          numOfRows: SYNC_PAGE_SIZE,
+          pageNo: currentPageNo,
+        })
+      );
+      pagesFetched += 1;
+
+      const syncedAt = new Date().toISOString();
+      const visibleItems = result.items.filter((item) => item.showflag !== "0");
+      const hiddenIds = result.items
+        .filter((item) => item.showflag === "0")
+        .map((item) => item.contentid);
+
+      // 표출 콘텐츠 upsert (다시 표출된 콘텐츠는 소프트 삭제 해제)
+      if (visibleItems.length > 0) {
+        const { error } = await supabase
+          .from("places")
+          .upsert(
+            visibleItems.map((item) => toPlaceRow(item, syncedAt)),
+            { onConflict: "content_id" }
+          );
+        if (error) {
+          throw new Error(`places upsert 실패: ${error.message}`);
+        }
+        upsertedCount += visibleItems.length;
+      }
+
+      // 비표출 콘텐츠 소프트 삭제 (이미 삭제된 항목은 건너뜀)
+      if (hiddenIds.length > 0) {
+        const { data: deleted, error } = await supabase
+          .from("places")
+          .update({ show_flag: false, deleted_at: syncedAt, synced_at: syncedAt })
+          .in("content_id", hiddenIds)
+          .is("deleted_at", null)
+          .select("content_id");
+        if (error) {
+          throw new Error(`places 소프트 삭제 실패: ${error.message}`);
+        }
+        deletedCount += deleted?.length || 0;
+      }
+
+      // 가장 최근 수정일 갱신 (YYYYMMDDHHmmss는 문자열 비교로 순서 비교 가능)
+      for (const item of result.items) {
+        if (item.modifiedtime && (!maxModifiedTime || item.modifiedtime > maxModifiedTime)) {
+          maxModifiedTime = item.modifiedtime;
+        }
+      }
+
+      // 날짜별 조회는 앞 페이지로, 전체 조회는 뒤 페이지로 이동
+      if (day) {
+        if (pageNo > 1) {
+          pageNo -= 1;
+        } else {
+          moveToNextDay();
+        }
+      } else if (pageNo < result.pagination.totalPages) {
+        pageNo += 1;
+      } else {
+        isDone = true;
+      }
+    }
+
+    const status = isDone ? "success" : "partial";
+    const nextPageNo = isDone ? null : pageNo;
+    // 완료하면 다음 실행은 마지막으로 조회한 날짜부터, 중단하면 중단한 날짜부터 조회
+    const nextModifiedDate = isDone
+      ? day ?? (maxModifiedTime ? maxModifiedTime.slice(0, 8) : today)
+      : day;
+
+    // 완료 기록에 실패하면 이어서 진행할 위치를 알 수 없으므로 실패로 처리
+    // (다음 실행은 직전 성공/부분 완료 기록부터 다시 조회, upsert는 멱등)
+    const { error: finishError } = await supabase
+      .from("place_sync_runs")
+      .update({
+        status,
+        next_page_no: nextPageNo,
+        next_modified_date: nextModifiedDate,
+        max_modified_time: maxModifiedTime,
+        pages_fetched: pagesFetched,
+        upserted_count: upsertedCount,
+        deleted_count: deletedCount,
+        finished_at: new Date().toISOString(),
+      })
+      .eq("id", run.id);
+
+    if (finishError) {
+      throw new Error(`동기화 기록 갱신 실패: ${finishError.message}`);
+    }
+
+    return {
+      runId: run.id,
+      status,
+      modifiedSince: start.modifiedSince,
+      pagesFetched,
+      upsertedCount,
+      deletedCount,
+      nextPageNo,
+      nextModifiedDate,
+    };
+  } catch (error) {
+    console.error("관광지 카탈로그 동기화 실패:", error);
+
+    // 실패 기록 (기록 실패는 원래 에러를 가리지 않도록 무시)
+    await supabase
+      .from("place_sync_runs")
+      .update({
+        status: "failed",
+        pages_fetched: pagesFetched,
+        upserted_count: upsertedCount,
+        deleted_count: deletedCount,
+        error_message: error instanceof Error ? error.message : String(error),
+        finished_at: new Date().toISOString(),
+      })
+      .eq("id", run.id);
+
+    throw error;
+  }
+}
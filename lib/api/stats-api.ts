@@ -11,59 +11,26 @@
  * 3. 전체 통계 요약 생성
  *
  * 성능 최적화:
- * - 병렬 API 호출 (Promise.all)
+ * - 병렬 API 호출 (Promise.all, 호출 속도는 tour-api.ts 요청 스케줄러가 제한)
+ * - 배경 작업 우선순위로 호출 (사용자 요청이 먼저 처리됨)
  * - 최소 데이터 조회 (numOfRows: 1)
- * - 에러 처리 (개별 실패 시 해당 항목만 제외)
+ * - 에러 처리 (개별 실패 시 해당 항목만 제외, 일일 예산 소진 시 전체 실패)
  *
  * @see {@link /docs/PRD.md} - 통계 대시보드 요구사항 (2.6절)
  */
 
-import { getAreaCode, getAreaBasedListWithPagination } from "./tour-api";
+import { getAreaCode, getAreaBasedListWithPagination, runWithTourApiPriority } from "./tour-api";
+import { isTourApiError } from "./tour-api-errors";
 import { CONTENT_TYPE } from "@/lib/types/tour";
 import type { RegionStats, TypeStats, StatsSummary } from "@/lib/types/stats";
+import { getContentTypeLabel } from "@/lib/i18n/labels";
+import { ko } from "@/lib/i18n/messages/ko";
 
 /**
- * Content Type ID를 한글 이름으로 변환
+ * 일일 예산 소진 에러 여부
  */
-function getContentTypeName(contentTypeId: string): string {
-  switch (contentTypeId) {
-    case CONTENT_TYPE.TOURIST_SPOT:
-      return "관광지";
-    case CONTENT_TYPE.CULTURAL_FACILITY:
-      return "문화시설";
-    case CONTENT_TYPE.FESTIVAL:
-      return "축제/행사";
-    case CONTENT_TYPE.TRAVEL_COURSE:
-      return "여행코스";
-    case CONTENT_TYPE.LEISURE_SPORTS:
-      return "레포츠";
-    case CONTENT_TYPE.ACCOMMODATION:
-      return "숙박";
-    case CONTENT_TYPE.SHOPPING:
-      return "쇼핑";
-    case CONTENT_TYPE.RESTAURANT:
-      return "음식점";
-    default:
-      return "기타";
-  }
-}
-
-/**
- * 딜레이 함수 (ms 단위)
- */
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-/**
- * 배열을 배치로 나누기
- */
-function chunkArray<T>(array: T[], size: number): T[][] {
-  const chunks: T[][] = [];
-  for (let i = 0; i < array.length; i += size) {
-    chunks.push(array.slice(i, i + size));
-  }
-  return chunks;
+function isQuotaExceeded(error: unknown): boolean {
+  return isTourApiError(error) && error.kind === "quota_exceeded";
 }
 
 /**
@@ -85,52 +52,41 @@ export async function getRegionStats(): Promise<RegionStats[]> {
     console.group("📊 지역별 통계 수집 시작");
 
     // 시/도 목록 조회 (상위 지역 코드 없이 호출하면 시/도만 반환)
-    const areaCodes = await getAreaCode();
+    const areaCodes = await runWithTourApiPriority("background", () => getAreaCode());
     console.log(`✅ 시/도 목록 조회 완료: ${areaCodes.length}개`);
 
-    // 배치 처리: 한 번에 3개씩 처리 (rate limit 방지)
-    const BATCH_SIZE = 3;
-    const BATCH_DELAY = 500; // 배치 간 딜레이 (ms)
-    const batches = chunkArray(areaCodes, BATCH_SIZE);
-    const allResults: (RegionStats | null)[] = [];
-
-    for (let i = 0; i < batches.length; i++) {
-      const batch = batches[i];
-      console.log(`  📦 배치 ${i + 1}/${batches.length} 처리 중... (${batch.length}개 지역)`);
-
-      // 배치 내에서는 병렬 처리
-      const batchPromises = batch.map(async (area): Promise<RegionStats | null> => {
-        try {
-          // numOfRows: 1로 최소한의 데이터만 조회 (totalCount만 필요)
-          const result = await getAreaBasedListWithPagination({
-            areaCode: area.code,
-            numOfRows: 1,
-            pageNo: 1,
-          });
-
-          const count = result.pagination.totalCount || 0;
-          console.log(`    📍 ${area.name} (${area.code}): ${count}개`);
-
-          return {
-            code: area.code,
-            name: area.name,
-            count,
-          };
-        } catch (error) {
-          // 개별 지역 조회 실패 시 해당 지역만 제외하고 계속 진행
-          console.error(`    ❌ ${area.name} (${area.code}) 조회 실패:`, error);
-          return null;
-        }
-      });
-
-      const batchResults = await Promise.all(batchPromises);
-      allResults.push(...batchResults);
-
-      // 마지막 배치가 아니면 딜레이 추가
-      if (i < batches.length - 1) {
-        await delay(BATCH_DELAY);
-      }
-    }
+    // 모든 지역을 병렬로 요청 (호출 속도는 요청 스케줄러가 제한)
+    const allResults = await runWithTourApiPriority("background", () =>
+      Promise.all(
+        areaCodes.map(async (area): Promise<RegionStats | null> => {
+          try {
+            // numOfRows: 1로 최소한의 데이터만 조회 (totalCount만 필요)
+            const result = await getAreaBasedListWithPagination({
+              areaCode: area.code,
+              numOfRows: 1,
+              pageNo: 1,
+            });
+
+            const count = result.pagination.totalCount || 0;
+            console.log(`    📍 ${area.name} (${area.code}): ${count}개`);
+
+            return {
+              code: area.code,
+              name: area.name,
+              count,
+            };
+          } catch (error) {
+            // 일일 예산 소진은 다른 항목도 모두 실패하므로 전체 실패로 처리
+            if (isQuotaExceeded(error)) {
+              throw error;
+            }
+            // 개별 지역 조회 실패 시 해당 지역만 제외하고 계속 진행
+            console.error(`    ❌ ${area.name} (${area.code}) 조회 실패:`, error);
+            return null;
+          }
+        })
+      )
+    );
 
     // null 값 제거 및 정렬 (개수 기준 내림차순)
     const stats = allResults
@@ -170,50 +126,40 @@ export async function getTypeStats(): Promise<TypeStats[]> {
     const contentTypeIds = Object.values(CONTENT_TYPE);
     console.log(`✅ 타입 목록: ${contentTypeIds.length}개`);
 
-    // 배치 처리: 한 번에 3개씩 처리 (rate limit 방지)
-    const BATCH_SIZE = 3;
-    const BATCH_DELAY = 500; // 배치 간 딜레이 (ms)
-    const batches = chunkArray(contentTypeIds, BATCH_SIZE);
-    const allResults: (TypeStats | null)[] = [];
-
-    for (let i = 0; i < batches.length; i++) {
-      const batch = batches[i];
-      console.log(`  📦 배치 ${i + 1}/${batches.length} 처리 중... (${batch.length}개 타입)`);
-
-      // 배치 내에서는 병렬 처리
-      const batchPromises = batch.map(async (contentTypeId): Promise<TypeStats | null> => {
-        try {
-          // numOfRows: 1로 최소한의 데이터만 조회 (totalCount만 필요)
-          const result = await getAreaBasedListWithPagination({
-            contentTypeId,
-            numOfRows: 1,
-            pageNo: 1,
-          });
-
-          const count = result.pagination.totalCount || 0;
-          const name = getContentTypeName(contentTypeId);
-          console.log(`    🎯 ${name} (${contentTypeId}): ${count}개`);
-
-          return {
-            contentTypeId,
-            name,
-            count,
-          };
-        } catch (error) {
-          // 개별 타입 조회 실패 시 해당 타입만 제외하고 계속 진행
-          console.error(`    ❌ 타입 ${contentTypeId} 조회 실패:`, error);
-          return null;
-        }
-      });
-
-      const batchResults = await Promise.all(batchPromises);
-      allResults.push(...batchResults);
-
-      // 마지막 배치가 아니면 딜레이 추가
-      if (i < batches.length - 1) {
-        await delay(BATCH_DELAY);
-      }
-    }
+    // 모든 타입을 병렬로 요청 (호출 속도는 요청 스케줄러가 제한)
+    const allResults = await runWithTourApiPriority("background", () =>
+      Promise.all(
+        contentTypeIds.map(async (contentTypeId): Promise<TypeStats | null> => {
+          try {
+            // numOfRows: 1로 최소한의 데이터만 조회 (totalCount만 필요)
+            const result = await getAreaBasedListWithPagination({
+              contentTypeId,
+              numOfRows: 1,
+              pageNo: 1,
+            });
+
+            const count = result.pagination.totalCount || 0;
+            // 화면 표시 이름은 컴포넌트에서 현재 언어로 다시 변환 (contentTypeId 기준)
+            const name = getContentTypeLabel(ko, contentTypeId);
+            console.log(`    🎯 ${name} (${contentTypeId}): ${count}개`);
+
+            return {
+              contentTypeId,
+              name,
+              count,
+            };
+          } catch (error) {
+            // 일일 예산 소진은 다른 항목도 모두 실패하므로 전체 실패로 처리
+            if (isQuotaExceeded(error)) {
+              throw error;
+            }
+            // 개별 타입 조회 실패 시 해당 타입만 제외하고 계속 진행
+            console.error(`    ❌ 타입 ${contentTypeId} 조회 실패:`, error);
+            return null;
+          }
+        })
+      )
+    );
 
     // null 값 제거 및 정렬 (개수 기준 내림차순)
     const stats = allResults
@@ -259,10 +205,12 @@ export async function getStatsSummary(): Promise<StatsSummary> {
       getRegionStats(),
       getTypeStats(),
       // 전체 관광지 수 조회 (areaCode, contentTypeId 없이)
-      getAreaBasedListWithPagination({
-        numOfRows: 1,
-        pageNo: 1,
-      }),
+      runWithTourApiPriority("background", () =>
+        getAreaBasedListWithPagination({
+          numOfRows: 1,
+          pageNo: 1,
+        })
+      ),
     ]);
 
     const totalCount = totalResult.pagination.totalCount || 0;
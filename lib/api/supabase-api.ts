@@ -247,14 +247,24 @@ export async function getBookmark(contentId: string): Promise<boolean> {
   }
 }
 
+/**
+ * 북마크 추가 실패 코드 (화면은 error 메시지 대신 이 코드로 분기)
+ * - unauthorized: 로그인하지 않음
+ * - user_not_found: Supabase 사용자 정보 없음
+ * - duplicate: 이미 북마크된 관광지
+ * - failed: 그 밖의 실패
+ */
+export type AddBookmarkErrorCode = "unauthorized" | "user_not_found" | "duplicate" | "failed";
+
 /**
  * 북마크 추가
  * @param contentId 관광지 콘텐츠 ID
- * @returns 성공 여부
+ * @returns 성공 여부 (실패 시 실패 코드 포함)
  */
 export async function addBookmark(contentId: string): Promise<{
   success: boolean;
   error?: string;
+  code?: AddBookmarkErrorCode;
 }> {
   try {
     // Clerk 인증 확인
@@ -263,6 +273,7 @@ export async function addBookmark(contentId: string): Promise<{
       return {
         success: false,
         error: "로그인이 필요합니다.",
+        code: "unauthorized",
       };
     }
 
@@ -272,6 +283,7 @@ export async function addBookmark(contentId: string): Promise<{
       return {
         success: false,
         error: "사용자 정보를 찾을 수 없습니다.",
+        code: "user_not_found",
       };
     }
 
@@ -290,12 +302,14 @@ export async function addBookmark(contentId: string): Promise<{
         return {
           success: false,
           error: "이미 북마크된 관광지입니다.",
+          code: "duplicate",
         };
       }
       console.error("북마크 추가 실패:", error);
       return {
         success: false,
         error: "북마크 추가에 실패했습니다.",
+        code: "failed",
       };
     }
 
@@ -305,6 +319,7 @@ export async function addBookmark(contentId: string): Promise<{
     return {
       success: false,
       error: "북마크 추가 중 오류가 발생했습니다.",
+      code: "failed",
     };
   }
 }
@@ -0,0 +1,353 @@
+/**
+ * @file tour-api-errors.ts
+ * @description 한국관광공사 API 에러 타입 정의
+ *
+ * Tour API 호출 실패를 종류별 에러 클래스로 구분합니다.
+ * UI는 에러 메시지 문자열 대신 kind를 보고 복구 방법(재시도, 대기, 홈으로 이동 등)을 선택합니다.
+ *
+ * 에러 종류:
+ * - rate_limited: 요청 과다 (HTTP 429, 잠시 후 재시도)
+ * - quota_exceeded: 일일 호출 한도 초과 (resultCode 22, 다음 날 재시도)
+ * - invalid_key: 서비스 키 오류 (resultCode 20, 21, 30~33)
+ * - not_found: 데이터/서비스 없음 (HTTP 404, resultCode 03, 12)
+ * - upstream: 외부 API 서버 오류 (HTTP 5xx, resultCode 01, 02, 04, 05, 99 등)
+ * - network: 네트워크 연결 실패
+ * - schema: 응답 형식 오류 (zod 스키마 위반)
+ * - invalid_request: 요청 조건 오류 (필수 파라미터 누락, 날짜 형식 오류 등 호출 전 검증 실패)
+ *
+ * 서버 컴포넌트에서 클라이언트 컴포넌트로 전달할 때는 클래스 정보가 사라지므로
+ * toJSON()으로 만든 TourApiErrorInfo(일반 객체)를 전달합니다.
+ *
+ * @see {@link /lib/api/tour-api.ts} - fetchWithRetry
+ * @see {@link /components/ui/error.tsx} - 에러 종류별 복구 UI
+ */
+
+import type { z } from "zod";
+import { ko } from "@/lib/i18n/messages/ko";
+
+/**
+ * 에러 종류
+ */
+export type TourApiErrorKind =
+  | "rate_limited"
+  | "quota_exceeded"
+  | "invalid_key"
+  | "not_found"
+  | "upstream"
+  | "network"
+  | "schema"
+  | "invalid_request";
+
+/**
+ * 직렬화 가능한 에러 정보 (서버 → 클라이언트 전달, 프록시 응답 본문에 사용)
+ */
+export interface TourApiErrorInfo {
+  /** 에러 종류 */
+  kind: TourApiErrorKind;
+  /** 사용자에게 표시할 메시지 */
+  message: string;
+  /** 엔드포인트 이름 (예: areaBasedList2) */
+  endpoint: string;
+  /** API 결과 코드 (resultCode) */
+  resultCode?: string;
+  /** HTTP 상태 코드 */
+  status?: number;
+  /** 시도 횟수 (재시도 포함) */
+  attempts: number;
+  /** 다시 시도할 수 있을 때까지 남은 시간 (ms) */
+  retryAfterMs?: number;
+  /** 개발자용 상세 정보 (resultMsg, 스키마 위반 내역 등) */
+  detail?: string;
+}
+
+/**
+ * 에러 생성 옵션
+ */
+interface TourApiErrorOptions {
+  endpoint: string;
+  resultCode?: string;
+  status?: number;
+  attempts?: number;
+  retryAfterMs?: number;
+  detail?: string;
+  /** 사용자 메시지 (지정하지 않으면 종류별 기본 메시지) */
+  message?: string;
+  /** 재시도 가능 여부 (지정하지 않으면 종류별 기본값) */
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+/**
+ * 종류별 기본 사용자 메시지 (서버 로그/기본값용 한국어 카탈로그)
+ * 화면에는 ui/error.tsx가 에러 종류(kind)로 현재 언어의 메시지를 다시 조회해 표시합니다.
+ */
+const DEFAULT_MESSAGES: Record<TourApiErrorKind, string> = ko.tourApiErrors;
+
+/**
+ * 종류별 기본 재시도 가능 여부 (fetchWithRetry 자동 재시도 기준)
+ */
+const DEFAULT_RETRYABLE: Record<TourApiErrorKind, boolean> = {
+  rate_limited: true,
+  quota_exceeded: false,
+  invalid_key: false,
+  not_found: false,
+  upstream: true,
+  network: true,
+  schema: false,
+  invalid_request: false,
+};
+
+/**
+ * Tour API 에러 (모든 Tour API 에러의 상위 클래스)
+ */
+export class TourApiError extends Error {
+  /** 에러 종류 */
+  readonly kind: TourApiErrorKind;
+  /** 엔드포인트 이름 */
+  readonly endpoint: string;
+  /** API 결과 코드 */
+  readonly resultCode?: string;
+  /** HTTP 상태 코드 */
+  readonly status?: number;
+  /** 다시 시도할 수 있을 때까지 남은 시간 (ms) */
+  readonly retryAfterMs?: number;
+  /** 개발자용 상세 정보 */
+  readonly detail?: string;
+  /** 자동 재시도 가능 여부 */
+  readonly retryable: boolean;
+  /** 시도 횟수 (fetchWithRetry에서 최종 실패 시 기록) */
+  attempts: number;
+
+  constructor(kind: TourApiErrorKind, options: TourApiErrorOptions) {
+    super(options.message || DEFAULT_MESSAGES[kind], { cause: options.cause });
+    this.name = "TourApiError";
+    this.kind = kind;
+    this.endpoint = options.endpoint;
+    this.resultCode = options.resultCode;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.detail = options.detail;
+    this.retryable = options.retryable ?? DEFAULT_RETRYABLE[kind];
+    this.attempts = options.attempts ?? 1;
+  }
+
+  /**
+   * 직렬화 가능한 에러 정보로 변환
+   */
+  toJSON(): TourApiErrorInfo {
+    return {
+      kind: this.kind,
+      message: this.message,
+      endpoint: this.endpoint,
+      resultCode: this.resultCode,
+      status: this.status,
+      attempts: this.attempts,
+      retryAfterMs: this.retryAfterMs,
+      detail: this.detail,
+    };
+  }
+}
+
+/**
+ * 요청 과다 에러 (HTTP 429)
+ */
+export class TourApiRateLimitError extends TourApiError {
+  constructor(options: TourApiErrorOptions) {
+    super("rate_limited", options);
+    this.name = "TourApiRateLimitError";
+  }
+}
+
+/**
+ * 일일 호출 한도 초과 에러 (resultCode 22)
+ */
+export class TourApiQuotaExceededError extends TourApiError {
+  constructor(options: TourApiErrorOptions) {
+    super("quota_exceeded", { retryAfterMs: getMsUntilQuotaReset(), ...options });
+    this.name = "TourApiQuotaExceededError";
+  }
+}
+
+/**
+ * 서비스 키 오류 (미등록, 만료, 접근 거부 등)
+ */
+export class TourApiInvalidKeyError extends TourApiError {
+  constructor(options: TourApiErrorOptions) {
+    super("invalid_key", options);
+    this.name = "TourApiInvalidKeyError";
+  }
+}
+
+/**
+ * 데이터/서비스 없음 에러
+ */
+export class TourApiNotFoundError extends TourApiError {
+  constructor(options: TourApiErrorOptions) {
+    super("not_found", options);
+    this.name = "TourApiNotFoundError";
+  }
+}
+
+/**
+ * 외부 API 서버 오류 (HTTP 5xx, 서버측 resultCode)
+ */
+export class TourApiUpstreamError extends TourApiError {
+  constructor(options: TourApiErrorOptions) {
+    super("upstream", options);
+    this.name = "TourApiUpstreamError";
+  }
+}
+
+/**
+ * 네트워크 연결 실패
+ */
+export class TourApiNetworkError extends TourApiError {
+  constructor(options: TourApiErrorOptions) {
+    super("network", options);
+    this.name = "TourApiNetworkError";
+  }
+}
+
+/**
+ * 응답 스키마 위반 에러
+ *
+ * 응답이 zod 스키마와 맞지 않을 때 발생합니다. (API 응답 구조 변경 감지용)
+ * 재시도해도 결과가 같으므로 재시도하지 않습니다.
+ */
+export class TourApiSchemaError extends TourApiError {
+  /** 스키마 위반 내역 */
+  readonly issues: z.ZodIssue[];
+
+  constructor(options: TourApiErrorOptions & { issues?: z.ZodIssue[] }) {
+    const issues = options.issues ?? [];
+    const summary = issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join(", ");
+    super("schema", { detail: summary || undefined, ...options });
+    this.name = "TourApiSchemaError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * 요청 조건 오류 (API 호출 전 파라미터 검증 실패)
+ *
+ * 호출자가 잘못된 조건을 넘긴 경우이므로 재시도하지 않으며, 프록시는 400으로 응답합니다.
+ * 검증 실패 사유는 detail에 기록합니다.
+ */
+export class TourApiValidationError extends TourApiError {
+  constructor(options: TourApiErrorOptions) {
+    super("invalid_request", options);
+    this.name = "TourApiValidationError";
+  }
+}
+
+/**
+ * 일일 호출 한도가 초기화되는 시각(한국 시간 자정)까지 남은 시간 (ms)
+ */
+export function getMsUntilQuotaReset(now: Date = new Date()): number {
+  const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const kstNow = now.getTime() + KST_OFFSET_MS;
+  return DAY_MS - (kstNow % DAY_MS);
+}
+
+/**
+ * API 결과 코드(resultCode)에 해당하는 에러 생성
+ *
+ * 공공데이터포털 공통 에러 코드를 기준으로 분류합니다.
+ *
+ * @param resultCode - 결과 코드 (예: "22", "30")
+ * @param resultMsg - 결과 메시지
+ * @param endpoint - 엔드포인트 이름
+ */
+export function createTourApiErrorFromResultCode(
+  resultCode: string,
+  resultMsg: string | undefined,
+  endpoint: string
+): TourApiError {
+  const options: TourApiErrorOptions = {
+    endpoint,
+    resultCode,
+    detail: `${resultCode} - ${resultMsg || "Unknown error"}`,
+  };
+
+  switch (resultCode) {
+    case "22":
+      return new TourApiQuotaExceededError(options);
+    case "20":
+    case "21":
+    case "30":
+    case "31":
+    case "32":
+    case "33":
+      return new TourApiInvalidKeyError(options);
+    case "03":
+    case "12":
+      return new TourApiNotFoundError(options);
+    case "10":
+    case "11":
+      // 요청 파라미터 오류는 재시도해도 같은 결과
+      return new TourApiUpstreamError({ ...options, retryable: false });
+    default:
+      return new TourApiUpstreamError(options);
+  }
+}
+
+/**
+ * 직렬화된 에러 정보로 에러 객체 복원 (프록시 응답 → 클라이언트)
+ */
+export function createTourApiErrorFromInfo(info: TourApiErrorInfo): TourApiError {
+  const options: TourApiErrorOptions = { ...info };
+
+  switch (info.kind) {
+    case "rate_limited":
+      return new TourApiRateLimitError(options);
+    case "quota_exceeded":
+      return new TourApiQuotaExceededError(options);
+    case "invalid_key":
+      return new TourApiInvalidKeyError(options);
+    case "not_found":
+      return new TourApiNotFoundError(options);
+    case "network":
+      return new TourApiNetworkError(options);
+    case "schema":
+      return new TourApiSchemaError(options);
+    case "invalid_request":
+      return new TourApiValidationError(options);
+    default:
+      return new TourApiUpstreamError(options);
+  }
+}
+
+/**
+ * Tour API 에러 여부 확인
+ */
+export function isTourApiError(error: unknown): error is TourApiError {
+  return error instanceof TourApiError;
+}
+
+/**
+ * 알 수 없는 에러를 Tour API 에러로 변환 (Tour API 에러가 아니면 upstream 에러로 감쌈)
+ *
+ * @param error - 발생한 에러
+ * @param endpoint - 호출한 엔드포인트 이름
+ */
+export function normalizeTourApiError(error: unknown, endpoint: string): TourApiError {
+  if (isTourApiError(error)) {
+    return error;
+  }
+  return new TourApiUpstreamError({
+    endpoint,
+    detail: error instanceof Error ? error.message : String(error),
+    cause: error,
+  });
+}
+
+/**
+ * 에러를 직렬화 가능한 에러 정보로 변환 (Tour API 에러가 아니면 null)
+ */
+export function toTourApiErrorInfo(error: unknown): TourApiErrorInfo | null {
+  return isTourApiError(error) ? error.toJSON() : null;
+}
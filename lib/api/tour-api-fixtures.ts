@@ -0,0 +1,425 @@
+/**
+ * @file tour-api-fixtures.ts
+ * @description 한국관광공사 API 오프라인 모드 (응답 녹화/재생)
+ *
+ * 서비스 키나 네트워크 없이도 로컬 개발과 시연이 가능하도록
+ * 실제 API 응답을 JSON 파일(fixtures)로 저장하고 다시 사용합니다.
+ *
+ * TOUR_API_MODE 환경변수:
+ * - live (기본값): 실제 API 호출
+ * - record: 실제 API를 호출하고, 정상 응답을 fixtures/tour-api/{엔드포인트}/에 저장
+ *   (외국어 서비스 응답은 fixtures/tour-api/{서비스}/{엔드포인트}/에 저장)
+ * - mock: API를 호출하지 않고 저장된 응답으로 응답 (서비스 키 불필요)
+ *
+ * mock 모드의 응답 규칙 (항상 같은 요청에 같은 응답):
+ * - 목록 엔드포인트(지역 기반, 키워드 검색, 위치 기반, 축제, 동기화 목록)는
+ *   저장된 모든 목록 응답의 관광지를 모은 카탈로그에서 필터, 정렬, 페이지 나눔을 직접 수행
+ *   (녹화하지 않은 페이지나 검색어도 카탈로그 범위 안에서 응답)
+ * - 그 외 엔드포인트는 같은 파라미터로 저장된 응답을 그대로 반환
+ *   (상세 정보는 저장된 응답이 없으면 카탈로그의 관광지 정보로 대체)
+ * - 저장된 응답이 없으면 빈 목록 반환
+ * - 언어별 서비스(KorService2, EngService2 등)의 응답은 서로 섞이지 않음
+ *
+ * 파일 시스템을 사용하므로 서버 사이드 전용입니다.
+ *
+ * @see {@link /lib/api/tour-api.ts} - requestWithRetry
+ * @see {@link /fixtures/tour-api/README.md} - fixture 파일 형식
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { getTourCacheKey } from "@/lib/api/tour-cache";
+import { getDistanceMeters } from "@/lib/utils/geo";
+
+/**
+ * API 호출 모드
+ */
+export type TourApiMode = "live" | "record" | "mock";
+
+/**
+ * fixture 파일 형식
+ */
+export interface TourApiFixture {
+  /** 서비스 이름 (예: EngService2, 없으면 KorService2) */
+  service?: string;
+  /** 엔드포인트 이름 (예: areaBasedList2) */
+  endpoint: string;
+  /** 요청 파라미터 (서비스 키, 공통 파라미터 제외) */
+  params: Record<string, string>;
+  /** 녹화 시각 (ISO 8601) */
+  recordedAt: string;
+  /** API 응답 본문 (JSON) */
+  response: unknown;
+}
+
+/**
+ * fixture 저장 경로
+ */
+const FIXTURES_DIR = path.join(process.cwd(), "fixtures", "tour-api");
+
+/**
+ * 기본 서비스 (fixture 경로와 키에 서비스 이름을 붙이지 않음)
+ */
+const DEFAULT_SERVICE = "KorService2";
+
+/**
+ * fixture 키에서 제외하는 파라미터 (모든 요청에 동일하거나 비밀 값)
+ */
+const IGNORED_PARAMS = ["serviceKey", "MobileOS", "MobileApp", "_type"];
+
+/**
+ * 카탈로그로 응답하는 목록 엔드포인트
+ */
+const LIST_ENDPOINTS = [
+  "areaBasedList2",
+  "searchKeyword2",
+  "locationBasedList2",
+  "searchFestival2",
+  "areaBasedSyncList2",
+];
+
+/**
+ * 카탈로그 관광지 항목 (API 원본 필드)
+ */
+type CatalogItem = Record<string, string>;
+
+let cachedMode: TourApiMode | null = null;
+
+/**
+ * fixture 인덱스 (fixture 키 → 응답 본문), mock 모드에서 처음 사용할 때 로드
+ */
+let fixtureIndex: Promise<Map<string, TourApiFixture>> | null = null;
+
+/**
+ * 저장된 응답이 없다고 이미 알린 fixture 키 (같은 경고 반복 방지)
+ */
+const reportedMisses = new Set<string>();
+
+/**
+ * 현재 API 호출 모드 (TOUR_API_MODE, 기본값 live)
+ */
+export function getTourApiMode(): TourApiMode {
+  if (cachedMode) {
+    return cachedMode;
+  }
+
+  const value = (process.env.TOUR_API_MODE || "live").trim().toLowerCase();
+  if (value === "live" || value === "record" || value === "mock") {
+    cachedMode = value;
+  } else {
+    console.warn(`⚠️ 알 수 없는 TOUR_API_MODE 값(${value})입니다. live 모드로 동작합니다.`);
+    cachedMode = "live";
+  }
+
+  return cachedMode;
+}
+
+/**
+ * 요청 URL에서 서비스, 엔드포인트 이름과 파라미터 추출 (서비스 키, 공통 파라미터 제외)
+ */
+function parseRequest(url: string): { service: string; endpoint: string; params: Record<string, string> } {
+  const parsed = new URL(url);
+  for (const name of IGNORED_PARAMS) {
+    parsed.searchParams.delete(name);
+  }
+  parsed.searchParams.sort();
+  const [service, endpoint] = parsed.pathname.split("/").slice(-2);
+
+  return {
+    service: service || DEFAULT_SERVICE,
+    endpoint: endpoint || "",
+    params: Object.fromEntries(parsed.searchParams),
+  };
+}
+
+/**
+ * fixture 키 생성 (서비스 + 엔드포인트 + 정렬된 파라미터)
+ *
+ * @example
+ * ```ts
+ * getFixtureKey("KorService2", "areaCode2", { areaCode: "1" }); // "areaCode2?areaCode=1"
+ * getFixtureKey("EngService2", "areaCode2", { areaCode: "1" }); // "EngService2/areaCode2?areaCode=1"
+ * ```
+ */
+function getFixtureKey(service: string, endpoint: string, params: Record<string, string>): string {
+  const pathname = service === DEFAULT_SERVICE ? `/${endpoint}` : `/${service}/${endpoint}`;
+  return getTourCacheKey(`${pathname}?${new URLSearchParams(params).toString()}`).slice(1);
+}
+
+/**
+ * fixture 파일 경로 생성
+ * (파라미터를 읽을 수 있는 범위에서 파일 이름에 남기고, 충돌 방지용 해시를 붙임)
+ */
+function getFixturePath(service: string, endpoint: string, params: Record<string, string>): string {
+  const key = getFixtureKey(service, endpoint, params);
+  const hash = createHash("sha1").update(key).digest("hex").slice(0, 10);
+  const slug =
+    Object.entries(params)
+      .map(([name, value]) => `${name}-${value}`)
+      .join("_")
+      .replace(/[^A-Za-z0-9_-]/g, "")
+      .slice(0, 80) || "default";
+
+  const directory =
+    service === DEFAULT_SERVICE ? path.join(FIXTURES_DIR, endpoint) : path.join(FIXTURES_DIR, service, endpoint);
+  return path.join(directory, `${slug}.${hash}.json`);
+}
+
+/**
+ * 폴더 안의 모든 JSON 파일 경로 (하위 폴더 포함, 이름순)
+ */
+async function listFixtureFiles(directory: string): Promise<string[]> {
+  const entries = (await readdir(directory, { withFileTypes: true })).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+  const files: string[] = [];
+  for (const entry of entries) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFixtureFiles(entryPath)));
+    } else if (entry.name.endsWith(".json")) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * 저장된 fixture 파일을 모두 읽어 인덱스 생성
+ * (파일 이름 순서로 읽으므로 결과가 항상 같음)
+ */
+async function loadFixtureIndex(): Promise<Map<string, TourApiFixture>> {
+  const index = new Map<string, TourApiFixture>();
+
+  let files: string[];
+  try {
+    files = await listFixtureFiles(FIXTURES_DIR);
+  } catch {
+    console.warn(`⚠️ fixture 폴더(${FIXTURES_DIR})가 없습니다. TOUR_API_MODE=record로 응답을 먼저 저장하세요.`);
+    return index;
+  }
+
+  for (const file of files) {
+    try {
+      const fixture = JSON.parse(await readFile(file, "utf-8")) as TourApiFixture;
+      fixture.service ??= DEFAULT_SERVICE;
+      index.set(getFixtureKey(fixture.service, fixture.endpoint, fixture.params), fixture);
+    } catch (error) {
+      console.warn(`⚠️ fixture 파일을 읽을 수 없습니다 (${path.relative(FIXTURES_DIR, file)}):`, error);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * fixture 인덱스 조회 (처음 한 번만 로드)
+ */
+function getFixtureIndex(): Promise<Map<string, TourApiFixture>> {
+  fixtureIndex ??= loadFixtureIndex();
+  return fixtureIndex;
+}
+
+/**
+ * 응답 본문에서 항목 배열 추출 (items가 ""이거나 item이 단일 객체인 경우 포함)
+ */
+function getResponseItems(response: unknown): CatalogItem[] {
+  const items = (response as { response?: { body?: { items?: unknown } } })?.response?.body?.items;
+  if (!items || typeof items !== "object" || !("item" in items) || !items.item) {
+    return [];
+  }
+  return (Array.isArray(items.item) ? items.item : [items.item]) as CatalogItem[];
+}
+
+/**
+ * 서비스의 목록 응답에 포함된 모든 관광지로 카탈로그 생성 (contentid 기준 중복 제거, 최신 수정본 우선)
+ */
+function buildCatalog(index: Map<string, TourApiFixture>, service: string): CatalogItem[] {
+  const catalog = new Map<string, CatalogItem>();
+
+  for (const fixture of index.values()) {
+    if (fixture.service !== service || !LIST_ENDPOINTS.includes(fixture.endpoint)) {
+      continue;
+    }
+    for (const raw of getResponseItems(fixture.response)) {
+      // 요청마다 달라지는 값(거리)은 제외하고 모든 값을 문자열로 통일
+      const item: CatalogItem = {};
+      for (const [field, value] of Object.entries(raw)) {
+        if (field !== "dist" && value !== null && value !== undefined) {
+          item[field] = String(value);
+        }
+      }
+
+      const existing = catalog.get(item.contentid);
+      if (!existing || (item.modifiedtime || "") > (existing.modifiedtime || "")) {
+        catalog.set(item.contentid, item);
+      }
+    }
+  }
+
+  return Array.from(catalog.values()).sort((a, b) => a.contentid.localeCompare(b.contentid));
+}
+
+/**
+ * 카탈로그에서 요청 파라미터에 맞는 목록 조회 (필터 → 정렬 → 페이지 나눔)
+ *
+ * arrange: A/O 제목순, C/Q 수정일순, D/R 생성일순, E/S 거리순 (O/Q/R/S는 대표이미지가 있는 항목만)
+ */
+function queryCatalog(
+  catalog: CatalogItem[],
+  endpoint: string,
+  params: Record<string, string>
+): unknown {
+  const equals = (field: string, param: string) => (item: CatalogItem) =>
+    !params[param] || item[field] === params[param];
+
+  let items = catalog
+    .filter(equals("areacode", "areaCode"))
+    .filter(equals("sigungucode", "sigunguCode"))
+    .filter(equals("contenttypeid", "contentTypeId"))
+    .filter(equals("cat1", "cat1"))
+    .filter(equals("cat2", "cat2"))
+    .filter(equals("cat3", "cat3"));
+
+  if (endpoint === "searchKeyword2" && params.keyword) {
+    const keyword = params.keyword.trim().toLowerCase();
+    items = items.filter((item) =>
+      [item.title, item.addr1, item.addr2].some((text) => text?.toLowerCase().includes(keyword))
+    );
+  }
+
+  if (endpoint === "searchFestival2") {
+    // 기간이 겹치는 행사만 (종료일이 검색 시작일 이후, 시작일이 검색 종료일 이전)
+    items = items.filter(
+      (item) =>
+        item.eventstartdate &&
+        (!params.eventStartDate || (item.eventenddate || item.eventstartdate) >= params.eventStartDate) &&
+        (!params.eventEndDate || item.eventstartdate <= params.eventEndDate)
+    );
+  }
+
+  if (endpoint === "locationBasedList2") {
+    const lng = Number(params.mapX);
+    const lat = Number(params.mapY);
+    const radius = Number(params.radius) || 0;
+    items = items
+      .map((item) => ({
+        ...item,
+        dist: getDistanceMeters(lat, lng, Number(item.mapy), Number(item.mapx)).toFixed(2),
+      }))
+      .filter((item) => Number(item.dist) <= radius);
+  }
+
+  if (endpoint === "areaBasedSyncList2") {
+    // 실제 API와 같이 modifiedtime은 접두 일치 (YYYYMMDD면 해당 날짜의 변경분만)
+    items = items
+      .filter((item) => !params.modifiedtime || (item.modifiedtime || "").startsWith(params.modifiedtime))
+      .map((item) => ({ showflag: "1", ...item }));
+  }
+
+  const arrange = params.arrange || "";
+  if (["O", "Q", "R", "S"].includes(arrange)) {
+    items = items.filter((item) => item.firstimage);
+  }
+  if (arrange === "A" || arrange === "O") {
+    items = [...items].sort((a, b) => a.title.localeCompare(b.title, "ko"));
+  } else if (arrange === "C" || arrange === "Q") {
+    items = [...items].sort((a, b) => (b.modifiedtime || "").localeCompare(a.modifiedtime || ""));
+  } else if (arrange === "D" || arrange === "R") {
+    items = [...items].sort((a, b) => (b.createdtime || "").localeCompare(a.createdtime || ""));
+  } else if ((arrange === "E" || arrange === "S") && endpoint === "locationBasedList2") {
+    items = [...items].sort((a, b) => Number(a.dist) - Number(b.dist));
+  }
+
+  const numOfRows = Number(params.numOfRows) || 10;
+  const pageNo = Number(params.pageNo) || 1;
+  return createListResponse(items.slice((pageNo - 1) * numOfRows, pageNo * numOfRows), {
+    numOfRows,
+    pageNo,
+    totalCount: items.length,
+  });
+}
+
+/**
+ * API 정상 응답 형식으로 감싸기 (결과가 없으면 실제 API처럼 items를 ""로 응답)
+ */
+function createListResponse(
+  items: unknown[],
+  paging: { numOfRows: number; pageNo: number; totalCount: number }
+): unknown {
+  return {
+    response: {
+      header: { resultCode: "0000", resultMsg: "OK" },
+      body: {
+        items: items.length > 0 ? { item: items } : "",
+        ...paging,
+      },
+    },
+  };
+}
+
+/**
+ * mock 모드 응답 조회
+ *
+ * @param url - API URL (서비스 키는 무시)
+ * @returns API 응답 본문과 같은 형식의 데이터
+ */
+export async function getMockTourApiResponse(url: string): Promise<unknown> {
+  const { service, endpoint, params } = parseRequest(url);
+  const index = await getFixtureIndex();
+
+  if (LIST_ENDPOINTS.includes(endpoint)) {
+    return queryCatalog(buildCatalog(index, service), endpoint, params);
+  }
+
+  const key = getFixtureKey(service, endpoint, params);
+  const fixture = index.get(key);
+  if (fixture) {
+    return fixture.response;
+  }
+
+  // 상세 정보는 목록에서 본 관광지라면 목록 항목으로 대체
+  if (endpoint === "detailCommon2" && params.contentId) {
+    const item = buildCatalog(index, service).find((catalogItem) => catalogItem.contentid === params.contentId);
+    if (item) {
+      return createListResponse([item], { numOfRows: 1, pageNo: 1, totalCount: 1 });
+    }
+  }
+
+  if (!reportedMisses.has(key)) {
+    reportedMisses.add(key);
+    console.warn(`⚠️ [mock] 저장된 응답이 없어 빈 결과를 반환합니다: ${key}`);
+  }
+  return createListResponse([], {
+    numOfRows: Number(params.numOfRows) || 10,
+    pageNo: Number(params.pageNo) || 1,
+    totalCount: 0,
+  });
+}
+
+/**
+ * record 모드에서 API 응답을 fixture 파일로 저장
+ * (저장에 실패해도 API 호출 결과에는 영향을 주지 않음)
+ *
+ * @param url - API URL (서비스 키는 저장하지 않음)
+ * @param response - 검증을 통과한 API 응답 본문
+ */
+export async function recordTourApiFixture(url: string, response: unknown): Promise<void> {
+  const { service, endpoint, params } = parseRequest(url);
+  const fixture: TourApiFixture = {
+    ...(service !== DEFAULT_SERVICE && { service }),
+    endpoint,
+    params,
+    recordedAt: new Date().toISOString(),
+    response,
+  };
+
+  try {
+    const filePath = getFixturePath(service, endpoint, params);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, `${JSON.stringify(fixture, null, 2)}\n`, "utf-8");
+  } catch (error) {
+    console.warn(`⚠️ fixture 저장 실패 (${getFixtureKey(service, endpoint, params)}):`, error);
+  }
+}
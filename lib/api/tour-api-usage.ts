@@ -0,0 +1,56 @@
+/**
+ * @file tour-api-usage.ts
+ * @description 한국관광공사 API 일일 사용량 저장소
+ *
+ * data.go.kr 서비스 키의 일일 호출 한도를 관리하기 위해 날짜별 호출 수를
+ * Supabase tour_api_usage 테이블에 기록합니다. (서버 인스턴스 간 공유)
+ *
+ * 서버 전용입니다. (Service Role 클라이언트 사용)
+ *
+ * @see {@link /lib/api/tour-api.ts} - 요청 스케줄러 (사용량 집계)
+ * @see {@link /supabase/migrations/20261018100000_create_tour_api_usage_table.sql} - 테이블 정의
+ */
+
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+
+/**
+ * 날짜별 누적 호출 수 조회
+ *
+ * @param usageDate - 사용 날짜 (한국 시간 기준 YYYYMMDD)
+ * @returns 누적 호출 수 (기록이 없으면 0)
+ */
+export async function getDailyUsage(usageDate: string): Promise<number> {
+  const supabase = getServiceRoleClient();
+  const { data, error } = await supabase
+    .from("tour_api_usage")
+    .select("call_count")
+    .eq("usage_date", usageDate)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`API 사용량 조회 실패: ${error.message}`);
+  }
+
+  return data?.call_count ?? 0;
+}
+
+/**
+ * 날짜별 호출 수 증가
+ *
+ * @param usageDate - 사용 날짜 (한국 시간 기준 YYYYMMDD)
+ * @param count - 증가시킬 호출 수
+ * @returns 증가 후 누적 호출 수 (다른 서버 인스턴스의 호출 포함)
+ */
+export async function incrementDailyUsage(usageDate: string, count: number): Promise<number> {
+  const supabase = getServiceRoleClient();
+  const { data, error } = await supabase.rpc("increment_tour_api_usage", {
+    p_usage_date: usageDate,
+    p_count: count,
+  });
+
+  if (error) {
+    throw new Error(`API 사용량 기록 실패: ${error.message}`);
+  }
+
+  return Number(data) || 0;
+}
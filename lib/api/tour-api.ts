@@ -3,42 +3,135 @@
  * @description 한국관광공사 공공 API 클라이언트
  *
  * 한국관광공사 KorService2 API를 호출하는 함수들을 제공합니다.
- * 서버 사이드와 클라이언트 사이드 모두에서 사용 가능합니다.
+ * runWithTourLanguage()로 언어를 지정하면 언어별 서비스(EngService2 등)를 호출합니다.
+ * 서비스 키(TOUR_API_KEY)를 사용하므로 서버 사이드 전용입니다.
+ * (클라이언트 컴포넌트는 /api/tour/* 프록시를 호출하는 lib/api/tour-client.ts 사용)
  *
  * 주요 기능:
  * 1. 지역코드 조회
  * 2. 지역 기반 관광지 목록 조회
  * 3. 키워드 검색
- * 4. 관광지 상세 정보 조회
+ * 4. 관광지 상세 정보 조회 (여러 관광지 일괄 조회 포함)
  * 5. 운영 정보 조회
  * 6. 이미지 목록 조회
  * 7. 반려동물 정보 조회
+ * 8. 위치 기반 관광지 목록 조회
+ * 9. 축제/행사 기간 검색
+ * 10. 서비스 분류코드 조회 (대/중/소분류)
+ * 11. 동기화 목록 조회 (수정일 기준 증분 조회)
+ * 12. 반복 정보 조회 (객실, 코스 경유지, 추가 정보)
+ *
+ * 같은 요청은 요청 캐시(tour-cache.ts)에서 병합/재사용되며,
+ * 실제 호출은 모두 요청 스케줄러를 거칩니다.
+ * - 토큰 버킷으로 호출 속도 제한 (사용자 요청이 배경 작업보다 먼저 처리됨)
+ * - 일일 사용량을 Supabase에 기록하고, 예산이 거의 소진되면 캐시된 데이터로 대체
+ * - 연속 실패 시 서킷 브레이커로 호출을 차단하고 마지막 정상 응답으로 대체
+ *
+ * TOUR_API_MODE=mock이면 실제 API 대신 저장된 응답(fixtures)을 사용하고,
+ * record면 실제 응답을 fixtures로 저장합니다. (tour-api-fixtures.ts)
  *
  * @see {@link /docs/PRD.md} - API 명세 참고
  */
 
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { z } from "zod";
 import type {
   AreaCode,
-  AreaCodeResponse,
-  AreaBasedListResponse,
-  SearchKeywordResponse,
-  DetailCommonResponse,
-  DetailIntroResponse,
-  DetailImageResponse,
-  DetailPetTourResponse,
+  CategoryCode,
+  SyncListItem,
   TourDetail,
+  DetailCommonBatchResult,
   TourIntro,
+  RawTourIntro,
+  RawRepeatInfo,
+  TourRepeatInfo,
+  RoomInfo,
+  CourseStop,
+  ExtraInfoRow,
   TourImage,
   PetTourInfo,
   TourItem,
+  TourArrange,
+  TourSortType,
   PaginationResponse,
   PaginationMetadata,
 } from "@/lib/types/tour";
+import {
+  CONTENT_TYPE,
+  LOCATION_RADIUS,
+  areaCodeResponseSchema,
+  categoryCodeResponseSchema,
+  tourListResponseSchema,
+  areaBasedSyncListResponseSchema,
+  detailCommonResponseSchema,
+  detailIntroResponseSchema,
+  detailInfoResponseSchema,
+  detailImageResponseSchema,
+  detailPetTourResponseSchema,
+} from "@/lib/types/tour";
+import {
+  TourApiError,
+  TourApiRateLimitError,
+  TourApiQuotaExceededError,
+  TourApiInvalidKeyError,
+  TourApiNotFoundError,
+  TourApiUpstreamError,
+  TourApiNetworkError,
+  TourApiSchemaError,
+  TourApiValidationError,
+  createTourApiErrorFromResultCode,
+  normalizeTourApiError,
+  isTourApiError,
+} from "@/lib/api/tour-api-errors";
+import { getDailyUsage, incrementDailyUsage } from "@/lib/api/tour-api-usage";
+import { toApiDate } from "@/lib/utils/date-utils";
+import { CACHE_STRATEGIES, createTourRequestCache } from "@/lib/api/tour-cache";
+import { getMockTourApiResponse, getTourApiMode, recordTourApiFixture } from "@/lib/api/tour-api-fixtures";
+import type { CacheStrategy, TourCacheStats } from "@/lib/api/tour-cache";
+import {
+  DEFAULT_TOUR_LANGUAGE,
+  TOUR_LANGUAGES,
+  TOUR_LANGUAGE_INFO,
+  getTourLanguageFromService,
+  toAppContentTypeId,
+  toServiceContentTypeId,
+} from "@/lib/api/tour-language";
+import type { TourLanguage } from "@/lib/api/tour-language";
+
+/**
+ * Base URL for 한국관광공사 API (언어별 서비스 이름을 뒤에 붙여 사용)
+ */
+const BASE_URL = "https://apis.data.go.kr/B551011";
+
+/**
+ * 현재 비동기 흐름의 조회 언어
+ * (지정하지 않으면 한국어)
+ */
+const languageStorage = new AsyncLocalStorage<TourLanguage>();
 
 /**
- * Base URL for 한국관광공사 API
+ * 지정한 언어로 작업 실행
+ *
+ * 작업 안에서 호출되는 모든 Tour API 요청이 해당 언어 서비스로 전송됩니다.
+ *
+ * @example
+ * ```ts
+ * const tours = await runWithTourLanguage("en", () => getAreaBasedList({ areaCode: "1" }));
+ * ```
  */
-const BASE_URL = "https://apis.data.go.kr/B551011/KorService2";
+export function runWithTourLanguage<T>(
+  language: TourLanguage,
+  task: () => Promise<T>
+): Promise<T> {
+  return languageStorage.run(language, task);
+}
+
+/**
+ * 현재 비동기 흐름의 조회 언어
+ */
+export function getTourLanguage(): TourLanguage {
+  return languageStorage.getStore() ?? DEFAULT_TOUR_LANGUAGE;
+}
 
 /**
  * 공통 파라미터
@@ -50,19 +143,28 @@ const COMMON_PARAMS = {
 } as const;
 
 /**
- * API 키 가져오기 (서버/클라이언트 구분)
+ * API 키 가져오기 (서버 전용)
+ *
+ * 서비스 키가 브라우저 번들에 포함되지 않도록 서버에서만 TOUR_API_KEY를 읽습니다.
+ * 클라이언트 컴포넌트는 lib/api/tour-client.ts(/api/tour/* 프록시)를 사용해야 합니다.
+ * mock 모드에서는 실제 API를 호출하지 않으므로 서비스 키가 필요 없습니다.
  */
 function getApiKey(): string {
-  // 서버 사이드: TOUR_API_KEY 우선, 없으면 NEXT_PUBLIC_TOUR_API_KEY
-  // 클라이언트 사이드: NEXT_PUBLIC_TOUR_API_KEY
-  const serverKey = typeof window === "undefined" ? process.env.TOUR_API_KEY : undefined;
-  const clientKey = process.env.NEXT_PUBLIC_TOUR_API_KEY;
+  if (typeof window !== "undefined") {
+    throw new Error(
+      "tour-api.ts는 서버에서만 사용할 수 있습니다. 클라이언트에서는 lib/api/tour-client.ts를 사용하세요."
+    );
+  }
 
-  const apiKey = serverKey || clientKey;
+  if (getTourApiMode() === "mock") {
+    return "";
+  }
+
+  const apiKey = process.env.TOUR_API_KEY;
 
   if (!apiKey) {
     throw new Error(
-      "Tour API key is missing. Please set TOUR_API_KEY (server) or NEXT_PUBLIC_TOUR_API_KEY (client) in your environment variables."
+      "Tour API key is missing. Please set TOUR_API_KEY in your environment variables."
     );
   }
 
@@ -71,9 +173,12 @@ function getApiKey(): string {
 
 /**
  * API URL 생성 헬퍼 함수
+ *
+ * 현재 언어의 서비스로 요청하며, 콘텐츠 타입 ID는 서비스별 ID로 변환합니다.
  */
 function buildApiUrl(endpoint: string, params: Record<string, string | number | undefined>): string {
   const apiKey = getApiKey();
+  const language = getTourLanguage();
   const urlParams = new URLSearchParams({
     serviceKey: apiKey,
     ...COMMON_PARAMS,
@@ -82,301 +187,1308 @@ function buildApiUrl(endpoint: string, params: Record<string, string | number |
     ),
   });
 
-  return `${BASE_URL}${endpoint}?${urlParams.toString()}`;
+  const contentTypeId = urlParams.get("contentTypeId");
+  if (contentTypeId) {
+    urlParams.set("contentTypeId", toServiceContentTypeId(contentTypeId, language));
+  }
+
+  return `${BASE_URL}/${TOUR_LANGUAGE_INFO[language].service}${endpoint}?${urlParams.toString()}`;
+}
+
+/**
+ * 응답 항목의 콘텐츠 타입 ID를 앱의 ID(한국어 서비스 기준)로 변환
+ * (원본 응답은 fixture 저장, mock 재생에 그대로 쓰이므로 복사본을 반환)
+ */
+function normalizeContentTypeIds(data: unknown, url: string): unknown {
+  const language = getTourLanguageFromService(new URL(url).pathname.split("/").slice(-2)[0]);
+  const body = (data as { response?: { body?: { items?: { item?: unknown } } } })?.response?.body;
+  const item = body?.items?.item;
+  if (language === "ko" || !item) {
+    return data;
+  }
+
+  const normalize = (raw: unknown) => {
+    if (!raw || typeof raw !== "object" || !("contenttypeid" in raw)) {
+      return raw;
+    }
+    return { ...raw, contenttypeid: toAppContentTypeId(String(raw.contenttypeid), language) };
+  };
+
+  return {
+    ...(data as object),
+    response: {
+      ...(data as { response: object }).response,
+      body: {
+        ...body,
+        items: { item: Array.isArray(item) ? item.map(normalize) : normalize(item) },
+      },
+    },
+  };
+}
+
+// 캐싱 전략은 클라이언트(tour-client.ts)와 공유하므로 tour-cache.ts에 정의
+export { CACHE_STRATEGIES };
+export type { CacheStrategy };
+
+/**
+ * 요청 캐시 (요청 병합 + LRU, 서버 인스턴스 메모리)
+ */
+const requestCache = createTourRequestCache({ maxEntries: 500 });
+
+/**
+ * 요청 캐시 통계 조회 (적중/미적중 수 등)
+ */
+export function getTourApiCacheStats(): TourCacheStats {
+  return requestCache.getStats();
+}
+
+/**
+ * 요청 우선순위
+ * - interactive: 사용자 요청 (페이지 렌더링, /api/tour/* 프록시)
+ * - background: 배경 작업 (통계 집계, sitemap 생성, 카탈로그 동기화)
+ */
+export type TourApiPriority = "interactive" | "background";
+
+/**
+ * 요청 스케줄러 설정
+ *
+ * 일일 사용량은 Next.js 데이터 캐시 적중 여부와 관계없이 호출 시도마다 집계합니다.
+ * (캐시 적중을 구분할 수 없으므로 실제 사용량보다 크게 잡히는 보수적인 값)
+ */
+const SCHEDULER_CONFIG = {
+  bucketCapacity: 10,   // 버킷 최대 토큰 수 (순간적으로 보낼 수 있는 최대 요청 수)
+  refillPerSecond: 5,   // 초당 충전되는 토큰 수
+  dailyQuota: Number(process.env.TOUR_API_DAILY_QUOTA) || 10000, // 일일 호출 예산
+  cachedOnlyRatio: 0.8,  // 사용량이 이 비율을 넘으면 캐시된 데이터 우선 사용 (재검증 안 함)
+  backgroundCutoffRatio: 0.9, // 사용량이 이 비율을 넘으면 배경 작업 요청 거절
+  usageFlushDelay: 2000, // 사용량 저장 지연 시간 (ms, 여러 호출을 모아서 저장)
+} as const;
+
+/**
+ * 현재 비동기 흐름의 요청 우선순위
+ * (지정하지 않으면 interactive)
+ */
+const priorityStorage = new AsyncLocalStorage<TourApiPriority>();
+
+/**
+ * 토큰 버킷 상태
+ */
+const bucket = {
+  tokens: SCHEDULER_CONFIG.bucketCapacity as number,
+  refilledAt: Date.now(),
+};
+
+/**
+ * 우선순위별 대기열 (interactive 대기열을 항상 먼저 처리)
+ */
+const waitQueues: Record<TourApiPriority, Array<() => void>> = {
+  interactive: [],
+  background: [],
+};
+
+let drainTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * 일일 사용량 상태 (날짜가 바뀌면 초기화)
+ */
+const dailyUsage = {
+  date: "",
+  count: 0,
+  unsaved: 0,
+  loading: null as Promise<void> | null,
+  flushTimer: null as ReturnType<typeof setTimeout> | null,
+};
+
+/**
+ * 지정한 우선순위로 작업 실행
+ *
+ * 작업 안에서 호출되는 모든 Tour API 요청에 우선순위가 적용됩니다.
+ *
+ * @example
+ * ```ts
+ * const stats = await runWithTourApiPriority("background", () => getRegionStats());
+ * ```
+ */
+export function runWithTourApiPriority<T>(
+  priority: TourApiPriority,
+  task: () => Promise<T>
+): Promise<T> {
+  return priorityStorage.run(priority, task);
+}
+
+/**
+ * 경과 시간만큼 토큰 충전
+ */
+function refillBucket(): void {
+  const now = Date.now();
+  const elapsedSeconds = (now - bucket.refilledAt) / 1000;
+  bucket.tokens = Math.min(
+    SCHEDULER_CONFIG.bucketCapacity,
+    bucket.tokens + elapsedSeconds * SCHEDULER_CONFIG.refillPerSecond
+  );
+  bucket.refilledAt = now;
+}
+
+/**
+ * 토큰이 있는 만큼 대기 중인 요청 실행 (interactive 우선)
+ */
+function drainWaitQueues(): void {
+  refillBucket();
+
+  while (bucket.tokens >= 1) {
+    const next = waitQueues.interactive.shift() || waitQueues.background.shift();
+    if (!next) {
+      break;
+    }
+    bucket.tokens -= 1;
+    next();
+  }
+
+  const hasWaiting = waitQueues.interactive.length > 0 || waitQueues.background.length > 0;
+  if (hasWaiting && !drainTimer) {
+    // 다음 토큰이 충전될 때까지 대기
+    const waitMs = Math.ceil(((1 - bucket.tokens) / SCHEDULER_CONFIG.refillPerSecond) * 1000);
+    drainTimer = setTimeout(() => {
+      drainTimer = null;
+      drainWaitQueues();
+    }, waitMs);
+  }
+}
+
+/**
+ * 토큰 획득 (토큰이 없으면 우선순위 대기열에서 대기)
+ */
+function acquireToken(priority: TourApiPriority): Promise<void> {
+  return new Promise((resolve) => {
+    waitQueues[priority].push(resolve);
+    drainWaitQueues();
+  });
+}
+
+/**
+ * 오늘(한국 시간) 사용량 불러오기
+ *
+ * 저장소(Supabase)를 사용할 수 없으면 서버 인스턴스 메모리에서만 집계합니다.
+ */
+async function loadDailyUsage(): Promise<void> {
+  const today = toApiDate();
+  if (dailyUsage.date === today) {
+    return dailyUsage.loading ?? undefined;
+  }
+
+  // 전날 저장하지 않은 사용량은 전날 날짜로 저장
+  if (dailyUsage.unsaved > 0) {
+    void flushTourApiUsage();
+  }
+
+  dailyUsage.date = today;
+  dailyUsage.count = 0;
+  dailyUsage.unsaved = 0;
+  dailyUsage.loading = getDailyUsage(today)
+    .then((savedCount) => {
+      if (dailyUsage.date === today) {
+        dailyUsage.count += savedCount;
+      }
+    })
+    .catch((error) => {
+      console.warn("API 사용량 불러오기 실패 (메모리에서만 집계):", error);
+    });
+
+  return dailyUsage.loading;
+}
+
+/**
+ * 아직 저장하지 않은 사용량 저장
+ *
+ * 스크립트처럼 곧 종료되는 프로세스에서는 종료 전에 호출해야 합니다.
+ */
+export async function flushTourApiUsage(): Promise<void> {
+  if (dailyUsage.flushTimer) {
+    clearTimeout(dailyUsage.flushTimer);
+    dailyUsage.flushTimer = null;
+  }
+  if (dailyUsage.unsaved === 0) {
+    return;
+  }
+
+  const date = dailyUsage.date;
+  const count = dailyUsage.unsaved;
+  dailyUsage.unsaved = 0;
+
+  try {
+    const savedCount = await incrementDailyUsage(date, count);
+    // 다른 서버 인스턴스의 호출까지 반영
+    if (dailyUsage.date === date) {
+      dailyUsage.count = Math.max(dailyUsage.count, savedCount + dailyUsage.unsaved);
+    }
+  } catch (error) {
+    console.warn("API 사용량 저장 실패 (다음 저장 때 다시 시도):", error);
+    // 저장하지 못한 호출 수를 되돌려 다음 저장에 포함 (날짜가 바뀌었으면 전날 사용량이므로 버림)
+    if (dailyUsage.date === date) {
+      dailyUsage.unsaved += count;
+    }
+  }
+}
+
+/**
+ * 호출 1건 사용량 기록 (저장은 모아서 지연 실행)
+ */
+function recordUsage(): void {
+  dailyUsage.count += 1;
+  dailyUsage.unsaved += 1;
+
+  if (!dailyUsage.flushTimer) {
+    dailyUsage.flushTimer = setTimeout(() => {
+      dailyUsage.flushTimer = null;
+      void flushTourApiUsage();
+    }, SCHEDULER_CONFIG.usageFlushDelay);
+  }
+}
+
+/**
+ * 서비스 키 한도 초과 응답을 받은 경우 오늘 예산을 모두 사용한 것으로 기록
+ */
+function markDailyQuotaExhausted(): void {
+  dailyUsage.count = Math.max(dailyUsage.count, SCHEDULER_CONFIG.dailyQuota);
+}
+
+/**
+ * 오늘 사용량 현황 조회
+ */
+export async function getTourApiUsage(): Promise<{
+  date: string;
+  count: number;
+  quota: number;
+}> {
+  await loadDailyUsage();
+  return {
+    date: dailyUsage.date,
+    count: dailyUsage.count,
+    quota: SCHEDULER_CONFIG.dailyQuota,
+  };
 }
 
 /**
- * 캐싱 전략 매핑
- * 데이터 특성에 맞는 캐싱 시간 설정
+ * 호출 예약 (일일 예산 확인 + 토큰 획득 + 사용량 기록)
+ *
+ * @returns cachedOnly - 예산이 거의 소진되어 캐시된 데이터를 우선 사용해야 하는지 여부
+ * @throws {TourApiQuotaExceededError} 예산을 모두 사용했거나, 배경 작업 한도를 넘은 경우
  */
-const CACHE_STRATEGIES = {
-  areaCode: 604800,      // 7일 - 지역 코드는 거의 변경되지 않음
-  areaBasedList: 86400,  // 24시간 - 관광지 목록은 하루에 한 번 업데이트
-  detailCommon: 43200,   // 12시간 - 관광지 상세 정보는 중간 빈도 업데이트
-  detailIntro: 43200,    // 12시간 - 운영 정보는 상세 정보와 동일
-  detailImage: 86400,    // 24시간 - 이미지는 자주 변경되지 않음
-  detailPetTour: 86400,  // 24시간 - 반려동물 정보는 자주 변경되지 않음
-  searchKeyword: 3600,   // 1시간 - 검색 결과는 자주 변경될 수 있음
-  stats: 3600,           // 1시간 - 통계 데이터는 자주 업데이트
+async function scheduleTourApiCall(endpoint: string): Promise<{ cachedOnly: boolean }> {
+  const priority = priorityStorage.getStore() || "interactive";
+
+  await loadDailyUsage();
+
+  const usageRatio = dailyUsage.count / SCHEDULER_CONFIG.dailyQuota;
+  const limitRatio =
+    priority === "background" ? SCHEDULER_CONFIG.backgroundCutoffRatio : 1;
+
+  if (usageRatio >= limitRatio) {
+    throw new TourApiQuotaExceededError({
+      endpoint,
+      detail: `일일 호출 예산 소진 (${dailyUsage.count}/${SCHEDULER_CONFIG.dailyQuota}, ${priority})`,
+    });
+  }
+
+  await acquireToken(priority);
+  recordUsage();
+
+  return { cachedOnly: usageRatio >= SCHEDULER_CONFIG.cachedOnlyRatio };
+}
+
+/**
+ * 서킷 브레이커 설정
+ *
+ * data.go.kr 장애 시 모든 요청이 재시도를 반복하다 실패하지 않도록,
+ * 연속 실패가 쌓이면 일정 시간 호출을 차단하고 저장된 응답으로 대체합니다.
+ */
+const CIRCUIT_BREAKER_CONFIG = {
+  failureThreshold: 5,    // 연속 실패 횟수가 이 값에 도달하면 차단 (open)
+  openDurationMs: 30000,  // 차단 유지 시간 (이후 시험 요청 1건 허용, half-open)
 } as const;
 
-type CacheStrategy = keyof typeof CACHE_STRATEGIES;
+/**
+ * 서킷 상태
+ * - closed: 정상 (모든 요청 허용)
+ * - open: 차단 (요청 즉시 실패)
+ * - half_open: 시험 중 (시험 요청 1건만 허용, 성공하면 closed, 실패하면 다시 open)
+ */
+export type TourApiCircuitState = "closed" | "open" | "half_open";
+
+const circuit = {
+  state: "closed" as TourApiCircuitState,
+  failures: 0,
+  openedAt: 0,
+  probing: false,
+};
+
+/**
+ * 서킷 통과 (차단 중이면 즉시 실패, 시험 시점이면 시험 요청으로 허용)
+ *
+ * @throws {TourApiUpstreamError} 차단 중인 경우 (재시도하지 않음)
+ */
+function enterCircuit(endpoint: string): void {
+  if (circuit.state === "open") {
+    const remainingMs = circuit.openedAt + CIRCUIT_BREAKER_CONFIG.openDurationMs - Date.now();
+    if (remainingMs > 0) {
+      throw new TourApiUpstreamError({
+        endpoint,
+        detail: `서킷 차단 중 (연속 실패 ${circuit.failures}회)`,
+        retryAfterMs: remainingMs,
+        retryable: false,
+      });
+    }
+    circuit.state = "half_open";
+  }
+
+  if (circuit.state === "half_open") {
+    // 시험 요청은 한 번에 1건만 허용
+    if (circuit.probing) {
+      throw new TourApiUpstreamError({
+        endpoint,
+        detail: "서킷 시험 요청 진행 중",
+        retryable: false,
+      });
+    }
+    circuit.probing = true;
+  }
+}
+
+/**
+ * 요청 결과를 서킷 상태에 반영
+ *
+ * @param result - success: 서버가 응답함, failure: 서버 오류/네트워크 오류, skipped: 요청을 보내지 않음
+ */
+function exitCircuit(result: "success" | "failure" | "skipped"): void {
+  const wasProbing = circuit.probing;
+  circuit.probing = false;
+
+  if (result === "success") {
+    if (circuit.state !== "closed") {
+      console.log("✅ Tour API 서킷 복구 (closed)");
+    }
+    circuit.state = "closed";
+    circuit.failures = 0;
+    return;
+  }
+
+  if (result === "failure") {
+    circuit.failures += 1;
+    if (wasProbing || circuit.failures >= CIRCUIT_BREAKER_CONFIG.failureThreshold) {
+      if (circuit.state !== "open") {
+        console.warn(
+          `⚠️ Tour API 서킷 차단 (open): 연속 실패 ${circuit.failures}회, ${CIRCUIT_BREAKER_CONFIG.openDurationMs}ms 후 시험 요청`
+        );
+      }
+      circuit.state = "open";
+      circuit.openedAt = Date.now();
+    }
+  }
+}
+
+/**
+ * 서킷 상태 조회
+ */
+export function getTourApiCircuitState(): {
+  state: TourApiCircuitState;
+  failures: number;
+  openedAt: string | null;
+} {
+  return {
+    state: circuit.state,
+    failures: circuit.failures,
+    openedAt: circuit.openedAt ? new Date(circuit.openedAt).toISOString() : null,
+  };
+}
+
+/**
+ * 저장된 응답(stale) 사용 기록 (현재 비동기 흐름 단위)
+ */
+const staleStorage = new AsyncLocalStorage<{ staleSince: number | null }>();
 
 /**
- * API 호출 헬퍼 함수 (재시도 로직 및 캐싱 전략 포함)
- * 
+ * 작업 실행 중 저장된 응답으로 대체된 호출이 있었는지 함께 반환
+ *
+ * API 장애로 마지막 정상 응답을 대신 사용한 경우, 가장 오래된 응답의 저장 시각을 반환합니다.
+ *
+ * @returns result - 작업 결과, staleSince - 저장된 응답의 저장 시각 (ISO 8601, 없으면 null)
+ *
+ * @example
+ * ```ts
+ * const { result: detail, staleSince } = await trackStaleResponses(() =>
+ *   getDetailCommon({ contentId })
+ * );
+ * ```
+ */
+export async function trackStaleResponses<T>(
+  task: () => Promise<T>
+): Promise<{ result: T; staleSince: string | null }> {
+  const record = { staleSince: null as number | null };
+  const result = await staleStorage.run(record, task);
+  return {
+    result,
+    staleSince: record.staleSince ? new Date(record.staleSince).toISOString() : null,
+  };
+}
+
+/**
+ * 저장된 응답 사용 기록
+ */
+function markStaleResponse(storedAt: number): void {
+  const record = staleStorage.getStore();
+  if (record) {
+    record.staleSince = Math.min(record.staleSince ?? storedAt, storedAt);
+  }
+}
+
+/**
+ * API URL에서 엔드포인트 이름 추출 (예: .../KorService2/areaBasedList2?... → areaBasedList2)
+ */
+function getEndpointName(url: string): string {
+  return new URL(url).pathname.split("/").pop() || url;
+}
+
+/**
+ * Retry-After 헤더 값을 ms로 변환 (초 단위 또는 HTTP 날짜)
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * HTTP 상태 코드에 해당하는 에러 생성
+ */
+function createHttpError(response: Response, endpoint: string): TourApiError {
+  const options = {
+    endpoint,
+    status: response.status,
+    detail: `HTTP ${response.status} ${response.statusText}`.trim(),
+  };
+
+  if (response.status === 429) {
+    return new TourApiRateLimitError({
+      ...options,
+      retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")),
+    });
+  }
+  if (response.status === 401 || response.status === 403) {
+    return new TourApiInvalidKeyError(options);
+  }
+  if (response.status === 404) {
+    return new TourApiNotFoundError(options);
+  }
+  // 5xx는 재시도, 그 외 4xx는 요청 자체의 문제이므로 재시도하지 않음
+  return new TourApiUpstreamError({ ...options, retryable: response.status >= 500 });
+}
+
+/**
+ * 응답 본문에서 API 에러 확인
+ *
+ * 에러 응답 형식:
+ * - JSON 에러: { resultCode, resultMsg } (response 속성 없음)
+ * - JSON 정상 구조 + 에러 코드: { response: { header: { resultCode, resultMsg } } }
+ * - XML 에러 (서비스 키 오류 등 게이트웨이 단계 에러): <returnReasonCode>30</returnReasonCode>
+ *
+ * @returns 파싱된 JSON 데이터
+ * @throws {TourApiError} 에러 응답인 경우
+ */
+function parseApiBody(text: string, endpoint: string): unknown {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    // _type=json이어도 게이트웨이 에러는 XML로 응답됨
+    const reasonCode = text.match(/<returnReasonCode>\s*(\d+)\s*<\/returnReasonCode>/)?.[1];
+    if (reasonCode) {
+      const authMsg = text.match(/<returnAuthMsg>\s*([^<]*)<\/returnAuthMsg>/)?.[1];
+      throw createTourApiErrorFromResultCode(reasonCode, authMsg, endpoint);
+    }
+    throw new TourApiUpstreamError({
+      endpoint,
+      detail: `JSON이 아닌 응답: ${text.slice(0, 100)}`,
+    });
+  }
+
+  if (data && typeof data === "object") {
+    // 에러 응답 구조: { responseTime, resultCode, resultMsg }
+    if ("resultCode" in data && "resultMsg" in data && !("response" in data)) {
+      const errorResponse = data as { resultCode: string; resultMsg: string };
+      if (errorResponse.resultCode !== "0000") {
+        throw createTourApiErrorFromResultCode(
+          String(errorResponse.resultCode),
+          errorResponse.resultMsg,
+          endpoint
+        );
+      }
+    }
+
+    // 정상 응답 구조: { response: { header: { resultCode, resultMsg }, body: {...} } }
+    if ("response" in data) {
+      const apiResponse = data as { response?: { header?: { resultCode?: string; resultMsg?: string } } };
+      const header = apiResponse.response?.header;
+      if (header?.resultCode && header.resultCode !== "0000") {
+        throw createTourApiErrorFromResultCode(String(header.resultCode), header.resultMsg, endpoint);
+      }
+    }
+  }
+
+  return data;
+}
+
+/**
+ * 응답 구조 검증 (숫자/문자열 혼용은 스키마에서 변환)
+ *
+ * @throws {TourApiSchemaError} 스키마 위반
+ */
+function validateApiResponse<T>(
+  data: unknown,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  endpoint: string
+): T {
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    const schemaError = new TourApiSchemaError({ endpoint, issues: parsed.error.issues });
+    console.error(`Tour API 응답 형식 오류 (${endpoint}): ${schemaError.detail}`, parsed.error.issues);
+    throw schemaError;
+  }
+  return parsed.data;
+}
+
+/**
+ * API 호출 헬퍼 함수 (요청 캐시, 재시도 로직, 캐싱 전략 및 응답 검증 포함)
+ *
+ * 같은 요청(서비스 키 제외 URL 기준)이 진행 중이면 결과를 함께 사용하고,
+ * 캐싱 전략의 시간 동안은 메모리에 저장된 응답을 반환합니다.
+ * 재시도 가능한 에러(요청 과다, 서버 오류, 네트워크 오류)만 재시도하며,
+ * 최종 실패 시 시도 횟수(attempts)를 기록한 TourApiError를 던집니다.
+ * 단, 같은 요청의 마지막 정상 응답이 남아 있으면 에러 대신 그 응답을 반환합니다.
+ * (데이터 없음 에러 제외, trackStaleResponses로 대체 여부 확인)
+ *
  * @param url - API URL
+ * @param schema - 응답 검증 스키마 (lib/types/tour.ts)
  * @param maxRetries - 최대 재시도 횟수 (기본값: 3)
  * @param delay - 재시도 지연 시간 (기본값: 1000ms)
  * @param cacheStrategy - 캐싱 전략 (기본값: 'areaBasedList')
+ * @throws {TourApiError} API 호출 실패 (종류는 error.kind로 구분)
  */
 async function fetchWithRetry<T>(
   url: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
   maxRetries: number = 3,
   delay: number = 1000,
   cacheStrategy: CacheStrategy = "areaBasedList"
 ): Promise<T> {
-  let lastError: Error | null = null;
-  let lastStatusCode: number | null = null;
+  const endpoint = getEndpointName(url);
 
+  try {
+    return await requestCache.load(url, endpoint, cacheStrategy, () =>
+      requestWithRetry(url, endpoint, schema, maxRetries, delay, cacheStrategy)
+    );
+  } catch (error) {
+    const stale = isTourApiError(error) && error.kind !== "not_found"
+      ? requestCache.getStale<T>(url)
+      : null;
+    if (!stale) {
+      throw error;
+    }
+
+    console.warn(
+      `⚠️ ${endpoint} 호출 실패, ${new Date(stale.storedAt).toISOString()}에 저장된 응답 사용:`,
+      isTourApiError(error) ? error.detail || error.message : error
+    );
+    markStaleResponse(stale.storedAt);
+    return stale.value;
+  }
+}
+
+/**
+ * 실제 API 호출 (서킷 브레이커, 요청 스케줄러, 재시도, 응답 검증)
+ *
+ * mock 모드에서는 저장된 응답을 검증만 하여 반환하고 (스케줄러, 일일 사용량 제외),
+ * record 모드에서는 검증을 통과한 응답을 fixture로 저장합니다.
+ */
+async function requestWithRetry<T>(
+  url: string,
+  endpoint: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  maxRetries: number,
+  delay: number,
+  cacheStrategy: CacheStrategy
+): Promise<T> {
   // 캐싱 시간 가져오기
   const revalidate = CACHE_STRATEGIES[cacheStrategy];
+  const mode = getTourApiMode();
+
+  if (mode === "mock") {
+    const data = await getMockTourApiResponse(url);
+    return validateApiResponse(normalizeContentTypeIds(data, url), schema, endpoint);
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    let error: TourApiError;
+    let enteredCircuit = false;
+    let sent = false;
 
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
-      const response = await fetch(url, {
-        method: "GET",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        // Next.js에서 캐싱 제어 (서버 사이드)
-        ...(typeof window === "undefined" && {
-          next: { revalidate },
-        }),
-      });
+      // 서킷 차단 중이면 재시도 없이 즉시 실패
+      enterCircuit(endpoint);
+      enteredCircuit = true;
+
+      // 일일 예산 확인 및 요청 속도 제한 (우선순위 대기열)
+      const { cachedOnly } = await scheduleTourApiCall(endpoint);
+      sent = true;
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: "GET",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          // Next.js에서 캐싱 제어 (서버 사이드)
+          // 예산이 거의 소진되면 캐시된 데이터를 재검증 없이 사용
+          ...(cachedOnly ? { cache: "force-cache" as const } : { next: { revalidate } }),
+        });
+      } catch (fetchError) {
+        throw new TourApiNetworkError({
+          endpoint,
+          detail: fetchError instanceof Error ? fetchError.message : String(fetchError),
+          cause: fetchError,
+        });
+      }
 
       if (!response.ok) {
-        lastStatusCode = response.status;
-        // 429 (Too Many Requests) 에러는 특별 처리
-        if (response.status === 429) {
-          const retryAfter = response.headers.get("Retry-After");
-          const waitTime = retryAfter ? parseInt(retryAfter) * 1000 : delay * Math.pow(2, attempt + 2);
-          throw new Error(`HTTP 429 (Rate Limit): ${waitTime}ms 대기 필요`);
-        }
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw createHttpError(response, endpoint);
       }
 
-      const data: T = await response.json();
-
-      // API 에러 응답 체크 (에러 응답은 response 속성이 없고 직접 resultCode를 가짐)
-      if (data && typeof data === "object") {
-        // 에러 응답 구조: { responseTime, resultCode, resultMsg }
-        if ("resultCode" in data && "resultMsg" in data && !("response" in data)) {
-          const errorResponse = data as { resultCode: string; resultMsg: string };
-          if (errorResponse.resultCode !== "0000") {
-            throw new Error(
-              `API error: ${errorResponse.resultCode} - ${errorResponse.resultMsg}`
-            );
-          }
-        }
-        
-        // 정상 응답 구조: { response: { header: { resultCode, resultMsg }, body: {...} } }
-        if ("response" in data) {
-          const apiResponse = data as { response?: { header?: { resultCode?: string; resultMsg?: string } } };
-          if (apiResponse.response?.header?.resultCode && apiResponse.response.header.resultCode !== "0000") {
-            throw new Error(
-              `API error: ${apiResponse.response.header.resultCode} - ${apiResponse.response.header.resultMsg || "Unknown error"}`
-            );
-          }
-        }
+      const data = parseApiBody(await response.text(), endpoint);
+      const parsed = validateApiResponse(normalizeContentTypeIds(data, url), schema, endpoint);
+
+      if (mode === "record") {
+        await recordTourApiFixture(url, data);
       }
 
-      return data;
-    } catch (error: unknown) {
-      if (error instanceof Error) {
-        lastError = error;
-      } else {
-        const errorMessage = error ? String(error) : 'Unknown error';
-        lastError = new Error(errorMessage);
+      exitCircuit("success");
+      return parsed;
+    } catch (caught: unknown) {
+      error = normalizeTourApiError(caught, endpoint);
+      if (enteredCircuit) {
+        // 서버 오류(5xx 등 재시도 가능한 오류)/네트워크 오류만 실패로 집계
+        const isOutage = error.kind === "network" || (error.kind === "upstream" && error.retryable);
+        exitCircuit(!sent ? "skipped" : isOutage ? "failure" : "success");
       }
+    }
+
+    error.attempts = attempt + 1;
+
+    // 서비스 키 한도 초과 응답이면 오늘은 더 이상 호출하지 않음
+    if (error.kind === "quota_exceeded" && error.resultCode) {
+      markDailyQuotaExhausted();
+    }
 
-      // 마지막 시도가 아니면 재시도
-      if (attempt < maxRetries) {
-        // 429 에러인 경우 더 긴 대기 시간
-        let waitTime: number;
-        if (lastStatusCode === 429 || lastError?.message.includes("429")) {
-          // 429 에러: Retry-After 헤더 값 추출 또는 기본 5초
-          const retryAfterMatch = lastError?.message.match(/(\d+)ms/);
-          waitTime = retryAfterMatch ? parseInt(retryAfterMatch[1]) : 5000;
-          console.warn(`⚠️ Rate Limit 감지, ${waitTime}ms 대기 후 재시도 (${attempt + 1}/${maxRetries})`);
-        } else {
-          // 일반 에러: 지수 백오프
-          waitTime = delay * Math.pow(2, attempt);
-          if (process.env.NODE_ENV === "development") {
-            console.warn(`API 호출 실패, ${waitTime}ms 후 재시도 (${attempt + 1}/${maxRetries}):`, lastError?.message);
-          }
-        }
-        await new Promise((resolve) => setTimeout(resolve, waitTime));
+    // 재시도할 수 없는 에러(키 오류, 한도 초과, 스키마 위반 등)이거나 마지막 시도면 즉시 전달
+    if (!error.retryable || attempt >= maxRetries) {
+      throw error;
+    }
+
+    let waitTime: number;
+    if (error.kind === "rate_limited") {
+      // Retry-After 헤더 값 또는 기본 5초
+      waitTime = error.retryAfterMs ?? 5000;
+      console.warn(`⚠️ Rate Limit 감지, ${waitTime}ms 대기 후 재시도 (${attempt + 1}/${maxRetries})`);
+    } else {
+      // 일반 에러: 지수 백오프
+      waitTime = delay * Math.pow(2, attempt);
+      if (process.env.NODE_ENV === "development") {
+        console.warn(`API 호출 실패, ${waitTime}ms 후 재시도 (${attempt + 1}/${maxRetries}):`, error.detail || error.message);
       }
     }
+    await new Promise((resolve) => setTimeout(resolve, waitTime));
   }
+}
 
-  // 최종 실패 시 사용자 친화적인 에러 메시지 생성
-  const finalError = lastError || new Error("알 수 없는 오류가 발생했습니다.");
-  
-  // 에러 메시지 개선
-  if (lastStatusCode === 429) {
-    throw new Error("요청이 너무 많습니다. 잠시 후 다시 시도해주세요.");
+/**
+ * 정렬 옵션별 arrange 값 매핑 (기본 / 대표이미지가 있는 항목만)
+ */
+const SORT_ARRANGE_MAP: Record<TourSortType, { all: TourArrange; imageOnly: TourArrange }> = {
+  name: { all: "A", imageOnly: "O" },
+  latest: { all: "C", imageOnly: "Q" },
+  created: { all: "D", imageOnly: "R" },
+  distance: { all: "E", imageOnly: "S" },
+};
+
+/**
+ * URL 정렬 옵션을 API arrange 값으로 변환
+ *
+ * 거리순(distance)은 위치 기반 조회에서만 지원되므로,
+ * 위치 기반 모드가 아니면 수정일순(latest)으로 대체합니다.
+ *
+ * @param sort - 정렬 옵션 (latest, name, created, distance)
+ * @param options.imageOnly - 대표이미지가 있는 항목만 조회할지 여부
+ * @param options.isLocationMode - 위치 기반 조회 여부
+ * @returns arrange 파라미터 값
+ *
+ * @example
+ * ```ts
+ * getArrangeFromSort("name"); // "A"
+ * getArrangeFromSort("latest", { imageOnly: true }); // "Q"
+ * getArrangeFromSort("distance"); // "C" (위치 기반 모드가 아니므로 대체)
+ * ```
+ */
+export function getArrangeFromSort(
+  sort: string | undefined,
+  options: { imageOnly?: boolean; isLocationMode?: boolean } = {}
+): TourArrange {
+  const { imageOnly = false, isLocationMode = false } = options;
+
+  let sortType: TourSortType =
+    sort && sort in SORT_ARRANGE_MAP ? (sort as TourSortType) : isLocationMode ? "distance" : "latest";
+  if (sortType === "distance" && !isLocationMode) {
+    sortType = "latest";
   }
-  if (lastStatusCode === 404) {
-    throw new Error("요청한 데이터를 찾을 수 없습니다.");
+
+  const arrange = SORT_ARRANGE_MAP[sortType];
+  return imageOnly ? arrange.imageOnly : arrange.all;
+}
+
+/**
+ * 지역코드 조회
+ *
+ * @param areaCode - 상위 지역 코드 (옵션, 시/도 코드 입력 시 시/군/구 목록 반환)
+ * @returns 지역코드 목록
+ *
+ * @example
+ * ```ts
+ * // 시/도 목록 조회
+ * const areaCodes = await getAreaCode();
+ *
+ * // 특정 시/도의 시/군/구 목록 조회
+ * const sigunguCodes = await getAreaCode("1"); // 서울
+ * ```
+ */
+export async function getAreaCode(areaCode?: string): Promise<AreaCode[]> {
+  try {
+    const url = buildApiUrl("/areaCode2", areaCode ? { areaCode } : {});
+    const response = await fetchWithRetry(url, areaCodeResponseSchema, 3, 1000, "areaCode");
+    return response.response.body.items.item;
+  } catch (error) {
+    console.error("지역코드 조회 실패:", error);
+    throw error;
   }
-  if (lastStatusCode && lastStatusCode >= 500) {
-    throw new Error("서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.");
+}
+
+/**
+ * 서비스 분류코드 조회
+ *
+ * 상위 분류코드를 지정하면 하위 분류 목록을 반환합니다.
+ * (cat1 미지정: 대분류, cat1 지정: 중분류, cat1+cat2 지정: 소분류)
+ *
+ * @param params - 조회 파라미터
+ * @param params.contentTypeId - 콘텐츠 타입 ID (옵션, 지정 시 해당 타입의 분류만 반환)
+ * @param params.cat1 - 대분류 코드 (옵션)
+ * @param params.cat2 - 중분류 코드 (옵션, cat1 필요)
+ * @returns 분류코드 목록
+ *
+ * @example
+ * ```ts
+ * // 관광지 대분류 목록 조회
+ * const cat1List = await getCategoryCode({ contentTypeId: "12" });
+ *
+ * // 자연 > 자연관광지 소분류 목록 조회 (해수욕장, 사찰 등)
+ * const cat3List = await getCategoryCode({ cat1: "A01", cat2: "A0101" });
+ * ```
+ */
+export async function getCategoryCode(
+  params: {
+    contentTypeId?: string;
+    cat1?: string;
+    cat2?: string;
+  } = {}
+): Promise<CategoryCode[]> {
+  try {
+    const { contentTypeId, cat1, cat2 } = params;
+
+    if (cat2 && !cat1) {
+      throw new TourApiValidationError({
+        endpoint: "categoryCode2",
+        detail: "중분류(cat2)를 지정하려면 대분류(cat1)가 필요합니다.",
+      });
+    }
+
+    const url = buildApiUrl("/categoryCode2", {
+      contentTypeId,
+      cat1,
+      cat2,
+      numOfRows: 100, // 분류 목록은 한 번에 모두 조회
+    });
+    const response = await fetchWithRetry(url, categoryCodeResponseSchema, 3, 1000, "categoryCode");
+    return response.response.body.items.item;
+  } catch (error) {
+    console.error("서비스 분류코드 조회 실패:", error);
+    throw error;
   }
-  if (lastError?.message.includes("network") || lastError?.message.includes("fetch")) {
-    throw new Error("네트워크 연결을 확인해주세요.");
+}
+
+/**
+ * 지역 기반 관광지 목록 조회
+ *
+ * @param params - 조회 파라미터
+ * @param params.areaCode - 지역 코드 (옵션)
+ * @param params.sigunguCode - 시/군/구 코드 (옵션, areaCode 필요)
+ * @param params.contentTypeId - 콘텐츠 타입 ID (옵션, 12:관광지, 14:문화시설 등)
+ * @param params.cat1 - 대분류 코드 (옵션)
+ * @param params.cat2 - 중분류 코드 (옵션)
+ * @param params.cat3 - 소분류 코드 (옵션)
+ * @param params.numOfRows - 페이지당 항목 수 (기본값: 10)
+ * @param params.pageNo - 페이지 번호 (기본값: 1)
+ * @param params.arrange - 정렬 구분 (A: 제목순, C: 수정일순, D: 생성일순, O/Q/R: 이미지가 있는 항목만, 옵션)
+ * @param params.listYN - 목록 구분 (Y: 목록, N: 개수만, 기본값: Y)
+ * @returns 관광지 목록
+ *
+ * @example
+ * ```ts
+ * // 서울 지역 관광지 목록 조회
+ * const items = await getAreaBasedList({ areaCode: "1", contentTypeId: "12" });
+ * ```
+ */
+export async function getAreaBasedList(params: {
+  areaCode?: string;
+  sigunguCode?: string;
+  contentTypeId?: string;
+  cat1?: string;
+  cat2?: string;
+  cat3?: string;
+  arrange?: TourArrange;
+  numOfRows?: number;
+  pageNo?: number;
+}): Promise<TourItem[]> {
+  try {
+    const {
+      areaCode,
+      sigunguCode,
+      contentTypeId,
+      cat1,
+      cat2,
+      cat3,
+      arrange,
+      numOfRows = 10,
+      pageNo = 1,
+    } = params;
+
+    // listYN 파라미터 제거 (한국관광공사 API에서 지원하지 않음)
+    const url = buildApiUrl("/areaBasedList2", {
+      areaCode,
+      sigunguCode,
+      contentTypeId,
+      cat1,
+      cat2,
+      cat3,
+      arrange,
+      numOfRows,
+      pageNo,
+    });
+
+    const response = await fetchWithRetry(url, tourListResponseSchema, 3, 1000, "areaBasedList");
+    return response.response.body.items.item;
+  } catch (error) {
+    console.error("지역 기반 목록 조회 실패:", error);
+    throw error;
   }
+}
 
-  // 프로덕션 환경에서는 일반적인 메시지, 개발 환경에서는 상세 정보
-  if (process.env.NODE_ENV === "development") {
-    throw finalError;
-  } else {
-    throw new Error("데이터를 불러오는 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.");
+/**
+ * 지역 기반 관광지 목록 조회 (페이지네이션 메타데이터 포함)
+ *
+ * @param params - 조회 파라미터
+ * @param params.areaCode - 지역 코드 (옵션)
+ * @param params.sigunguCode - 시/군/구 코드 (옵션, areaCode 필요)
+ * @param params.contentTypeId - 콘텐츠 타입 ID (옵션)
+ * @param params.cat1 - 대분류 코드 (옵션)
+ * @param params.cat2 - 중분류 코드 (옵션)
+ * @param params.cat3 - 소분류 코드 (옵션)
+ * @param params.arrange - 정렬 구분 (옵션, getArrangeFromSort 참고)
+ * @param params.numOfRows - 페이지당 항목 수 (기본값: 10)
+ * @param params.pageNo - 페이지 번호 (기본값: 1)
+ * @returns 페이지네이션 메타데이터를 포함한 관광지 목록
+ *
+ * @example
+ * ```ts
+ * const result = await getAreaBasedListWithPagination({ areaCode: "1" });
+ * console.log(result.items); // TourItem[]
+ * console.log(result.pagination.totalCount); // 전체 개수
+ * ```
+ */
+export async function getAreaBasedListWithPagination(params: {
+  areaCode?: string;
+  sigunguCode?: string;
+  contentTypeId?: string;
+  cat1?: string;
+  cat2?: string;
+  cat3?: string;
+  arrange?: TourArrange;
+  numOfRows?: number;
+  pageNo?: number;
+}): Promise<PaginationResponse<TourItem>> {
+  try {
+    const {
+      areaCode,
+      sigunguCode,
+      contentTypeId,
+      cat1,
+      cat2,
+      cat3,
+      arrange,
+      numOfRows = 10,
+      pageNo = 1,
+    } = params;
+
+    const url = buildApiUrl("/areaBasedList2", {
+      areaCode,
+      sigunguCode,
+      contentTypeId,
+      cat1,
+      cat2,
+      cat3,
+      arrange,
+      numOfRows,
+      pageNo,
+    });
+
+    const response = await fetchWithRetry(url, tourListResponseSchema, 3, 1000, "areaBasedList");
+    
+    const items = response.response.body.items.item;
+    if (items.length === 0) {
+      return {
+        items: [],
+        pagination: {
+          pageNo,
+          numOfRows,
+          totalCount: 0,
+          totalPages: 0,
+        },
+      };
+    }
+    
+    // 페이지네이션 메타데이터 추출
+    const body = response.response.body;
+    const totalCount = body.totalCount || 0;
+    const currentPageNo = body.pageNo || pageNo;
+    const currentNumOfRows = body.numOfRows || numOfRows;
+    const totalPages = currentNumOfRows > 0 ? Math.ceil(totalCount / currentNumOfRows) : 0;
+
+    return {
+      items,
+      pagination: {
+        pageNo: currentPageNo,
+        numOfRows: currentNumOfRows,
+        totalCount,
+        totalPages,
+      },
+    };
+  } catch (error) {
+    console.error("지역 기반 목록 조회 실패:", error);
+    throw error;
   }
 }
 
-/**
- * 응답 데이터 정규화 (단일 항목을 배열로 변환)
- */
-function normalizeItems<T>(items: T | T[] | undefined): T[] {
-  if (!items) return [];
-  return Array.isArray(items) ? items : [items];
-}
+/**
+ * 위치 기반 관광지 목록 조회 (페이지네이션 메타데이터 포함)
+ *
+ * 기준 좌표(WGS84)로부터 반경 내에 있는 관광지를 거리순으로 조회합니다.
+ * 응답 항목에는 기준 좌표로부터의 거리(`dist`, 미터)가 포함됩니다.
+ *
+ * @param params - 조회 파라미터
+ * @param params.mapX - 기준 경도 (WGS84, 필수)
+ * @param params.mapY - 기준 위도 (WGS84, 필수)
+ * @param params.radius - 검색 반경 (미터, 최대 20000, 기본값: 5000)
+ * @param params.contentTypeId - 콘텐츠 타입 ID (옵션)
+ * @param params.arrange - 정렬 구분 (기본값: E 거리순, S: 이미지가 있는 항목만 거리순)
+ * @param params.numOfRows - 페이지당 항목 수 (기본값: 10)
+ * @param params.pageNo - 페이지 번호 (기본값: 1)
+ * @returns 페이지네이션 메타데이터를 포함한 관광지 목록
+ *
+ * @example
+ * ```ts
+ * // 서울시청 반경 5km 이내 관광지 조회
+ * const result = await getLocationBasedList({ mapX: 126.9779, mapY: 37.5663, radius: 5000 });
+ * console.log(result.items[0].dist); // "152.3" (미터)
+ * ```
+ */
+export async function getLocationBasedList(params: {
+  mapX: number | string;
+  mapY: number | string;
+  radius?: number;
+  contentTypeId?: string;
+  arrange?: TourArrange;
+  numOfRows?: number;
+  pageNo?: number;
+}): Promise<PaginationResponse<TourItem>> {
+  try {
+    const {
+      mapX,
+      mapY,
+      radius = LOCATION_RADIUS.DEFAULT,
+      contentTypeId,
+      arrange = "E",
+      numOfRows = 10,
+      pageNo = 1,
+    } = params;
+
+    const lng = Number(mapX);
+    const lat = Number(mapY);
+    if (!Number.isFinite(lng) || !Number.isFinite(lat)) {
+      throw new TourApiValidationError({
+        endpoint: "locationBasedList2",
+        detail: "기준 좌표(mapX, mapY)는 필수입니다.",
+      });
+    }
+
+    // API 허용 범위(최대 20km)로 반경 제한
+    const safeRadius = Math.min(Math.max(Math.round(radius), 1), LOCATION_RADIUS.MAX);
+
+    const url = buildApiUrl("/locationBasedList2", {
+      mapX: lng,
+      mapY: lat,
+      radius: safeRadius,
+      contentTypeId,
+      arrange,
+      numOfRows,
+      pageNo,
+    });
+
+    const response = await fetchWithRetry(
+      url,
+      tourListResponseSchema,
+      3,
+      1000,
+      "locationBasedList"
+    );
+
+    const items = response.response.body.items.item;
+    if (items.length === 0) {
+      return {
+        items: [],
+        pagination: {
+          pageNo,
+          numOfRows,
+          totalCount: 0,
+          totalPages: 0,
+        },
+      };
+    }
+
+    // 페이지네이션 메타데이터 추출
+    const body = response.response.body;
+    const totalCount = body.totalCount || 0;
+    const currentPageNo = body.pageNo || pageNo;
+    const currentNumOfRows = body.numOfRows || numOfRows;
+    const totalPages = currentNumOfRows > 0 ? Math.ceil(totalCount / currentNumOfRows) : 0;
 
-/**
- * 지역코드 조회
- *
- * @param areaCode - 상위 지역 코드 (옵션, 시/도 코드 입력 시 시/군/구 목록 반환)
- * @returns 지역코드 목록
- *
- * @example
- * ```ts
- * // 시/도 목록 조회
- * const areaCodes = await getAreaCode();
- *
- * // 특정 시/도의 시/군/구 목록 조회
- * const sigunguCodes = await getAreaCode("1"); // 서울
- * ```
- */
-export async function getAreaCode(areaCode?: string): Promise<AreaCode[]> {
-  try {
-    const url = buildApiUrl("/areaCode2", areaCode ? { areaCode } : {});
-    const response = await fetchWithRetry<AreaCodeResponse>(url, 3, 1000, "areaCode");
-    return normalizeItems(response.response.body.items?.item);
+    return {
+      items,
+      pagination: {
+        pageNo: currentPageNo,
+        numOfRows: currentNumOfRows,
+        totalCount,
+        totalPages,
+      },
+    };
   } catch (error) {
-    console.error("지역코드 조회 실패:", error);
+    console.error("위치 기반 목록 조회 실패:", error);
     throw error;
   }
 }
 
 /**
- * 지역 기반 관광지 목록 조회
+ * 축제/행사 기간 검색 (페이지네이션 메타데이터 포함)
  *
- * @param params - 조회 파라미터
+ * 지정한 기간에 진행되는 축제/행사(contentTypeId 15) 목록을 조회합니다.
+ * 응답 항목에는 행사 시작일/종료일(`eventstartdate`, `eventenddate`)이 포함됩니다.
+ *
+ * @param params - 검색 파라미터
+ * @param params.eventStartDate - 행사 시작일 (YYYYMMDD, 필수, 이 날짜 이후 종료되는 행사 조회)
+ * @param params.eventEndDate - 행사 종료일 (YYYYMMDD, 옵션, 이 날짜 이전에 시작하는 행사 조회)
  * @param params.areaCode - 지역 코드 (옵션)
- * @param params.contentTypeId - 콘텐츠 타입 ID (옵션, 12:관광지, 14:문화시설 등)
+ * @param params.sigunguCode - 시/군/구 코드 (옵션, areaCode 필요)
+ * @param params.arrange - 정렬 구분 (옵션, 거리순 E/S는 지원하지 않음)
  * @param params.numOfRows - 페이지당 항목 수 (기본값: 10)
  * @param params.pageNo - 페이지 번호 (기본값: 1)
- * @param params.listYN - 목록 구분 (Y: 목록, N: 개수만, 기본값: Y)
- * @returns 관광지 목록
+ * @returns 페이지네이션 메타데이터를 포함한 축제/행사 목록
  *
  * @example
  * ```ts
- * // 서울 지역 관광지 목록 조회
- * const items = await getAreaBasedList({ areaCode: "1", contentTypeId: "12" });
+ * // 2025년 10월 한 달간 진행되는 축제 조회
+ * const result = await searchFestival({ eventStartDate: "20251001", eventEndDate: "20251031" });
  * ```
  */
-export async function getAreaBasedList(params: {
+export async function searchFestival(params: {
+  eventStartDate: string;
+  eventEndDate?: string;
   areaCode?: string;
-  contentTypeId?: string;
+  sigunguCode?: string;
+  arrange?: TourArrange;
   numOfRows?: number;
   pageNo?: number;
-}): Promise<TourItem[]> {
+}): Promise<PaginationResponse<TourItem>> {
   try {
     const {
+      eventStartDate,
+      eventEndDate,
       areaCode,
-      contentTypeId,
+      sigunguCode,
+      arrange,
       numOfRows = 10,
       pageNo = 1,
     } = params;
 
-    // listYN 파라미터 제거 (한국관광공사 API에서 지원하지 않음)
-    const url = buildApiUrl("/areaBasedList2", {
+    if (!eventStartDate || !/^\d{8}$/.test(eventStartDate)) {
+      throw new TourApiValidationError({
+        endpoint: "searchFestival2",
+        detail: "행사 시작일(YYYYMMDD)은 필수입니다.",
+      });
+    }
+    if (eventEndDate && !/^\d{8}$/.test(eventEndDate)) {
+      throw new TourApiValidationError({
+        endpoint: "searchFestival2",
+        detail: "행사 종료일은 YYYYMMDD 형식이어야 합니다.",
+      });
+    }
+    if (eventEndDate && eventEndDate < eventStartDate) {
+      throw new TourApiValidationError({
+        endpoint: "searchFestival2",
+        detail: "행사 종료일은 시작일 이후여야 합니다.",
+      });
+    }
+
+    const url = buildApiUrl("/searchFestival2", {
+      eventStartDate,
+      eventEndDate,
       areaCode,
-      contentTypeId,
+      sigunguCode,
+      arrange,
       numOfRows,
       pageNo,
     });
 
-    const response = await fetchWithRetry<AreaBasedListResponse>(url, 3, 1000, "areaBasedList");
-    
-    // 응답 구조 확인 및 안전하게 접근
-    if (!response) {
-      console.error("API 응답이 없습니다");
-      throw new Error("API 응답이 없습니다");
-    }
-    
-    // 정상 응답인지 확인
-    if (!("response" in response)) {
-      console.error("API 응답 구조가 올바르지 않습니다:", response);
-      throw new Error("API 응답 구조가 올바르지 않습니다: response 속성 없음");
-    }
-    
-    if (!response.response || !response.response.body) {
-      console.error("API 응답에 body 속성이 없습니다:", response.response);
-      throw new Error("API 응답 구조가 올바르지 않습니다: body 속성 없음");
-    }
-    
-    const items = response.response.body.items?.item;
-    if (!items) {
-      console.warn("API 응답에 items가 없습니다:", response.response.body);
-      return [];
+    const response = await fetchWithRetry(url, tourListResponseSchema, 3, 1000, "searchFestival");
+
+    const items = response.response.body.items.item;
+    if (items.length === 0) {
+      return {
+        items: [],
+        pagination: {
+          pageNo,
+          numOfRows,
+          totalCount: 0,
+          totalPages: 0,
+        },
+      };
     }
-    
-    return normalizeItems(items);
+
+    // 페이지네이션 메타데이터 추출
+    const body = response.response.body;
+    const totalCount = body.totalCount || 0;
+    const currentPageNo = body.pageNo || pageNo;
+    const currentNumOfRows = body.numOfRows || numOfRows;
+    const totalPages = currentNumOfRows > 0 ? Math.ceil(totalCount / currentNumOfRows) : 0;
+
+    return {
+      items,
+      pagination: {
+        pageNo: currentPageNo,
+        numOfRows: currentNumOfRows,
+        totalCount,
+        totalPages,
+      },
+    };
   } catch (error) {
-    console.error("지역 기반 목록 조회 실패:", error);
+    console.error("축제/행사 검색 실패:", error);
     throw error;
   }
 }
 
 /**
- * 지역 기반 관광지 목록 조회 (페이지네이션 메타데이터 포함)
+ * 동기화 목록 조회 (페이지네이션 메타데이터 포함)
+ *
+ * 수정일(modifiedtime)에 변경된 콘텐츠를 조회합니다.
+ * modifiedtime은 접두 일치(YYYY, YYYYMM, YYYYMMDD)로 필터링되므로 "이후"가 아닌 해당 날짜의 변경분만 내려옵니다.
+ * 삭제/비공개 처리된 콘텐츠도 showflag "0"으로 함께 내려오므로,
+ * 로컬 사본(places 테이블)의 증분 동기화에 사용합니다.
  *
  * @param params - 조회 파라미터
+ * @param params.modifiedtime - 수정일 (YYYYMMDD, 옵션, 지정 시 해당 날짜의 변경분만 조회)
+ * @param params.showflag - 표출 여부 필터 (1: 표출, 0: 비표출, 옵션, 미지정 시 모두 조회)
  * @param params.areaCode - 지역 코드 (옵션)
  * @param params.contentTypeId - 콘텐츠 타입 ID (옵션)
- * @param params.numOfRows - 페이지당 항목 수 (기본값: 10)
+ * @param params.arrange - 정렬 구분 (기본값: C 수정일순)
+ * @param params.numOfRows - 페이지당 항목 수 (기본값: 100)
  * @param params.pageNo - 페이지 번호 (기본값: 1)
- * @returns 페이지네이션 메타데이터를 포함한 관광지 목록
+ * @returns 페이지네이션 메타데이터를 포함한 동기화 목록
  *
  * @example
  * ```ts
- * const result = await getAreaBasedListWithPagination({ areaCode: "1" });
- * console.log(result.items); // TourItem[]
- * console.log(result.pagination.totalCount); // 전체 개수
+ * // 2025년 12월 1일에 변경된 콘텐츠 조회
+ * const result = await getAreaBasedSyncList({ modifiedtime: "20251201" });
+ * const hidden = result.items.filter((item) => item.showflag === "0");
  * ```
  */
-export async function getAreaBasedListWithPagination(params: {
-  areaCode?: string;
-  contentTypeId?: string;
-  numOfRows?: number;
-  pageNo?: number;
-}): Promise<PaginationResponse<TourItem>> {
+export async function getAreaBasedSyncList(
+  params: {
+    modifiedtime?: string;
+    showflag?: "0" | "1";
+    areaCode?: string;
+    contentTypeId?: string;
+    arrange?: TourArrange;
+    numOfRows?: number;
+    pageNo?: number;
+  } = {}
+): Promise<PaginationResponse<SyncListItem>> {
   try {
     const {
+      modifiedtime,
+      showflag,
       areaCode,
       contentTypeId,
-      numOfRows = 10,
+      arrange = "C",
+      numOfRows = 100,
       pageNo = 1,
     } = params;
 
-    const url = buildApiUrl("/areaBasedList2", {
+    if (modifiedtime && !/^\d{8}$/.test(modifiedtime)) {
+      throw new TourApiValidationError({
+        endpoint: "areaBasedSyncList2",
+        detail: "수정일은 YYYYMMDD 형식이어야 합니다.",
+      });
+    }
+
+    const url = buildApiUrl("/areaBasedSyncList2", {
+      modifiedtime,
+      showflag,
       areaCode,
       contentTypeId,
+      arrange,
       numOfRows,
       pageNo,
     });
 
-    const response = await fetchWithRetry<AreaBasedListResponse>(url, 3, 1000, "areaBasedList");
-    
-    if (!response || !("response" in response) || !response.response?.body) {
-      throw new Error("API 응답 구조가 올바르지 않습니다");
-    }
+    const response = await fetchWithRetry(
+      url,
+      areaBasedSyncListResponseSchema,
+      3,
+      1000,
+      "areaBasedSyncList"
+    );
 
-    const items = response.response.body.items?.item;
-    if (!items) {
+    const items = response.response.body.items.item;
+    if (items.length === 0) {
       return {
         items: [],
         pagination: {
@@ -388,8 +1500,6 @@ export async function getAreaBasedListWithPagination(params: {
       };
     }
 
-    const normalizedItems = normalizeItems(items);
-    
     // 페이지네이션 메타데이터 추출
     const body = response.response.body;
     const totalCount = body.totalCount || 0;
@@ -398,7 +1508,7 @@ export async function getAreaBasedListWithPagination(params: {
     const totalPages = currentNumOfRows > 0 ? Math.ceil(totalCount / currentNumOfRows) : 0;
 
     return {
-      items: normalizedItems,
+      items,
       pagination: {
         pageNo: currentPageNo,
         numOfRows: currentNumOfRows,
@@ -407,7 +1517,7 @@ export async function getAreaBasedListWithPagination(params: {
       },
     };
   } catch (error) {
-    console.error("지역 기반 목록 조회 실패:", error);
+    console.error("동기화 목록 조회 실패:", error);
     throw error;
   }
 }
@@ -418,7 +1528,11 @@ export async function getAreaBasedListWithPagination(params: {
  * @param params - 검색 파라미터
  * @param params.keyword - 검색 키워드 (필수)
  * @param params.areaCode - 지역 코드 (옵션)
+ * @param params.sigunguCode - 시/군/구 코드 (옵션, areaCode 필요)
  * @param params.contentTypeId - 콘텐츠 타입 ID (옵션)
+ * @param params.cat1 - 대분류 코드 (옵션)
+ * @param params.cat2 - 중분류 코드 (옵션)
+ * @param params.cat3 - 소분류 코드 (옵션)
  * @param params.numOfRows - 페이지당 항목 수 (기본값: 10)
  * @param params.pageNo - 페이지 번호 (기본값: 1)
  * @returns 검색 결과 목록
@@ -432,27 +1546,48 @@ export async function getAreaBasedListWithPagination(params: {
 export async function searchKeyword(params: {
   keyword: string;
   areaCode?: string;
+  sigunguCode?: string;
   contentTypeId?: string;
+  cat1?: string;
+  cat2?: string;
+  cat3?: string;
   numOfRows?: number;
   pageNo?: number;
 }): Promise<TourItem[]> {
   try {
-    const { keyword, areaCode, contentTypeId, numOfRows = 10, pageNo = 1 } = params;
+    const {
+      keyword,
+      areaCode,
+      sigunguCode,
+      contentTypeId,
+      cat1,
+      cat2,
+      cat3,
+      numOfRows = 10,
+      pageNo = 1,
+    } = params;
 
     if (!keyword || keyword.trim().length === 0) {
-      throw new Error("검색 키워드는 필수입니다.");
+      throw new TourApiValidationError({
+        endpoint: "searchKeyword2",
+        detail: "검색 키워드는 필수입니다.",
+      });
     }
 
     const url = buildApiUrl("/searchKeyword2", {
       keyword: keyword.trim(),
       areaCode,
+      sigunguCode,
       contentTypeId,
+      cat1,
+      cat2,
+      cat3,
       numOfRows,
       pageNo,
     });
 
-    const response = await fetchWithRetry<SearchKeywordResponse>(url, 3, 1000, "searchKeyword");
-    return normalizeItems(response.response.body.items?.item);
+    const response = await fetchWithRetry(url, tourListResponseSchema, 3, 1000, "searchKeyword");
+    return response.response.body.items.item;
   } catch (error) {
     console.error("키워드 검색 실패:", error);
     throw error;
@@ -465,7 +1600,12 @@ export async function searchKeyword(params: {
  * @param params - 검색 파라미터
  * @param params.keyword - 검색 키워드 (필수)
  * @param params.areaCode - 지역 코드 (옵션)
+ * @param params.sigunguCode - 시/군/구 코드 (옵션, areaCode 필요)
  * @param params.contentTypeId - 콘텐츠 타입 ID (옵션)
+ * @param params.cat1 - 대분류 코드 (옵션)
+ * @param params.cat2 - 중분류 코드 (옵션)
+ * @param params.cat3 - 소분류 코드 (옵션)
+ * @param params.arrange - 정렬 구분 (옵션, getArrangeFromSort 참고)
  * @param params.numOfRows - 페이지당 항목 수 (기본값: 10)
  * @param params.pageNo - 페이지 번호 (기본값: 1)
  * @returns 페이지네이션 메타데이터를 포함한 검색 결과
@@ -473,33 +1613,53 @@ export async function searchKeyword(params: {
 export async function searchKeywordWithPagination(params: {
   keyword: string;
   areaCode?: string;
+  sigunguCode?: string;
   contentTypeId?: string;
+  cat1?: string;
+  cat2?: string;
+  cat3?: string;
+  arrange?: TourArrange;
   numOfRows?: number;
   pageNo?: number;
 }): Promise<PaginationResponse<TourItem>> {
   try {
-    const { keyword, areaCode, contentTypeId, numOfRows = 10, pageNo = 1 } = params;
+    const {
+      keyword,
+      areaCode,
+      sigunguCode,
+      contentTypeId,
+      cat1,
+      cat2,
+      cat3,
+      arrange,
+      numOfRows = 10,
+      pageNo = 1,
+    } = params;
 
     if (!keyword || keyword.trim().length === 0) {
-      throw new Error("검색 키워드는 필수입니다.");
+      throw new TourApiValidationError({
+        endpoint: "searchKeyword2",
+        detail: "검색 키워드는 필수입니다.",
+      });
     }
 
     const url = buildApiUrl("/searchKeyword2", {
       keyword: keyword.trim(),
       areaCode,
+      sigunguCode,
       contentTypeId,
+      cat1,
+      cat2,
+      cat3,
+      arrange,
       numOfRows,
       pageNo,
     });
 
-    const response = await fetchWithRetry<SearchKeywordResponse>(url, 3, 1000, "searchKeyword");
+    const response = await fetchWithRetry(url, tourListResponseSchema, 3, 1000, "searchKeyword");
     
-    if (!response || !("response" in response) || !response.response?.body) {
-      throw new Error("API 응답 구조가 올바르지 않습니다");
-    }
-
-    const items = response.response.body.items?.item;
-    if (!items) {
+    const items = response.response.body.items.item;
+    if (items.length === 0) {
       return {
         items: [],
         pagination: {
@@ -510,8 +1670,6 @@ export async function searchKeywordWithPagination(params: {
         },
       };
     }
-
-    const normalizedItems = normalizeItems(items);
     
     // 페이지네이션 메타데이터 추출
     const body = response.response.body;
@@ -521,7 +1679,7 @@ export async function searchKeywordWithPagination(params: {
     const totalPages = currentNumOfRows > 0 ? Math.ceil(totalCount / currentNumOfRows) : 0;
 
     return {
-      items: normalizedItems,
+      items,
       pagination: {
         pageNo: currentPageNo,
         numOfRows: currentNumOfRows,
@@ -538,6 +1696,8 @@ export async function searchKeywordWithPagination(params: {
 /**
  * 관광지 상세 정보 조회
  *
+ * 현재 언어 서비스에 관광지가 없으면 한국어, 나머지 외국어 서비스 순으로 대체 조회합니다.
+ *
  * @param params - 조회 파라미터
  * @param params.contentId - 콘텐츠 ID (필수)
  * @param params.defaultYN - 기본 정보 포함 여부 (기본값: Y)
@@ -547,7 +1707,7 @@ export async function searchKeywordWithPagination(params: {
  * @param params.addrinfoYN - 주소 정보 포함 여부 (기본값: Y)
  * @param params.mapinfoYN - 지도 정보 포함 여부 (기본값: Y)
  * @param params.overviewYN - 개요 포함 여부 (기본값: Y)
- * @returns 상세 정보
+ * @returns 상세 정보 (language: 실제로 조회된 언어, 현재 언어에 없으면 대체 조회된 언어)
  *
  * @example
  * ```ts
@@ -577,33 +1737,144 @@ export async function getDetailCommon(params: {
     } = params;
 
     if (!contentId) {
-      throw new Error("콘텐츠 ID는 필수입니다.");
+      throw new TourApiValidationError({
+        endpoint: "detailCommon2",
+        detail: "콘텐츠 ID는 필수입니다.",
+      });
     }
 
-    // detailCommon2는 contentId만 필수, 나머지는 선택적 파라미터
-    // API에서 지원하지 않는 파라미터는 제외
-    // detailCommon2는 contentId만 필수 파라미터
-    // 선택적 파라미터들은 API가 지원하지 않을 수 있으므로 제외
-    const url = buildApiUrl("/detailCommon2", {
-      contentId,
-    });
+    // 현재 언어 서비스에 관광지가 없으면 한국어, 나머지 외국어 서비스 순으로 대체 조회
+    // (언어별 서비스의 콘텐츠 ID가 달라, 다른 언어 화면에서 추가한 북마크 등은 현재 언어로 조회되지 않음)
+    const language = getTourLanguage();
+    const fallbackLanguages = [
+      language,
+      DEFAULT_TOUR_LANGUAGE,
+      ...TOUR_LANGUAGES.filter((candidate) => candidate !== DEFAULT_TOUR_LANGUAGE),
+    ].filter((candidate, index, list) => list.indexOf(candidate) === index);
 
-    const response = await fetchWithRetry<DetailCommonResponse>(url, 3, 1000, "detailCommon");
-    const items = normalizeItems(response.response.body.items?.item);
-    return items.length > 0 ? items[0] : null;
+    for (const candidate of fallbackLanguages) {
+      const response = await runWithTourLanguage(candidate, () => {
+        // detailCommon2는 contentId만 필수, 나머지는 선택적 파라미터
+        // API에서 지원하지 않는 파라미터는 제외
+        // detailCommon2는 contentId만 필수 파라미터
+        // 선택적 파라미터들은 API가 지원하지 않을 수 있으므로 제외
+        const url = buildApiUrl("/detailCommon2", {
+          contentId,
+        });
+        return fetchWithRetry(url, detailCommonResponseSchema, 3, 1000, "detailCommon");
+      });
+      const items = response.response.body.items.item;
+      if (items.length > 0) {
+        // 캐시된 응답 객체는 공유되므로 복사하여 조회 언어 표시
+        return { ...items[0], language: candidate };
+      }
+    }
+
+    return null;
   } catch (error) {
     console.error("상세 정보 조회 실패:", error);
     throw error;
   }
 }
 
+/**
+ * 상세 정보 일괄 조회 시 동시에 보내는 요청 수
+ */
+const DETAIL_COMMON_BATCH_CONCURRENCY = 5;
+
+/**
+ * 상세 정보 일괄 조회 (북마크 목록 등)
+ *
+ * 콘텐츠 ID마다 detailCommon2를 호출하되, 동시에 보내는 요청 수를 제한합니다.
+ * 일부 조회에 실패하면 실패한 ID를 결과에 담아 반환하고,
+ * 모두 실패한 경우(서비스 장애, 한도 초과 등)에는 첫 번째 에러를 던집니다.
+ *
+ * @param params.contentIds - 콘텐츠 ID 목록 (필수)
+ * @returns 상세 정보, 관광지가 없는 ID, 조회에 실패한 ID
+ *
+ * @example
+ * ```ts
+ * const { items, failedIds } = await getDetailCommonBatch({ contentIds: ["125266", "126508"] });
+ * ```
+ */
+export async function getDetailCommonBatch(params: {
+  contentIds: string[];
+}): Promise<DetailCommonBatchResult> {
+  const { contentIds } = params;
+  const result: DetailCommonBatchResult = { items: [], missingIds: [], failedIds: [] };
+  let firstError: unknown = null;
+
+  for (let start = 0; start < contentIds.length; start += DETAIL_COMMON_BATCH_CONCURRENCY) {
+    const ids = contentIds.slice(start, start + DETAIL_COMMON_BATCH_CONCURRENCY);
+    const settled = await Promise.allSettled(ids.map((contentId) => getDetailCommon({ contentId })));
+
+    settled.forEach((outcome, index) => {
+      if (outcome.status === "rejected") {
+        firstError ??= outcome.reason;
+        result.failedIds.push(ids[index]);
+      } else if (outcome.value) {
+        result.items.push(outcome.value);
+      } else {
+        result.missingIds.push(ids[index]);
+      }
+    });
+  }
+
+  if (contentIds.length > 0 && result.failedIds.length === contentIds.length) {
+    throw firstError;
+  }
+
+  return result;
+}
+
+/**
+ * 운영/반복 정보 필드 값 정리
+ * (<br> 태그는 줄바꿈으로 변환, 나머지 HTML 태그와 빈 값은 제거)
+ */
+function normalizeIntroValue(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const normalized = value
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .trim();
+  return normalized.length > 0 ? normalized : undefined;
+}
+
+/**
+ * 운영 정보 원본 항목을 콘텐츠 타입별 TourIntro로 정규화
+ *
+ * 응답의 contenttypeid가 비어 있는 경우를 대비해 요청한 타입 ID를 우선 사용합니다.
+ * 지원하지 않는 타입이면 null을 반환합니다.
+ */
+function normalizeTourIntro(raw: RawTourIntro, contentTypeId: string): TourIntro | null {
+  const typeId = contentTypeId || raw.contenttypeid;
+  if (!(Object.values(CONTENT_TYPE) as string[]).includes(typeId)) {
+    console.warn("지원하지 않는 콘텐츠 타입의 운영 정보:", typeId);
+    return null;
+  }
+
+  const fields: Record<string, string> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const normalized = normalizeIntroValue(value);
+    if (normalized) {
+      fields[key] = normalized;
+    }
+  }
+
+  // 타입 ID로 구분되는 유니온이므로 필드 구성은 타입별 인터페이스를 따름
+  return { ...fields, contentid: raw.contentid, contenttypeid: typeId } as TourIntro;
+}
+
 /**
  * 관광지 운영 정보 조회
  *
+ * 콘텐츠 타입마다 응답 필드가 다르므로, contenttypeid로 구분되는
+ * 타입별 운영 정보(TourIntro 유니온)로 정규화하여 반환합니다.
+ *
  * @param params - 조회 파라미터
  * @param params.contentId - 콘텐츠 ID (필수)
  * @param params.contentTypeId - 콘텐츠 타입 ID (필수)
- * @returns 운영 정보
+ * @returns 타입별 운영 정보
  *
  * @example
  * ```ts
@@ -618,7 +1889,10 @@ export async function getDetailIntro(params: {
     const { contentId, contentTypeId } = params;
 
     if (!contentId || !contentTypeId) {
-      throw new Error("콘텐츠 ID와 콘텐츠 타입 ID는 필수입니다.");
+      throw new TourApiValidationError({
+        endpoint: "detailIntro2",
+        detail: "콘텐츠 ID와 콘텐츠 타입 ID는 필수입니다.",
+      });
     }
 
     const url = buildApiUrl("/detailIntro2", {
@@ -626,15 +1900,134 @@ export async function getDetailIntro(params: {
       contentTypeId,
     });
 
-    const response = await fetchWithRetry<DetailIntroResponse>(url, 3, 1000, "detailIntro");
-    const items = normalizeItems(response.response.body.items?.item);
-    return items.length > 0 ? items[0] : null;
+    const response = await fetchWithRetry(url, detailIntroResponseSchema, 3, 1000, "detailIntro");
+    const items = response.response.body.items.item;
+    return items.length > 0 ? normalizeTourIntro(items[0], contentTypeId) : null;
   } catch (error) {
     console.error("운영 정보 조회 실패:", error);
     throw error;
   }
 }
 
+/**
+ * 정리된 반복 정보 항목 (빈 값이 제거된 필드)
+ */
+type RepeatInfoFields = Record<string, string>;
+
+/**
+ * 반복 정보 원본 항목의 필드 값 정리 (빈 값 제거)
+ */
+function normalizeRepeatInfoFields(raw: RawRepeatInfo): RepeatInfoFields {
+  const fields: RepeatInfoFields = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const normalized = normalizeIntroValue(value);
+    if (normalized) {
+      fields[key] = normalized;
+    }
+  }
+  return fields;
+}
+
+/**
+ * 객실 정보 항목인지 확인 (객실명 필수)
+ */
+function isRoomInfo(fields: RepeatInfoFields): fields is RepeatInfoFields & RoomInfo {
+  return Boolean(fields.roomtitle);
+}
+
+/**
+ * 코스 경유지 항목인지 확인 (경유지명, 순서 필수)
+ */
+function isCourseStop(fields: RepeatInfoFields): fields is RepeatInfoFields & CourseStop {
+  return Boolean(fields.subname && fields.subnum);
+}
+
+/**
+ * 추가 정보 항목인지 확인 (항목명, 내용 필수)
+ */
+function isExtraInfoRow(fields: RepeatInfoFields): fields is RepeatInfoFields & ExtraInfoRow {
+  return Boolean(fields.infoname && fields.infotext);
+}
+
+/**
+ * 반복 정보 원본 목록을 콘텐츠 타입별 TourRepeatInfo로 정규화
+ *
+ * - 숙박(32): 객실명이 있는 항목만 객실 목록으로 사용
+ * - 여행코스(25): 경유지명과 순서가 있는 항목만 경유지 순서(subnum)대로 정렬
+ * - 그 외: 항목명과 내용이 모두 있는 항목만 순번(serialnum)대로 정렬
+ */
+function normalizeRepeatInfo(rawItems: RawRepeatInfo[], contentTypeId: string): TourRepeatInfo {
+  const items = rawItems.map(normalizeRepeatInfoFields);
+
+  if (contentTypeId === CONTENT_TYPE.ACCOMMODATION) {
+    return {
+      kind: "room",
+      items: items.filter(isRoomInfo),
+    };
+  }
+
+  if (contentTypeId === CONTENT_TYPE.TRAVEL_COURSE) {
+    return {
+      kind: "course",
+      items: items.filter(isCourseStop).sort((a, b) => Number(a.subnum) - Number(b.subnum)),
+    };
+  }
+
+  return {
+    kind: "extra",
+    items: items
+      .filter(isExtraInfoRow)
+      .sort((a, b) => Number(a.serialnum ?? 0) - Number(b.serialnum ?? 0)),
+  };
+}
+
+/**
+ * 관광지 반복 정보 조회
+ *
+ * 콘텐츠 타입에 따라 응답 구성이 다르므로 kind로 구분되는 TourRepeatInfo로 정규화합니다.
+ * (숙박: 객실 목록, 여행코스: 경유지 목록, 그 외: 추가 정보 목록)
+ *
+ * @param params - 조회 파라미터
+ * @param params.contentId - 콘텐츠 ID (필수)
+ * @param params.contentTypeId - 콘텐츠 타입 ID (필수)
+ * @returns 타입별 반복 정보
+ *
+ * @example
+ * ```ts
+ * const repeatInfo = await getDetailInfo({ contentId: "142785", contentTypeId: "32" });
+ * if (repeatInfo.kind === "room") {
+ *   console.log(repeatInfo.items[0].roomtitle);
+ * }
+ * ```
+ */
+export async function getDetailInfo(params: {
+  contentId: string;
+  contentTypeId: string;
+}): Promise<TourRepeatInfo> {
+  try {
+    const { contentId, contentTypeId } = params;
+
+    if (!contentId || !contentTypeId) {
+      throw new TourApiValidationError({
+        endpoint: "detailInfo2",
+        detail: "콘텐츠 ID와 콘텐츠 타입 ID는 필수입니다.",
+      });
+    }
+
+    const url = buildApiUrl("/detailInfo2", {
+      contentId,
+      contentTypeId,
+    });
+
+    const response = await fetchWithRetry(url, detailInfoResponseSchema, 3, 1000, "detailInfo");
+    const items = response.response.body.items.item;
+    return normalizeRepeatInfo(items, contentTypeId);
+  } catch (error) {
+    console.error("반복 정보 조회 실패:", error);
+    throw error;
+  }
+}
+
 /**
  * 관광지 이미지 목록 조회
  *
@@ -654,7 +2047,10 @@ export async function getDetailImage(params: {
     const { contentId } = params;
 
     if (!contentId) {
-      throw new Error("콘텐츠 ID는 필수입니다.");
+      throw new TourApiValidationError({
+        endpoint: "detailImage2",
+        detail: "콘텐츠 ID는 필수입니다.",
+      });
     }
 
     // detailImage2는 contentId만 필수 파라미터
@@ -663,8 +2059,8 @@ export async function getDetailImage(params: {
       contentId,
     });
 
-    const response = await fetchWithRetry<DetailImageResponse>(url, 3, 1000, "detailImage");
-    return normalizeItems(response.response.body.items?.item);
+    const response = await fetchWithRetry(url, detailImageResponseSchema, 3, 1000, "detailImage");
+    return response.response.body.items.item;
   } catch (error) {
     console.error("이미지 목록 조회 실패:", error);
     throw error;
@@ -690,15 +2086,23 @@ export async function getDetailPetTour(params: {
     const { contentId } = params;
 
     if (!contentId) {
-      throw new Error("콘텐츠 ID는 필수입니다.");
+      throw new TourApiValidationError({
+        endpoint: "detailPetTour2",
+        detail: "콘텐츠 ID는 필수입니다.",
+      });
+    }
+
+    // 반려동물 동반 정보는 한국어 서비스에만 있음
+    if (getTourLanguage() !== "ko") {
+      return null;
     }
 
     const url = buildApiUrl("/detailPetTour2", {
       contentId,
     });
 
-    const response = await fetchWithRetry<DetailPetTourResponse>(url, 3, 1000, "detailPetTour");
-    const items = normalizeItems(response.response.body.items?.item);
+    const response = await fetchWithRetry(url, detailPetTourResponseSchema, 3, 1000, "detailPetTour");
+    const items = response.response.body.items.item;
     return items.length > 0 ? items[0] : null;
   } catch (error) {
     console.error("반려동물 정보 조회 실패:", error);
@@ -0,0 +1,225 @@
+/**
+ * @file tour-cache.ts
+ * @description 한국관광공사 API 요청 캐시 (서버/클라이언트 공용)
+ *
+ * 같은 요청이 한 번의 렌더링 안에서 여러 번 발생하는 경우(generateMetadata, 페이지 본문,
+ * 북마크 카드 등)를 위해 요청 단위 캐시를 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 요청 병합 (single-flight): 진행 중인 같은 요청이 있으면 그 결과를 함께 사용
+ * 2. LRU 캐시: 최대 항목 수를 넘으면 가장 오래 사용하지 않은 항목부터 제거
+ * 3. 엔드포인트별 TTL: CACHE_STRATEGIES의 캐싱 시간 사용 (0이면 저장하지 않고 병합만 수행)
+ * 4. 적중/미적중 통계 (getStats)
+ * 5. 마지막 정상 응답 조회 (getStale): TTL이 지난 항목도 LRU에서 밀려나기 전까지 보관하여
+ *    API 장애 시 대체 데이터로 사용
+ *
+ * 서버(tour-api.ts)와 브라우저(tour-client.ts) 모두에서 사용하므로
+ * Node.js 전용 모듈에 의존하지 않습니다.
+ *
+ * 캐시된 값은 여러 호출자가 공유하므로 수정하지 말아야 합니다.
+ *
+ * @see {@link /lib/api/tour-api.ts} - 서버 API 클라이언트
+ * @see {@link /lib/api/tour-client.ts} - 클라이언트 fetcher
+ */
+
+/**
+ * 캐싱 전략 매핑
+ * 데이터 특성에 맞는 캐싱 시간 설정
+ */
+export const CACHE_STRATEGIES = {
+  areaCode: 604800,      // 7일 - 지역 코드는 거의 변경되지 않음
+  categoryCode: 604800,  // 7일 - 분류 코드는 거의 변경되지 않음
+  areaBasedList: 86400,  // 24시간 - 관광지 목록은 하루에 한 번 업데이트
+  detailCommon: 43200,   // 12시간 - 관광지 상세 정보는 중간 빈도 업데이트
+  detailIntro: 43200,    // 12시간 - 운영 정보는 상세 정보와 동일
+  detailInfo: 43200,     // 12시간 - 객실/코스 정보는 상세 정보와 동일
+  detailImage: 86400,    // 24시간 - 이미지는 자주 변경되지 않음
+  detailPetTour: 86400,  // 24시간 - 반려동물 정보는 자주 변경되지 않음
+  searchKeyword: 3600,   // 1시간 - 검색 결과는 자주 변경될 수 있음
+  locationBasedList: 3600, // 1시간 - 좌표마다 결과가 달라 캐시 재사용률이 낮음
+  searchFestival: 3600,  // 1시간 - 행사 일정은 수시로 등록/변경됨
+  areaBasedSyncList: 0,  // 캐싱 안 함 - 동기화 작업은 항상 최신 변경분이 필요
+  stats: 3600,           // 1시간 - 통계 데이터는 자주 업데이트
+} as const;
+
+export type CacheStrategy = keyof typeof CACHE_STRATEGIES;
+
+/**
+ * 저장된 응답(stale)으로 대체된 프록시 응답에 저장 시각(ISO 8601)을 담는 헤더
+ */
+export const STALE_SINCE_HEADER = "X-Tour-Stale-Since";
+
+/**
+ * 캐시 통계 (엔드포인트별)
+ */
+export interface TourCacheCounters {
+  /** 캐시 적중 수 */
+  hits: number;
+  /** 캐시 미적중 수 (실제 요청 수) */
+  misses: number;
+  /** 진행 중인 요청에 병합된 수 */
+  coalesced: number;
+}
+
+/**
+ * 캐시 통계
+ */
+export interface TourCacheStats extends TourCacheCounters {
+  /** LRU 한도 초과로 제거된 항목 수 */
+  evictions: number;
+  /** 현재 저장된 항목 수 */
+  size: number;
+  /** 최대 항목 수 */
+  maxEntries: number;
+  /** 진행 중인 요청 수 */
+  inflight: number;
+  /** 엔드포인트별 통계 */
+  endpoints: Record<string, TourCacheCounters>;
+}
+
+/**
+ * 캐시 키 생성 (서비스 키 제외, 파라미터 순서 정렬)
+ *
+ * @param url - 요청 URL (절대 경로 또는 /api/tour/... 같은 상대 경로)
+ * @returns 캐시 키 (예: /B551011/KorService2/detailCommon2?MobileApp=MyTrip&contentId=126508&...)
+ *
+ * @example
+ * ```ts
+ * getTourCacheKey("https://apis.data.go.kr/B551011/KorService2/areaCode2?serviceKey=abc&numOfRows=100");
+ * // "/B551011/KorService2/areaCode2?numOfRows=100"
+ * ```
+ */
+export function getTourCacheKey(url: string): string {
+  const parsed = new URL(url, "http://localhost");
+  parsed.searchParams.delete("serviceKey");
+  parsed.searchParams.sort();
+  const query = parsed.searchParams.toString();
+  return query ? `${parsed.pathname}?${query}` : parsed.pathname;
+}
+
+/**
+ * 요청 캐시 생성
+ *
+ * @param options.maxEntries - 최대 저장 항목 수
+ * @returns 캐시 객체 (load, getStale, getStats, clear)
+ *
+ * @example
+ * ```ts
+ * const cache = createTourRequestCache({ maxEntries: 500 });
+ * const detail = await cache.load(url, "detailCommon2", "detailCommon", () => request(url));
+ * ```
+ */
+export function createTourRequestCache(options: { maxEntries: number }) {
+  // Map은 삽입 순서를 유지하므로, 사용할 때마다 다시 넣어 가장 최근 항목을 뒤로 보냄
+  const entries = new Map<string, { value: unknown; storedAt: number; expiresAt: number }>();
+  const inflight = new Map<string, Promise<unknown>>();
+  const counters: TourCacheCounters = { hits: 0, misses: 0, coalesced: 0 };
+  const endpointCounters: Record<string, TourCacheCounters> = {};
+  let evictions = 0;
+
+  function count(endpoint: string, field: keyof TourCacheCounters): void {
+    counters[field] += 1;
+    endpointCounters[endpoint] ??= { hits: 0, misses: 0, coalesced: 0 };
+    endpointCounters[endpoint][field] += 1;
+  }
+
+  function store(key: string, value: unknown, ttlSeconds: number): void {
+    const now = Date.now();
+    entries.delete(key);
+    entries.set(key, { value, storedAt: now, expiresAt: now + ttlSeconds * 1000 });
+
+    while (entries.size > options.maxEntries) {
+      const oldestKey = entries.keys().next().value;
+      entries.delete(oldestKey);
+      evictions += 1;
+    }
+  }
+
+  /**
+   * 캐시된 값 또는 진행 중인 요청 결과 반환 (없으면 loader 실행)
+   *
+   * @param url - 요청 URL (캐시 키 생성에 사용)
+   * @param endpoint - 통계 집계용 엔드포인트 이름
+   * @param cacheStrategy - 캐싱 전략 (TTL)
+   * @param loader - 실제 요청 함수 (실패하면 캐시하지 않음)
+   * @param loadOptions.shouldCache - 결과를 저장할지 여부 (기본값: 항상 저장)
+   */
+  async function load<T>(
+    url: string,
+    endpoint: string,
+    cacheStrategy: CacheStrategy,
+    loader: () => Promise<T>,
+    loadOptions: { shouldCache?: (value: T) => boolean } = {}
+  ): Promise<T> {
+    const key = getTourCacheKey(url);
+
+    const entry = entries.get(key);
+    if (entry) {
+      // 만료된 항목도 장애 대비용으로 남겨두고 최근 사용 위치로 이동
+      entries.delete(key);
+      entries.set(key, entry);
+      if (entry.expiresAt > Date.now()) {
+        count(endpoint, "hits");
+        return entry.value as T;
+      }
+    }
+
+    const pending = inflight.get(key);
+    if (pending) {
+      count(endpoint, "coalesced");
+      return pending as Promise<T>;
+    }
+
+    count(endpoint, "misses");
+    const request = loader()
+      .then((value) => {
+        const ttlSeconds = CACHE_STRATEGIES[cacheStrategy];
+        if (ttlSeconds > 0 && (loadOptions.shouldCache?.(value) ?? true)) {
+          store(key, value, ttlSeconds);
+        }
+        return value;
+      })
+      .finally(() => {
+        inflight.delete(key);
+      });
+
+    inflight.set(key, request);
+    return request;
+  }
+
+  /**
+   * 마지막 정상 응답 조회 (TTL 만료 여부와 관계없이)
+   *
+   * @param url - 요청 URL
+   * @returns 저장된 값과 저장 시각 (ms), 없으면 null
+   */
+  function getStale<T>(url: string): { value: T; storedAt: number } | null {
+    const entry = entries.get(getTourCacheKey(url));
+    return entry ? { value: entry.value as T, storedAt: entry.storedAt } : null;
+  }
+
+  /**
+   * 캐시 통계 조회
+   */
+  function getStats(): TourCacheStats {
+    return {
+      ...counters,
+      evictions,
+      size: entries.size,
+      maxEntries: options.maxEntries,
+      inflight: inflight.size,
+      endpoints: Object.fromEntries(
+        Object.entries(endpointCounters).map(([endpoint, value]) => [endpoint, { ...value }])
+      ),
+    };
+  }
+
+  /**
+   * 저장된 항목 모두 제거 (통계는 유지)
+   */
+  function clear(): void {
+    entries.clear();
+  }
+
+  return { load, getStale, getStats, clear };
+}
@@ -0,0 +1,229 @@
+/**
+ * @file tour-client.ts
+ * @description 한국관광공사 API 클라이언트 fetcher
+ *
+ * 클라이언트 컴포넌트에서 사용하는 관광지 조회 함수들입니다.
+ * 서비스 키가 브라우저에 노출되지 않도록 /api/tour/* 프록시 라우트를 호출합니다.
+ * 함수 이름과 파라미터는 lib/api/tour-api.ts와 동일합니다.
+ * 실패 시 프록시 응답의 에러 정보로 복원한 TourApiError를 던집니다.
+ * 같은 요청은 요청 캐시(tour-cache.ts)에서 병합/재사용됩니다. (브라우저 탭 메모리)
+ * API 장애로 서버가 저장된 응답을 대신 보낸 경우 subscribeStaleResponses 구독자에게 알립니다.
+ * 현재 URL 경로의 언어(/en, /ja, /zh)가 한국어가 아니면 lang 파라미터로 언어별 서비스를 조회합니다.
+ *
+ * @see {@link /lib/api/tour-api.ts} - 서버 전용 API 클라이언트
+ * @see {@link /lib/api/tour-proxy.ts} - 프록시 라우트 공통 처리
+ */
+
+import type {
+  getAreaBasedListWithPagination as getAreaBasedListWithPaginationOnServer,
+  getLocationBasedList as getLocationBasedListOnServer,
+  searchFestival as searchFestivalOnServer,
+  searchKeywordWithPagination as searchKeywordWithPaginationOnServer,
+  getCategoryCode as getCategoryCodeOnServer,
+} from "@/lib/api/tour-api";
+import type {
+  CategoryCode,
+  DetailCommonBatchResult,
+  PaginationResponse,
+  TourDetail,
+  TourItem,
+} from "@/lib/types/tour";
+import {
+  TourApiNetworkError,
+  TourApiUpstreamError,
+  createTourApiErrorFromInfo,
+} from "@/lib/api/tour-api-errors";
+import { STALE_SINCE_HEADER, createTourRequestCache } from "@/lib/api/tour-cache";
+import type { CacheStrategy, TourCacheStats } from "@/lib/api/tour-cache";
+import { getBrowserTourLanguage } from "@/lib/api/tour-language";
+
+/**
+ * 요청 캐시 (요청 병합 + LRU)
+ */
+const requestCache = createTourRequestCache({ maxEntries: 200 });
+
+/**
+ * 요청 캐시 통계 조회 (적중/미적중 수 등)
+ */
+export function getTourClientCacheStats(): TourCacheStats {
+  return requestCache.getStats();
+}
+
+/**
+ * 저장된 응답 수신 구독자
+ */
+const staleListeners = new Set<(staleSince: string) => void>();
+
+/**
+ * 저장된 응답(stale) 수신 구독
+ *
+ * @param listener - 저장된 응답의 저장 시각(ISO 8601)을 받는 함수
+ * @returns 구독 해제 함수
+ */
+export function subscribeStaleResponses(listener: (staleSince: string) => void): () => void {
+  staleListeners.add(listener);
+  return () => {
+    staleListeners.delete(listener);
+  };
+}
+
+/**
+ * 프록시 라우트 호출 헬퍼 함수
+ *
+ * @param path - /api/tour/ 하위 경로 (예: "area-based")
+ * @param cacheStrategy - 캐싱 전략 (요청 캐시 TTL, 프록시 라우트와 동일한 값 사용)
+ * @param params - 쿼리 파라미터 (undefined, 빈 문자열은 제외)
+ * @param options.shouldCache - 응답을 요청 캐시에 남길지 여부 (기본값: 항상 남김)
+ * @throws {TourApiError} 프록시 호출 실패
+ */
+async function fetchTourProxy<T>(
+  path: string,
+  cacheStrategy: CacheStrategy,
+  params: Record<string, string | number | undefined>,
+  options: { shouldCache?: (data: T) => boolean } = {}
+): Promise<T> {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null && value !== "") {
+      query.set(key, String(value));
+    }
+  }
+
+  const language = getBrowserTourLanguage();
+  if (language !== "ko") {
+    query.set("lang", language);
+  }
+
+  const endpoint = `/api/tour/${path}`;
+  const url = `${endpoint}?${query.toString()}`;
+
+  // 저장된 응답은 요청 캐시에 남기지 않음 (다음 요청에서 다시 최신 데이터 조회)
+  const { data, staleSince } = await requestCache.load(
+    url,
+    endpoint,
+    cacheStrategy,
+    () => requestTourProxy<T>(url, endpoint),
+    {
+      shouldCache: (result) =>
+        !result.staleSince && (!options.shouldCache || options.shouldCache(result.data)),
+    }
+  );
+
+  if (staleSince) {
+    staleListeners.forEach((listener) => listener(staleSince));
+  }
+
+  return data;
+}
+
+/**
+ * 프록시 라우트 실제 호출
+ */
+async function requestTourProxy<T>(
+  url: string,
+  endpoint: string
+): Promise<{ data: T; staleSince: string | null }> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new TourApiNetworkError({
+      endpoint,
+      detail: error instanceof Error ? error.message : String(error),
+      cause: error,
+    });
+  }
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    if (data?.tourApiError) {
+      throw createTourApiErrorFromInfo(data.tourApiError);
+    }
+    // 파라미터 검증 실패 등 프록시 자체 에러
+    throw new TourApiUpstreamError({
+      endpoint,
+      status: response.status,
+      detail: data?.details || data?.error || `HTTP error! status: ${response.status}`,
+      retryable: response.status >= 500,
+    });
+  }
+
+  return { data: data as T, staleSince: response.headers.get(STALE_SINCE_HEADER) };
+}
+
+/**
+ * 지역 기반 관광지 목록 조회
+ */
+export async function getAreaBasedList(
+  params: Parameters<typeof getAreaBasedListWithPaginationOnServer>[0]
+): Promise<TourItem[]> {
+  const result = await getAreaBasedListWithPagination(params);
+  return result.items;
+}
+
+/**
+ * 지역 기반 관광지 목록 조회 (페이지네이션 메타데이터 포함)
+ */
+export function getAreaBasedListWithPagination(
+  params: Parameters<typeof getAreaBasedListWithPaginationOnServer>[0]
+): Promise<PaginationResponse<TourItem>> {
+  return fetchTourProxy("area-based", "areaBasedList", params);
+}
+
+/**
+ * 위치 기반 관광지 목록 조회 (페이지네이션 메타데이터 포함)
+ */
+export function getLocationBasedList(
+  params: Parameters<typeof getLocationBasedListOnServer>[0]
+): Promise<PaginationResponse<TourItem>> {
+  return fetchTourProxy("location-based", "locationBasedList", params);
+}
+
+/**
+ * 축제/행사 기간 검색 (페이지네이션 메타데이터 포함)
+ */
+export function searchFestival(
+  params: Parameters<typeof searchFestivalOnServer>[0]
+): Promise<PaginationResponse<TourItem>> {
+  return fetchTourProxy("festival", "searchFestival", params);
+}
+
+/**
+ * 키워드 검색 (페이지네이션 메타데이터 포함)
+ */
+export function searchKeywordWithPagination(
+  params: Parameters<typeof searchKeywordWithPaginationOnServer>[0]
+): Promise<PaginationResponse<TourItem>> {
+  return fetchTourProxy("keyword", "searchKeyword", params);
+}
+
+/**
+ * 서비스 분류코드 조회
+ */
+export function getCategoryCode(
+  params: Parameters<typeof getCategoryCodeOnServer>[0] = {}
+): Promise<CategoryCode[]> {
+  return fetchTourProxy("category-code", "categoryCode", params);
+}
+
+/**
+ * 관광지 상세 정보 조회
+ */
+export function getDetailCommon(params: { contentId: string }): Promise<TourDetail | null> {
+  return fetchTourProxy("detail-common", "detailCommon", params);
+}
+
+/**
+ * 관광지 상세 정보 일괄 조회 (최대 20개)
+ * (일부 조회에 실패한 결과는 요청 캐시에 남기지 않음)
+ */
+export function getDetailCommonBatch(params: {
+  contentIds: string[];
+}): Promise<DetailCommonBatchResult> {
+  return fetchTourProxy(
+    "detail-common-batch",
+    "detailCommon",
+    { contentIds: params.contentIds.join(",") },
+    { shouldCache: (result) => result.failedIds.length === 0 }
+  );
+}
@@ -0,0 +1,134 @@
+/**
+ * @file tour-language.ts
+ * @description 한국관광공사 API 다국어 서비스 설정 (서버/클라이언트 공용)
+ *
+ * 한국관광공사는 언어별로 별도의 서비스를 제공합니다.
+ * (KorService2, EngService2, JpnService2, ChsService2)
+ *
+ * 언어별 서비스 차이:
+ * - 콘텐츠 ID: 언어별로 따로 관리되므로 한국어 관광지가 외국어 서비스에 없을 수 있음
+ *   (상세 정보는 현재 언어에 없으면 한국어, 다른 외국어 서비스 순으로 대체, tour-api.ts getDetailCommon)
+ * - 콘텐츠 타입 ID: 외국어 서비스는 다른 ID 체계를 사용 (관광지 12 → 76 등)
+ *   앱은 한국어 ID만 사용하고, 요청/응답에서 서비스별 ID로 변환합니다.
+ * - 여행코스(25)는 외국어 서비스에 없고, 교통(77)은 외국어 서비스에만 있음
+ * - 반려동물 동반 정보(detailPetTour2)는 한국어 서비스에만 있음
+ *
+ * 관광 정보는 화면 언어(경로 접두사, lib/i18n/config.ts)와 같은 언어로 조회합니다.
+ * - 서버: 페이지에서 getLocale()로 언어를 읽어 runWithTourLanguage()로 API 호출을 감쌈
+ * - 클라이언트: tour-client.ts가 현재 경로의 언어를 프록시 요청에 lang 파라미터로 전달
+ *
+ * @see {@link /lib/api/tour-api.ts} - runWithTourLanguage
+ * @see {@link /lib/i18n/config.ts} - 지원 언어, 경로 규칙
+ */
+
+import { DEFAULT_LOCALE, LOCALES, isLocale, parseLocale, splitLocalePath } from "@/lib/i18n/config";
+import type { Locale } from "@/lib/i18n/config";
+
+/**
+ * 지원 언어 목록 (화면 언어와 동일)
+ */
+export const TOUR_LANGUAGES = LOCALES;
+
+/**
+ * 지원 언어
+ */
+export type TourLanguage = Locale;
+
+/**
+ * 기본 언어
+ */
+export const DEFAULT_TOUR_LANGUAGE: TourLanguage = DEFAULT_LOCALE;
+
+/**
+ * 언어별 서비스 정보
+ */
+export const TOUR_LANGUAGE_INFO: Record<
+  TourLanguage,
+  {
+    /** 한국관광공사 API 서비스 이름 */
+    service: string;
+  }
+> = {
+  ko: { service: "KorService2" },
+  en: { service: "EngService2" },
+  ja: { service: "JpnService2" },
+  zh: { service: "ChsService2" },
+};
+
+/**
+ * 한국어 콘텐츠 타입 ID → 외국어 서비스 콘텐츠 타입 ID
+ * (외국어 서비스는 모든 언어가 같은 ID 체계를 사용)
+ */
+const FOREIGN_CONTENT_TYPE_IDS: Record<string, string> = {
+  "12": "76", // 관광지
+  "14": "78", // 문화시설
+  "15": "85", // 축제/공연/행사
+  "28": "75", // 레포츠
+  "32": "80", // 숙박
+  "38": "79", // 쇼핑
+  "39": "82", // 음식점
+};
+
+/**
+ * 외국어 서비스 콘텐츠 타입 ID → 한국어 콘텐츠 타입 ID
+ */
+const KOREAN_CONTENT_TYPE_IDS: Record<string, string> = Object.fromEntries(
+  Object.entries(FOREIGN_CONTENT_TYPE_IDS).map(([korean, foreign]) => [foreign, korean])
+);
+
+/**
+ * 지원 언어인지 확인
+ */
+export const isTourLanguage = isLocale;
+
+/**
+ * 언어 값 변환 (지원하지 않는 값이면 기본 언어)
+ */
+export const parseTourLanguage = parseLocale;
+
+/**
+ * 서비스 이름에 해당하는 언어 (예: EngService2 → en, 알 수 없으면 기본 언어)
+ */
+export function getTourLanguageFromService(service: string): TourLanguage {
+  return TOUR_LANGUAGES.find((language) => TOUR_LANGUAGE_INFO[language].service === service) ?? DEFAULT_TOUR_LANGUAGE;
+}
+
+/**
+ * 앱의 콘텐츠 타입 ID(한국어 서비스 기준)를 언어별 서비스 ID로 변환
+ *
+ * 외국어 서비스에 없는 타입(여행코스)은 그대로 전달합니다. (조회 결과 없음)
+ *
+ * @example
+ * ```ts
+ * toServiceContentTypeId("12", "en"); // "76"
+ * toServiceContentTypeId("12", "ko"); // "12"
+ * ```
+ */
+export function toServiceContentTypeId(contentTypeId: string, language: TourLanguage): string {
+  if (language === "ko") {
+    return contentTypeId;
+  }
+  return FOREIGN_CONTENT_TYPE_IDS[contentTypeId] ?? contentTypeId;
+}
+
+/**
+ * 언어별 서비스 콘텐츠 타입 ID를 앱의 콘텐츠 타입 ID(한국어 서비스 기준)로 변환
+ *
+ * 한국어 서비스에 없는 타입(교통 77)은 그대로 반환합니다.
+ */
+export function toAppContentTypeId(contentTypeId: string, language: TourLanguage): string {
+  if (language === "ko") {
+    return contentTypeId;
+  }
+  return KOREAN_CONTENT_TYPE_IDS[contentTypeId] ?? contentTypeId;
+}
+
+/**
+ * 브라우저의 현재 경로에서 언어 조회 (서버에서는 기본 언어)
+ */
+export function getBrowserTourLanguage(): TourLanguage {
+  if (typeof window === "undefined") {
+    return DEFAULT_TOUR_LANGUAGE;
+  }
+  return splitLocalePath(window.location.pathname).locale;
+}
@@ -0,0 +1,246 @@
+/**
+ * @file tour-proxy.ts
+ * @description 한국관광공사 API 프록시 라우트 공통 처리
+ *
+ * /api/tour/* 라우트 핸들러에서 사용하는 공통 로직입니다.
+ * 서비스 키는 서버에서만 사용하고, 브라우저는 이 프록시를 통해 데이터를 조회합니다.
+ *
+ * 주요 기능:
+ * 1. 쿼리 파라미터 검증 (zod)
+ * 2. IP별 요청 제한 (1분 고정 윈도우)
+ * 3. 캐시 헤더 설정 (tour-api.ts의 캐싱 전략과 동일한 시간)
+ * 4. 에러 응답 변환 (에러 종류별 HTTP 상태 코드, 본문에 tourApiError 정보 포함)
+ * 5. 저장된 응답으로 대체된 경우 X-Tour-Stale-Since 헤더로 저장 시각 전달
+ * 6. lang 파라미터(ko/en/ja/zh)로 언어별 서비스 조회 (CDN 캐시가 언어별로 나뉘도록 쿠키 대신 쿼리 사용)
+ *
+ * @see {@link /lib/api/tour-client.ts} - 클라이언트 fetcher
+ * @see {@link /app/api/tour} - 프록시 라우트 핸들러
+ */
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { runWithTourLanguage, trackStaleResponses } from "@/lib/api/tour-api";
+import { parseTourLanguage } from "@/lib/api/tour-language";
+import { CACHE_STRATEGIES, STALE_SINCE_HEADER } from "@/lib/api/tour-cache";
+import type { CacheStrategy } from "@/lib/api/tour-cache";
+import { TourApiRateLimitError, isTourApiError } from "@/lib/api/tour-api-errors";
+import type { TourApiErrorKind } from "@/lib/api/tour-api-errors";
+
+/**
+ * IP별 요청 제한 설정 (1분당 최대 요청 수)
+ */
+const RATE_LIMIT = {
+  windowMs: 60 * 1000,
+  maxRequests: 60,
+} as const;
+
+/**
+ * IP별 요청 수 기록
+ * (서버 인스턴스 메모리에 저장되므로 인스턴스마다 별도로 집계됨)
+ */
+const requestCounts = new Map<string, { count: number; resetAt: number }>();
+
+/**
+ * 요청한 클라이언트 IP 추출
+ *
+ * 클라이언트가 보낸 x-forwarded-for 값은 마음대로 바꿀 수 있으므로 첫 항목을 쓰지 않습니다.
+ * 플랫폼(Vercel 등)이 접속 IP로 설정하는 x-real-ip를 우선 사용하고,
+ * 없으면 x-forwarded-for의 마지막 항목(앞단 프록시가 덧붙인 접속 IP)을 사용합니다.
+ */
+function getClientIp(req: Request): string {
+  const realIp = req.headers.get("x-real-ip")?.trim();
+  if (realIp) {
+    return realIp;
+  }
+  const forwardedFor = req.headers.get("x-forwarded-for");
+  if (forwardedFor) {
+    const hops = forwardedFor.split(",").map((hop) => hop.trim()).filter(Boolean);
+    if (hops.length > 0) {
+      return hops[hops.length - 1];
+    }
+  }
+  return "unknown";
+}
+
+/**
+ * 요청 제한 확인 및 요청 수 증가
+ *
+ * @returns 제한에 걸린 경우 재시도까지 남은 시간(초), 아니면 null
+ */
+function consumeRateLimit(ip: string): number | null {
+  const now = Date.now();
+
+  // 기록이 많이 쌓이면 만료된 항목 정리 (메모리 증가 방지)
+  if (requestCounts.size > 10000) {
+    for (const [key, entry] of requestCounts) {
+      if (entry.resetAt <= now) {
+        requestCounts.delete(key);
+      }
+    }
+  }
+
+  const entry = requestCounts.get(ip);
+  if (!entry || entry.resetAt <= now) {
+    requestCounts.set(ip, { count: 1, resetAt: now + RATE_LIMIT.windowMs });
+    return null;
+  }
+
+  if (entry.count >= RATE_LIMIT.maxRequests) {
+    return Math.ceil((entry.resetAt - now) / 1000);
+  }
+
+  entry.count++;
+  return null;
+}
+
+/**
+ * 에러 종류별 프록시 응답 상태 코드
+ * (외부 API 문제는 502, 한도 초과는 503, 요청 조건 오류는 400으로 구분)
+ */
+const ERROR_STATUS: Record<TourApiErrorKind, number> = {
+  rate_limited: 429,
+  quota_exceeded: 503,
+  invalid_key: 502,
+  not_found: 404,
+  upstream: 502,
+  network: 504,
+  schema: 502,
+  invalid_request: 400,
+};
+
+/**
+ * 코드 파라미터 (지역코드, 콘텐츠 타입, 분류코드, 콘텐츠 ID 등)
+ */
+export const codeParam = z.string().regex(/^[A-Za-z0-9]{1,20}$/, "올바르지 않은 코드입니다.");
+
+/**
+ * 날짜 파라미터 (YYYYMMDD)
+ */
+export const dateParam = z.string().regex(/^\d{8}$/, "YYYYMMDD 형식이어야 합니다.");
+
+/**
+ * 정렬 파라미터 (arrange)
+ */
+export const arrangeParam = z.enum(["A", "C", "D", "E", "O", "Q", "R", "S"]);
+
+/**
+ * 페이지 파라미터 (numOfRows 최대 100)
+ */
+export const pagingParams = {
+  numOfRows: z.coerce.number().int().min(1).max(100).default(10),
+  pageNo: z.coerce.number().int().min(1).max(1000).default(1),
+};
+
+/**
+ * 프록시 라우트 핸들러(GET) 생성
+ *
+ * @param options.schema - 쿼리 파라미터 검증 스키마
+ * @param options.cacheStrategy - 캐싱 전략 (Cache-Control s-maxage에 사용)
+ * @param options.handler - 검증된 파라미터로 호출할 tour-api.ts 함수
+ * @param options.isCacheable - 응답을 CDN에 캐시할지 여부 (일부만 조회된 결과 등은 false, 기본값: 항상 캐시)
+ * @returns 라우트 핸들러
+ *
+ * @example
+ * ```ts
+ * export const GET = createTourProxyHandler({
+ *   schema: z.object({ contentId: codeParam }),
+ *   cacheStrategy: "detailCommon",
+ *   handler: getDetailCommon,
+ * });
+ * ```
+ */
+export function createTourProxyHandler<P>(options: {
+  // strict 모드가 꺼져 있어 z.infer로는 필수 필드를 구분할 수 없으므로,
+  // 파라미터 타입은 handler(tour-api.ts 함수)에서 추론합니다.
+  schema: z.ZodTypeAny;
+  cacheStrategy: CacheStrategy;
+  handler: (params: P) => Promise<unknown>;
+  isCacheable?: (data: unknown) => boolean;
+}) {
+  return async function GET(req: Request) {
+    // IP별 요청 제한
+    const retryAfter = consumeRateLimit(getClientIp(req));
+    if (retryAfter !== null) {
+      const rateLimitError = new TourApiRateLimitError({
+        endpoint: new URL(req.url).pathname,
+        status: 429,
+        retryAfterMs: retryAfter * 1000,
+      });
+      return NextResponse.json(
+        {
+          error: "Too many requests",
+          details: rateLimitError.message,
+          tourApiError: rateLimitError.toJSON(),
+        },
+        { status: 429, headers: { "Retry-After": String(retryAfter) } }
+      );
+    }
+
+    // 쿼리 파라미터 검증 (lang은 스키마에 없으므로 검증 결과에서 제외됨)
+    const searchParams = new URL(req.url).searchParams;
+    const language = parseTourLanguage(searchParams.get("lang"));
+    const query = Object.fromEntries(searchParams);
+    const parsed = options.schema.safeParse(query);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid parameters",
+          details: parsed.error.issues
+            .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+            .join(", "),
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const { result: data, staleSince } = await trackStaleResponses(() =>
+        runWithTourLanguage(language, () => options.handler(parsed.data))
+      );
+      const maxAge = CACHE_STRATEGIES[options.cacheStrategy];
+
+      // API 장애로 저장된 응답을 대신 보낸 경우, CDN에 캐시되지 않도록 하고 저장 시각을 알림
+      if (staleSince) {
+        return NextResponse.json(data, {
+          headers: {
+            "Cache-Control": "no-store",
+            [STALE_SINCE_HEADER]: staleSince,
+          },
+        });
+      }
+
+      if (options.isCacheable && !options.isCacheable(data)) {
+        return NextResponse.json(data, { headers: { "Cache-Control": "no-store" } });
+      }
+
+      return NextResponse.json(data, {
+        headers: {
+          "Cache-Control": `public, s-maxage=${maxAge}, stale-while-revalidate=${maxAge}`,
+        },
+      });
+    } catch (error) {
+      console.error("Tour API proxy error:", error);
+
+      // 알 수 없는 에러의 메시지(내부 구현 정보)는 브라우저에 노출하지 않음
+      if (!isTourApiError(error)) {
+        return NextResponse.json({ error: "Failed to fetch tour data" }, { status: 500 });
+      }
+
+      // 서비스 키 오류의 상세 정보(resultMsg)는 브라우저에 노출하지 않음
+      const tourApiError = error.kind === "invalid_key" ? { ...error.toJSON(), detail: undefined } : error.toJSON();
+      const retryAfterSeconds = error.retryAfterMs ? Math.ceil(error.retryAfterMs / 1000) : undefined;
+
+      return NextResponse.json(
+        {
+          error: "Failed to fetch tour data",
+          details: error.message,
+          tourApiError,
+        },
+        {
+          status: ERROR_STATUS[error.kind] ?? 500,
+          ...(retryAfterSeconds && { headers: { "Retry-After": String(retryAfterSeconds) } }),
+        }
+      );
+    }
+  };
+}
@@ -1,4 +1,21 @@
-import { koKR } from "@clerk/localizations";
+import { enUS, jaJP, koKR, zhCN } from "@clerk/localizations";
+import type { Locale } from "@/lib/i18n/config";
+
+/**
+ * Clerk 로컬라이제이션 리소스 타입
+ * (@clerk/types는 직접 의존성이 아니므로 @clerk/localizations의 타입에서 가져옴)
+ */
+type LocalizationResource = typeof koKR;
+
+/**
+ * 언어별 Clerk 기본 로컬라이제이션
+ */
+const BASE_LOCALIZATIONS: Record<Locale, LocalizationResource> = {
+  ko: koKR,
+  en: enUS,
+  ja: jaJP,
+  zh: zhCN,
+};
 
 /**
  * Clerk 한국어 로컬라이제이션 설정
@@ -6,15 +23,6 @@ import { koKR } from "@clerk/localizations";
  * 기본 koKR 로컬라이제이션을 확장하여 커스텀 메시지를 추가할 수 있습니다.
  * 
  * @see {@link https://clerk.com/docs/guides/customizing-clerk/localization Clerk 공식 문서}
- * 
- * @example
- * ```tsx
- * import { clerkLocalization } from '@/lib/clerk/localization';
- * 
- * <ClerkProvider localization={clerkLocalization}>
- *   ...
- * </ClerkProvider>
- * ```
  */
 export const clerkLocalization = {
   ...koKR,
@@ -38,3 +46,20 @@ export const clerkLocalization = {
   },
 };
 
+/**
+ * 현재 언어에 맞는 Clerk 로컬라이제이션
+ *
+ * 한국어는 커스텀 메시지를 포함한 clerkLocalization을, 그 외 언어는 Clerk 기본 번역을 사용합니다.
+ *
+ * @example
+ * ```tsx
+ * import { getClerkLocalization } from '@/lib/clerk/localization';
+ * 
+ * <ClerkProvider localization={getClerkLocalization(locale)}>
+ *   ...
+ * </ClerkProvider>
+ * ```
+ */
+export function getClerkLocalization(locale: Locale): LocalizationResource {
+  return locale === "ko" ? clerkLocalization : BASE_LOCALIZATIONS[locale];
+}
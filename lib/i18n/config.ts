@@ -0,0 +1,138 @@
+/**
+ * @file config.ts
+ * @description 다국어(i18n) 설정 (서버/클라이언트 공용)
+ *
+ * 지원 언어와 경로 규칙을 정의합니다.
+ *
+ * 경로 규칙 (기본 언어는 접두사 없음):
+ * - 한국어: /, /places/125266
+ * - 그 외 언어: /en, /en/places/125266, /ja/stats
+ * - /ko/... 요청은 접두사 없는 경로로 이동 (middleware.ts)
+ *
+ * 언어 접두사가 있는 요청은 middleware.ts에서 접두사를 뗀 경로로 rewrite하고,
+ * 선택한 언어를 LOCALE_HEADER 요청 헤더로 전달합니다. (lib/i18n/server.ts getLocale)
+ * 관광 정보(한국관광공사 API)도 같은 언어의 서비스로 조회합니다. (lib/api/tour-language.ts)
+ *
+ * @see {@link /lib/i18n/middleware.ts} - 언어 접두사 처리
+ * @see {@link /lib/i18n/messages} - 메시지 카탈로그
+ */
+
+/**
+ * 지원 언어 목록
+ */
+export const LOCALES = ["ko", "en", "ja", "zh"] as const;
+
+/**
+ * 지원 언어
+ */
+export type Locale = (typeof LOCALES)[number];
+
+/**
+ * 기본 언어 (경로 접두사 없음)
+ */
+export const DEFAULT_LOCALE: Locale = "ko";
+
+/**
+ * 선택한 언어를 전달하는 요청 헤더 (middleware.ts에서 설정)
+ */
+export const LOCALE_HEADER = "x-locale";
+
+/**
+ * 언어별 표시 정보
+ */
+export const LOCALE_INFO: Record<
+  Locale,
+  {
+    /** 언어 선택 메뉴에 표시할 이름 (해당 언어로 표기) */
+    label: string;
+    /** 날짜/숫자 포맷에 사용하는 BCP 47 언어 태그 (html lang 속성에도 사용) */
+    intlLocale: string;
+    /** Open Graph locale */
+    ogLocale: string;
+  }
+> = {
+  ko: { label: "한국어", intlLocale: "ko-KR", ogLocale: "ko_KR" },
+  en: { label: "English", intlLocale: "en-US", ogLocale: "en_US" },
+  ja: { label: "日本語", intlLocale: "ja-JP", ogLocale: "ja_JP" },
+  zh: { label: "简体中文", intlLocale: "zh-CN", ogLocale: "zh_CN" },
+};
+
+/**
+ * 지원 언어인지 확인
+ */
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && (LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * 언어 값 변환 (지원하지 않는 값이면 기본 언어)
+ */
+export function parseLocale(value: string | null | undefined): Locale {
+  return isLocale(value) ? value : DEFAULT_LOCALE;
+}
+
+/**
+ * 경로에서 언어 접두사 분리
+ *
+ * @example
+ * ```ts
+ * splitLocalePath("/en/places/125266"); // { locale: "en", pathname: "/places/125266", hasPrefix: true }
+ * splitLocalePath("/stats");            // { locale: "ko", pathname: "/stats", hasPrefix: false }
+ * ```
+ */
+export function splitLocalePath(pathname: string): {
+  locale: Locale;
+  pathname: string;
+  hasPrefix: boolean;
+} {
+  const segment = pathname.split("/")[1];
+  if (!isLocale(segment)) {
+    return { locale: DEFAULT_LOCALE, pathname, hasPrefix: false };
+  }
+  return {
+    locale: segment,
+    pathname: pathname.slice(segment.length + 1) || "/",
+    hasPrefix: true,
+  };
+}
+
+/**
+ * 언어 접두사를 붙인 경로 생성 (기본 언어는 접두사 없음)
+ *
+ * @param path - 언어 접두사 없는 경로 (쿼리 문자열 포함 가능, 예: "/?areaCode=1")
+ * @param locale - 언어
+ *
+ * @example
+ * ```ts
+ * localizePath("/places/125266", "en"); // "/en/places/125266"
+ * localizePath("/?keyword=궁", "ja");    // "/ja?keyword=궁"
+ * localizePath("/stats", "ko");          // "/stats"
+ * ```
+ */
+export function localizePath(path: string, locale: Locale): string {
+  if (locale === DEFAULT_LOCALE) {
+    return path;
+  }
+  if (path === "/" || path.startsWith("/?") || path.startsWith("/#")) {
+    return `/${locale}${path.slice(1)}`;
+  }
+  return `/${locale}${path}`;
+}
+
+/**
+ * 메시지의 {name} 자리에 값 채우기
+ *
+ * @example
+ * ```ts
+ * formatMessage("{keyword} 검색 결과: {count}개", { keyword: "궁", count: "12" });
+ * // "궁 검색 결과: 12개"
+ * ```
+ */
+export function formatMessage(
+  template: string,
+  values: Record<string, string | number>
+): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? String(values[name]) : match
+  );
+}
@@ -0,0 +1,42 @@
+/**
+ * @file labels.ts
+ * @description 콘텐츠 타입/지역 이름 (서버/클라이언트 공용)
+ *
+ * 콘텐츠 타입과 지역 이름은 메시지 카탈로그(contentTypes, regions)에만 정의하고,
+ * 모든 컴포넌트와 API 모듈은 이 함수로 이름을 조회합니다.
+ *
+ * @see {@link /lib/i18n/messages/ko.ts} - contentTypes, regions
+ */
+
+import type { Messages } from "@/lib/i18n/messages";
+
+/**
+ * 콘텐츠 타입 이름 조회
+ *
+ * @param messages - 메시지 카탈로그
+ * @param contentTypeId - 콘텐츠 타입 ID (한국어 서비스 기준)
+ * @returns 콘텐츠 타입 이름 (알 수 없는 타입은 "기타")
+ *
+ * @example
+ * ```ts
+ * getContentTypeLabel(ko, "12"); // "관광지"
+ * getContentTypeLabel(en, "39"); // "Restaurant"
+ * ```
+ */
+export function getContentTypeLabel(messages: Messages, contentTypeId: string): string {
+  const labels: Record<string, string> = messages.contentTypes;
+  return labels[contentTypeId] ?? messages.contentTypes.other;
+}
+
+/**
+ * 지역(시/도) 이름 조회
+ *
+ * @param messages - 메시지 카탈로그
+ * @param areaCode - 지역 코드
+ * @param fallback - 카탈로그에 없는 지역일 때 사용할 이름 (API 응답의 이름 등)
+ * @returns 지역 이름 (카탈로그와 fallback 모두 없으면 지역 코드)
+ */
+export function getRegionLabel(messages: Messages, areaCode: string, fallback?: string): string {
+  const labels: Record<string, string> = messages.regions;
+  return labels[areaCode] ?? fallback ?? areaCode;
+}
@@ -0,0 +1,566 @@
+/**
+ * @file en.ts
+ * @description 영어 메시지 카탈로그
+ *
+ * @see {@link /lib/i18n/messages/ko.ts} - 카탈로그 구조, 작성 규칙
+ */
+
+import type { Messages } from "./ko";
+
+export const en: Messages = {
+  meta: {
+    title: "My Trip - Korea Travel Guide",
+    description: "Search tourist attractions across Korea with the Korea Tourism Organization open API",
+    keywords: ["attractions", "travel", "Korea", "tourism", "My Trip"],
+  },
+  common: {
+    backToHome: "Back to home",
+    retry: "Try again",
+    retryIn: "Try again in {seconds}s",
+    cancel: "Cancel",
+    delete: "Delete",
+    deleting: "Deleting...",
+    submit: "Submit",
+    submitting: "Submitting...",
+    copy: "Copy",
+    copied: "Copied",
+    all: "All",
+    allOf: "All {label}",
+    loading: "Loading...",
+    noData: "No data to display.",
+    noAddress: "No address information",
+    viewDetails: "View details",
+    viewDetailsOf: "View details of {title}",
+    count: "{count}",
+    unexpectedError: "An unexpected error occurred.",
+    devDetails: "Details (development mode)",
+    irreversible: "This action cannot be undone.",
+  },
+  contentTypes: {
+    "12": "Attraction",
+    "14": "Culture",
+    "15": "Festival/Event",
+    "25": "Travel course",
+    "28": "Leisure & sports",
+    "32": "Accommodation",
+    "38": "Shopping",
+    "39": "Restaurant",
+    "77": "Transportation",
+    other: "Other",
+  },
+  regions: {
+    "1": "Seoul",
+    "2": "Incheon",
+    "3": "Daejeon",
+    "4": "Daegu",
+    "5": "Gwangju",
+    "6": "Busan",
+    "7": "Ulsan",
+    "8": "Sejong",
+    "31": "Gyeonggi",
+    "32": "Gangwon",
+    "33": "Chungbuk",
+    "34": "Chungnam",
+    "35": "Gyeongbuk",
+    "36": "Gyeongnam",
+    "37": "Jeonbuk",
+    "38": "Jeonnam",
+    "39": "Jeju",
+  },
+  nav: {
+    home: "Home",
+    stats: "Stats",
+    bookmarks: "Bookmarks",
+    back: "Go back",
+    signIn: "Sign in",
+    mainNavigation: "Main navigation",
+    mobileNavigation: "Mobile navigation",
+    toggleMenu: "Toggle menu",
+    language: "Language",
+    theme: "Theme",
+  },
+  languageSwitcher: {
+    label: "Select language",
+  },
+  theme: {
+    toggle: "Toggle theme",
+    light: "Light",
+    dark: "Dark",
+    system: "System",
+  },
+  footer: {
+    poweredBy: "Data provided by the Korea Tourism Organization",
+  },
+  home: {
+    heroTitle: "Explore Korea's beautiful destinations",
+    heroDescription: "Browse attractions across Korea at a glance and find them on the map",
+    searchResultCount: "search results: {count}",
+  },
+  search: {
+    placeholder: "Search by name, address or description...",
+    placeholderShort: "Search...",
+    label: "Search attractions",
+    clear: "Clear search",
+    submitLabel: "Run search",
+    submit: "Search",
+  },
+  filters: {
+    selectRegion: "Select region",
+    region: "Region",
+    sigungu: "District",
+    selectSigungu: "Select district",
+    selectContentType: "Select type",
+    selectSort: "Select sort order",
+    sort: {
+      latest: "Latest",
+      name: "Name",
+      created: "Date added",
+      distance: "Distance",
+    },
+    imageOnly: "With photos only",
+    reset: "Reset filters",
+    festivalFrom: "From {date}",
+  },
+  multiSelect: {
+    summary: "{first} +{rest}",
+    maxSelected: "You can select up to {max}.",
+  },
+  nearby: {
+    button: "Near me",
+    locate: "Show attractions near me",
+    relocate: "Update my location",
+    selectRadius: "Select search radius",
+    clear: "Turn off near me",
+    unsupported: "This browser does not support geolocation.",
+    errors: {
+      permissionDenied: "Location permission was denied. Please allow location access in your browser settings.",
+      unavailable: "Your current location is unavailable.",
+      timeout: "Locating timed out. Please try again.",
+      unknown: "Something went wrong while getting your location.",
+    },
+  },
+  distanceFilter: {
+    selectOrigin: "Select distance reference point",
+    off: "Distance from",
+    origins: {
+      map: "Map center",
+      place: "Selected place",
+      user: "My location",
+      custom: "Pinned point",
+    },
+    selectRadius: "Select distance radius",
+    anyRadius: "Any distance",
+    sortByDistance: "Nearest first",
+    summary: "{count} of {total}",
+    clear: "Clear distance filter",
+    noPlaceSelected: "Select a place from the list or map first.",
+  },
+  festival: {
+    button: "Festival dates",
+    label: "Show festivals by date",
+    startDate: "Festival start date",
+    endDate: "Festival end date",
+    thisWeekend: "This weekend",
+    clear: "Clear festival dates",
+    invalidRange: "The end date must be on or after the start date.",
+  },
+  category: {
+    cat1: "Category",
+    cat1Select: "Select category",
+    cat2: "Subcategory",
+    cat2Select: "Select subcategory",
+    cat3: "Detail",
+    cat3Select: "Select detail category",
+  },
+  tourList: {
+    loadError: "Something went wrong while loading attractions.",
+    noSearchResults: "No results found",
+    empty: "No attractions found",
+    noResultsFor: "No results for \"{keyword}\".",
+    searchHint: "Try another keyword or change the filters.",
+    filterHint: "Try other filters or change your search.",
+    loadingMore: "Loading more attractions...",
+    allLoaded: "All attractions are loaded.",
+  },
+  tourCard: {
+    ongoing: "Ongoing",
+    distanceFrom: "{distance} from your location",
+  },
+  mapView: {
+    selectView: "Select view",
+    list: "List",
+    listLabel: "Show list",
+    map: "Map",
+    mapLabel: "Show map",
+  },
+  map: {
+    label: "Map",
+    loading: "Loading map...",
+    zoomIn: "Zoom in",
+    zoomOut: "Zoom out",
+    toSatellite: "Switch to satellite map",
+    toNormal: "Switch to standard map",
+    clusterTitle: "{count} places (click to zoom in)",
+    searchArea: "Search this area",
+    searchAreaClamped: "The search radius is limited to {radius}, so only places within {radius} of the map center are shown.",
+    searchAreaFiltersCleared: "Region, category, keyword and event date filters can't be used with area search, so they were cleared.",
+    radiusCenter: "Distance reference point (drag to move)",
+    radiusHandle: "Distance radius (drag to resize)",
+    legend: "Legend",
+    errors: {
+      loadFailed: "Could not load the map. Check your network connection and refresh the page.",
+      mapInitFailed: "Could not initialize the map: {message}",
+      noCoordinates: "No coordinates available.",
+    },
+  },
+  detail: {
+    notFoundTitle: "Attraction not found",
+    notFoundDescription: "The attraction you requested could not be found.",
+    fallbackTitle: "Attraction information",
+    defaultDescription: "Information about {title}",
+    mainImageAlt: "Main image of {title}",
+    loadError: "Could not load attraction information.",
+    translationFallback: "This place has no English translation yet, so it is shown in Korean.",
+    translationFallbackOther: "This place has no English information, so it is shown in another language ({language}).",
+  },
+  detailInfo: {
+    label: "Attraction details",
+    noImage: "No image",
+    basicInfo: "Basic information",
+    address: "Address",
+    copyAddress: "Copy address {address}",
+    addressCopied: "Address copied.",
+    copyAddressFailed: "Could not copy the address.",
+    phone: "Phone",
+    call: "Call {tel}",
+    homepage: "Website",
+    openHomepage: "Open website {site} in a new window",
+    overview: "Overview",
+  },
+  detailIntro: {
+    titles: {
+      touristSpot: "Visitor information",
+      culturalFacility: "Visit information",
+      festival: "Event information",
+      travelCourse: "Course information",
+      leisureSports: "Usage information",
+      accommodation: "Accommodation information",
+      shopping: "Store information",
+      restaurant: "Menu & business hours",
+    },
+    labels: {
+      useTime: "Hours",
+      restDate: "Closed",
+      useSeason: "Best season",
+      contact: "Contact",
+      parking: "Parking",
+      capacity: "Capacity",
+      experienceGuide: "Experience programs",
+      experienceAge: "Experience age",
+      babyCarriage: "Stroller rental",
+      pets: "Pets allowed",
+      creditCard: "Credit cards",
+      fee: "Admission",
+      discount: "Discounts",
+      spendTime: "Time required",
+      parkingFee: "Parking fee",
+      scale: "Size",
+      eventPeriod: "Event period",
+      eventPlace: "Venue",
+      placeInfo: "Venue directions",
+      playTime: "Show times",
+      bookingPlace: "Tickets",
+      ageLimit: "Age limit",
+      program: "Program",
+      subEvent: "Side events",
+      sponsor: "Host",
+      organizer: "Organizer",
+      eventHomepage: "Event website",
+      courseDistance: "Total distance",
+      courseTime: "Total duration",
+      schedule: "Schedule",
+      courseTheme: "Theme",
+      openPeriod: "Open season",
+      admission: "Admission fee",
+      reservation: "Reservations",
+      checkIn: "Check-in",
+      checkOut: "Check-out",
+      roomType: "Room types",
+      roomCount: "Number of rooms",
+      lodgingCapacity: "Capacity",
+      cooking: "In-room cooking",
+      foodPlace: "Dining",
+      reservationUrl: "Booking website",
+      refund: "Refund policy",
+      pickup: "Pick-up service",
+      subFacility: "Other facilities",
+      openTime: "Business hours",
+      fairDay: "Market days",
+      saleItem: "Items sold",
+      saleItemCost: "Prices",
+      shopGuide: "Store guide",
+      restroom: "Restrooms",
+      firstMenu: "Signature dishes",
+      treatMenu: "Menu",
+      seat: "Seats",
+      packing: "Takeout",
+      kidsFacility: "Kids' playroom",
+      smoking: "Smoking",
+    },
+    facilitiesTitle: "Facilities",
+    facilities: {
+      barbecue: "Barbecue area",
+      beauty: "Beauty salon",
+      beverage: "Food & beverage",
+      bicycle: "Bicycle rental",
+      campfire: "Campfire",
+      fitness: "Fitness center",
+      karaoke: "Karaoke",
+      publicbath: "Shared showers",
+      publicpc: "Shared PC room",
+      sauna: "Sauna",
+      seminar: "Seminar room",
+      sports: "Sports facilities",
+    },
+  },
+  detailRooms: {
+    title: "Rooms",
+    caption: "Size, occupancy, rates and amenities by room",
+    room: "Room",
+    size: "Size",
+    capacity: "Guests (standard/max)",
+    offSeason: "Off-season (weekday/weekend)",
+    peakSeason: "Peak season (weekday/weekend)",
+    amenities: "Amenities",
+    fee: "₩{amount}",
+    sizePyeong: "{size} pyeong",
+    people: "{base} / {max} guests",
+    amenityLabels: {
+      roombathfacility: "Bathroom",
+      roombath: "Bathtub",
+      roomhometheater: "Home theater",
+      roomaircondition: "Air conditioning",
+      roomtv: "TV",
+      roompc: "PC",
+      roomcable: "Cable TV",
+      roominternet: "Internet",
+      roomrefrigerator: "Refrigerator",
+      roomtoiletries: "Toiletries",
+      roomsofa: "Sofa",
+      roomcook: "Cookware",
+      roomtable: "Table",
+      roomhairdryer: "Hair dryer",
+    },
+  },
+  detailPetTour: {
+    title: "Traveling with pets",
+    allowed: "Pets allowed",
+    restricted: "Pet restrictions apply",
+    leash: "Pet policy",
+    size: "Pet size limits",
+    place: "Areas open to pets",
+    fee: "Pet surcharge",
+    parking: "Parking",
+    etc: "Pet information",
+    cautionTitle: "Please note",
+    caution: "When visiting with a pet, please keep it on a leash and bring waste bags.",
+    sizes: {
+      small: "Small dogs allowed",
+      medium: "Medium dogs allowed",
+      large: "Large dogs allowed",
+    },
+  },
+  detailGallery: {
+    title: "Image gallery",
+    empty: "No images available.",
+    carouselLabel: "Image gallery (use arrow keys to navigate)",
+    imageName: "Image {index}",
+    imageAlt: "{title} image {index}",
+    openFullscreen: "View {name} in full screen",
+    previous: "Previous image",
+    next: "Next image",
+  },
+  detailMap: {
+    title: "Location",
+    directions: "Directions",
+    copyCoordinates: "Copy coordinates",
+    coordinatesCopied: "Coordinates copied.",
+    copyCoordinatesFailed: "Could not copy the coordinates.",
+  },
+  detailCourse: {
+    title: "Course stops",
+    stopCount: "({count} stops)",
+  },
+  detailExtraInfo: {
+    title: "Additional information",
+  },
+  detailRecommendations: {
+    title: "You might also like",
+    label: "Recommended attractions",
+    loadError: "Could not load recommendations.",
+  },
+  share: {
+    share: "Share",
+    copyLink: "Copy link",
+    linkCopied: "Link copied.",
+    copyFailed: "Could not copy the link.",
+    noUrl: "Could not find a URL to share.",
+  },
+  bookmarks: {
+    pageTitle: "My bookmarks",
+    button: "Bookmark",
+    bookmarked: "Bookmarked",
+    add: "Add bookmark",
+    remove: "Remove bookmark",
+    loadingLabel: "Loading bookmark",
+    loading: "Loading",
+    processing: "Saving",
+    signInToAdd: "Sign in to bookmark",
+    signInRequired: "Please sign in to use bookmarks.",
+    added: "Added to bookmarks.",
+    removed: "Removed from bookmarks.",
+    addFailed: "Could not add the bookmark.",
+    removeFailed: "Could not remove the bookmark.",
+    alreadyBookmarked: "This place is already bookmarked.",
+    toggleError: "Something went wrong while updating the bookmark.",
+    listLoading: "Loading bookmarks...",
+    listLoadError: "Something went wrong while loading bookmarks.",
+    detailLoadFailed: "Couldn't load details for {count} bookmarks.",
+    deleted: "Bookmark deleted.",
+    deletedCount: "{count} bookmarks deleted.",
+    deleteFailed: "Could not delete the bookmark.",
+    deleteError: "Something went wrong while deleting the bookmark.",
+    emptyTitle: "No bookmarks yet",
+    emptyDescription: "Add bookmarks from an attraction's detail page.",
+    browse: "Browse attractions →",
+    selectSort: "Select sort order",
+    sort: {
+      latest: "Latest",
+      name: "Name",
+      area: "Region",
+    },
+    selectAll: "Select all",
+    selectedCount: "{count} selected",
+    batchDelete: "Delete selected",
+    batchDeleteLabel: "Delete {count} selected bookmarks",
+    total: "{count} bookmarked attractions",
+    selectItem: "Select {title}",
+    batchDeleteTitle: "Delete bookmarks",
+    batchDeleteConfirm: "Delete {count} selected bookmarks?",
+    deleteTitle: "Delete bookmark",
+    deleteConfirm: "Delete the bookmark for \"{title}\"?",
+    deleteItem: "Delete bookmark for {title}",
+  },
+  stats: {
+    title: "Statistics dashboard",
+    description: "See the state of attractions across Korea at a glance",
+    summary: "Summary",
+    regionSection: "Attractions by region",
+    typeSection: "Attractions by type",
+    regionChart: "Chart of attractions by region",
+    typeChart: "Chart of attractions by type",
+    totalCount: "Total attractions",
+    topRegion: "Region with the most attractions",
+    topType: "Most common type",
+    lastUpdated: "Last updated",
+    placeCount: "Attractions",
+    ratio: "Share",
+    loadError: "Something went wrong while loading statistics.",
+    regionLoadError: "Something went wrong while loading regional statistics.",
+    typeLoadError: "Something went wrong while loading statistics by type.",
+  },
+  staleData: {
+    title: "Showing data saved at {time}",
+    description: "The tourism data server is temporarily unreachable, so this information may be out of date.",
+  },
+  errors: {
+    title: "Error",
+    code: "Error code: {code}",
+    api: "Something went wrong while loading data.",
+    network: "Please check your network connection.",
+    unknown: "An unknown error occurred.",
+  },
+  tourApiErrors: {
+    rate_limited: "Too many requests. Please try again shortly.",
+    quota_exceeded: "Today's tourism data request limit has been reached. Please try again tomorrow.",
+    invalid_key: "Authentication with the tourism data service failed. Please contact the administrator.",
+    not_found: "The requested data could not be found.",
+    upstream: "The tourism data server returned an error. Please try again shortly.",
+    network: "Please check your network connection.",
+    schema: "The tourism data response was malformed. Please try again shortly.",
+    invalid_request: "The request is invalid. Please check your search conditions.",
+  },
+  errorPage: {
+    title: "Something went wrong",
+    description: "An unexpected error occurred. Please try again shortly.",
+  },
+  globalError: {
+    title: "An unexpected error occurred",
+    description: "The application ran into a serious error.",
+    hint: "Refresh the page or try again shortly.",
+  },
+  notFound: {
+    title: "Page not found",
+    description: "The page you requested does not exist or may have been moved.",
+    hint: "Check the URL or go back to the home page.",
+    search: "Search attractions",
+  },
+  offline: {
+    title: "You're offline",
+    heading: "Check your internet connection",
+    description: "You are not connected to the internet.",
+    hint: "Check your network connection and try again.",
+    cached: "Some cached content is available offline.",
+    reconnected: "You're back online. Refreshing the page...",
+    status: "You are offline.",
+  },
+  feedback: {
+    button: "Feedback",
+    buttonLabel: "Send feedback",
+    title: "Send feedback",
+    description: "Tell us how we can improve. We review every piece of feedback.",
+    type: "Feedback type",
+    selectType: "Select feedback type",
+    types: {
+      general: "General feedback",
+      feature: "Feature request",
+      improvement: "Improvement",
+    },
+    content: "Feedback",
+    contentPlaceholder: "Enter your feedback...",
+    contentInput: "Feedback input",
+    rating: "Rating (optional)",
+    selectRating: "Select rating",
+    ratingPlaceholder: "Choose a rating (optional)",
+    noRating: "No rating",
+    ratingOption: "{stars} ({score})",
+    contentRequired: "Please enter your feedback.",
+    submitted: "Thanks! Your feedback has been sent.",
+    submitFailed: "Could not send your feedback.",
+  },
+  bugReport: {
+    button: "Report a bug",
+    buttonLabel: "Submit a bug report",
+    title: "Bug report",
+    description: "Please describe the bug in detail. The more information you give, the faster we can fix it.",
+    titleLabel: "Bug title *",
+    titlePlaceholder: "Briefly describe the bug...",
+    titleInput: "Bug title input",
+    descriptionLabel: "Bug description *",
+    descriptionPlaceholder: "Describe what happened, how to reproduce it and what you expected...",
+    descriptionInput: "Bug description input",
+    stackLabel: "Error stack (optional)",
+    stackPlaceholder: "Paste the stack trace if you have one...",
+    stackInput: "Error stack input",
+    autoCollected: "Collected automatically",
+    pageUrl: "Page URL: ",
+    browser: "Browser: ",
+    collecting: "Collecting...",
+    titleRequired: "Please enter a bug title.",
+    descriptionRequired: "Please describe the bug.",
+    submitted: "Thanks! Your bug report has been submitted.",
+    submitFailed: "Could not submit the bug report.",
+    autoSubmitted: "The bug was reported automatically.",
+    autoSubmitError: "Something went wrong while submitting the bug report.",
+  },
+};
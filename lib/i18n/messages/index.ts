@@ -0,0 +1,21 @@
+/**
+ * @file index.ts
+ * @description 언어별 메시지 카탈로그 모음
+ *
+ * 한국어 카탈로그(ko.ts)가 기준이며, 다른 언어는 같은 구조(Messages 타입)를 따릅니다.
+ * 키가 빠지거나 남으면 타입 체크에서 오류가 발생합니다.
+ */
+
+import type { Locale } from "@/lib/i18n/config";
+import { en } from "./en";
+import { ja } from "./ja";
+import { ko } from "./ko";
+import type { Messages } from "./ko";
+import { zh } from "./zh";
+
+export type { Messages };
+
+/**
+ * 언어별 메시지 카탈로그
+ */
+export const MESSAGES: Record<Locale, Messages> = { ko, en, ja, zh };
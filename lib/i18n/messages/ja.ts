@@ -0,0 +1,566 @@
+/**
+ * @file ja.ts
+ * @description 일본어 메시지 카탈로그
+ *
+ * @see {@link /lib/i18n/messages/ko.ts} - 카탈로그 구조, 작성 규칙
+ */
+
+import type { Messages } from "./ko";
+
+export const ja: Messages = {
+  meta: {
+    title: "My Trip - 韓国観光情報サービス",
+    description: "韓国観光公社のオープンAPIを活用した全国の観光地情報検索サービス",
+    keywords: ["観光地", "旅行", "韓国", "観光情報", "My Trip"],
+  },
+  common: {
+    backToHome: "ホームに戻る",
+    retry: "再試行",
+    retryIn: "{seconds}秒後に再試行",
+    cancel: "キャンセル",
+    delete: "削除",
+    deleting: "削除中...",
+    submit: "送信",
+    submitting: "送信中...",
+    copy: "コピー",
+    copied: "コピー済み",
+    all: "すべて",
+    allOf: "{label}すべて",
+    loading: "読み込み中...",
+    noData: "表示するデータがありません。",
+    noAddress: "住所情報なし",
+    viewDetails: "詳細を見る",
+    viewDetailsOf: "{title}の詳細を見る",
+    count: "{count}件",
+    unexpectedError: "予期しないエラーが発生しました。",
+    devDetails: "詳細情報（開発モード）",
+    irreversible: "この操作は取り消せません。",
+  },
+  contentTypes: {
+    "12": "観光地",
+    "14": "文化施設",
+    "15": "祭り・イベント",
+    "25": "旅行コース",
+    "28": "レジャー・スポーツ",
+    "32": "宿泊",
+    "38": "ショッピング",
+    "39": "飲食店",
+    "77": "交通",
+    other: "その他",
+  },
+  regions: {
+    "1": "ソウル",
+    "2": "仁川",
+    "3": "大田",
+    "4": "大邱",
+    "5": "光州",
+    "6": "釜山",
+    "7": "蔚山",
+    "8": "世宗",
+    "31": "京畿",
+    "32": "江原",
+    "33": "忠清北道",
+    "34": "忠清南道",
+    "35": "慶尚北道",
+    "36": "慶尚南道",
+    "37": "全羅北道",
+    "38": "全羅南道",
+    "39": "済州",
+  },
+  nav: {
+    home: "ホーム",
+    stats: "統計",
+    bookmarks: "ブックマーク",
+    back: "戻る",
+    signIn: "ログイン",
+    mainNavigation: "メインナビゲーション",
+    mobileNavigation: "モバイルナビゲーション",
+    toggleMenu: "メニューを開閉",
+    language: "言語",
+    theme: "テーマ",
+  },
+  languageSwitcher: {
+    label: "言語を選択",
+  },
+  theme: {
+    toggle: "テーマを切り替え",
+    light: "ライト",
+    dark: "ダーク",
+    system: "システム",
+  },
+  footer: {
+    poweredBy: "韓国観光公社API提供",
+  },
+  home: {
+    heroTitle: "韓国の美しい観光地を探検しよう",
+    heroDescription: "全国の観光地情報をひと目で確認し、地図で場所を探してみましょう",
+    searchResultCount: "の検索結果：{count}件",
+  },
+  search: {
+    placeholder: "観光地名・住所・説明で検索...",
+    placeholderShort: "検索...",
+    label: "観光地を検索",
+    clear: "検索語をクリア",
+    submitLabel: "検索を実行",
+    submit: "検索",
+  },
+  filters: {
+    selectRegion: "地域を選択",
+    region: "地域",
+    sigungu: "市・郡・区",
+    selectSigungu: "市・郡・区を選択",
+    selectContentType: "観光タイプを選択",
+    selectSort: "並び順を選択",
+    sort: {
+      latest: "新着順",
+      name: "名前順",
+      created: "登録順",
+      distance: "距離順",
+    },
+    imageOnly: "写真ありのみ",
+    reset: "フィルターをリセット",
+    festivalFrom: "{date}以降",
+  },
+  multiSelect: {
+    summary: "{first}ほか{rest}件",
+    maxSelected: "最大{max}件まで選択できます。",
+  },
+  nearby: {
+    button: "周辺",
+    locate: "周辺の観光地を見る",
+    relocate: "現在地を再取得",
+    selectRadius: "検索半径を選択",
+    clear: "周辺モードを解除",
+    unsupported: "このブラウザは位置情報に対応していません。",
+    errors: {
+      permissionDenied: "位置情報の利用が拒否されました。ブラウザの設定で位置情報を許可してください。",
+      unavailable: "現在地を確認できません。",
+      timeout: "位置情報の取得がタイムアウトしました。もう一度お試しください。",
+      unknown: "位置情報の取得中にエラーが発生しました。",
+    },
+  },
+  distanceFilter: {
+    selectOrigin: "距離の基準地点を選択",
+    off: "距離の基準",
+    origins: {
+      map: "地図の中心",
+      place: "選択した観光地",
+      user: "現在地",
+      custom: "指定した地点",
+    },
+    selectRadius: "距離の半径を選択",
+    anyRadius: "すべての距離",
+    sortByDistance: "近い順",
+    summary: "{total}件中{count}件",
+    clear: "距離フィルターを解除",
+    noPlaceSelected: "先にリストまたは地図で観光地を選択してください。",
+  },
+  festival: {
+    button: "祭り期間",
+    label: "期間で祭りを探す",
+    startDate: "祭りの開始日",
+    endDate: "祭りの終了日",
+    thisWeekend: "今週末",
+    clear: "祭り期間フィルターを解除",
+    invalidRange: "終了日は開始日以降を選択してください。",
+  },
+  category: {
+    cat1: "大分類",
+    cat1Select: "大分類を選択",
+    cat2: "中分類",
+    cat2Select: "中分類を選択",
+    cat3: "小分類",
+    cat3Select: "小分類を選択",
+  },
+  tourList: {
+    loadError: "観光地情報の読み込み中にエラーが発生しました。",
+    noSearchResults: "検索結果がありません",
+    empty: "観光地がありません",
+    noResultsFor: "「{keyword}」の検索結果はありません。",
+    searchHint: "別のキーワードを試すか、フィルターを変更してください。",
+    filterHint: "別のフィルターを選ぶか、検索語を変更してください。",
+    loadingMore: "さらに観光地を読み込み中...",
+    allLoaded: "すべての観光地を読み込みました。",
+  },
+  tourCard: {
+    ongoing: "開催中",
+    distanceFrom: "現在地から{distance}",
+  },
+  mapView: {
+    selectView: "表示モードを選択",
+    list: "リスト",
+    listLabel: "リストで見る",
+    map: "地図",
+    mapLabel: "地図で見る",
+  },
+  map: {
+    label: "地図",
+    loading: "地図を読み込み中...",
+    zoomIn: "拡大",
+    zoomOut: "縮小",
+    toSatellite: "衛星地図に切り替え",
+    toNormal: "通常地図に切り替え",
+    clusterTitle: "観光地 {count}件（クリックで拡大）",
+    searchArea: "このエリアで検索",
+    searchAreaClamped: "検索半径は最大{radius}のため、地図の中心から{radius}以内の観光地のみ検索します。",
+    searchAreaFiltersCleared: "エリア検索では地域・分類・キーワード・開催期間の条件を使えないため解除しました。",
+    radiusCenter: "距離の基準地点（ドラッグで移動）",
+    radiusHandle: "距離の半径（ドラッグで調整）",
+    legend: "凡例",
+    errors: {
+      loadFailed: "地図を読み込めません。ネットワーク接続を確認してページを再読み込みしてください。",
+      mapInitFailed: "地図を初期化できません：{message}",
+      noCoordinates: "座標情報がありません。",
+    },
+  },
+  detail: {
+    notFoundTitle: "観光地情報が見つかりません",
+    notFoundDescription: "お探しの観光地情報は見つかりませんでした。",
+    fallbackTitle: "観光地情報",
+    defaultDescription: "{title}の観光情報",
+    mainImageAlt: "{title}の代表画像",
+    loadError: "観光地情報を読み込めません。",
+    translationFallback: "この観光地は日本語の情報がないため、韓国語で表示しています。",
+    translationFallbackOther: "この観光地は日本語の情報がないため、別の言語（{language}）で表示しています。",
+  },
+  detailInfo: {
+    label: "観光地の詳細情報",
+    noImage: "画像なし",
+    basicInfo: "基本情報",
+    address: "住所",
+    copyAddress: "住所 {address} をコピー",
+    addressCopied: "住所をコピーしました。",
+    copyAddressFailed: "住所をコピーできませんでした。",
+    phone: "電話番号",
+    call: "{tel}に電話する",
+    homepage: "ホームページ",
+    openHomepage: "ホームページ {site} を新しいウィンドウで開く",
+    overview: "概要",
+  },
+  detailIntro: {
+    titles: {
+      touristSpot: "営業情報",
+      culturalFacility: "観覧情報",
+      festival: "イベント情報",
+      travelCourse: "コース情報",
+      leisureSports: "利用情報",
+      accommodation: "宿泊情報",
+      shopping: "店舗情報",
+      restaurant: "メニュー・営業情報",
+    },
+    labels: {
+      useTime: "利用時間",
+      restDate: "休業日",
+      useSeason: "利用時期",
+      contact: "お問い合わせ",
+      parking: "駐車場",
+      capacity: "収容人数",
+      experienceGuide: "体験案内",
+      experienceAge: "体験可能年齢",
+      babyCarriage: "ベビーカー貸出",
+      pets: "ペット同伴",
+      creditCard: "クレジットカード",
+      fee: "利用料金",
+      discount: "割引情報",
+      spendTime: "所要時間",
+      parkingFee: "駐車料金",
+      scale: "規模",
+      eventPeriod: "開催期間",
+      eventPlace: "開催場所",
+      placeInfo: "会場案内",
+      playTime: "公演時間",
+      bookingPlace: "チケット販売",
+      ageLimit: "観覧可能年齢",
+      program: "プログラム",
+      subEvent: "関連イベント",
+      sponsor: "主催",
+      organizer: "主管",
+      eventHomepage: "イベントホームページ",
+      courseDistance: "コース総距離",
+      courseTime: "コース所要時間",
+      schedule: "コース日程",
+      courseTheme: "コーステーマ",
+      openPeriod: "営業期間",
+      admission: "入場料",
+      reservation: "予約案内",
+      checkIn: "チェックイン",
+      checkOut: "チェックアウト",
+      roomType: "客室タイプ",
+      roomCount: "客室数",
+      lodgingCapacity: "収容可能人数",
+      cooking: "客室内での調理",
+      foodPlace: "飲食施設",
+      reservationUrl: "予約ページ",
+      refund: "返金規定",
+      pickup: "送迎サービス",
+      subFacility: "その他の付帯施設",
+      openTime: "営業時間",
+      fairDay: "市の立つ日",
+      saleItem: "販売品目",
+      saleItemCost: "品目別価格",
+      shopGuide: "店舗案内",
+      restroom: "トイレ",
+      firstMenu: "代表メニュー",
+      treatMenu: "取扱メニュー",
+      seat: "座席数",
+      packing: "持ち帰り",
+      kidsFacility: "キッズルーム",
+      smoking: "禁煙・喫煙",
+    },
+    facilitiesTitle: "付帯施設",
+    facilities: {
+      barbecue: "バーベキュー場",
+      beauty: "ビューティー施設",
+      beverage: "飲食施設",
+      bicycle: "レンタサイクル",
+      campfire: "キャンプファイヤー",
+      fitness: "フィットネスセンター",
+      karaoke: "カラオケ",
+      publicbath: "共用シャワー室",
+      publicpc: "共用PCルーム",
+      sauna: "サウナ",
+      seminar: "セミナー室",
+      sports: "スポーツ施設",
+    },
+  },
+  detailRooms: {
+    title: "客室情報",
+    caption: "客室ごとの広さ・人数・料金・設備",
+    room: "客室",
+    size: "広さ",
+    capacity: "人数（基準/最大）",
+    offSeason: "オフシーズン（平日/週末）",
+    peakSeason: "ハイシーズン（平日/週末）",
+    amenities: "設備",
+    fee: "{amount}ウォン",
+    sizePyeong: "{size}坪",
+    people: "{base} / {max}名",
+    amenityLabels: {
+      roombathfacility: "浴室",
+      roombath: "バスタブ",
+      roomhometheater: "ホームシアター",
+      roomaircondition: "エアコン",
+      roomtv: "テレビ",
+      roompc: "PC",
+      roomcable: "ケーブルテレビ",
+      roominternet: "インターネット",
+      roomrefrigerator: "冷蔵庫",
+      roomtoiletries: "アメニティ",
+      roomsofa: "ソファ",
+      roomcook: "調理器具",
+      roomtable: "テーブル",
+      roomhairdryer: "ドライヤー",
+    },
+  },
+  detailPetTour: {
+    title: "ペット同伴旅行情報",
+    allowed: "ペット同伴可",
+    restricted: "ペット同伴制限あり",
+    leash: "ペット同伴の可否",
+    size: "ペットのサイズ制限",
+    place: "入場可能な場所",
+    fee: "ペット同伴の追加料金",
+    parking: "駐車場情報",
+    etc: "ペット情報",
+    cautionTitle: "ご注意",
+    caution: "ペットとご来場の際は、リードの着用やエチケット袋の準備などマナーを守ってください。",
+    sizes: {
+      small: "小型犬可",
+      medium: "中型犬可",
+      large: "大型犬可",
+    },
+  },
+  detailGallery: {
+    title: "画像ギャラリー",
+    empty: "画像がありません。",
+    carouselLabel: "画像ギャラリー（矢印キーで移動）",
+    imageName: "画像{index}",
+    imageAlt: "{title}の画像{index}",
+    openFullscreen: "{name}を全画面で見る",
+    previous: "前の画像",
+    next: "次の画像",
+  },
+  detailMap: {
+    title: "位置情報",
+    directions: "ルート検索",
+    copyCoordinates: "座標をコピー",
+    coordinatesCopied: "座標をコピーしました。",
+    copyCoordinatesFailed: "座標をコピーできませんでした。",
+  },
+  detailCourse: {
+    title: "コースの経由地",
+    stopCount: "（{count}か所）",
+  },
+  detailExtraInfo: {
+    title: "追加情報",
+  },
+  detailRecommendations: {
+    title: "こちらの観光地もおすすめ",
+    label: "おすすめの観光地",
+    loadError: "おすすめの観光地を読み込めません。",
+  },
+  share: {
+    share: "共有",
+    copyLink: "リンクをコピー",
+    linkCopied: "リンクをコピーしました。",
+    copyFailed: "リンクをコピーできませんでした。",
+    noUrl: "共有するURLが見つかりません。",
+  },
+  bookmarks: {
+    pageTitle: "マイブックマーク",
+    button: "ブックマーク",
+    bookmarked: "ブックマーク済み",
+    add: "ブックマークに追加",
+    remove: "ブックマークを解除",
+    loadingLabel: "ブックマークを読み込み中",
+    loading: "読み込み中",
+    processing: "処理中",
+    signInToAdd: "ログインしてブックマーク",
+    signInRequired: "ブックマーク機能を使うにはログインが必要です。",
+    added: "ブックマークに追加しました。",
+    removed: "ブックマークを解除しました。",
+    addFailed: "ブックマークを追加できませんでした。",
+    removeFailed: "ブックマークを解除できませんでした。",
+    alreadyBookmarked: "すでにブックマークされています。",
+    toggleError: "ブックマークの処理中にエラーが発生しました。",
+    listLoading: "ブックマークを読み込み中...",
+    listLoadError: "ブックマークの読み込み中にエラーが発生しました。",
+    detailLoadFailed: "{count}件のブックマークの観光地情報を読み込めませんでした。",
+    deleted: "ブックマークを削除しました。",
+    deletedCount: "{count}件のブックマークを削除しました。",
+    deleteFailed: "ブックマークを削除できませんでした。",
+    deleteError: "ブックマークの削除中にエラーが発生しました。",
+    emptyTitle: "ブックマークした観光地はまだありません",
+    emptyDescription: "観光地の詳細ページでブックマークを追加してみましょう。",
+    browse: "観光地を見てみる →",
+    selectSort: "並び順を選択",
+    sort: {
+      latest: "新着順",
+      name: "名前順",
+      area: "地域別",
+    },
+    selectAll: "すべて選択",
+    selectedCount: "{count}件選択中",
+    batchDelete: "まとめて削除",
+    batchDeleteLabel: "選択した{count}件のブックマークをまとめて削除",
+    total: "ブックマークした観光地 {count}件",
+    selectItem: "{title}を選択",
+    batchDeleteTitle: "ブックマークをまとめて削除",
+    batchDeleteConfirm: "選択した{count}件のブックマークを削除しますか？",
+    deleteTitle: "ブックマークを削除",
+    deleteConfirm: "「{title}」のブックマークを削除しますか？",
+    deleteItem: "{title}のブックマークを削除",
+  },
+  stats: {
+    title: "統計ダッシュボード",
+    description: "全国の観光地の状況をひと目で確認しましょう",
+    summary: "統計の概要",
+    regionSection: "地域別の観光地分布",
+    typeSection: "タイプ別の観光地分布",
+    regionChart: "地域別の観光地分布グラフ",
+    typeChart: "タイプ別の観光地分布グラフ",
+    totalCount: "観光地の総数",
+    topRegion: "観光地が最も多い地域",
+    topType: "最も多い観光タイプ",
+    lastUpdated: "最終更新",
+    placeCount: "観光地数",
+    ratio: "割合",
+    loadError: "統計データの読み込み中にエラーが発生しました。",
+    regionLoadError: "地域別統計データの読み込み中にエラーが発生しました。",
+    typeLoadError: "タイプ別統計データの読み込み中にエラーが発生しました。",
+  },
+  staleData: {
+    title: "{time}に保存されたデータを表示しています",
+    description: "観光情報サーバーに一時的に接続できないため、最新の情報ではない可能性があります。",
+  },
+  errors: {
+    title: "エラー発生",
+    code: "エラーコード：{code}",
+    api: "データの読み込み中にエラーが発生しました。",
+    network: "ネットワーク接続を確認してください。",
+    unknown: "不明なエラーが発生しました。",
+  },
+  tourApiErrors: {
+    rate_limited: "リクエストが多すぎます。しばらくしてからもう一度お試しください。",
+    quota_exceeded: "本日の観光情報リクエスト上限に達しました。明日もう一度お試しください。",
+    invalid_key: "観光情報サービスの認証に失敗しました。管理者にお問い合わせください。",
+    not_found: "リクエストされたデータが見つかりません。",
+    upstream: "観光情報サーバーでエラーが発生しました。しばらくしてからもう一度お試しください。",
+    network: "ネットワーク接続を確認してください。",
+    schema: "観光情報の応答形式が正しくありません。しばらくしてからもう一度お試しください。",
+    invalid_request: "リクエストの条件が正しくありません。検索条件を確認してください。",
+  },
+  errorPage: {
+    title: "エラーが発生しました",
+    description: "予期しないエラーが発生しました。しばらくしてからもう一度お試しください。",
+  },
+  globalError: {
+    title: "予期しないエラーが発生しました",
+    description: "アプリケーションで重大なエラーが発生しました。",
+    hint: "ページを再読み込みするか、しばらくしてからもう一度お試しください。",
+  },
+  notFound: {
+    title: "ページが見つかりません",
+    description: "お探しのページは存在しないか、移動した可能性があります。",
+    hint: "URLを確認するか、ホームに戻ってください。",
+    search: "観光地を検索",
+  },
+  offline: {
+    title: "オフライン",
+    heading: "インターネット接続を確認してください",
+    description: "現在インターネットに接続されていません。",
+    hint: "ネットワーク接続を確認してから、もう一度お試しください。",
+    cached: "一部のキャッシュされたコンテンツはオフラインでも利用できます。",
+    reconnected: "接続が回復しました。ページを再読み込みします...",
+    status: "オフラインです。",
+  },
+  feedback: {
+    button: "フィードバック",
+    buttonLabel: "フィードバックを送信",
+    title: "フィードバックを送信",
+    description: "サービス改善のためのご意見をお寄せください。すべてのフィードバックを確認し反映します。",
+    type: "フィードバックの種類",
+    selectType: "フィードバックの種類を選択",
+    types: {
+      general: "一般的なフィードバック",
+      feature: "機能の提案",
+      improvement: "改善点",
+    },
+    content: "フィードバック内容",
+    contentPlaceholder: "フィードバック内容を入力してください...",
+    contentInput: "フィードバック内容の入力",
+    rating: "評価（任意）",
+    selectRating: "評価を選択",
+    ratingPlaceholder: "評価を選択してください（任意）",
+    noRating: "評価なし",
+    ratingOption: "{stars}（{score}点）",
+    contentRequired: "フィードバック内容を入力してください。",
+    submitted: "フィードバックを送信しました。ありがとうございます！",
+    submitFailed: "フィードバックを送信できませんでした。",
+  },
+  bugReport: {
+    button: "バグ報告",
+    buttonLabel: "バグ報告を送信",
+    title: "バグ報告",
+    description: "見つけたバグを詳しく説明してください。できるだけ多くの情報をいただけると早く解決できます。",
+    titleLabel: "バグのタイトル *",
+    titlePlaceholder: "バグを簡単に説明してください...",
+    titleInput: "バグのタイトルの入力",
+    descriptionLabel: "バグの説明 *",
+    descriptionPlaceholder: "発生した状況、再現手順、期待される動作などを詳しく説明してください...",
+    descriptionInput: "バグの説明の入力",
+    stackLabel: "エラースタック（任意）",
+    stackPlaceholder: "エラーのスタックトレースがあれば貼り付けてください...",
+    stackInput: "エラースタックの入力",
+    autoCollected: "自動収集される情報",
+    pageUrl: "ページURL：",
+    browser: "ブラウザ：",
+    collecting: "収集中...",
+    titleRequired: "バグのタイトルを入力してください。",
+    descriptionRequired: "バグの説明を入力してください。",
+    submitted: "バグ報告を送信しました。ありがとうございます！",
+    submitFailed: "バグ報告を送信できませんでした。",
+    autoSubmitted: "バグを自動で報告しました。",
+    autoSubmitError: "バグ報告の送信中にエラーが発生しました。",
+  },
+};
@@ -0,0 +1,579 @@
+/**
+ * @file ko.ts
+ * @description 한국어 메시지 카탈로그 (기본 언어)
+ *
+ * 다른 언어 카탈로그는 이 파일의 구조(Messages 타입)를 그대로 따릅니다.
+ * 키가 빠지거나 남으면 타입 검사에서 오류가 납니다.
+ *
+ * 작성 규칙:
+ * - 값을 채워 넣는 자리는 {name} 형식 (formatMessage로 치환)
+ * - 관광 타입(contentTypes)은 앱의 콘텐츠 타입 ID(한국어 서비스 기준),
+ *   지역(regions)은 시/도 지역 코드를 키로 사용
+ * - 관광 타입/지역 이름은 이 카탈로그에서만 관리 (lib/i18n/labels.ts)
+ *
+ * @see {@link /lib/i18n/messages/index.ts} - 언어별 카탈로그
+ */
+
+export const ko = {
+  meta: {
+    title: "My Trip - 한국 관광지 정보 서비스",
+    description: "한국관광공사 공공 API를 활용한 전국 관광지 정보 검색 서비스",
+    keywords: ["관광지", "여행", "한국", "관광 정보", "My Trip"],
+  },
+  common: {
+    backToHome: "홈으로 돌아가기",
+    retry: "다시 시도",
+    retryIn: "{seconds}초 후 다시 시도",
+    cancel: "취소",
+    delete: "삭제",
+    deleting: "삭제 중...",
+    submit: "제출",
+    submitting: "제출 중...",
+    copy: "복사",
+    copied: "복사됨",
+    all: "전체",
+    allOf: "{label} 전체",
+    loading: "로딩 중...",
+    noData: "표시할 데이터가 없습니다.",
+    noAddress: "주소 정보 없음",
+    viewDetails: "상세보기",
+    viewDetailsOf: "{title} 상세보기",
+    count: "{count}개",
+    unexpectedError: "예기치 않은 오류가 발생했습니다.",
+    devDetails: "상세 정보 (개발 모드)",
+    irreversible: "이 작업은 되돌릴 수 없습니다.",
+  },
+  contentTypes: {
+    "12": "관광지",
+    "14": "문화시설",
+    "15": "축제/행사",
+    "25": "여행코스",
+    "28": "레포츠",
+    "32": "숙박",
+    "38": "쇼핑",
+    "39": "음식점",
+    "77": "교통",
+    other: "기타",
+  },
+  regions: {
+    "1": "서울",
+    "2": "인천",
+    "3": "대전",
+    "4": "대구",
+    "5": "광주",
+    "6": "부산",
+    "7": "울산",
+    "8": "세종",
+    "31": "경기",
+    "32": "강원",
+    "33": "충북",
+    "34": "충남",
+    "35": "경북",
+    "36": "경남",
+    "37": "전북",
+    "38": "전남",
+    "39": "제주",
+  },
+  nav: {
+    home: "홈",
+    stats: "통계",
+    bookmarks: "북마크",
+    back: "뒤로가기",
+    signIn: "로그인",
+    mainNavigation: "메인 네비게이션",
+    mobileNavigation: "모바일 네비게이션",
+    toggleMenu: "메뉴 토글",
+    language: "언어",
+    theme: "테마",
+  },
+  languageSwitcher: {
+    label: "언어 선택",
+  },
+  theme: {
+    toggle: "테마 전환",
+    light: "라이트",
+    dark: "다크",
+    system: "시스템",
+  },
+  footer: {
+    poweredBy: "한국관광공사 API 제공",
+  },
+  home: {
+    heroTitle: "한국의 아름다운 관광지를 탐험하세요",
+    heroDescription: "전국 관광지 정보를 한눈에 확인하고, 지도로 위치를 찾아보세요",
+    searchResultCount: "검색 결과: {count}개",
+  },
+  search: {
+    placeholder: "관광지명, 주소, 설명으로 검색...",
+    placeholderShort: "검색...",
+    label: "관광지 검색",
+    clear: "검색어 초기화",
+    submitLabel: "검색 실행",
+    submit: "검색",
+  },
+  filters: {
+    selectRegion: "지역 선택",
+    region: "지역",
+    sigungu: "시/군/구",
+    selectSigungu: "시/군/구 선택",
+    selectContentType: "관광 타입 선택",
+    selectSort: "정렬 옵션 선택",
+    sort: {
+      latest: "최신순",
+      name: "이름순",
+      created: "등록순",
+      distance: "거리순",
+    },
+    imageOnly: "사진 있는 곳만",
+    reset: "필터 초기화",
+    festivalFrom: "{date} 이후",
+  },
+  multiSelect: {
+    summary: "{first} 외 {rest}",
+    maxSelected: "최대 {max}개까지 선택할 수 있습니다.",
+  },
+  nearby: {
+    button: "내 주변",
+    locate: "내 주변 관광지 보기",
+    relocate: "현재 위치 다시 가져오기",
+    selectRadius: "검색 반경 선택",
+    clear: "내 주변 모드 해제",
+    unsupported: "이 브라우저는 위치 정보를 지원하지 않습니다.",
+    errors: {
+      permissionDenied: "위치 권한이 거부되었습니다. 브라우저 설정에서 위치 권한을 허용해주세요.",
+      unavailable: "현재 위치를 확인할 수 없습니다.",
+      timeout: "위치 확인 시간이 초과되었습니다. 다시 시도해주세요.",
+      unknown: "위치를 가져오는 중 오류가 발생했습니다.",
+    },
+  },
+  distanceFilter: {
+    selectOrigin: "거리 기준 위치 선택",
+    off: "거리 기준",
+    origins: {
+      map: "지도 중심",
+      place: "선택한 관광지",
+      user: "내 위치",
+      custom: "지정한 위치",
+    },
+    selectRadius: "거리 반경 선택",
+    anyRadius: "전체 거리",
+    sortByDistance: "가까운 순",
+    summary: "{total}곳 중 {count}곳",
+    clear: "거리 필터 해제",
+    noPlaceSelected: "먼저 목록이나 지도에서 관광지를 선택해주세요.",
+  },
+  festival: {
+    button: "축제 기간",
+    label: "기간별 축제 보기",
+    startDate: "축제 시작일",
+    endDate: "축제 종료일",
+    thisWeekend: "이번 주말",
+    clear: "축제 기간 필터 해제",
+    invalidRange: "종료일은 시작일 이후로 선택해주세요.",
+  },
+  category: {
+    cat1: "대분류",
+    cat1Select: "대분류 선택",
+    cat2: "중분류",
+    cat2Select: "중분류 선택",
+    cat3: "소분류",
+    cat3Select: "소분류 선택",
+  },
+  tourList: {
+    loadError: "관광지 정보를 불러오는 중 오류가 발생했습니다.",
+    noSearchResults: "검색 결과가 없습니다",
+    empty: "관광지가 없습니다",
+    noResultsFor: "\"{keyword}\"에 대한 검색 결과가 없습니다.",
+    searchHint: "다른 검색어를 시도하거나 필터 옵션을 변경해보세요.",
+    filterHint: "다른 필터 옵션을 선택하거나 검색어를 변경해보세요.",
+    loadingMore: "더 많은 관광지를 불러오는 중...",
+    allLoaded: "모든 관광지를 불러왔습니다.",
+  },
+  tourCard: {
+    ongoing: "진행중",
+    distanceFrom: "현재 위치에서 {distance}",
+  },
+  mapView: {
+    selectView: "뷰 모드 선택",
+    list: "목록",
+    listLabel: "목록 보기",
+    map: "지도",
+    mapLabel: "지도 보기",
+  },
+  map: {
+    label: "지도",
+    loading: "지도를 불러오는 중...",
+    zoomIn: "줌 인",
+    zoomOut: "줌 아웃",
+    toSatellite: "위성 지도로 전환",
+    toNormal: "일반 지도로 전환",
+    clusterTitle: "관광지 {count}곳 (클릭하여 확대)",
+    searchArea: "이 지역에서 검색",
+    searchAreaClamped: "검색 반경은 최대 {radius}이므로 지도 중심에서 {radius} 이내의 관광지만 검색합니다.",
+    searchAreaFiltersCleared: "이 지역에서 검색할 때는 지역, 분류, 키워드, 행사 기간 조건을 적용할 수 없어 해제했습니다.",
+    radiusCenter: "거리 기준 위치 (끌어서 이동)",
+    radiusHandle: "거리 반경 (끌어서 조절)",
+    legend: "범례",
+    errors: {
+      loadFailed: "지도를 불러올 수 없습니다. 네트워크 연결을 확인한 후 페이지를 새로고침해주세요.",
+      mapInitFailed: "지도를 초기화할 수 없습니다: {message}",
+      noCoordinates: "좌표 정보가 없습니다.",
+    },
+  },
+  detail: {
+    notFoundTitle: "관광지 정보를 찾을 수 없습니다",
+    notFoundDescription: "요청하신 관광지 정보를 찾을 수 없습니다.",
+    fallbackTitle: "관광지 정보",
+    defaultDescription: "{title} 관광지 정보",
+    mainImageAlt: "{title} 대표 이미지",
+    loadError: "관광지 정보를 불러올 수 없습니다.",
+    translationFallback: "이 관광지는 번역된 정보가 없어 한국어로 표시합니다.",
+    translationFallbackOther: "이 관광지는 한국어 정보가 없어 다른 언어({language})로 표시합니다.",
+  },
+  detailInfo: {
+    label: "관광지 상세 정보",
+    noImage: "이미지 없음",
+    basicInfo: "기본 정보",
+    address: "주소",
+    copyAddress: "{address} 주소 복사",
+    addressCopied: "주소가 복사되었습니다.",
+    copyAddressFailed: "주소 복사에 실패했습니다.",
+    phone: "전화번호",
+    call: "{tel}로 전화하기",
+    homepage: "홈페이지",
+    openHomepage: "{site} 홈페이지 새 창에서 열기",
+    overview: "개요",
+  },
+  detailIntro: {
+    titles: {
+      touristSpot: "운영 정보",
+      culturalFacility: "관람 정보",
+      festival: "행사 정보",
+      travelCourse: "코스 정보",
+      leisureSports: "이용 정보",
+      accommodation: "숙박 정보",
+      shopping: "매장 정보",
+      restaurant: "메뉴 및 영업 정보",
+    },
+    labels: {
+      useTime: "이용시간",
+      restDate: "쉬는 날",
+      useSeason: "이용 시기",
+      contact: "문의처",
+      parking: "주차",
+      capacity: "수용인원",
+      experienceGuide: "체험 안내",
+      experienceAge: "체험 가능 연령",
+      babyCarriage: "유모차 대여",
+      pets: "반려동물 동반",
+      creditCard: "신용카드",
+      fee: "이용요금",
+      discount: "할인 정보",
+      spendTime: "관람 소요시간",
+      parkingFee: "주차 요금",
+      scale: "규모",
+      eventPeriod: "행사 기간",
+      eventPlace: "행사 장소",
+      placeInfo: "행사장 위치 안내",
+      playTime: "공연 시간",
+      bookingPlace: "예매처",
+      ageLimit: "관람 가능 연령",
+      program: "행사 프로그램",
+      subEvent: "부대 행사",
+      sponsor: "주최",
+      organizer: "주관",
+      eventHomepage: "행사 홈페이지",
+      courseDistance: "코스 총 거리",
+      courseTime: "코스 총 소요시간",
+      schedule: "코스 일정",
+      courseTheme: "코스 테마",
+      openPeriod: "개장 기간",
+      admission: "입장료",
+      reservation: "예약 안내",
+      checkIn: "입실 시간",
+      checkOut: "퇴실 시간",
+      roomType: "객실 유형",
+      roomCount: "객실 수",
+      lodgingCapacity: "수용 가능 인원",
+      cooking: "객실 내 취사",
+      foodPlace: "식음료장",
+      reservationUrl: "예약 홈페이지",
+      refund: "환불 규정",
+      pickup: "픽업 서비스",
+      subFacility: "기타 부대시설",
+      openTime: "영업시간",
+      fairDay: "장서는 날",
+      saleItem: "판매 품목",
+      saleItemCost: "품목별 가격",
+      shopGuide: "매장 안내",
+      restroom: "화장실",
+      firstMenu: "대표 메뉴",
+      treatMenu: "취급 메뉴",
+      seat: "좌석 수",
+      packing: "포장",
+      kidsFacility: "어린이 놀이방",
+      smoking: "금연/흡연",
+    },
+    facilitiesTitle: "부대시설",
+    facilities: {
+      barbecue: "바비큐장",
+      beauty: "뷰티시설",
+      beverage: "식음료장",
+      bicycle: "자전거 대여",
+      campfire: "캠프파이어",
+      fitness: "휘트니스 센터",
+      karaoke: "노래방",
+      publicbath: "공용 샤워실",
+      publicpc: "공용 PC실",
+      sauna: "사우나실",
+      seminar: "세미나실",
+      sports: "스포츠 시설",
+    },
+  },
+  detailRooms: {
+    title: "객실 정보",
+    caption: "객실별 크기, 인원, 요금 및 편의시설",
+    room: "객실",
+    size: "크기",
+    capacity: "인원 (기준/최대)",
+    offSeason: "비수기 (주중/주말)",
+    peakSeason: "성수기 (주중/주말)",
+    amenities: "편의시설",
+    fee: "{amount}원",
+    sizePyeong: "{size}평",
+    people: "{base} / {max}명",
+    amenityLabels: {
+      roombathfacility: "목욕시설",
+      roombath: "욕조",
+      roomhometheater: "홈시어터",
+      roomaircondition: "에어컨",
+      roomtv: "TV",
+      roompc: "PC",
+      roomcable: "케이블",
+      roominternet: "인터넷",
+      roomrefrigerator: "냉장고",
+      roomtoiletries: "세면도구",
+      roomsofa: "소파",
+      roomcook: "취사용품",
+      roomtable: "테이블",
+      roomhairdryer: "드라이기",
+    },
+  },
+  detailPetTour: {
+    title: "반려동물 동반 여행 정보",
+    allowed: "반려동물 동반 가능",
+    restricted: "반려동물 동반 제한",
+    leash: "반려동물 동반 여부",
+    size: "반려동물 크기 제한",
+    place: "입장 가능 장소",
+    fee: "반려동물 동반 추가 요금",
+    parking: "주차장 정보",
+    etc: "반려동물 정보",
+    cautionTitle: "주의사항",
+    caution: "반려동물과 함께 방문하실 때는 목줄 착용, 배변 봉투 준비 등 반려동물 매너를 지켜주세요.",
+    sizes: {
+      small: "소형견 가능",
+      medium: "중형견 가능",
+      large: "대형견 가능",
+    },
+  },
+  detailGallery: {
+    title: "이미지 갤러리",
+    empty: "이미지가 없습니다.",
+    carouselLabel: "이미지 갤러리 (화살표 키로 네비게이션)",
+    imageName: "이미지 {index}",
+    imageAlt: "{title} 이미지 {index}",
+    openFullscreen: "{name} 전체화면 보기",
+    previous: "이전 이미지",
+    next: "다음 이미지",
+  },
+  detailMap: {
+    title: "위치 정보",
+    directions: "길찾기",
+    copyCoordinates: "좌표 복사",
+    coordinatesCopied: "좌표가 복사되었습니다.",
+    copyCoordinatesFailed: "좌표 복사에 실패했습니다.",
+  },
+  detailCourse: {
+    title: "코스 경유지",
+    stopCount: "({count}곳)",
+  },
+  detailExtraInfo: {
+    title: "추가 정보",
+  },
+  detailRecommendations: {
+    title: "이런 관광지도 추천해요",
+    label: "추천 관광지",
+    loadError: "추천 관광지를 불러올 수 없습니다.",
+  },
+  share: {
+    share: "공유",
+    copyLink: "링크 복사",
+    linkCopied: "링크가 복사되었습니다.",
+    copyFailed: "링크 복사에 실패했습니다.",
+    noUrl: "공유할 URL을 찾을 수 없습니다.",
+  },
+  bookmarks: {
+    pageTitle: "내 북마크",
+    button: "북마크",
+    bookmarked: "북마크됨",
+    add: "북마크 추가",
+    remove: "북마크 제거",
+    loadingLabel: "북마크 로딩 중",
+    loading: "로딩 중",
+    processing: "처리 중",
+    signInToAdd: "로그인하여 북마크 추가",
+    signInRequired: "북마크 기능을 사용하려면 로그인이 필요합니다.",
+    added: "북마크에 추가되었습니다.",
+    removed: "북마크에서 제거되었습니다.",
+    addFailed: "북마크 추가에 실패했습니다.",
+    removeFailed: "북마크 제거에 실패했습니다.",
+    alreadyBookmarked: "이미 북마크된 관광지입니다.",
+    toggleError: "북마크 처리 중 오류가 발생했습니다.",
+    listLoading: "북마크 목록을 불러오는 중...",
+    listLoadError: "북마크 목록을 불러오는 중 오류가 발생했습니다.",
+    detailLoadFailed: "북마크 {count}개의 관광지 정보를 불러오지 못했습니다.",
+    deleted: "북마크가 삭제되었습니다.",
+    deletedCount: "{count}개의 북마크가 삭제되었습니다.",
+    deleteFailed: "북마크 삭제에 실패했습니다.",
+    deleteError: "북마크 삭제 중 오류가 발생했습니다.",
+    emptyTitle: "아직 북마크한 관광지가 없습니다",
+    emptyDescription: "관광지 상세 페이지에서 북마크를 추가해보세요.",
+    browse: "관광지 둘러보기 →",
+    selectSort: "정렬 옵션 선택",
+    sort: {
+      latest: "최신순",
+      name: "이름순",
+      area: "지역별",
+    },
+    selectAll: "전체 선택",
+    selectedCount: "{count}개 선택됨",
+    batchDelete: "일괄 삭제",
+    batchDeleteLabel: "선택한 {count}개 북마크 일괄 삭제",
+    total: "총 {count}개의 북마크된 관광지",
+    selectItem: "{title} 선택",
+    batchDeleteTitle: "북마크 일괄 삭제",
+    batchDeleteConfirm: "선택한 {count}개의 북마크를 삭제하시겠습니까?",
+    deleteTitle: "북마크 삭제",
+    deleteConfirm: "\"{title}\" 북마크를 삭제하시겠습니까?",
+    deleteItem: "{title} 북마크 삭제",
+  },
+  stats: {
+    title: "통계 대시보드",
+    description: "전국 관광지 현황을 한눈에 확인하세요",
+    summary: "통계 요약",
+    regionSection: "지역별 관광지 분포",
+    typeSection: "타입별 관광지 분포",
+    regionChart: "지역별 관광지 분포 차트",
+    typeChart: "타입별 관광지 분포 차트",
+    totalCount: "전체 관광지 수",
+    topRegion: "가장 많은 관광지 지역",
+    topType: "가장 많은 관광지 타입",
+    lastUpdated: "마지막 업데이트",
+    placeCount: "관광지 개수",
+    ratio: "비율",
+    loadError: "통계 데이터를 불러오는 중 오류가 발생했습니다.",
+    regionLoadError: "지역별 통계 데이터를 불러오는 중 오류가 발생했습니다.",
+    typeLoadError: "타입별 통계 데이터를 불러오는 중 오류가 발생했습니다.",
+  },
+  staleData: {
+    title: "{time}에 저장된 데이터를 표시하고 있습니다",
+    description: "관광 정보 서버에 일시적으로 연결할 수 없어 최신 정보가 아닐 수 있습니다.",
+  },
+  errors: {
+    title: "오류 발생",
+    code: "오류 코드: {code}",
+    api: "데이터를 불러오는 중 오류가 발생했습니다.",
+    network: "네트워크 연결을 확인해주세요.",
+    unknown: "알 수 없는 오류가 발생했습니다.",
+  },
+  tourApiErrors: {
+    rate_limited: "요청이 너무 많습니다. 잠시 후 다시 시도해주세요.",
+    quota_exceeded: "오늘 조회할 수 있는 관광 정보 요청 한도를 모두 사용했습니다. 내일 다시 시도해주세요.",
+    invalid_key: "관광 정보 서비스 인증에 실패했습니다. 관리자에게 문의해주세요.",
+    not_found: "요청한 데이터를 찾을 수 없습니다.",
+    upstream: "관광 정보 서버에 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+    network: "네트워크 연결을 확인해주세요.",
+    schema: "관광 정보 응답 형식이 올바르지 않습니다. 잠시 후 다시 시도해주세요.",
+    invalid_request: "요청 조건이 올바르지 않습니다. 검색 조건을 확인해주세요.",
+  },
+  errorPage: {
+    title: "오류가 발생했습니다",
+    description: "예기치 않은 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+  },
+  globalError: {
+    title: "예기치 않은 오류가 발생했습니다",
+    description: "애플리케이션에서 심각한 오류가 발생했습니다.",
+    hint: "페이지를 새로고침하거나 잠시 후 다시 시도해주세요.",
+  },
+  notFound: {
+    title: "페이지를 찾을 수 없습니다",
+    description: "요청하신 페이지가 존재하지 않거나 이동되었을 수 있습니다.",
+    hint: "URL을 확인하시거나 홈으로 돌아가시기 바랍니다.",
+    search: "관광지 검색하기",
+  },
+  offline: {
+    title: "오프라인 상태",
+    heading: "인터넷 연결을 확인해주세요",
+    description: "현재 인터넷에 연결되어 있지 않습니다.",
+    hint: "네트워크 연결을 확인한 후 다시 시도해주세요.",
+    cached: "일부 캐시된 콘텐츠는 오프라인에서도 사용할 수 있습니다.",
+    reconnected: "연결이 복구되었습니다. 페이지를 새로고침합니다...",
+    status: "오프라인 상태입니다.",
+  },
+  feedback: {
+    button: "피드백",
+    buttonLabel: "피드백 제출",
+    title: "피드백 제출",
+    description: "서비스 개선을 위한 의견을 남겨주세요. 모든 피드백은 검토 후 반영됩니다.",
+    type: "피드백 타입",
+    selectType: "피드백 타입 선택",
+    types: {
+      general: "일반 피드백",
+      feature: "기능 제안",
+      improvement: "개선 사항",
+    },
+    content: "피드백 내용",
+    contentPlaceholder: "피드백 내용을 입력해주세요...",
+    contentInput: "피드백 내용 입력",
+    rating: "평점 (선택 사항)",
+    selectRating: "평점 선택",
+    ratingPlaceholder: "평점을 선택하세요 (선택 사항)",
+    noRating: "평점 없음",
+    ratingOption: "{stars} ({score}점)",
+    contentRequired: "피드백 내용을 입력해주세요.",
+    submitted: "피드백이 제출되었습니다. 감사합니다!",
+    submitFailed: "피드백 제출에 실패했습니다.",
+  },
+  bugReport: {
+    button: "버그 리포트",
+    buttonLabel: "버그 리포트 제출",
+    title: "버그 리포트",
+    description:
+      "발견하신 버그를 자세히 설명해주세요. 빠른 해결을 위해 가능한 한 많은 정보를 제공해주시면 도움이 됩니다.",
+    titleLabel: "버그 제목 *",
+    titlePlaceholder: "버그를 간단히 설명해주세요...",
+    titleInput: "버그 제목 입력",
+    descriptionLabel: "버그 설명 *",
+    descriptionPlaceholder: "버그가 발생한 상황, 재현 방법, 예상 동작 등을 자세히 설명해주세요...",
+    descriptionInput: "버그 설명 입력",
+    stackLabel: "에러 스택 (선택 사항)",
+    stackPlaceholder: "에러 스택 트레이스가 있다면 붙여넣어주세요...",
+    stackInput: "에러 스택 입력",
+    autoCollected: "자동 수집 정보",
+    pageUrl: "페이지 URL: ",
+    browser: "브라우저: ",
+    collecting: "수집 중...",
+    titleRequired: "버그 제목을 입력해주세요.",
+    descriptionRequired: "버그 설명을 입력해주세요.",
+    submitted: "버그 리포트가 제출되었습니다. 감사합니다!",
+    submitFailed: "버그 리포트 제출에 실패했습니다.",
+    autoSubmitted: "버그가 자동으로 리포트되었습니다.",
+    autoSubmitError: "버그 리포트 제출 중 오류가 발생했습니다.",
+  },
+};
+
+/**
+ * 메시지 카탈로그 구조 (모든 언어 공통)
+ */
+export type Messages = typeof ko;
@@ -0,0 +1,566 @@
+/**
+ * @file zh.ts
+ * @description 중국어(간체) 메시지 카탈로그
+ *
+ * @see {@link /lib/i18n/messages/ko.ts} - 카탈로그 구조, 작성 규칙
+ */
+
+import type { Messages } from "./ko";
+
+export const zh: Messages = {
+  meta: {
+    title: "My Trip - 韩国旅游信息服务",
+    description: "利用韩国观光公社开放API的全国旅游景点信息搜索服务",
+    keywords: ["景点", "旅行", "韩国", "旅游信息", "My Trip"],
+  },
+  common: {
+    backToHome: "返回首页",
+    retry: "重试",
+    retryIn: "{seconds}秒后重试",
+    cancel: "取消",
+    delete: "删除",
+    deleting: "正在删除...",
+    submit: "提交",
+    submitting: "正在提交...",
+    copy: "复制",
+    copied: "已复制",
+    all: "全部",
+    allOf: "全部{label}",
+    loading: "加载中...",
+    noData: "没有可显示的数据。",
+    noAddress: "暂无地址信息",
+    viewDetails: "查看详情",
+    viewDetailsOf: "查看{title}详情",
+    count: "{count}个",
+    unexpectedError: "发生了意外错误。",
+    devDetails: "详细信息（开发模式）",
+    irreversible: "此操作无法撤销。",
+  },
+  contentTypes: {
+    "12": "景点",
+    "14": "文化设施",
+    "15": "节庆活动",
+    "25": "旅游路线",
+    "28": "休闲体育",
+    "32": "住宿",
+    "38": "购物",
+    "39": "餐厅",
+    "77": "交通",
+    other: "其他",
+  },
+  regions: {
+    "1": "首尔",
+    "2": "仁川",
+    "3": "大田",
+    "4": "大邱",
+    "5": "光州",
+    "6": "釜山",
+    "7": "蔚山",
+    "8": "世宗",
+    "31": "京畿",
+    "32": "江原",
+    "33": "忠清北道",
+    "34": "忠清南道",
+    "35": "庆尚北道",
+    "36": "庆尚南道",
+    "37": "全罗北道",
+    "38": "全罗南道",
+    "39": "济州",
+  },
+  nav: {
+    home: "首页",
+    stats: "统计",
+    bookmarks: "收藏",
+    back: "返回",
+    signIn: "登录",
+    mainNavigation: "主导航",
+    mobileNavigation: "移动端导航",
+    toggleMenu: "切换菜单",
+    language: "语言",
+    theme: "主题",
+  },
+  languageSwitcher: {
+    label: "选择语言",
+  },
+  theme: {
+    toggle: "切换主题",
+    light: "浅色",
+    dark: "深色",
+    system: "跟随系统",
+  },
+  footer: {
+    poweredBy: "由韩国观光公社API提供",
+  },
+  home: {
+    heroTitle: "探索韩国的美丽景点",
+    heroDescription: "一目了然地查看全国景点信息，并在地图上找到它们",
+    searchResultCount: "的搜索结果：{count}个",
+  },
+  search: {
+    placeholder: "按景点名称、地址、简介搜索...",
+    placeholderShort: "搜索...",
+    label: "搜索景点",
+    clear: "清除搜索词",
+    submitLabel: "执行搜索",
+    submit: "搜索",
+  },
+  filters: {
+    selectRegion: "选择地区",
+    region: "地区",
+    sigungu: "市/郡/区",
+    selectSigungu: "选择市/郡/区",
+    selectContentType: "选择旅游类型",
+    selectSort: "选择排序方式",
+    sort: {
+      latest: "最新",
+      name: "名称",
+      created: "登记时间",
+      distance: "距离",
+    },
+    imageOnly: "仅看有照片的",
+    reset: "重置筛选",
+    festivalFrom: "{date}以后",
+  },
+  multiSelect: {
+    summary: "{first}等{rest}项",
+    maxSelected: "最多可选择{max}项。",
+  },
+  nearby: {
+    button: "附近",
+    locate: "查看附近景点",
+    relocate: "重新获取当前位置",
+    selectRadius: "选择搜索半径",
+    clear: "关闭附近模式",
+    unsupported: "此浏览器不支持定位功能。",
+    errors: {
+      permissionDenied: "位置权限被拒绝。请在浏览器设置中允许位置权限。",
+      unavailable: "无法确认当前位置。",
+      timeout: "定位超时，请重试。",
+      unknown: "获取位置时发生错误。",
+    },
+  },
+  distanceFilter: {
+    selectOrigin: "选择距离参考点",
+    off: "距离参考点",
+    origins: {
+      map: "地图中心",
+      place: "所选景点",
+      user: "我的位置",
+      custom: "指定位置",
+    },
+    selectRadius: "选择距离半径",
+    anyRadius: "不限距离",
+    sortByDistance: "由近到远",
+    summary: "{total}个中的{count}个",
+    clear: "清除距离筛选",
+    noPlaceSelected: "请先在列表或地图中选择一个景点。",
+  },
+  festival: {
+    button: "节庆日期",
+    label: "按日期查看节庆",
+    startDate: "节庆开始日期",
+    endDate: "节庆结束日期",
+    thisWeekend: "本周末",
+    clear: "清除节庆日期筛选",
+    invalidRange: "结束日期必须晚于开始日期。",
+  },
+  category: {
+    cat1: "大类",
+    cat1Select: "选择大类",
+    cat2: "中类",
+    cat2Select: "选择中类",
+    cat3: "小类",
+    cat3Select: "选择小类",
+  },
+  tourList: {
+    loadError: "加载景点信息时发生错误。",
+    noSearchResults: "没有搜索结果",
+    empty: "没有景点",
+    noResultsFor: "没有与“{keyword}”相关的搜索结果。",
+    searchHint: "请尝试其他关键词或更改筛选条件。",
+    filterHint: "请选择其他筛选条件或更改搜索词。",
+    loadingMore: "正在加载更多景点...",
+    allLoaded: "已加载全部景点。",
+  },
+  tourCard: {
+    ongoing: "进行中",
+    distanceFrom: "距当前位置{distance}",
+  },
+  mapView: {
+    selectView: "选择视图",
+    list: "列表",
+    listLabel: "列表视图",
+    map: "地图",
+    mapLabel: "地图视图",
+  },
+  map: {
+    label: "地图",
+    loading: "正在加载地图...",
+    zoomIn: "放大",
+    zoomOut: "缩小",
+    toSatellite: "切换到卫星地图",
+    toNormal: "切换到普通地图",
+    clusterTitle: "{count} 个景点（点击放大）",
+    searchArea: "搜索此区域",
+    searchAreaClamped: "搜索半径最大为 {radius}，因此仅搜索地图中心 {radius} 范围内的景点。",
+    searchAreaFiltersCleared: "区域搜索无法使用地区、分类、关键词和活动日期条件，已将其清除。",
+    radiusCenter: "距离参考点（拖动以移动）",
+    radiusHandle: "距离半径（拖动以调整）",
+    legend: "图例",
+    errors: {
+      loadFailed: "无法加载地图。请检查网络连接后刷新页面。",
+      mapInitFailed: "无法初始化地图：{message}",
+      noCoordinates: "没有坐标信息。",
+    },
+  },
+  detail: {
+    notFoundTitle: "找不到景点信息",
+    notFoundDescription: "找不到您请求的景点信息。",
+    fallbackTitle: "景点信息",
+    defaultDescription: "{title}景点信息",
+    mainImageAlt: "{title}代表图片",
+    loadError: "无法加载景点信息。",
+    translationFallback: "该景点暂无中文信息，以韩语显示。",
+    translationFallbackOther: "该景点暂无中文信息，以其他语言（{language}）显示。",
+  },
+  detailInfo: {
+    label: "景点详细信息",
+    noImage: "暂无图片",
+    basicInfo: "基本信息",
+    address: "地址",
+    copyAddress: "复制地址 {address}",
+    addressCopied: "地址已复制。",
+    copyAddressFailed: "复制地址失败。",
+    phone: "电话",
+    call: "拨打{tel}",
+    homepage: "官网",
+    openHomepage: "在新窗口中打开官网 {site}",
+    overview: "简介",
+  },
+  detailIntro: {
+    titles: {
+      touristSpot: "开放信息",
+      culturalFacility: "参观信息",
+      festival: "活动信息",
+      travelCourse: "路线信息",
+      leisureSports: "使用信息",
+      accommodation: "住宿信息",
+      shopping: "店铺信息",
+      restaurant: "菜单及营业信息",
+    },
+    labels: {
+      useTime: "开放时间",
+      restDate: "休息日",
+      useSeason: "适宜季节",
+      contact: "咨询电话",
+      parking: "停车",
+      capacity: "容纳人数",
+      experienceGuide: "体验介绍",
+      experienceAge: "体验年龄",
+      babyCarriage: "婴儿车租借",
+      pets: "可携带宠物",
+      creditCard: "信用卡",
+      fee: "使用费用",
+      discount: "优惠信息",
+      spendTime: "参观所需时间",
+      parkingFee: "停车费",
+      scale: "规模",
+      eventPeriod: "活动期间",
+      eventPlace: "活动地点",
+      placeInfo: "会场位置说明",
+      playTime: "演出时间",
+      bookingPlace: "售票处",
+      ageLimit: "观看年龄",
+      program: "活动节目",
+      subEvent: "附带活动",
+      sponsor: "主办",
+      organizer: "承办",
+      eventHomepage: "活动官网",
+      courseDistance: "路线总距离",
+      courseTime: "路线总时长",
+      schedule: "路线日程",
+      courseTheme: "路线主题",
+      openPeriod: "开放期间",
+      admission: "门票",
+      reservation: "预约说明",
+      checkIn: "入住时间",
+      checkOut: "退房时间",
+      roomType: "客房类型",
+      roomCount: "客房数",
+      lodgingCapacity: "可容纳人数",
+      cooking: "客房内做饭",
+      foodPlace: "餐饮场所",
+      reservationUrl: "预订网站",
+      refund: "退款规定",
+      pickup: "接送服务",
+      subFacility: "其他附属设施",
+      openTime: "营业时间",
+      fairDay: "集市日",
+      saleItem: "销售商品",
+      saleItemCost: "商品价格",
+      shopGuide: "店铺介绍",
+      restroom: "洗手间",
+      firstMenu: "招牌菜",
+      treatMenu: "菜单",
+      seat: "座位数",
+      packing: "打包",
+      kidsFacility: "儿童游戏室",
+      smoking: "禁烟/吸烟",
+    },
+    facilitiesTitle: "附属设施",
+    facilities: {
+      barbecue: "烧烤场",
+      beauty: "美容设施",
+      beverage: "餐饮设施",
+      bicycle: "自行车租赁",
+      campfire: "篝火",
+      fitness: "健身中心",
+      karaoke: "KTV",
+      publicbath: "公共淋浴室",
+      publicpc: "公共电脑室",
+      sauna: "桑拿",
+      seminar: "会议室",
+      sports: "运动设施",
+    },
+  },
+  detailRooms: {
+    title: "客房信息",
+    caption: "各客房的面积、人数、价格及设施",
+    room: "客房",
+    size: "面积",
+    capacity: "人数（标准/最多）",
+    offSeason: "淡季（平日/周末）",
+    peakSeason: "旺季（平日/周末）",
+    amenities: "设施",
+    fee: "{amount}韩元",
+    sizePyeong: "{size}坪",
+    people: "{base} / {max}人",
+    amenityLabels: {
+      roombathfacility: "浴室",
+      roombath: "浴缸",
+      roomhometheater: "家庭影院",
+      roomaircondition: "空调",
+      roomtv: "电视",
+      roompc: "电脑",
+      roomcable: "有线电视",
+      roominternet: "网络",
+      roomrefrigerator: "冰箱",
+      roomtoiletries: "洗漱用品",
+      roomsofa: "沙发",
+      roomcook: "炊具",
+      roomtable: "桌子",
+      roomhairdryer: "吹风机",
+    },
+  },
+  detailPetTour: {
+    title: "携宠旅行信息",
+    allowed: "可携带宠物",
+    restricted: "携带宠物受限",
+    leash: "是否可携带宠物",
+    size: "宠物体型限制",
+    place: "可进入区域",
+    fee: "携带宠物附加费",
+    parking: "停车场信息",
+    etc: "宠物信息",
+    cautionTitle: "注意事项",
+    caution: "携带宠物参观时，请为宠物系好牵引绳并准备拾便袋，遵守宠物礼仪。",
+    sizes: {
+      small: "可携带小型犬",
+      medium: "可携带中型犬",
+      large: "可携带大型犬",
+    },
+  },
+  detailGallery: {
+    title: "图片库",
+    empty: "暂无图片。",
+    carouselLabel: "图片库（使用方向键浏览）",
+    imageName: "图片{index}",
+    imageAlt: "{title}图片{index}",
+    openFullscreen: "全屏查看{name}",
+    previous: "上一张",
+    next: "下一张",
+  },
+  detailMap: {
+    title: "位置信息",
+    directions: "路线",
+    copyCoordinates: "复制坐标",
+    coordinatesCopied: "坐标已复制。",
+    copyCoordinatesFailed: "复制坐标失败。",
+  },
+  detailCourse: {
+    title: "路线途经地",
+    stopCount: "（{count}处）",
+  },
+  detailExtraInfo: {
+    title: "其他信息",
+  },
+  detailRecommendations: {
+    title: "为您推荐的景点",
+    label: "推荐景点",
+    loadError: "无法加载推荐景点。",
+  },
+  share: {
+    share: "分享",
+    copyLink: "复制链接",
+    linkCopied: "链接已复制。",
+    copyFailed: "复制链接失败。",
+    noUrl: "找不到要分享的URL。",
+  },
+  bookmarks: {
+    pageTitle: "我的收藏",
+    button: "收藏",
+    bookmarked: "已收藏",
+    add: "添加收藏",
+    remove: "取消收藏",
+    loadingLabel: "正在加载收藏",
+    loading: "加载中",
+    processing: "处理中",
+    signInToAdd: "登录后收藏",
+    signInRequired: "使用收藏功能需要登录。",
+    added: "已添加到收藏。",
+    removed: "已取消收藏。",
+    addFailed: "添加收藏失败。",
+    removeFailed: "取消收藏失败。",
+    alreadyBookmarked: "该景点已在收藏中。",
+    toggleError: "处理收藏时发生错误。",
+    listLoading: "正在加载收藏列表...",
+    listLoadError: "加载收藏列表时发生错误。",
+    detailLoadFailed: "有 {count} 个收藏的景点信息未能加载。",
+    deleted: "收藏已删除。",
+    deletedCount: "已删除{count}个收藏。",
+    deleteFailed: "删除收藏失败。",
+    deleteError: "删除收藏时发生错误。",
+    emptyTitle: "还没有收藏的景点",
+    emptyDescription: "在景点详情页添加收藏吧。",
+    browse: "浏览景点 →",
+    selectSort: "选择排序方式",
+    sort: {
+      latest: "最新",
+      name: "名称",
+      area: "按地区",
+    },
+    selectAll: "全选",
+    selectedCount: "已选择{count}个",
+    batchDelete: "批量删除",
+    batchDeleteLabel: "批量删除所选的{count}个收藏",
+    total: "共收藏{count}个景点",
+    selectItem: "选择{title}",
+    batchDeleteTitle: "批量删除收藏",
+    batchDeleteConfirm: "确定要删除所选的{count}个收藏吗？",
+    deleteTitle: "删除收藏",
+    deleteConfirm: "确定要删除“{title}”的收藏吗？",
+    deleteItem: "删除{title}的收藏",
+  },
+  stats: {
+    title: "统计面板",
+    description: "一目了然地查看全国景点现状",
+    summary: "统计概要",
+    regionSection: "各地区景点分布",
+    typeSection: "各类型景点分布",
+    regionChart: "各地区景点分布图",
+    typeChart: "各类型景点分布图",
+    totalCount: "景点总数",
+    topRegion: "景点最多的地区",
+    topType: "最多的景点类型",
+    lastUpdated: "最后更新",
+    placeCount: "景点数",
+    ratio: "占比",
+    loadError: "加载统计数据时发生错误。",
+    regionLoadError: "加载地区统计数据时发生错误。",
+    typeLoadError: "加载类型统计数据时发生错误。",
+  },
+  staleData: {
+    title: "正在显示{time}保存的数据",
+    description: "暂时无法连接旅游信息服务器，信息可能不是最新的。",
+  },
+  errors: {
+    title: "发生错误",
+    code: "错误代码：{code}",
+    api: "加载数据时发生错误。",
+    network: "请检查网络连接。",
+    unknown: "发生了未知错误。",
+  },
+  tourApiErrors: {
+    rate_limited: "请求过多，请稍后重试。",
+    quota_exceeded: "今日旅游信息请求次数已用完，请明天再试。",
+    invalid_key: "旅游信息服务认证失败，请联系管理员。",
+    not_found: "找不到请求的数据。",
+    upstream: "旅游信息服务器发生错误，请稍后重试。",
+    network: "请检查网络连接。",
+    schema: "旅游信息响应格式不正确，请稍后重试。",
+    invalid_request: "请求条件不正确，请检查搜索条件。",
+  },
+  errorPage: {
+    title: "发生错误",
+    description: "发生了意外错误，请稍后重试。",
+  },
+  globalError: {
+    title: "发生了意外错误",
+    description: "应用程序发生了严重错误。",
+    hint: "请刷新页面或稍后重试。",
+  },
+  notFound: {
+    title: "找不到页面",
+    description: "您请求的页面不存在或已被移动。",
+    hint: "请检查URL或返回首页。",
+    search: "搜索景点",
+  },
+  offline: {
+    title: "离线状态",
+    heading: "请检查网络连接",
+    description: "当前未连接到互联网。",
+    hint: "请检查网络连接后重试。",
+    cached: "部分缓存内容可以离线使用。",
+    reconnected: "连接已恢复，正在刷新页面...",
+    status: "当前处于离线状态。",
+  },
+  feedback: {
+    button: "反馈",
+    buttonLabel: "提交反馈",
+    title: "提交反馈",
+    description: "请留下您对改进服务的意见。我们会审阅所有反馈。",
+    type: "反馈类型",
+    selectType: "选择反馈类型",
+    types: {
+      general: "一般反馈",
+      feature: "功能建议",
+      improvement: "改进事项",
+    },
+    content: "反馈内容",
+    contentPlaceholder: "请输入反馈内容...",
+    contentInput: "输入反馈内容",
+    rating: "评分（可选）",
+    selectRating: "选择评分",
+    ratingPlaceholder: "请选择评分（可选）",
+    noRating: "不评分",
+    ratingOption: "{stars}（{score}分）",
+    contentRequired: "请输入反馈内容。",
+    submitted: "反馈已提交，谢谢！",
+    submitFailed: "提交反馈失败。",
+  },
+  bugReport: {
+    button: "报告问题",
+    buttonLabel: "提交问题报告",
+    title: "问题报告",
+    description: "请详细描述您发现的问题。提供的信息越多，越有助于尽快解决。",
+    titleLabel: "问题标题 *",
+    titlePlaceholder: "请简要描述问题...",
+    titleInput: "输入问题标题",
+    descriptionLabel: "问题描述 *",
+    descriptionPlaceholder: "请详细描述问题发生的情况、重现步骤、预期行为等...",
+    descriptionInput: "输入问题描述",
+    stackLabel: "错误堆栈（可选）",
+    stackPlaceholder: "如有错误堆栈信息，请粘贴在此...",
+    stackInput: "输入错误堆栈",
+    autoCollected: "自动收集的信息",
+    pageUrl: "页面URL：",
+    browser: "浏览器：",
+    collecting: "收集中...",
+    titleRequired: "请输入问题标题。",
+    descriptionRequired: "请输入问题描述。",
+    submitted: "问题报告已提交，谢谢！",
+    submitFailed: "提交问题报告失败。",
+    autoSubmitted: "问题已自动报告。",
+    autoSubmitError: "提交问题报告时发生错误。",
+  },
+};
@@ -0,0 +1,52 @@
+/**
+ * @file middleware.ts
+ * @description 언어 접두사 라우팅 (middleware.ts에서 사용)
+ *
+ * 페이지 파일은 언어별로 나누지 않고 하나만 두고,
+ * 언어 접두사가 있는 요청을 접두사를 뗀 경로로 rewrite합니다.
+ *
+ * - /en/places/125266 → /places/125266 (x-locale: en)
+ * - /places/125266 → 그대로 (x-locale: ko)
+ * - /ko/places/125266 → /places/125266으로 redirect (기본 언어는 접두사 없는 주소 하나만 사용)
+ * - /api/*, 파일 요청(sitemap.xml 등)은 처리하지 않음
+ *
+ * @see {@link /lib/i18n/config.ts} - 경로 규칙
+ */
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { DEFAULT_LOCALE, LOCALE_HEADER, splitLocalePath } from "@/lib/i18n/config";
+
+/**
+ * 언어 접두사 처리
+ *
+ * @returns rewrite/redirect 응답 (처리하지 않는 경로는 undefined)
+ */
+export function handleLocaleRouting(req: NextRequest): NextResponse | undefined {
+  const { pathname } = req.nextUrl;
+
+  // API, 파일 요청(확장자가 있는 경로)은 언어와 무관
+  if (pathname.startsWith("/api/") || pathname.startsWith("/trpc/") || /\.[^/]+$/.test(pathname)) {
+    return undefined;
+  }
+
+  const { locale, pathname: strippedPathname, hasPrefix } = splitLocalePath(pathname);
+
+  if (hasPrefix && locale === DEFAULT_LOCALE) {
+    const url = req.nextUrl.clone();
+    url.pathname = strippedPathname;
+    return NextResponse.redirect(url);
+  }
+
+  // 클라이언트가 보낸 값과 관계없이 항상 경로 기준으로 설정
+  const headers = new Headers(req.headers);
+  headers.set(LOCALE_HEADER, locale);
+
+  if (!hasPrefix) {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  const url = req.nextUrl.clone();
+  url.pathname = strippedPathname;
+  return NextResponse.rewrite(url, { request: { headers } });
+}
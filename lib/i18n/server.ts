@@ -0,0 +1,29 @@
+/**
+ * @file server.ts
+ * @description 서버 컴포넌트용 언어/메시지 조회
+ *
+ * middleware.ts가 경로의 언어 접두사로 설정한 LOCALE_HEADER 요청 헤더를 읽습니다.
+ * 헤더를 읽으므로 이 함수를 호출한 페이지는 동적 렌더링됩니다.
+ *
+ * @see {@link /lib/i18n/middleware.ts} - 헤더 설정
+ */
+
+import { headers } from "next/headers";
+import { LOCALE_HEADER, parseLocale } from "@/lib/i18n/config";
+import type { Locale } from "@/lib/i18n/config";
+import { MESSAGES } from "@/lib/i18n/messages";
+import type { Messages } from "@/lib/i18n/messages";
+
+/**
+ * 현재 요청의 언어 조회
+ */
+export async function getLocale(): Promise<Locale> {
+  return parseLocale((await headers()).get(LOCALE_HEADER));
+}
+
+/**
+ * 현재 요청 언어의 메시지 카탈로그 조회
+ */
+export async function getMessages(): Promise<Messages> {
+  return MESSAGES[await getLocale()];
+}
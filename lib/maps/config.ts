@@ -0,0 +1,73 @@
+/**
+ * @file config.ts
+ * @description 지도 제공자 설정
+ *
+ * 환경변수 (모두 선택):
+ * - NEXT_PUBLIC_MAP_PROVIDER: "naver" (기본값) | "leaflet"
+ * - NEXT_PUBLIC_NAVER_MAP_CLIENT_ID: 네이버 지도 클라이언트 ID (없으면 leaflet으로 대체)
+ * - NEXT_PUBLIC_MAP_TILE_URL: leaflet 타일 URL 템플릿 (자체 타일 서버 사용 시)
+ * - NEXT_PUBLIC_MAP_TILE_ATTRIBUTION: 타일 저작권 표시
+ * - NEXT_PUBLIC_MAP_SATELLITE_TILE_URL: leaflet 위성 타일 URL (없으면 위성 지도 미지원)
+ * - NEXT_PUBLIC_LEAFLET_URL: Leaflet 배포 파일 경로 (leaflet.js, leaflet.css가 있는 디렉터리)
+ *   (기본 CDN 경로는 SRI 해시로 파일 변조를 확인하고, 자체 호스팅 경로는 확인하지 않음)
+ *
+ * @see {@link /docs/ENV_VARIABLES.md} - 환경변수 설명
+ */
+
+import type { MapProviderId } from "./types";
+
+/**
+ * 지도 설정
+ */
+export interface MapConfig {
+  /** 우선 사용할 제공자 (naver 로드 실패 시 leaflet으로 대체) */
+  provider: MapProviderId;
+  naverClientId?: string;
+  tileUrl: string;
+  tileAttribution: string;
+  satelliteTileUrl?: string;
+  leafletUrl: string;
+  /** Leaflet 배포 파일 SRI 해시 (기본 CDN 경로를 사용할 때만 설정) */
+  leafletIntegrity?: LeafletIntegrity;
+}
+
+/**
+ * Leaflet 배포 파일 SRI 해시
+ */
+export interface LeafletIntegrity {
+  /** leaflet.js */
+  script: string;
+  /** leaflet.css */
+  style: string;
+}
+
+/** OpenStreetMap 기본 타일 서버 (이용 정책: https://operations.osmfoundation.org/policies/tiles/) */
+const DEFAULT_TILE_URL = "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+const DEFAULT_TILE_ATTRIBUTION =
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+const DEFAULT_LEAFLET_URL = "https://unpkg.com/leaflet@1.9.4/dist";
+/** leaflet@1.9.4 배포 파일 해시 (npm 패키지의 dist 파일과 동일, 버전을 바꾸면 함께 갱신) */
+const DEFAULT_LEAFLET_INTEGRITY: LeafletIntegrity = {
+  script: "sha256-20nQCchB9co0qIjJZRGuk2/Z9VM+kNiyxNV1lvTlZBo=",
+  style: "sha256-p4NxAoJBhIIN+hmNHrzRCf9tD/miZyoHS5obTRR9BMY=",
+};
+
+/**
+ * 환경변수에서 지도 설정 읽기
+ *
+ * NEXT_PUBLIC_ 환경변수는 빌드 시 치환되므로 process.env.X 형태로 직접 참조합니다.
+ */
+export function getMapConfig(): MapConfig {
+  const provider = process.env.NEXT_PUBLIC_MAP_PROVIDER === "leaflet" ? "leaflet" : "naver";
+  const leafletUrl = process.env.NEXT_PUBLIC_LEAFLET_URL?.replace(/\/$/, "") || DEFAULT_LEAFLET_URL;
+
+  return {
+    provider,
+    naverClientId: process.env.NEXT_PUBLIC_NAVER_MAP_CLIENT_ID || undefined,
+    tileUrl: process.env.NEXT_PUBLIC_MAP_TILE_URL || DEFAULT_TILE_URL,
+    tileAttribution: process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION || DEFAULT_TILE_ATTRIBUTION,
+    satelliteTileUrl: process.env.NEXT_PUBLIC_MAP_SATELLITE_TILE_URL || undefined,
+    leafletUrl,
+    leafletIntegrity: leafletUrl === DEFAULT_LEAFLET_URL ? DEFAULT_LEAFLET_INTEGRITY : undefined,
+  };
+}
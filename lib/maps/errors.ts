@@ -0,0 +1,36 @@
+/**
+ * @file errors.ts
+ * @description 지도 로드/생성 에러
+ */
+
+import type { MapProviderId } from "./types";
+
+/**
+ * 지도 사용 불가 원인
+ * - missing-key: NEXT_PUBLIC_NAVER_MAP_CLIENT_ID 미설정
+ * - load-failed: 스크립트 요청 실패 (네트워크, 잘못된 URL)
+ * - not-loaded: 스크립트는 로드되었지만 전역 객체가 없음 (인증 실패 등)
+ * - auth-failed: 네이버 지도 인증 실패 (NCP 서비스 설정, 도메인 미등록)
+ * - init-failed: 지도 인스턴스 생성 실패
+ */
+export type MapLoadErrorKind =
+  | "missing-key"
+  | "load-failed"
+  | "not-loaded"
+  | "auth-failed"
+  | "init-failed";
+
+/**
+ * 지도 로드/생성 에러
+ */
+export class MapLoadError extends Error {
+  readonly kind: MapLoadErrorKind;
+  readonly provider: MapProviderId;
+
+  constructor(provider: MapProviderId, kind: MapLoadErrorKind, message: string) {
+    super(message);
+    this.name = "MapLoadError";
+    this.provider = provider;
+    this.kind = kind;
+  }
+}
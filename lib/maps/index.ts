@@ -0,0 +1,87 @@
+/**
+ * @file index.ts
+ * @description 지도 제공자 선택 및 생성
+ *
+ * 설정(NEXT_PUBLIC_MAP_PROVIDER)에 따라 네이버 지도 또는 Leaflet 지도를 생성합니다.
+ * 네이버 지도를 사용할 수 없으면(API 키 없음, 스크립트 로드 실패, 인증 실패)
+ * Leaflet(OpenStreetMap 호환 타일) 지도로 자동 대체합니다.
+ *
+ * @see {@link /hooks/use-map.ts} - 지도 생성/정리 훅
+ * @see {@link /lib/maps/types.ts} - 지도 제공자 공통 인터페이스
+ */
+
+import { getMapConfig } from "./config";
+import { MapLoadError } from "./errors";
+import { createLeafletMapController, loadLeaflet } from "./leaflet";
+import { createNaverMapController, loadNaverMaps } from "./naver";
+import type { MapController, MapCreateOptions, MapProviderId } from "./types";
+
+export { getMapConfig } from "./config";
+export type { LeafletIntegrity, MapConfig } from "./config";
+export { MapLoadError } from "./errors";
+export type { MapLoadErrorKind } from "./errors";
+export { onNaverMapsAuthFailure } from "./naver";
+export type * from "./types";
+
+/**
+ * 지정한 제공자로 지도 생성
+ *
+ * @throws {MapLoadError} 스크립트 로드 또는 지도 생성에 실패한 경우
+ */
+async function createProviderMap(
+  provider: MapProviderId,
+  container: HTMLElement,
+  options: MapCreateOptions
+): Promise<MapController> {
+  const config = getMapConfig();
+
+  if (provider === "naver") {
+    const maps = await loadNaverMaps(config.naverClientId);
+    try {
+      return createNaverMapController(maps, container, options);
+    } catch (err) {
+      throw new MapLoadError("naver", "init-failed", err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  const L = await loadLeaflet(config.leafletUrl, config.leafletIntegrity);
+  try {
+    return createLeafletMapController(L, container, options, config);
+  } catch (err) {
+    throw new MapLoadError("leaflet", "init-failed", err instanceof Error ? err.message : String(err));
+  }
+}
+
+/**
+ * 지도 생성 (설정된 제공자 우선, 네이버 지도 실패 시 Leaflet으로 대체)
+ *
+ * @param container - 지도를 표시할 요소
+ * @param options - 초기 중심/줌
+ * @param provider - 사용할 제공자 (생략 시 설정값)
+ * @returns 지도 인스턴스
+ * @throws {MapLoadError} 대체 지도까지 생성하지 못한 경우
+ *
+ * @example
+ * ```ts
+ * const map = await createMapController(element, { center: { lat: 37.5665, lng: 126.978 }, zoom: 15 });
+ * map.addMarker({ position: map.getCenter(), icon });
+ * ```
+ */
+export async function createMapController(
+  container: HTMLElement,
+  options: MapCreateOptions,
+  provider: MapProviderId = getMapConfig().provider
+): Promise<MapController> {
+  if (provider === "leaflet") {
+    return createProviderMap("leaflet", container, options);
+  }
+
+  try {
+    return await createProviderMap("naver", container, options);
+  } catch (err) {
+    console.warn("네이버 지도를 사용할 수 없어 OpenStreetMap 지도로 대체합니다:", err);
+    // 실패한 지도가 남긴 DOM 정리 (컨테이너 하위는 지도 SDK만 사용)
+    container.replaceChildren();
+    return createProviderMap("leaflet", container, options);
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * @file controller.ts
+ * @description Leaflet(OpenStreetMap 호환 타일) 지도 제공자 구현 (MapController)
+ *
+ * 네이버 지도를 사용할 수 없을 때의 대체 지도입니다.
+ * 타일 URL은 설정으로 바꿀 수 있어 자체 타일 서버를 사용할 수 있습니다.
+ *
+ * @see {@link /lib/maps/types.ts} - 지도 제공자 공통 인터페이스
+ */
+
+import type { LeafletMarker, LeafletNamespace } from "./types";
+import type {
+  LatLngLiteral,
+  MapController,
+  MapCreateOptions,
+  MapInfoWindow,
+  MapMarker,
+  MapMarkerIcon,
+  MapType,
+} from "../types";
+
+/** 타일 최대 줌 레벨 (OpenStreetMap 기본 타일 서버 기준) */
+const MAX_TILE_ZOOM = 19;
+
+export interface LeafletTileOptions {
+  /** 일반 지도 타일 URL 템플릿 ({z}/{x}/{y}) */
+  tileUrl: string;
+  /** 타일 저작권 표시 (HTML) */
+  tileAttribution: string;
+  /** 위성 지도 타일 URL 템플릿 (없으면 위성 지도 미지원) */
+  satelliteTileUrl?: string;
+}
+
+/**
+ * Leaflet 지도 생성
+ *
+ * @param L - loadLeaflet으로 로드한 L 네임스페이스
+ * @param container - 지도를 표시할 요소
+ * @param options - 초기 중심/줌
+ * @param tiles - 타일 설정
+ */
+export function createLeafletMapController(
+  L: LeafletNamespace,
+  container: HTMLElement,
+  options: MapCreateOptions,
+  tiles: LeafletTileOptions
+): MapController {
+  const map = L.map(container, {
+    center: [options.center.lat, options.center.lng],
+    zoom: options.zoom,
+    zoomControl: false, // 기본 컨트롤 숨김 (커스텀 컨트롤 사용)
+    attributionControl: true, // 타일 이용 약관상 저작권 표시 필요
+  });
+
+  const tileLayers: Record<MapType, ReturnType<LeafletNamespace["tileLayer"]> | null> = {
+    normal: L.tileLayer(tiles.tileUrl, {
+      attribution: tiles.tileAttribution,
+      maxZoom: MAX_TILE_ZOOM,
+    }),
+    satellite: tiles.satelliteTileUrl
+      ? L.tileLayer(tiles.satelliteTileUrl, {
+          attribution: tiles.tileAttribution,
+          maxZoom: MAX_TILE_ZOOM,
+        })
+      : null,
+  };
+  tileLayers.normal?.addTo(map);
+
+  // 인포윈도우를 열 때 필요한 실제 마커 (MapMarker → L.Marker)
+  const nativeMarkers = new WeakMap<MapMarker, LeafletMarker>();
+
+  const toIcon = (icon: MapMarkerIcon) =>
+    L.divIcon({
+      html: icon.html,
+      // leaflet-div-icon 기본 스타일(흰 배경, 테두리)을 쓰지 않도록 빈 클래스 지정
+      className: "",
+      iconSize: [icon.size.width, icon.size.height],
+      iconAnchor: [icon.anchor.x, icon.anchor.y],
+      // 말풍선은 아이콘 위쪽 가운데에 표시
+      popupAnchor: [icon.size.width / 2 - icon.anchor.x, -icon.anchor.y],
+    });
+
+  return {
+    provider: "leaflet",
+    supportsSatellite: Boolean(tileLayers.satellite),
+
+    getCenter() {
+      const center = map.getCenter();
+      return { lat: center.lat, lng: center.lng };
+    },
+    setCenter(center) {
+      map.panTo([center.lat, center.lng], { animate: false });
+    },
+    getZoom() {
+      return map.getZoom();
+    },
+    setZoom(zoom, animate = false) {
+      map.setZoom(zoom, { animate });
+    },
+    getBounds() {
+      const bounds = map.getBounds();
+      const sw = bounds.getSouthWest();
+      const ne = bounds.getNorthEast();
+      return { minLat: sw.lat, maxLat: ne.lat, minLng: sw.lng, maxLng: ne.lng };
+    },
+    fitBounds(bounds, padding) {
+      map.fitBounds(
+        [
+          [bounds.minLat, bounds.minLng],
+          [bounds.maxLat, bounds.maxLng],
+        ],
+        padding
+          ? {
+              paddingTopLeft: [padding.left, padding.top],
+              paddingBottomRight: [padding.right, padding.bottom],
+            }
+          : undefined
+      );
+    },
+    setMapType(mapType) {
+      const next = tileLayers[mapType];
+      if (!next || map.hasLayer(next)) return;
+
+      const previous = tileLayers[mapType === "satellite" ? "normal" : "satellite"];
+      previous?.remove();
+      next.addTo(map);
+    },
+    onIdle(handler) {
+      map.on("moveend", handler);
+      return () => {
+        map.off("moveend", handler);
+      };
+    },
+
+    addMarker({ position, icon, title, visible = true, draggable = false }) {
+      const marker = L.marker([position.lat, position.lng], { icon: toIcon(icon), title, draggable });
+      if (visible) {
+        marker.addTo(map);
+      }
+      const listeners: { type: "click" | "drag" | "dragend"; handler: () => void }[] = [];
+
+      const addListener = (type: "click" | "drag" | "dragend", handler: () => void) => {
+        marker.on(type, handler);
+        listeners.push({ type, handler });
+        return () => {
+          marker.off(type, handler);
+        };
+      };
+      const addPositionListener = (
+        type: "drag" | "dragend",
+        handler: (position: LatLngLiteral) => void
+      ) =>
+        addListener(type, () => {
+          const next = marker.getLatLng();
+          handler({ lat: next.lat, lng: next.lng });
+        });
+
+      const handle: MapMarker = {
+        setPosition(next) {
+          marker.setLatLng([next.lat, next.lng]);
+        },
+        setIcon(next) {
+          marker.setIcon(toIcon(next));
+        },
+        setTitle(next) {
+          marker.options.title = next;
+          marker.getElement()?.setAttribute("title", next);
+        },
+        setVisible(next) {
+          if (next === map.hasLayer(marker)) return;
+          if (next) {
+            marker.addTo(map);
+          } else {
+            marker.closePopup();
+            marker.remove();
+          }
+        },
+        onClick(handler) {
+          return addListener("click", handler);
+        },
+        onDrag(handler) {
+          return addPositionListener("drag", handler);
+        },
+        onDragEnd(handler) {
+          return addPositionListener("dragend", handler);
+        },
+        remove() {
+          listeners.forEach(({ type, handler }) => marker.off(type, handler));
+          listeners.length = 0;
+          marker.remove();
+        },
+      };
+
+      nativeMarkers.set(handle, marker);
+      return handle;
+    },
+
+    createInfoWindow(html) {
+      const popup = L.popup({ maxWidth: 320 }).setContent(html);
+      let boundMarker: LeafletMarker | null = null;
+
+      const handle: MapInfoWindow = {
+        open(marker) {
+          const native = nativeMarkers.get(marker);
+          if (!native) return;
+          if (boundMarker !== native) {
+            native.bindPopup(popup);
+            boundMarker = native;
+          }
+          native.openPopup();
+        },
+        close() {
+          boundMarker?.closePopup();
+        },
+      };
+      return handle;
+    },
+
+    addPolyline({ path, color, weight, opacity }) {
+      const polyline = L.polyline(
+        path.map((point) => [point.lat, point.lng]),
+        { color, weight, opacity, lineCap: "round", lineJoin: "round" }
+      ).addTo(map);
+      return {
+        remove() {
+          polyline.remove();
+        },
+      };
+    },
+
+    addCircle({ center, radius, color, fillOpacity }) {
+      const circle = L.circle([center.lat, center.lng], {
+        radius,
+        color,
+        weight: 2,
+        opacity: 0.8,
+        fillColor: color,
+        fillOpacity,
+        interactive: false,
+      }).addTo(map);
+      return {
+        setCenter(next) {
+          circle.setLatLng([next.lat, next.lng]);
+        },
+        setRadius(next) {
+          circle.setRadius(next);
+        },
+        remove() {
+          circle.remove();
+        },
+      };
+    },
+
+    destroy() {
+      map.remove();
+    },
+  };
+}
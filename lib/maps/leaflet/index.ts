@@ -0,0 +1,13 @@
+/**
+ * @file index.ts
+ * @description Leaflet(OpenStreetMap 호환 타일) 지도 래퍼
+ *
+ * 네이버 지도를 사용할 수 없을 때 사용하는 대체 지도 제공자입니다.
+ *
+ * @see {@link /lib/maps/index.ts} - 지도 제공자 선택 및 대체
+ */
+
+export { createLeafletMapController } from "./controller";
+export type { LeafletTileOptions } from "./controller";
+export { loadLeaflet } from "./loader";
+export type * from "./types";
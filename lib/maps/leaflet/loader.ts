@@ -0,0 +1,90 @@
+/**
+ * @file loader.ts
+ * @description Leaflet 스크립트/스타일 로더
+ *
+ * 네이버 지도 로더와 같이 여러 번 호출해도 한 번만 로드하며,
+ * 실패하면 캐시를 비워 다음 호출에서 다시 시도합니다.
+ * 배포 파일 경로는 NEXT_PUBLIC_LEAFLET_URL로 자체 호스팅 경로를 지정할 수 있습니다.
+ * SRI 해시를 전달하면 integrity/crossorigin 속성을 붙여 변조된 파일은 로드하지 않습니다.
+ */
+
+import { MapLoadError } from "../errors";
+import type { LeafletIntegrity } from "../config";
+import type { LeafletNamespace } from "./types";
+
+const SCRIPT_ID = "leaflet-sdk";
+const STYLE_ID = "leaflet-css";
+
+let loadPromise: Promise<LeafletNamespace> | null = null;
+
+/**
+ * Leaflet 로드
+ *
+ * @param baseUrl - leaflet.js, leaflet.css가 있는 디렉터리 URL
+ * @param integrity - 배포 파일 SRI 해시 (없으면 확인하지 않음)
+ * @returns L 네임스페이스
+ * @throws {MapLoadError} 스크립트 로드에 실패한 경우
+ */
+export function loadLeaflet(baseUrl: string, integrity?: LeafletIntegrity): Promise<LeafletNamespace> {
+  if (typeof window !== "undefined" && window.L) {
+    return Promise.resolve(window.L);
+  }
+
+  if (loadPromise) {
+    return loadPromise;
+  }
+
+  loadPromise = new Promise<LeafletNamespace>((resolve, reject) => {
+    // 스타일은 스크립트와 별도로 로드 (없으면 타일과 마커 위치가 어긋남)
+    if (!document.getElementById(STYLE_ID)) {
+      const link = document.createElement("link");
+      link.id = STYLE_ID;
+      link.rel = "stylesheet";
+      link.href = `${baseUrl}/leaflet.css`;
+      if (integrity) {
+        link.integrity = integrity.style;
+        link.crossOrigin = "anonymous";
+      }
+      document.head.appendChild(link);
+    }
+
+    const handleLoad = () => {
+      if (window.L) {
+        console.log("Leaflet 로드 완료");
+        resolve(window.L);
+      } else {
+        reject(new MapLoadError("leaflet", "not-loaded", "L 객체를 찾을 수 없습니다."));
+      }
+    };
+
+    const handleError = (event: Event | string) => {
+      console.error("Leaflet 스크립트 로드 실패:", event);
+      reject(new MapLoadError("leaflet", "load-failed", "Leaflet 스크립트를 불러오지 못했습니다."));
+    };
+
+    const existing = document.getElementById(SCRIPT_ID) as HTMLScriptElement | null;
+    if (existing) {
+      existing.addEventListener("load", handleLoad, { once: true });
+      existing.addEventListener("error", handleError, { once: true });
+      return;
+    }
+
+    const script = document.createElement("script");
+    script.id = SCRIPT_ID;
+    script.src = `${baseUrl}/leaflet.js`;
+    if (integrity) {
+      script.integrity = integrity.script;
+      script.crossOrigin = "anonymous";
+    }
+    script.async = true;
+    script.addEventListener("load", handleLoad, { once: true });
+    script.addEventListener("error", handleError, { once: true });
+    document.head.appendChild(script);
+  }).catch((error: unknown) => {
+    loadPromise = null;
+    document.getElementById(SCRIPT_ID)?.remove();
+    throw error;
+  });
+
+  return loadPromise;
+}
@@ -0,0 +1,147 @@
+/**
+ * @file types.ts
+ * @description Leaflet 1.9 타입 정의
+ *
+ * Leaflet은 스크립트로 로드(window.L)하므로 프로젝트에서 사용하는 기능만 선언합니다.
+ *
+ * @see https://leafletjs.com/reference.html - Leaflet API 문서
+ */
+
+export type LeafletLatLngTuple = [number, number];
+
+export interface LeafletLatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface LeafletLatLngBounds {
+  getSouthWest(): LeafletLatLng;
+  getNorthEast(): LeafletLatLng;
+}
+
+/**
+ * 지도에 추가할 수 있는 레이어 공통 메서드
+ */
+export interface LeafletLayer {
+  addTo(map: LeafletMap): this;
+  remove(): this;
+}
+
+export interface LeafletZoomOptions {
+  animate?: boolean;
+}
+
+export interface LeafletFitBoundsOptions {
+  paddingTopLeft?: [number, number];
+  paddingBottomRight?: [number, number];
+}
+
+export interface LeafletMap {
+  getCenter(): LeafletLatLng;
+  setView(center: LeafletLatLngTuple, zoom?: number, options?: LeafletZoomOptions): this;
+  panTo(center: LeafletLatLngTuple, options?: LeafletZoomOptions): this;
+  getZoom(): number;
+  setZoom(zoom: number, options?: LeafletZoomOptions): this;
+  getBounds(): LeafletLatLngBounds;
+  fitBounds(
+    bounds: [LeafletLatLngTuple, LeafletLatLngTuple],
+    options?: LeafletFitBoundsOptions
+  ): this;
+  hasLayer(layer: LeafletLayer): boolean;
+  on(type: "moveend", handler: () => void): this;
+  off(type: "moveend", handler: () => void): this;
+  /** 지도 제거 (레이어, 리스너, DOM 정리) */
+  remove(): this;
+}
+
+export type LeafletTileLayer = LeafletLayer;
+
+/**
+ * HTML 마커 아이콘 (L.divIcon)
+ */
+export interface LeafletDivIcon {
+  options: LeafletDivIconOptions;
+}
+
+export interface LeafletDivIconOptions {
+  html: string;
+  className?: string;
+  iconSize?: [number, number];
+  iconAnchor?: [number, number];
+  popupAnchor?: [number, number];
+}
+
+export interface LeafletPopup extends LeafletLayer {
+  setContent(html: string): this;
+}
+
+export interface LeafletMarker extends LeafletLayer {
+  options: { title?: string };
+  getLatLng(): LeafletLatLng;
+  setLatLng(latLng: LeafletLatLngTuple): this;
+  setIcon(icon: LeafletDivIcon): this;
+  getElement(): HTMLElement | undefined;
+  bindPopup(popup: LeafletPopup): this;
+  openPopup(): this;
+  closePopup(): this;
+  on(type: "click" | "drag" | "dragend", handler: () => void): this;
+  off(type: "click" | "drag" | "dragend", handler: () => void): this;
+}
+
+export type LeafletPolyline = LeafletLayer;
+
+export interface LeafletCircle extends LeafletLayer {
+  setLatLng(latLng: LeafletLatLngTuple): this;
+  setRadius(radius: number): this;
+}
+
+/**
+ * L 네임스페이스
+ */
+export interface LeafletNamespace {
+  map(
+    element: HTMLElement,
+    options: {
+      center: LeafletLatLngTuple;
+      zoom: number;
+      zoomControl?: boolean;
+      attributionControl?: boolean;
+    }
+  ): LeafletMap;
+  tileLayer(url: string, options: { attribution?: string; maxZoom?: number }): LeafletTileLayer;
+  divIcon(options: LeafletDivIconOptions): LeafletDivIcon;
+  marker(
+    latLng: LeafletLatLngTuple,
+    options: { icon: LeafletDivIcon; title?: string; draggable?: boolean }
+  ): LeafletMarker;
+  popup(options?: { maxWidth?: number; autoPan?: boolean }): LeafletPopup;
+  polyline(
+    latLngs: LeafletLatLngTuple[],
+    options: {
+      color?: string;
+      weight?: number;
+      opacity?: number;
+      lineCap?: "butt" | "round" | "square";
+      lineJoin?: "miter" | "round" | "bevel";
+    }
+  ): LeafletPolyline;
+  circle(
+    latLng: LeafletLatLngTuple,
+    options: {
+      radius: number;
+      color?: string;
+      weight?: number;
+      opacity?: number;
+      fillColor?: string;
+      fillOpacity?: number;
+      interactive?: boolean;
+    }
+  ): LeafletCircle;
+}
+
+declare global {
+  interface Window {
+    /** Leaflet 스크립트 로드 후 설정됨 (loadLeaflet 사용) */
+    L?: LeafletNamespace;
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * @file controller.ts
+ * @description 네이버 지도 제공자 구현 (MapController)
+ *
+ * @see {@link /lib/maps/types.ts} - 지도 제공자 공통 인터페이스
+ */
+
+import { addNaverMapListener } from "./events";
+import type { NaverMarker, NaverMapsNamespace } from "./types";
+import type {
+  LatLngLiteral,
+  MapController,
+  MapCreateOptions,
+  MapInfoWindow,
+  MapMarker,
+  MapMarkerIcon,
+} from "../types";
+
+/**
+ * 네이버 지도 생성
+ *
+ * @param maps - loadNaverMaps로 로드한 naver.maps 네임스페이스
+ * @param container - 지도를 표시할 요소
+ * @param options - 초기 중심/줌
+ */
+export function createNaverMapController(
+  maps: NaverMapsNamespace,
+  container: HTMLElement,
+  options: MapCreateOptions
+): MapController {
+  const map = new maps.Map(container, {
+    center: new maps.LatLng(options.center.lat, options.center.lng),
+    zoom: options.zoom,
+    mapTypeControl: false, // 기본 컨트롤 숨김 (커스텀 컨트롤 사용)
+    zoomControl: false, // 기본 컨트롤 숨김 (커스텀 컨트롤 사용)
+  });
+
+  // 인포윈도우를 열 때 필요한 실제 마커 (MapMarker → naver.maps.Marker)
+  const nativeMarkers = new WeakMap<MapMarker, NaverMarker>();
+
+  const toIcon = (icon: MapMarkerIcon) => ({
+    content: icon.html,
+    anchor: new maps.Point(icon.anchor.x, icon.anchor.y),
+  });
+
+  return {
+    provider: "naver",
+    supportsSatellite: true,
+
+    getCenter() {
+      const center = map.getCenter();
+      return { lat: center.lat(), lng: center.lng() };
+    },
+    setCenter(center) {
+      map.setCenter(new maps.LatLng(center.lat, center.lng));
+    },
+    getZoom() {
+      return map.getZoom();
+    },
+    setZoom(zoom, animate = false) {
+      map.setZoom(zoom, animate);
+    },
+    getBounds() {
+      const bounds = map.getBounds();
+      const sw = bounds.getSW();
+      const ne = bounds.getNE();
+      return { minLat: sw.lat(), maxLat: ne.lat(), minLng: sw.lng(), maxLng: ne.lng() };
+    },
+    fitBounds(bounds, padding) {
+      map.fitBounds(
+        new maps.LatLngBounds(
+          new maps.LatLng(bounds.minLat, bounds.minLng),
+          new maps.LatLng(bounds.maxLat, bounds.maxLng)
+        ),
+        padding
+      );
+    },
+    setMapType(mapType) {
+      map.setMapTypeId(mapType === "satellite" ? maps.MapTypeId.SATELLITE : maps.MapTypeId.NORMAL);
+    },
+    onIdle(handler) {
+      return addNaverMapListener(map, "idle", handler);
+    },
+
+    addMarker({ position, icon, title, visible = true, draggable = false }) {
+      const marker = new maps.Marker({
+        position: new maps.LatLng(position.lat, position.lng),
+        map: visible ? map : null,
+        title,
+        icon: toIcon(icon),
+        draggable,
+      });
+      const removeListeners: (() => void)[] = [];
+
+      const addPositionListener = (
+        eventName: "drag" | "dragend",
+        handler: (position: LatLngLiteral) => void
+      ) => {
+        const remove = addNaverMapListener(marker, eventName, () => {
+          const next = marker.getPosition();
+          handler({ lat: next.lat(), lng: next.lng() });
+        });
+        removeListeners.push(remove);
+        return remove;
+      };
+
+      const handle: MapMarker = {
+        setPosition(next) {
+          marker.setPosition(new maps.LatLng(next.lat, next.lng));
+        },
+        setIcon(next) {
+          marker.setIcon(toIcon(next));
+        },
+        setTitle(next) {
+          marker.setTitle(next);
+        },
+        setVisible(next) {
+          marker.setMap(next ? map : null);
+        },
+        onClick(handler) {
+          const remove = addNaverMapListener(marker, "click", handler);
+          removeListeners.push(remove);
+          return remove;
+        },
+        onDrag(handler) {
+          return addPositionListener("drag", handler);
+        },
+        onDragEnd(handler) {
+          return addPositionListener("dragend", handler);
+        },
+        remove() {
+          removeListeners.forEach((remove) => remove());
+          removeListeners.length = 0;
+          marker.setMap(null);
+        },
+      };
+
+      nativeMarkers.set(handle, marker);
+      return handle;
+    },
+
+    createInfoWindow(html) {
+      const infoWindow = new maps.InfoWindow({ content: html });
+      const handle: MapInfoWindow = {
+        open(marker) {
+          const native = nativeMarkers.get(marker);
+          if (native) {
+            infoWindow.open(map, native);
+          }
+        },
+        close() {
+          infoWindow.close();
+        },
+      };
+      return handle;
+    },
+
+    addPolyline({ path, color, weight, opacity }) {
+      const polyline = new maps.Polyline({
+        map,
+        path: path.map((point) => new maps.LatLng(point.lat, point.lng)),
+        strokeColor: color,
+        strokeWeight: weight,
+        strokeOpacity: opacity,
+        strokeLineCap: "round",
+        strokeLineJoin: "round",
+      });
+      return {
+        remove() {
+          polyline.setMap(null);
+        },
+      };
+    },
+
+    addCircle({ center, radius, color, fillOpacity }) {
+      const circle = new maps.Circle({
+        map,
+        center: new maps.LatLng(center.lat, center.lng),
+        radius,
+        strokeColor: color,
+        strokeWeight: 2,
+        strokeOpacity: 0.8,
+        fillColor: color,
+        fillOpacity,
+        clickable: false,
+      });
+      return {
+        setCenter(next) {
+          circle.setCenter(new maps.LatLng(next.lat, next.lng));
+        },
+        setRadius(next) {
+          circle.setRadius(next);
+        },
+        remove() {
+          circle.setMap(null);
+        },
+      };
+    },
+
+    destroy() {
+      map.destroy();
+    },
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * @file events.ts
+ * @description Naver Maps 이벤트 리스너 헬퍼
+ *
+ * 리스너 등록 시 해제 함수를 반환하여 useEffect cleanup에서 바로 사용할 수 있게 합니다.
+ */
+
+import { getNaverMaps } from "./loader";
+import type { NaverMapEventName, NaverMapInstance, NaverOverlay } from "./types";
+
+/**
+ * 지도/오버레이 이벤트 리스너 등록
+ *
+ * @returns 리스너 해제 함수 (여러 번 호출해도 안전)
+ *
+ * @example
+ * ```ts
+ * useEffect(() => {
+ *   if (!map) return;
+ *   return addNaverMapListener(map, "idle", () => setZoom(map.getZoom()));
+ * }, [map]);
+ * ```
+ */
+export function addNaverMapListener(
+  target: NaverMapInstance | NaverOverlay,
+  eventName: NaverMapEventName,
+  handler: () => void
+): () => void {
+  const maps = getNaverMaps();
+  if (!maps) {
+    return () => {};
+  }
+
+  let listener: ReturnType<typeof maps.Event.addListener> | null = maps.Event.addListener(
+    target,
+    eventName,
+    handler
+  );
+
+  return () => {
+    if (listener) {
+      maps.Event.removeListener(listener);
+      listener = null;
+    }
+  };
+}
@@ -0,0 +1,14 @@
+/**
+ * @file index.ts
+ * @description Naver Maps API v3 래퍼
+ *
+ * 스크립트 로더, 타입 정의, 이벤트 헬퍼, 지도 제공자 구현(MapController)을 제공합니다.
+ * 컴포넌트에서는 useMap 훅(hooks/use-map.ts)을 통해 사용합니다.
+ *
+ * @see {@link /hooks/use-map.ts} - 지도 생성/정리 훅
+ */
+
+export { createNaverMapController } from "./controller";
+export { addNaverMapListener } from "./events";
+export { getNaverMaps, loadNaverMaps, onNaverMapsAuthFailure } from "./loader";
+export type * from "./types";
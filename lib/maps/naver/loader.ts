@@ -0,0 +1,132 @@
+/**
+ * @file loader.ts
+ * @description Naver Maps API 스크립트 로더
+ *
+ * 여러 지도 컴포넌트가 동시에 호출해도 스크립트는 한 번만 삽입됩니다.
+ * 로드에 실패하면 캐시를 비워 다음 호출에서 다시 시도할 수 있습니다.
+ *
+ * NCP 인증 실패는 스크립트 로드 이후 전역 콜백(navermap_authFailure)으로 알려지므로,
+ * onNaverMapsAuthFailure로 구독하여 다른 지도 제공자로 전환할 수 있습니다.
+ */
+
+import { MapLoadError } from "../errors";
+import type { NaverMapsNamespace } from "./types";
+
+/** 스크립트 태그 ID (중복 삽입 확인용) */
+const SCRIPT_ID = "naver-maps-sdk";
+
+let loadPromise: Promise<NaverMapsNamespace> | null = null;
+let isAuthFailed = false;
+const authFailureHandlers = new Set<() => void>();
+
+/**
+ * NCP 인증 실패 콜백 등록 (스크립트 삽입 전에 설정해야 호출됨)
+ */
+function installAuthFailureCallback() {
+  window.navermap_authFailure = () => {
+    console.error("네이버 지도 API 인증 실패: NCP 클라이언트 ID와 서비스 URL 설정을 확인해주세요.");
+    isAuthFailed = true;
+    authFailureHandlers.forEach((handler) => handler());
+  };
+}
+
+/**
+ * 네이버 지도 인증 실패 구독
+ *
+ * @returns 구독 해제 함수
+ */
+export function onNaverMapsAuthFailure(handler: () => void): () => void {
+  authFailureHandlers.add(handler);
+  return () => {
+    authFailureHandlers.delete(handler);
+  };
+}
+
+/**
+ * 이미 로드된 naver.maps 네임스페이스 반환 (없으면 null)
+ */
+export function getNaverMaps(): NaverMapsNamespace | null {
+  if (typeof window === "undefined") return null;
+  return window.naver?.maps ?? null;
+}
+
+/**
+ * Naver Maps API 스크립트 로드
+ *
+ * @param clientId - NCP 지도 클라이언트 ID (NEXT_PUBLIC_NAVER_MAP_CLIENT_ID)
+ * @returns naver.maps 네임스페이스
+ * @throws {MapLoadError} 클라이언트 ID가 없거나 스크립트 로드/인증에 실패한 경우
+ *
+ * @example
+ * ```ts
+ * const maps = await loadNaverMaps(process.env.NEXT_PUBLIC_NAVER_MAP_CLIENT_ID);
+ * const map = new maps.Map(element, { center: new maps.LatLng(37.5, 127), zoom: 10 });
+ * ```
+ */
+export function loadNaverMaps(clientId: string | undefined): Promise<NaverMapsNamespace> {
+  if (!clientId) {
+    return Promise.reject(
+      new MapLoadError("naver", "missing-key", "네이버 지도 API 키가 설정되지 않았습니다.")
+    );
+  }
+
+  // 이미 인증에 실패한 경우 다시 시도하지 않음 (페이지를 새로고침하기 전까지 유지)
+  if (isAuthFailed) {
+    return Promise.reject(
+      new MapLoadError("naver", "auth-failed", "네이버 지도 API 인증에 실패했습니다.")
+    );
+  }
+
+  const loaded = getNaverMaps();
+  if (loaded) {
+    return Promise.resolve(loaded);
+  }
+
+  if (loadPromise) {
+    return loadPromise;
+  }
+
+  loadPromise = new Promise<NaverMapsNamespace>((resolve, reject) => {
+    const handleLoad = () => {
+      const maps = getNaverMaps();
+      if (maps) {
+        console.log("네이버 지도 API 로드 완료");
+        resolve(maps);
+      } else {
+        console.error("네이버 지도 API 스크립트는 로드되었지만 naver 객체를 찾을 수 없습니다.");
+        reject(new MapLoadError("naver", "not-loaded", "naver.maps 객체를 찾을 수 없습니다."));
+      }
+    };
+
+    const handleError = (event: Event | string) => {
+      console.error("네이버 지도 API 스크립트 로드 실패:", event);
+      reject(
+        new MapLoadError("naver", "load-failed", "네이버 지도 API 스크립트를 불러오지 못했습니다.")
+      );
+    };
+
+    // 이전 호출에서 삽입한 스크립트가 아직 로드 중이면 이벤트만 연결
+    const existing = document.getElementById(SCRIPT_ID) as HTMLScriptElement | null;
+    if (existing) {
+      existing.addEventListener("load", handleLoad, { once: true });
+      existing.addEventListener("error", handleError, { once: true });
+      return;
+    }
+
+    installAuthFailureCallback();
+    const script = document.createElement("script");
+    script.id = SCRIPT_ID;
+    script.src = `https://oapi.map.naver.com/openapi/v3/maps.js?ncpKeyId=${encodeURIComponent(clientId)}`;
+    script.async = true;
+    script.addEventListener("load", handleLoad, { once: true });
+    script.addEventListener("error", handleError, { once: true });
+    document.head.appendChild(script);
+  }).catch((error: unknown) => {
+    // 실패한 스크립트는 제거하여 다음 호출에서 다시 로드
+    loadPromise = null;
+    document.getElementById(SCRIPT_ID)?.remove();
+    throw error;
+  });
+
+  return loadPromise;
+}
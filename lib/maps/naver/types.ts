@@ -0,0 +1,204 @@
+/**
+ * @file types.ts
+ * @description Naver Maps API v3 타입 정의
+ *
+ * 프로젝트에서 사용하는 naver.maps 기능만 선언합니다.
+ * 새 기능을 사용할 때는 공식 문서를 확인하여 이 파일에 타입을 추가해주세요.
+ *
+ * @see https://navermaps.github.io/maps.js.ncp/docs/ - Naver Maps API v3 문서
+ */
+
+/**
+ * 위경도 좌표
+ */
+export interface NaverLatLng {
+  lat(): number;
+  lng(): number;
+}
+
+/**
+ * 위경도 경계 (남서쪽 ~ 북동쪽)
+ */
+export interface NaverLatLngBounds {
+  getSW(): NaverLatLng;
+  getNE(): NaverLatLng;
+}
+
+/**
+ * 화면 픽셀 좌표 (마커 아이콘 anchor 등)
+ */
+export interface NaverPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * 지도 여백 (px)
+ */
+export interface NaverPadding {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/**
+ * HTML 마커 아이콘
+ */
+export interface NaverHtmlIcon {
+  /** HTML 문자열 */
+  content: string;
+  /** 아이콘 기준점 (마커 좌표에 맞출 아이콘 내 위치) */
+  anchor?: NaverPoint;
+}
+
+/**
+ * 지도 생성 옵션
+ */
+export interface NaverMapOptions {
+  center: NaverLatLng;
+  zoom: number;
+  mapTypeId?: string;
+  mapTypeControl?: boolean;
+  zoomControl?: boolean;
+}
+
+/**
+ * 지도 인스턴스
+ */
+export interface NaverMapInstance {
+  getCenter(): NaverLatLng;
+  setCenter(center: NaverLatLng): void;
+  getZoom(): number;
+  setZoom(zoom: number, useEffect?: boolean): void;
+  getBounds(): NaverLatLngBounds;
+  fitBounds(bounds: NaverLatLngBounds, margin?: NaverPadding): void;
+  setMapTypeId(mapTypeId: string): void;
+  /** 지도 제거 (이벤트 리스너와 DOM 정리) */
+  destroy(): void;
+}
+
+/**
+ * 지도 위에 표시하는 오버레이 공통 메서드
+ */
+export interface NaverOverlay {
+  getMap(): NaverMapInstance | null;
+  setMap(map: NaverMapInstance | null): void;
+}
+
+export interface NaverMarkerOptions {
+  position: NaverLatLng;
+  map?: NaverMapInstance | null;
+  title?: string;
+  icon?: NaverHtmlIcon;
+  zIndex?: number;
+  draggable?: boolean;
+}
+
+export interface NaverMarker extends NaverOverlay {
+  getPosition(): NaverLatLng;
+  setPosition(position: NaverLatLng): void;
+  setIcon(icon: NaverHtmlIcon): void;
+  setTitle(title: string): void;
+  setZIndex(zIndex: number): void;
+}
+
+export interface NaverInfoWindowOptions {
+  content: string;
+}
+
+export interface NaverInfoWindow {
+  open(map: NaverMapInstance, anchor?: NaverMarker | NaverLatLng): void;
+  close(): void;
+  getMap(): NaverMapInstance | null;
+}
+
+export interface NaverPolylineOptions {
+  map?: NaverMapInstance | null;
+  path: NaverLatLng[];
+  strokeColor?: string;
+  strokeWeight?: number;
+  strokeOpacity?: number;
+  strokeLineCap?: "butt" | "round" | "square";
+  strokeLineJoin?: "miter" | "round" | "bevel";
+}
+
+export type NaverPolyline = NaverOverlay;
+
+export interface NaverCircleOptions {
+  map?: NaverMapInstance | null;
+  center: NaverLatLng;
+  /** 반경 (미터) */
+  radius: number;
+  strokeColor?: string;
+  strokeWeight?: number;
+  strokeOpacity?: number;
+  fillColor?: string;
+  fillOpacity?: number;
+  clickable?: boolean;
+}
+
+export interface NaverCircle extends NaverOverlay {
+  setCenter(center: NaverLatLng): void;
+  setRadius(radius: number): void;
+}
+
+/**
+ * addListener가 반환하는 리스너 객체 (removeListener에 전달)
+ */
+export interface NaverMapEventListener {
+  readonly eventName: string;
+}
+
+/**
+ * 지도/마커 이벤트 이름
+ */
+export type NaverMapEventName =
+  | "click"
+  | "dblclick"
+  | "idle"
+  | "zoom_changed"
+  | "center_changed"
+  | "bounds_changed"
+  | "dragstart"
+  | "drag"
+  | "dragend";
+
+/**
+ * naver.maps 네임스페이스
+ */
+export interface NaverMapsNamespace {
+  LatLng: new (lat: number, lng: number) => NaverLatLng;
+  LatLngBounds: new (sw: NaverLatLng, ne: NaverLatLng) => NaverLatLngBounds;
+  Point: new (x: number, y: number) => NaverPoint;
+  Map: new (element: HTMLElement, options: NaverMapOptions) => NaverMapInstance;
+  Marker: new (options: NaverMarkerOptions) => NaverMarker;
+  InfoWindow: new (options: NaverInfoWindowOptions) => NaverInfoWindow;
+  Polyline: new (options: NaverPolylineOptions) => NaverPolyline;
+  Circle: new (options: NaverCircleOptions) => NaverCircle;
+  Event: {
+    addListener(
+      target: NaverMapInstance | NaverOverlay,
+      eventName: NaverMapEventName,
+      handler: () => void
+    ): NaverMapEventListener;
+    removeListener(listener: NaverMapEventListener | NaverMapEventListener[]): void;
+  };
+  MapTypeId: {
+    NORMAL: string;
+    SATELLITE: string;
+    HYBRID: string;
+    TERRAIN: string;
+  };
+}
+
+declare global {
+  interface Window {
+    /** Naver Maps 스크립트 로드 후 설정됨 (loadNaverMaps 사용) */
+    naver?: {
+      maps: NaverMapsNamespace;
+    };
+    /** NCP 인증 실패 시 Naver Maps 스크립트가 호출하는 전역 콜백 */
+    navermap_authFailure?: () => void;
+  }
+}
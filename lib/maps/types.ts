@@ -0,0 +1,161 @@
+/**
+ * @file types.ts
+ * @description 지도 제공자 공통 인터페이스
+ *
+ * 지도 컴포넌트는 이 인터페이스만 사용하며, 실제 지도는 제공자 구현이 담당합니다.
+ * - naver: Naver Maps API v3 (lib/maps/naver)
+ * - leaflet: Leaflet + OpenStreetMap 호환 타일 (lib/maps/leaflet)
+ *
+ * 줌 레벨은 두 제공자 모두 Web Mercator 표준 줌 레벨을 사용하므로 그대로 공유합니다.
+ */
+
+/**
+ * 지도 제공자
+ */
+export type MapProviderId = "naver" | "leaflet";
+
+/**
+ * 지도 유형 (위성 지도는 제공자/설정에 따라 지원하지 않을 수 있음)
+ */
+export type MapType = "normal" | "satellite";
+
+/**
+ * WGS84 위경도
+ */
+export interface LatLngLiteral {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * 위경도 경계
+ */
+export interface LatLngBoundsLiteral {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+/**
+ * 지도 여백 (px)
+ */
+export interface MapPadding {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/**
+ * HTML 마커 아이콘
+ */
+export interface MapMarkerIcon {
+  /** HTML 문자열 (SVG 등) */
+  html: string;
+  /** 아이콘 크기 (px) */
+  size: { width: number; height: number };
+  /** 마커 좌표에 맞출 아이콘 내 위치 (px, 좌상단 기준) */
+  anchor: { x: number; y: number };
+}
+
+export interface MapMarkerOptions {
+  position: LatLngLiteral;
+  icon: MapMarkerIcon;
+  title?: string;
+  /** 생성 즉시 지도에 표시할지 여부 (기본값: true) */
+  visible?: boolean;
+  /** 사용자가 끌어서 옮길 수 있는지 여부 (기본값: false) */
+  draggable?: boolean;
+}
+
+/**
+ * 지도 마커
+ */
+export interface MapMarker {
+  setPosition(position: LatLngLiteral): void;
+  setIcon(icon: MapMarkerIcon): void;
+  setTitle(title: string): void;
+  /** 지도에 표시/숨김 (숨겨도 마커는 유지되어 다시 표시 가능) */
+  setVisible(visible: boolean): void;
+  /** 클릭 리스너 등록 (해제 함수 반환) */
+  onClick(handler: () => void): () => void;
+  /** 끄는 중 리스너 등록 (draggable 마커만, 해제 함수 반환) */
+  onDrag(handler: (position: LatLngLiteral) => void): () => void;
+  /** 끌기 종료 리스너 등록 (draggable 마커만, 해제 함수 반환) */
+  onDragEnd(handler: (position: LatLngLiteral) => void): () => void;
+  /** 지도에서 제거 (리스너 포함) */
+  remove(): void;
+}
+
+/**
+ * 인포윈도우 (마커 위 말풍선)
+ */
+export interface MapInfoWindow {
+  open(marker: MapMarker): void;
+  close(): void;
+}
+
+export interface MapPolylineOptions {
+  path: LatLngLiteral[];
+  color: string;
+  weight: number;
+  opacity: number;
+}
+
+/**
+ * 경로선
+ */
+export interface MapPolyline {
+  remove(): void;
+}
+
+export interface MapCircleOptions {
+  center: LatLngLiteral;
+  /** 반경 (미터) */
+  radius: number;
+  color: string;
+  /** 채우기 불투명도 (0 ~ 1) */
+  fillOpacity: number;
+}
+
+/**
+ * 원 (반경 표시, 클릭/끌기 이벤트를 받지 않음)
+ */
+export interface MapCircle {
+  setCenter(center: LatLngLiteral): void;
+  setRadius(radius: number): void;
+  remove(): void;
+}
+
+/**
+ * 지도 생성 옵션
+ */
+export interface MapCreateOptions {
+  center: LatLngLiteral;
+  zoom: number;
+}
+
+/**
+ * 지도 인스턴스 (제공자 구현)
+ */
+export interface MapController {
+  readonly provider: MapProviderId;
+  /** 위성 지도 지원 여부 */
+  readonly supportsSatellite: boolean;
+  getCenter(): LatLngLiteral;
+  setCenter(center: LatLngLiteral): void;
+  getZoom(): number;
+  setZoom(zoom: number, animate?: boolean): void;
+  getBounds(): LatLngBoundsLiteral;
+  fitBounds(bounds: LatLngBoundsLiteral, padding?: MapPadding): void;
+  setMapType(mapType: MapType): void;
+  /** 이동/확대가 끝났을 때 리스너 등록 (해제 함수 반환) */
+  onIdle(handler: () => void): () => void;
+  addMarker(options: MapMarkerOptions): MapMarker;
+  createInfoWindow(html: string): MapInfoWindow;
+  addPolyline(options: MapPolylineOptions): MapPolyline;
+  addCircle(options: MapCircleOptions): MapCircle;
+  /** 지도 제거 (마커, 리스너, DOM 정리) */
+  destroy(): void;
+}
@@ -0,0 +1,127 @@
+/**
+ * @file place.ts
+ * @description 관광지 카탈로그 사본(places) 타입 정의
+ *
+ * Supabase places / place_sync_runs 테이블의 행 구조와
+ * 동기화 작업 결과 타입을 정의합니다.
+ *
+ * @see {@link /supabase/migrations/20261018090000_create_places_tables.sql} - 테이블 스키마
+ */
+
+import type { SyncListItem } from "./tour";
+
+/**
+ * places 테이블 행
+ */
+export interface PlaceRow {
+  /** 콘텐츠 ID */
+  content_id: string;
+  /** 콘텐츠 타입 ID */
+  content_type_id: string;
+  /** 관광지명 */
+  title: string;
+  /** 주소 */
+  addr1: string | null;
+  /** 상세주소 */
+  addr2: string | null;
+  /** 지역코드 */
+  area_code: string | null;
+  /** 시군구코드 */
+  sigungu_code: string | null;
+  /** 대분류 */
+  cat1: string | null;
+  /** 중분류 */
+  cat2: string | null;
+  /** 소분류 */
+  cat3: string | null;
+  /** 경도 (API mapx 값) */
+  map_x: number | null;
+  /** 위도 (API mapy 값) */
+  map_y: number | null;
+  /** 대표이미지1 */
+  first_image: string | null;
+  /** 대표이미지2 */
+  first_image2: string | null;
+  /** 전화번호 */
+  tel: string | null;
+  /** API 수정일 (YYYYMMDDHHmmss) */
+  modified_time: string;
+  /** API 등록일 (YYYYMMDDHHmmss) */
+  created_time: string | null;
+  /** 표출 여부 */
+  show_flag: boolean;
+  /** 소프트 삭제 시각 (ISO 8601) */
+  deleted_at: string | null;
+  /** API 원본 응답 항목 */
+  raw: SyncListItem;
+  /** 마지막 동기화 시각 (ISO 8601) */
+  synced_at: string;
+}
+
+/**
+ * 동기화 실행 주체
+ * - cron: 예약 실행, manual: API 수동 호출, cli: 스크립트 실행
+ */
+export type PlaceSyncTrigger = "cron" | "manual" | "cli";
+
+/**
+ * 동기화 실행 상태
+ * - partial: 페이지 한도에 도달하여 다음 실행에서 이어서 진행해야 함
+ */
+export type PlaceSyncStatus = "running" | "success" | "partial" | "failed";
+
+/**
+ * place_sync_runs 테이블 행
+ */
+export interface PlaceSyncRun {
+  /** 실행 ID */
+  id: string;
+  /** 실행 주체 */
+  trigger: PlaceSyncTrigger;
+  /** 상태 */
+  status: PlaceSyncStatus;
+  /** 조회 기준 수정일 (YYYYMMDD, null이면 전체 동기화) */
+  modified_since: string | null;
+  /** 시작 페이지 번호 */
+  start_page_no: number;
+  /** 다음 실행에서 이어서 조회할 페이지 번호 (partial 상태일 때) */
+  next_page_no: number | null;
+  /** 다음 실행에서 조회를 시작할 수정일 (YYYYMMDD, partial이면 중단한 날짜, null이면 전체 동기화 중) */
+  next_modified_date: string | null;
+  /** 확인한 가장 최근 수정일 (YYYYMMDDHHmmss) */
+  max_modified_time: string | null;
+  /** 조회한 페이지 수 */
+  pages_fetched: number;
+  /** upsert한 항목 수 */
+  upserted_count: number;
+  /** 소프트 삭제한 항목 수 */
+  deleted_count: number;
+  /** 에러 메시지 (failed 상태일 때) */
+  error_message: string | null;
+  /** 시작 시각 (ISO 8601) */
+  started_at: string;
+  /** 종료 시각 (ISO 8601) */
+  finished_at: string | null;
+}
+
+/**
+ * 동기화 작업 결과
+ */
+export interface PlaceSyncResult {
+  /** 실행 ID */
+  runId: string;
+  /** 최종 상태 */
+  status: Exclude<PlaceSyncStatus, "running">;
+  /** 조회 기준 수정일 (YYYYMMDD, null이면 전체 동기화) */
+  modifiedSince: string | null;
+  /** 조회한 페이지 수 */
+  pagesFetched: number;
+  /** upsert한 항목 수 */
+  upsertedCount: number;
+  /** 소프트 삭제한 항목 수 */
+  deletedCount: number;
+  /** 다음 실행에서 이어서 조회할 페이지 번호 (partial 상태일 때) */
+  nextPageNo: number | null;
+  /** 다음 실행에서 조회를 시작할 수정일 (YYYYMMDD) */
+  nextModifiedDate: string | null;
+}
@@ -5,11 +5,16 @@
  * 한국관광공사 공공 API(KorService2)의 응답 데이터 구조를 정의합니다.
  * PRD.md의 5장 데이터 구조를 기반으로 작성되었습니다.
  *
+ * 런타임 응답 검증을 위한 zod 스키마도 함께 정의합니다. (파일 하단 참고)
+ *
  * @see {@link /docs/PRD.md} - API 명세 및 데이터 구조 참고
  */
 
+import { z } from "zod";
+import type { TourLanguage } from "@/lib/api/tour-language";
+
 /**
- * 관광지 목록 항목 (areaBasedList2, searchKeyword2 응답)
+ * 관광지 목록 항목 (areaBasedList2, searchKeyword2, locationBasedList2, searchFestival2 응답)
  */
 export interface TourItem {
   /** 주소 */
@@ -18,15 +23,17 @@ export interface TourItem {
   addr2?: string;
   /** 지역코드 */
   areacode: string;
+  /** 시군구코드 */
+  sigungucode?: string;
   /** 콘텐츠ID (관광지 고유 ID) */
   contentid: string;
   /** 콘텐츠타입ID (12:관광지, 14:문화시설, 15:축제/행사, 25:여행코스, 28:레포츠, 32:숙박, 38:쇼핑, 39:음식점) */
   contenttypeid: string;
   /** 관광지명 */
   title: string;
-  /** 경도 (KATEC 좌표계, 정수형, 10000000으로 나누어 변환) */
+  /** 경도 (X 좌표, KorService2는 WGS84 위경도, convertToWGS84로 변환) */
   mapx: string;
-  /** 위도 (KATEC 좌표계, 정수형, 10000000으로 나누어 변환) */
+  /** 위도 (Y 좌표, KorService2는 WGS84 위경도, convertToWGS84로 변환) */
   mapy: string;
   /** 대표이미지1 */
   firstimage?: string;
@@ -42,6 +49,14 @@ export interface TourItem {
   cat3?: string;
   /** 수정일 */
   modifiedtime: string;
+  /** 등록일 */
+  createdtime?: string;
+  /** 기준 좌표로부터의 거리 (미터 단위, locationBasedList2 응답에만 포함) */
+  dist?: string;
+  /** 행사 시작일 (YYYYMMDD, searchFestival2 응답에만 포함) */
+  eventstartdate?: string;
+  /** 행사 종료일 (YYYYMMDD, searchFestival2 응답에만 포함) */
+  eventenddate?: string;
 }
 
 /**
@@ -70,51 +85,477 @@ export interface TourDetail {
   firstimage?: string;
   /** 대표이미지2 */
   firstimage2?: string;
-  /** 경도 (KATEC 좌표계) */
+  /** 경도 (X 좌표, convertToWGS84로 변환) */
   mapx: string;
-  /** 위도 (KATEC 좌표계) */
+  /** 위도 (Y 좌표, convertToWGS84로 변환) */
   mapy: string;
+  /** 실제로 조회된 언어 (외국어 번역이 없어 한국어로 대체된 경우 "ko") */
+  language?: TourLanguage;
 }
 
 /**
- * 관광지 운영 정보 (detailIntro2 응답)
- * 타입별로 다른 필드를 가지므로 공통 필드만 포함
+ * 운영 정보 원본 항목 (detailIntro2 응답)
+ * 타입별로 필드 이름이 달라 문자열 맵으로 받은 뒤 TourIntro로 정규화합니다.
  */
-export interface TourIntro {
+export interface RawTourIntro {
   /** 콘텐츠ID */
   contentid: string;
   /** 콘텐츠타입ID */
   contenttypeid: string;
-  /** 이용시간 */
-  usetime?: string;
-  /** 휴무일 */
-  restdate?: string;
-  /** 문의처 */
-  infocenter?: string;
-  /** 주차 가능 여부 */
-  parking?: string;
-  /** 반려동물 동반 가능 여부 */
-  chkpet?: string;
+  /** 타입별 필드 */
+  [key: string]: string | undefined;
+}
+
+/**
+ * 운영 정보 공통 필드
+ */
+interface TourIntroBase {
+  /** 콘텐츠ID */
+  contentid: string;
+}
+
+/**
+ * 관광지(12) 운영 정보
+ */
+export interface TouristSpotIntro extends TourIntroBase {
+  contenttypeid: typeof CONTENT_TYPE.TOURIST_SPOT;
   /** 수용인원 */
   accomcount?: string;
-  /** 체험 프로그램 */
-  expguide?: string;
-  /** 유모차 대여 가능 여부 */
+  /** 유모차 대여 정보 */
   chkbabycarriage?: string;
-  /** 신용카드 가능 여부 */
+  /** 신용카드 가능 정보 */
   chkcreditcard?: string;
-  /** 경유지 (여행코스용) */
+  /** 애완동물 동반 가능 정보 */
+  chkpet?: string;
+  /** 체험 가능 연령 */
+  expagerange?: string;
+  /** 체험 안내 */
+  expguide?: string;
+  /** 문의 및 안내 */
+  infocenter?: string;
+  /** 개장일 */
+  opendate?: string;
+  /** 주차 시설 */
+  parking?: string;
+  /** 쉬는 날 */
+  restdate?: string;
+  /** 이용 시기 */
+  useseason?: string;
+  /** 이용 시간 */
+  usetime?: string;
+}
+
+/**
+ * 문화시설(14) 운영 정보
+ */
+export interface CulturalFacilityIntro extends TourIntroBase {
+  contenttypeid: typeof CONTENT_TYPE.CULTURAL_FACILITY;
+  /** 수용인원 */
+  accomcountculture?: string;
+  /** 유모차 대여 정보 */
+  chkbabycarriageculture?: string;
+  /** 신용카드 가능 정보 */
+  chkcreditcardculture?: string;
+  /** 애완동물 동반 가능 정보 */
+  chkpetculture?: string;
+  /** 할인 정보 */
+  discountinfo?: string;
+  /** 문의 및 안내 */
+  infocenterculture?: string;
+  /** 주차 시설 */
+  parkingculture?: string;
+  /** 주차 요금 */
+  parkingfee?: string;
+  /** 쉬는 날 */
+  restdateculture?: string;
+  /** 이용 요금 */
+  usefee?: string;
+  /** 이용 시간 */
+  usetimeculture?: string;
+  /** 규모 */
+  scale?: string;
+  /** 관람 소요시간 */
+  spendtime?: string;
+}
+
+/**
+ * 축제/행사(15) 운영 정보
+ */
+export interface FestivalIntro extends TourIntroBase {
+  contenttypeid: typeof CONTENT_TYPE.FESTIVAL;
+  /** 관람 가능 연령 */
+  agelimit?: string;
+  /** 예매처 */
+  bookingplace?: string;
+  /** 할인 정보 */
+  discountinfofestival?: string;
+  /** 행사 시작일 (YYYYMMDD) */
+  eventstartdate?: string;
+  /** 행사 종료일 (YYYYMMDD) */
+  eventenddate?: string;
+  /** 행사 홈페이지 */
+  eventhomepage?: string;
+  /** 행사 장소 */
+  eventplace?: string;
+  /** 축제 등급 */
+  festivalgrade?: string;
+  /** 행사장 위치 안내 */
+  placeinfo?: string;
+  /** 공연 시간 */
+  playtime?: string;
+  /** 행사 프로그램 */
+  program?: string;
+  /** 관람 소요시간 */
+  spendtimefestival?: string;
+  /** 주최자 정보 */
+  sponsor1?: string;
+  /** 주최자 연락처 */
+  sponsor1tel?: string;
+  /** 주관사 정보 */
+  sponsor2?: string;
+  /** 주관사 연락처 */
+  sponsor2tel?: string;
+  /** 부대 행사 */
+  subevent?: string;
+  /** 이용 요금 */
+  usetimefestival?: string;
+}
+
+/**
+ * 여행코스(25) 운영 정보
+ */
+export interface TravelCourseIntro extends TourIntroBase {
+  contenttypeid: typeof CONTENT_TYPE.TRAVEL_COURSE;
+  /** 코스 총 거리 */
   distance?: string;
-  /** 소요시간 (여행코스용) */
+  /** 문의 및 안내 */
+  infocentertourcourse?: string;
+  /** 코스 일정 */
+  schedule?: string;
+  /** 코스 총 소요시간 */
   taketime?: string;
-  /** 주변 정보 */
-  infoname?: string;
-  /** 기타 정보 */
-  infotext?: string;
-  /** 주변 관광지 */
+  /** 코스 테마 */
+  theme?: string;
+}
+
+/**
+ * 레포츠(28) 운영 정보
+ */
+export interface LeisureSportsIntro extends TourIntroBase {
+  contenttypeid: typeof CONTENT_TYPE.LEISURE_SPORTS;
+  /** 수용인원 */
+  accomcountleports?: string;
+  /** 유모차 대여 정보 */
+  chkbabycarriageleports?: string;
+  /** 신용카드 가능 정보 */
+  chkcreditcardleports?: string;
+  /** 애완동물 동반 가능 정보 */
+  chkpetleports?: string;
+  /** 체험 가능 연령 */
+  expagerangeleports?: string;
+  /** 문의 및 안내 */
+  infocenterleports?: string;
+  /** 개장 기간 */
+  openperiod?: string;
+  /** 주차 요금 */
+  parkingfeeleports?: string;
+  /** 주차 시설 */
+  parkingleports?: string;
+  /** 예약 안내 */
+  reservation?: string;
+  /** 쉬는 날 */
+  restdateleports?: string;
+  /** 규모 */
+  scaleleports?: string;
+  /** 입장료 */
+  usefeeleports?: string;
+  /** 이용 시간 */
+  usetimeleports?: string;
+}
+
+/**
+ * 숙박(32) 운영 정보
+ *
+ * 부대시설 항목(barbecue, sauna 등)은 "1"이면 보유를 의미합니다.
+ */
+export interface AccommodationIntro extends TourIntroBase {
+  contenttypeid: typeof CONTENT_TYPE.ACCOMMODATION;
+  /** 수용 가능 인원 */
+  accomcountlodging?: string;
+  /** 입실 시간 */
+  checkintime?: string;
+  /** 퇴실 시간 */
+  checkouttime?: string;
+  /** 객실 내 취사 여부 */
+  chkcooking?: string;
+  /** 식음료장 */
+  foodplace?: string;
+  /** 문의 및 안내 */
+  infocenterlodging?: string;
+  /** 주차 시설 */
+  parkinglodging?: string;
+  /** 픽업 서비스 */
+  pickup?: string;
+  /** 객실 수 */
+  roomcount?: string;
+  /** 예약 안내 */
+  reservationlodging?: string;
+  /** 예약 안내 홈페이지 */
+  reservationurl?: string;
+  /** 객실 유형 */
+  roomtype?: string;
+  /** 규모 */
+  scalelodging?: string;
+  /** 부대시설 (기타) */
   subfacility?: string;
+  /** 환불 규정 */
+  refundregulation?: string;
+  /** 바비큐장 */
+  barbecue?: string;
+  /** 뷰티시설 */
+  beauty?: string;
+  /** 식음료장 여부 */
+  beverage?: string;
+  /** 자전거 대여 */
+  bicycle?: string;
+  /** 캠프파이어 */
+  campfire?: string;
+  /** 휘트니스 센터 */
+  fitness?: string;
+  /** 노래방 */
+  karaoke?: string;
+  /** 공용 샤워실 */
+  publicbath?: string;
+  /** 공용 PC실 */
+  publicpc?: string;
+  /** 사우나실 */
+  sauna?: string;
+  /** 세미나실 */
+  seminar?: string;
+  /** 스포츠 시설 */
+  sports?: string;
 }
 
+/**
+ * 쇼핑(38) 운영 정보
+ */
+export interface ShoppingIntro extends TourIntroBase {
+  contenttypeid: typeof CONTENT_TYPE.SHOPPING;
+  /** 유모차 대여 정보 */
+  chkbabycarriageshopping?: string;
+  /** 신용카드 가능 정보 */
+  chkcreditcardshopping?: string;
+  /** 애완동물 동반 가능 정보 */
+  chkpetshopping?: string;
+  /** 문화센터 바로가기 */
+  culturecenter?: string;
+  /** 장서는 날 */
+  fairday?: string;
+  /** 문의 및 안내 */
+  infocentershopping?: string;
+  /** 개장일 */
+  opendateshopping?: string;
+  /** 영업 시간 */
+  opentime?: string;
+  /** 주차 시설 */
+  parkingshopping?: string;
+  /** 쉬는 날 */
+  restdateshopping?: string;
+  /** 화장실 설명 */
+  restroom?: string;
+  /** 판매 품목 */
+  saleitem?: string;
+  /** 판매 품목별 가격 */
+  saleitemcost?: string;
+  /** 규모 */
+  scaleshopping?: string;
+  /** 매장 안내 */
+  shopguide?: string;
+}
+
+/**
+ * 음식점(39) 운영 정보
+ */
+export interface RestaurantIntro extends TourIntroBase {
+  contenttypeid: typeof CONTENT_TYPE.RESTAURANT;
+  /** 신용카드 가능 정보 */
+  chkcreditcardfood?: string;
+  /** 할인 정보 */
+  discountinfofood?: string;
+  /** 대표 메뉴 */
+  firstmenu?: string;
+  /** 문의 및 안내 */
+  infocenterfood?: string;
+  /** 어린이 놀이방 여부 */
+  kidsfacility?: string;
+  /** 개업일 */
+  opendatefood?: string;
+  /** 영업 시간 */
+  opentimefood?: string;
+  /** 포장 가능 */
+  packing?: string;
+  /** 주차 시설 */
+  parkingfood?: string;
+  /** 예약 안내 */
+  reservationfood?: string;
+  /** 쉬는 날 */
+  restdatefood?: string;
+  /** 규모 */
+  scalefood?: string;
+  /** 좌석 수 */
+  seat?: string;
+  /** 금연/흡연 여부 */
+  smoking?: string;
+  /** 취급 메뉴 */
+  treatmenu?: string;
+  /** 인허가 번호 */
+  lcnsno?: string;
+}
+
+/**
+ * 관광지 운영 정보 (detailIntro2 응답 정규화 결과)
+ * contenttypeid로 구분되는 타입별 운영 정보
+ *
+ * @example
+ * ```ts
+ * if (intro.contenttypeid === CONTENT_TYPE.RESTAURANT) {
+ *   console.log(intro.firstmenu); // RestaurantIntro로 좁혀짐
+ * }
+ * ```
+ */
+export type TourIntro =
+  | TouristSpotIntro
+  | CulturalFacilityIntro
+  | FestivalIntro
+  | TravelCourseIntro
+  | LeisureSportsIntro
+  | AccommodationIntro
+  | ShoppingIntro
+  | RestaurantIntro;
+
+/**
+ * 반복 정보 원본 항목 (detailInfo2 응답)
+ * 타입별로 필드 구성이 달라 문자열 맵으로 받은 뒤 TourRepeatInfo로 정규화합니다.
+ */
+export interface RawRepeatInfo {
+  /** 콘텐츠ID */
+  contentid: string;
+  /** 콘텐츠타입ID */
+  contenttypeid: string;
+  [key: string]: string | undefined;
+}
+
+/**
+ * 숙박(32) 객실 정보
+ *
+ * 객실 편의시설 항목(roomtv, roombath 등)은 "Y"이면 보유를 의미합니다.
+ */
+export interface RoomInfo {
+  /** 객실 코드 */
+  roomcode?: string;
+  /** 객실명 */
+  roomtitle: string;
+  /** 객실 크기 (평) */
+  roomsize1?: string;
+  /** 객실 크기 (㎡) */
+  roomsize2?: string;
+  /** 객실 수 */
+  roomcount?: string;
+  /** 기준 인원 */
+  roombasecount?: string;
+  /** 최대 인원 */
+  roommaxcount?: string;
+  /** 비수기 주중 최소 요금 */
+  roomoffseasonminfee1?: string;
+  /** 비수기 주말 최소 요금 */
+  roomoffseasonminfee2?: string;
+  /** 성수기 주중 최소 요금 */
+  roompeakseasonminfee1?: string;
+  /** 성수기 주말 최소 요금 */
+  roompeakseasonminfee2?: string;
+  /** 객실 소개 */
+  roomintro?: string;
+  /** 목욕시설 */
+  roombathfacility?: string;
+  /** 욕조 */
+  roombath?: string;
+  /** 홈시어터 */
+  roomhometheater?: string;
+  /** 에어컨 */
+  roomaircondition?: string;
+  /** TV */
+  roomtv?: string;
+  /** PC */
+  roompc?: string;
+  /** 케이블 설치 */
+  roomcable?: string;
+  /** 인터넷 */
+  roominternet?: string;
+  /** 냉장고 */
+  roomrefrigerator?: string;
+  /** 세면도구 */
+  roomtoiletries?: string;
+  /** 소파 */
+  roomsofa?: string;
+  /** 취사용품 */
+  roomcook?: string;
+  /** 테이블 */
+  roomtable?: string;
+  /** 드라이기 */
+  roomhairdryer?: string;
+  /** 객실 사진1 */
+  roomimg1?: string;
+  /** 객실 사진1 설명 */
+  roomimg1alt?: string;
+}
+
+/**
+ * 여행코스(25) 코스 경유지
+ */
+export interface CourseStop {
+  /** 경유지 순서 (0부터 시작) */
+  subnum: string;
+  /** 경유지 콘텐츠ID */
+  subcontentid?: string;
+  /** 경유지명 */
+  subname: string;
+  /** 경유지 개요 */
+  subdetailoverview?: string;
+  /** 경유지 이미지 */
+  subdetailimg?: string;
+  /** 경유지 이미지 설명 */
+  subdetailalt?: string;
+  /** 경유지 X좌표 (detailCommon2로 보강, API mapx 값) */
+  mapx?: string;
+  /** 경유지 Y좌표 (detailCommon2로 보강, API mapy 값) */
+  mapy?: string;
+}
+
+/**
+ * 그 외 타입의 추가 정보 항목 (입장료, 화장실, 이용 안내 등)
+ */
+export interface ExtraInfoRow {
+  /** 순번 */
+  serialnum?: string;
+  /** 항목 구분 */
+  fldgubun?: string;
+  /** 항목명 */
+  infoname: string;
+  /** 항목 내용 */
+  infotext: string;
+}
+
+/**
+ * 관광지 반복 정보 (detailInfo2 응답 정규화 결과)
+ * - room: 숙박(32) 객실 목록
+ * - course: 여행코스(25) 경유지 목록 (순서대로 정렬)
+ * - extra: 그 외 타입의 추가 정보 목록
+ */
+export type TourRepeatInfo =
+  | { kind: "room"; items: RoomInfo[] }
+  | { kind: "course"; items: CourseStop[] }
+  | { kind: "extra"; items: ExtraInfoRow[] };
+
 /**
  * 관광지 이미지 정보 (detailImage2 응답)
  */
@@ -165,6 +606,21 @@ export interface AreaCode {
   rnum?: string;
 }
 
+/**
+ * 서비스 분류코드 정보 (categoryCode2 응답)
+ *
+ * 대분류(cat1) > 중분류(cat2) > 소분류(cat3) 3단계로 구성됩니다.
+ * (예: A01 자연 > A0101 자연관광지 > A01011200 해수욕장)
+ */
+export interface CategoryCode {
+  /** 분류코드 */
+  code: string;
+  /** 분류명 */
+  name: string;
+  /** 일련번호 */
+  rnum?: string;
+}
+
 /**
  * API 응답 헤더
  */
@@ -179,9 +635,9 @@ export interface ApiResponseHeader {
  * API 응답 본문 (items)
  */
 export interface ApiResponseBody<T> {
-  /** 응답 항목 (단일 또는 배열) */
+  /** 응답 항목 (스키마 검증 시 단일 항목/빈 응답도 배열로 정규화) */
   items: {
-    item: T | T[];
+    item: T[];
   };
   /** 전체 개수 */
   numOfRows?: number;
@@ -209,11 +665,42 @@ export interface ApiResponse<T> {
  */
 export type AreaCodeResponse = ApiResponse<AreaCode>;
 
+/**
+ * 서비스 분류코드 조회 응답
+ */
+export type CategoryCodeResponse = ApiResponse<CategoryCode>;
+
 /**
  * 지역 기반 목록 조회 응답
  */
 export type AreaBasedListResponse = ApiResponse<TourItem>;
 
+/**
+ * 위치 기반 목록 조회 응답
+ */
+export type LocationBasedListResponse = ApiResponse<TourItem>;
+
+/**
+ * 행사정보 조회 응답
+ */
+export type SearchFestivalResponse = ApiResponse<TourItem>;
+
+/**
+ * 동기화 목록 항목 (areaBasedSyncList2 응답)
+ *
+ * 목록 항목에 표출 여부(showflag)가 추가된 형태입니다.
+ * 삭제/비공개 처리된 콘텐츠는 showflag가 "0"으로 내려옵니다.
+ */
+export interface SyncListItem extends TourItem {
+  /** 표출 여부 (1: 표출, 0: 비표출) */
+  showflag: string;
+}
+
+/**
+ * 동기화 목록 조회 응답
+ */
+export type AreaBasedSyncListResponse = ApiResponse<SyncListItem>;
+
 /**
  * 페이지네이션 메타데이터
  */
@@ -238,6 +725,18 @@ export interface PaginationResponse<T> {
   pagination: PaginationMetadata;
 }
 
+/**
+ * 상세 정보 일괄 조회 결과
+ */
+export interface DetailCommonBatchResult {
+  /** 조회된 상세 정보 (요청한 콘텐츠 ID 순서) */
+  items: TourDetail[];
+  /** 관광지가 없는 콘텐츠 ID (삭제된 관광지 등) */
+  missingIds: string[];
+  /** 조회에 실패한 콘텐츠 ID (다시 시도하면 조회될 수 있음) */
+  failedIds: string[];
+}
+
 /**
  * 키워드 검색 응답
  */
@@ -251,7 +750,12 @@ export type DetailCommonResponse = ApiResponse<TourDetail>;
 /**
  * 운영 정보 조회 응답
  */
-export type DetailIntroResponse = ApiResponse<TourIntro>;
+export type DetailIntroResponse = ApiResponse<RawTourIntro>;
+
+/**
+ * 반복 정보 조회 응답
+ */
+export type DetailInfoResponse = ApiResponse<RawRepeatInfo>;
 
 /**
  * 이미지 목록 조회 응답
@@ -283,3 +787,259 @@ export const CONTENT_TYPE = {
 export type ContentTypeId =
   | typeof CONTENT_TYPE[keyof typeof CONTENT_TYPE];
 
+
+/**
+ * 위치 기반 조회 반경 상수 (미터, locationBasedList2 최대 반경: 20km)
+ */
+export const LOCATION_RADIUS = {
+  DEFAULT: 5000,
+  MAX: 20000,
+} as const;
+
+/**
+ * 위치 기반 모드와 함께 사용할 수 없는 URL 파라미터
+ * (locationBasedList2는 지역 코드, 키워드, 행사 기간, 분류 코드를 지원하지 않음)
+ */
+export const LOCATION_EXCLUSIVE_PARAMS = [
+  "areaCode",
+  "sigunguCode",
+  "keyword",
+  "eventStartDate",
+  "eventEndDate",
+  "cat1",
+  "cat2",
+  "cat3",
+] as const;
+
+/**
+ * 다중 선택 필터에서 한 필터당 선택할 수 있는 최대 개수
+ * (지역 × 타입 조합마다 API를 한 번씩 호출하므로 호출 수를 제한)
+ */
+export const MULTI_SELECT_MAX = 3;
+
+/**
+ * 목록 정렬 옵션 (URL sort 파라미터 값)
+ * - latest: 수정일순, name: 제목순, created: 등록일순, distance: 거리순 (위치 기반 조회 전용)
+ */
+export type TourSortType = "latest" | "name" | "created" | "distance";
+
+/**
+ * 한국관광공사 API 정렬 구분 (arrange 파라미터)
+ * - A: 제목순, C: 수정일순, D: 생성일순, E: 거리순 (locationBasedList2 전용)
+ * - O/Q/R/S: 각각 A/C/D/E와 동일하되 대표이미지가 있는 항목만 조회
+ */
+export type TourArrange = "A" | "C" | "D" | "E" | "O" | "Q" | "R" | "S";
+
+// =====================================================
+// 응답 검증 스키마 (zod)
+// =====================================================
+
+/**
+ * 문자열 필드 (숫자로 내려오는 경우 문자열로 변환)
+ */
+const apiString = z.union([z.string(), z.number()]).transform((value) => String(value));
+
+/**
+ * 선택 문자열 필드 (null은 undefined로 처리)
+ */
+const optionalApiString = z
+  .union([z.string(), z.number()])
+  .nullish()
+  .transform((value) => (value === null || value === undefined ? undefined : String(value)));
+
+/**
+ * 숫자 필드 (문자열로 내려오는 경우 숫자로 변환)
+ */
+const apiNumber = z.coerce.number();
+
+/**
+ * 관광지 목록 항목 스키마
+ */
+const tourItemShape = {
+  addr1: apiString,
+  addr2: optionalApiString,
+  areacode: apiString,
+  sigungucode: optionalApiString,
+  contentid: apiString,
+  contenttypeid: apiString,
+  title: apiString,
+  mapx: apiString,
+  mapy: apiString,
+  firstimage: optionalApiString,
+  firstimage2: optionalApiString,
+  tel: optionalApiString,
+  cat1: optionalApiString,
+  cat2: optionalApiString,
+  cat3: optionalApiString,
+  modifiedtime: apiString,
+  createdtime: optionalApiString,
+  dist: optionalApiString,
+  eventstartdate: optionalApiString,
+  eventenddate: optionalApiString,
+};
+
+export const tourItemSchema = z
+  .object(tourItemShape)
+  .passthrough();
+
+/**
+ * 동기화 목록 항목 스키마
+ */
+export const syncListItemSchema = z
+  .object({ ...tourItemShape, showflag: apiString })
+  .passthrough();
+
+/**
+ * 관광지 상세 정보 스키마
+ */
+export const tourDetailSchema = z
+  .object({
+    contentid: apiString,
+    contenttypeid: apiString,
+    title: apiString,
+    addr1: apiString,
+    addr2: optionalApiString,
+    zipcode: optionalApiString,
+    tel: optionalApiString,
+    homepage: optionalApiString,
+    overview: optionalApiString,
+    firstimage: optionalApiString,
+    firstimage2: optionalApiString,
+    mapx: apiString,
+    mapy: apiString,
+  })
+  .passthrough();
+
+/**
+ * 운영 정보 원본 항목 스키마 (타입별 필드는 모두 선택 문자열)
+ */
+export const rawTourIntroSchema = z
+  .object({
+    contentid: apiString,
+    contenttypeid: apiString,
+  })
+  .catchall(optionalApiString);
+
+/**
+ * 반복 정보 원본 항목 스키마 (타입별 필드는 모두 선택 문자열)
+ */
+export const rawRepeatInfoSchema = z
+  .object({
+    contentid: apiString,
+    contenttypeid: apiString,
+  })
+  .catchall(optionalApiString);
+
+/**
+ * 관광지 이미지 정보 스키마
+ */
+export const tourImageSchema = z
+  .object({
+    contentid: apiString,
+    originimgurl: apiString,
+    smallimageurl: optionalApiString,
+    imgname: optionalApiString,
+    serialnum: optionalApiString,
+  })
+  .passthrough();
+
+/**
+ * 반려동물 동반 여행 정보 스키마
+ */
+export const petTourInfoSchema = z
+  .object({
+    contentid: apiString,
+    contenttypeid: apiString,
+    chkpetleash: optionalApiString,
+    chkpetsize: optionalApiString,
+    chkpetplace: optionalApiString,
+    chkpetfee: optionalApiString,
+    petinfo: optionalApiString,
+    parking: optionalApiString,
+  })
+  .passthrough();
+
+/**
+ * 지역코드 정보 스키마
+ */
+export const areaCodeSchema = z
+  .object({
+    code: apiString,
+    name: apiString,
+    rnum: optionalApiString,
+  })
+  .passthrough();
+
+/**
+ * 서비스 분류코드 정보 스키마
+ */
+export const categoryCodeSchema = z
+  .object({
+    code: apiString,
+    name: apiString,
+    rnum: optionalApiString,
+  })
+  .passthrough();
+
+/**
+ * API 응답 구조 스키마 생성
+ *
+ * 한국관광공사 API는 결과가 1건이면 item을 배열이 아닌 단일 객체로,
+ * 결과가 없으면 items를 빈 문자열("")로 내려주므로 항상 배열로 정규화합니다.
+ *
+ * @param itemSchema - 응답 항목 스키마
+ * @returns 응답 전체 스키마
+ */
+export function createApiResponseSchema<T>(
+  itemSchema: z.ZodTypeAny
+): z.ZodType<ApiResponse<T>, z.ZodTypeDef, unknown> {
+  // strict 모드가 꺼져 있어 zod 추론 타입의 필수 필드가 선택 필드로 풀리므로,
+  // 검증 결과 타입은 위의 응답 인터페이스(ApiResponse<T>)로 지정합니다.
+  return z.object({
+    response: z.object({
+      header: z.object({
+        resultCode: apiString,
+        resultMsg: apiString,
+      }),
+      body: z.object({
+        items: z.preprocess((items) => {
+          // 결과 없음: items가 "" 이거나 item이 없음
+          if (!items || typeof items !== "object" || !("item" in items) || !items.item) {
+            return { item: [] };
+          }
+          return { item: Array.isArray(items.item) ? items.item : [items.item] };
+        }, z.object({ item: z.array(itemSchema) })),
+        numOfRows: apiNumber.optional(),
+        pageNo: apiNumber.optional(),
+        totalCount: apiNumber.optional(),
+      }),
+    }),
+  }) as unknown as z.ZodType<ApiResponse<T>, z.ZodTypeDef, unknown>;
+}
+
+/** 지역코드 조회 응답 스키마 */
+export const areaCodeResponseSchema = createApiResponseSchema<AreaCode>(areaCodeSchema);
+
+/** 서비스 분류코드 조회 응답 스키마 */
+export const categoryCodeResponseSchema = createApiResponseSchema<CategoryCode>(categoryCodeSchema);
+
+/** 관광지 목록 조회 응답 스키마 (지역 기반, 위치 기반, 행사정보, 키워드 검색 공통) */
+export const tourListResponseSchema = createApiResponseSchema<TourItem>(tourItemSchema);
+
+/** 동기화 목록 조회 응답 스키마 */
+export const areaBasedSyncListResponseSchema = createApiResponseSchema<SyncListItem>(syncListItemSchema);
+
+/** 상세 정보 조회 응답 스키마 */
+export const detailCommonResponseSchema = createApiResponseSchema<TourDetail>(tourDetailSchema);
+
+/** 운영 정보 조회 응답 스키마 */
+export const detailIntroResponseSchema = createApiResponseSchema<RawTourIntro>(rawTourIntroSchema);
+
+/** 반복 정보 조회 응답 스키마 */
+export const detailInfoResponseSchema = createApiResponseSchema<RawRepeatInfo>(rawRepeatInfoSchema);
+
+/** 이미지 목록 조회 응답 스키마 */
+export const detailImageResponseSchema = createApiResponseSchema<TourImage>(tourImageSchema);
+
+/** 반려동물 정보 조회 응답 스키마 */
+export const detailPetTourResponseSchema = createApiResponseSchema<PetTourInfo>(petTourInfoSchema);
@@ -2,75 +2,375 @@
  * @file coordinate.ts
  * @description 좌표 변환 유틸리티 함수
  *
- * 한국관광공사 API에서 제공하는 KATEC 좌표계를 WGS84 좌표계로 변환합니다.
- * KATEC 좌표는 정수형으로 저장되어 있으며, 10000000으로 나누어 변환합니다.
+ * 한국관광공사 API 및 공공데이터에서 사용하는 좌표를 WGS84 위경도로 변환합니다.
+ *
+ * 지원 좌표계:
+ * - WGS84: 위경도 (KorService2 기본 형식, 예: "126.9779", "37.5665")
+ * - WGS84_SCALED: 위경도 × 10^7 정수 (구 API 형식, 예: "1269779000")
+ * - KATEC: Bessel 타원체 TM (원점 128°E 38°N, 가산값 400000/600000)
+ * - UTMK: GRS80 타원체 UTM-K (원점 127.5°E 38°N, 가산값 1000000/2000000)
+ * - TM_WEST / TM_CENTRAL / TM_EAST / TM_EASTSEA: GRS80 타원체 TM 4개 원점
+ *   (EPSG:5185~5188, 가산값 200000/600000)
+ * - BESSEL_TM_CENTRAL: Bessel 타원체 중부원점 TM (EPSG:2097, 가산값 200000/500000)
+ *
+ * 형식 판별:
+ * - 값의 크기로 WGS84, WGS84_SCALED, UTMK, KATEC를 구분합니다.
+ * - TM 계열은 KATEC와 값의 범위가 겹치므로 자동 판별하지 않으며, format 옵션으로 지정해야 합니다.
+ *
+ * 변환할 수 없거나 한국 영역을 벗어난 좌표는 기본 좌표로 대체하지 않고
+ * valid: false 결과로 반환하므로, 호출하는 쪽에서 해당 항목을 제외해야 합니다.
  *
  * @see {@link /docs/PRD.md} - 기술 요구사항: 좌표 데이터
  */
 
 /**
- * KATEC 좌표계를 WGS84 좌표계로 변환
+ * 좌표 형식
+ */
+export type CoordinateFormat =
+  | "WGS84"
+  | "WGS84_SCALED"
+  | "KATEC"
+  | "UTMK"
+  | "TM_WEST"
+  | "TM_CENTRAL"
+  | "TM_EAST"
+  | "TM_EASTSEA"
+  | "BESSEL_TM_CENTRAL";
+
+/**
+ * 좌표 변환 실패 사유
+ * - missing: 좌표 값이 없음
+ * - not-a-number: 숫자로 해석할 수 없음
+ * - unknown-format: 값의 범위로 좌표 형식을 판별할 수 없음
+ * - out-of-range: 변환 결과가 한국 영역을 벗어남
+ */
+export type InvalidCoordinateReason = "missing" | "not-a-number" | "unknown-format" | "out-of-range";
+
+/**
+ * 좌표 변환 결과
+ */
+export type CoordinateResult =
+  | { valid: true; lat: number; lng: number; format: CoordinateFormat; reason?: undefined }
+  | { valid: false; reason: InvalidCoordinateReason; format?: CoordinateFormat };
+
+/**
+ * 한국 영역 (위경도, 제주·독도 포함)
+ */
+export const KOREA_BOUNDS = {
+  minLat: 33,
+  maxLat: 43,
+  minLng: 124,
+  maxLng: 132,
+} as const;
+
+/**
+ * 타원체
+ */
+interface Ellipsoid {
+  /** 장반경 (m) */
+  a: number;
+  /** 편평률 */
+  f: number;
+}
+
+const BESSEL_1841: Ellipsoid = { a: 6377397.155, f: 1 / 299.1528128 };
+const GRS80: Ellipsoid = { a: 6378137, f: 1 / 298.257222101 };
+/** WGS84 타원체 (GRS80과 편평률만 미세하게 다름) */
+const WGS84: Ellipsoid = { a: 6378137, f: 1 / 298.257223563 };
+
+/**
+ * Bessel(한국측지계) → WGS84 3변수 변환값 (m)
+ * (국토지리정보원 고시값 기준, PROJ의 KATEC 정의와 동일)
+ */
+const BESSEL_TO_WGS84_SHIFT = { dx: -146.43, dy: 507.89, dz: 681.46 } as const;
+
+/**
+ * 횡단 메르카토르(TM) 투영 정의
+ */
+interface TransverseMercator {
+  ellipsoid: Ellipsoid;
+  /** 원점 위도 (도) */
+  lat0: number;
+  /** 원점 경도 (도) */
+  lng0: number;
+  /** 축척 계수 */
+  k0: number;
+  falseEasting: number;
+  falseNorthing: number;
+  /** Bessel 타원체 기반이면 WGS84로 변환할 때 측지계 변환 필요 */
+  isBessel: boolean;
+}
+
+const PROJECTIONS: Record<Exclude<CoordinateFormat, "WGS84" | "WGS84_SCALED">, TransverseMercator> = {
+  KATEC: {
+    ellipsoid: BESSEL_1841,
+    lat0: 38,
+    lng0: 128,
+    k0: 0.9999,
+    falseEasting: 400000,
+    falseNorthing: 600000,
+    isBessel: true,
+  },
+  UTMK: {
+    ellipsoid: GRS80,
+    lat0: 38,
+    lng0: 127.5,
+    k0: 0.9996,
+    falseEasting: 1000000,
+    falseNorthing: 2000000,
+    isBessel: false,
+  },
+  TM_WEST: {
+    ellipsoid: GRS80,
+    lat0: 38,
+    lng0: 125,
+    k0: 1,
+    falseEasting: 200000,
+    falseNorthing: 600000,
+    isBessel: false,
+  },
+  TM_CENTRAL: {
+    ellipsoid: GRS80,
+    lat0: 38,
+    lng0: 127,
+    k0: 1,
+    falseEasting: 200000,
+    falseNorthing: 600000,
+    isBessel: false,
+  },
+  TM_EAST: {
+    ellipsoid: GRS80,
+    lat0: 38,
+    lng0: 129,
+    k0: 1,
+    falseEasting: 200000,
+    falseNorthing: 600000,
+    isBessel: false,
+  },
+  TM_EASTSEA: {
+    ellipsoid: GRS80,
+    lat0: 38,
+    lng0: 131,
+    k0: 1,
+    falseEasting: 200000,
+    falseNorthing: 600000,
+    isBessel: false,
+  },
+  BESSEL_TM_CENTRAL: {
+    ellipsoid: BESSEL_1841,
+    lat0: 38,
+    // 구 측지계 경도 원점 보정값 (+10.405")
+    lng0: 127.0028902778,
+    k0: 1,
+    falseEasting: 200000,
+    falseNorthing: 500000,
+    isBessel: true,
+  },
+};
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+
+/**
+ * 적도에서 위도 phi까지의 자오선 호장 (m)
+ */
+function meridianArc(ellipsoid: Ellipsoid, phi: number): number {
+  const e2 = ellipsoid.f * (2 - ellipsoid.f);
+  const e4 = e2 * e2;
+  const e6 = e4 * e2;
+
+  return (
+    ellipsoid.a *
+    ((1 - e2 / 4 - (3 * e4) / 64 - (5 * e6) / 256) * phi -
+      ((3 * e2) / 8 + (3 * e4) / 32 + (45 * e6) / 1024) * Math.sin(2 * phi) +
+      ((15 * e4) / 256 + (45 * e6) / 1024) * Math.sin(4 * phi) -
+      ((35 * e6) / 3072) * Math.sin(6 * phi))
+  );
+}
+
+/**
+ * TM 평면 좌표를 해당 타원체의 위경도로 역변환 (Snyder, Map Projections 8-18 ~ 8-25)
+ */
+function inverseTransverseMercator(
+  projection: TransverseMercator,
+  x: number,
+  y: number
+): { lat: number; lng: number } {
+  const { ellipsoid, k0 } = projection;
+  const { a } = ellipsoid;
+  const e2 = ellipsoid.f * (2 - ellipsoid.f);
+  const ep2 = e2 / (1 - e2);
+
+  const m = meridianArc(ellipsoid, toRadians(projection.lat0)) + (y - projection.falseNorthing) / k0;
+  const mu = m / (a * (1 - e2 / 4 - (3 * e2 * e2) / 64 - (5 * e2 * e2 * e2) / 256));
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+
+  // 발밑 위도 (footpoint latitude)
+  const phi1 =
+    mu +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 ** 2) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+    ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+
+  const sinPhi1 = Math.sin(phi1);
+  const cosPhi1 = Math.cos(phi1);
+  const tanPhi1 = Math.tan(phi1);
+  const c1 = ep2 * cosPhi1 * cosPhi1;
+  const t1 = tanPhi1 * tanPhi1;
+  const n1 = a / Math.sqrt(1 - e2 * sinPhi1 * sinPhi1);
+  const r1 = (a * (1 - e2)) / Math.pow(1 - e2 * sinPhi1 * sinPhi1, 1.5);
+  const d = (x - projection.falseEasting) / (n1 * k0);
+
+  const lat =
+    phi1 -
+    ((n1 * tanPhi1) / r1) *
+      ((d * d) / 2 -
+        ((5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * ep2) * d ** 4) / 24 +
+        ((61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * ep2 - 3 * c1 * c1) * d ** 6) / 720);
+  const lng =
+    toRadians(projection.lng0) +
+    (d -
+      ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+      ((5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * ep2 + 24 * t1 * t1) * d ** 5) / 120) /
+      cosPhi1;
+
+  return { lat: toDegrees(lat), lng: toDegrees(lng) };
+}
+
+/**
+ * Bessel 타원체 위경도를 WGS84 위경도로 변환 (지심 직교좌표 3변수 이동)
+ */
+function besselToWGS84(lat: number, lng: number): { lat: number; lng: number } {
+  const phi = toRadians(lat);
+  const lambda = toRadians(lng);
+
+  // Bessel 위경도 → 지심 직교좌표 (타원체고 0 가정)
+  const besselE2 = BESSEL_1841.f * (2 - BESSEL_1841.f);
+  const besselN = BESSEL_1841.a / Math.sqrt(1 - besselE2 * Math.sin(phi) ** 2);
+  const X = besselN * Math.cos(phi) * Math.cos(lambda) + BESSEL_TO_WGS84_SHIFT.dx;
+  const Y = besselN * Math.cos(phi) * Math.sin(lambda) + BESSEL_TO_WGS84_SHIFT.dy;
+  const Z = besselN * (1 - besselE2) * Math.sin(phi) + BESSEL_TO_WGS84_SHIFT.dz;
+
+  // 지심 직교좌표 → WGS84 위경도 (반복 계산)
+  const e2 = WGS84.f * (2 - WGS84.f);
+  const p = Math.sqrt(X * X + Y * Y);
+  let wgsPhi = Math.atan2(Z, p * (1 - e2));
+  for (let i = 0; i < 5; i++) {
+    const n = WGS84.a / Math.sqrt(1 - e2 * Math.sin(wgsPhi) ** 2);
+    const h = p / Math.cos(wgsPhi) - n;
+    wgsPhi = Math.atan2(Z, p * (1 - (e2 * n) / (n + h)));
+  }
+
+  return { lat: toDegrees(wgsPhi), lng: toDegrees(Math.atan2(Y, X)) };
+}
+
+/**
+ * 한국 영역 내 좌표인지 확인
+ */
+export function isWithinKorea(lat: number, lng: number): boolean {
+  return (
+    lat >= KOREA_BOUNDS.minLat &&
+    lat <= KOREA_BOUNDS.maxLat &&
+    lng >= KOREA_BOUNDS.minLng &&
+    lng <= KOREA_BOUNDS.maxLng
+  );
+}
+
+/**
+ * 값의 범위로 좌표 형식 판별
  *
- * @param mapx - 경도 (KATEC 좌표계, 정수형 문자열)
- * @param mapy - 위도 (KATEC 좌표계, 정수형 문자열)
- * @returns WGS84 좌표계 { lat: number, lng: number }
+ * TM 계열(TM_WEST 등)은 KATEC와 범위가 겹쳐 판별하지 않습니다.
+ *
+ * @param x - X 좌표 (경도 또는 Easting)
+ * @param y - Y 좌표 (위도 또는 Northing)
+ * @returns 좌표 형식 또는 null (판별 불가)
+ */
+export function detectCoordinateFormat(x: number, y: number): CoordinateFormat | null {
+  // 위경도 (소수점 형태)
+  if (x >= 100 && x <= 180 && y >= 20 && y <= 60) {
+    return "WGS84";
+  }
+  // 위경도 × 10^7 (구 API 정수 형태)
+  if (x >= 1.0e9 && x <= 1.8e9 && y >= 2.0e8 && y <= 6.0e8) {
+    return "WGS84_SCALED";
+  }
+  // UTM-K (Northing 가산값 2,000,000)
+  if (x >= 600000 && x <= 1400000 && y >= 1300000 && y <= 2700000) {
+    return "UTMK";
+  }
+  // KATEC (Easting 가산값 400,000, Northing 가산값 600,000)
+  if (x >= 0 && x <= 900000 && y >= -100000 && y <= 1300000) {
+    return "KATEC";
+  }
+
+  return null;
+}
+
+/**
+ * 좌표를 WGS84 위경도로 변환
+ *
+ * @param mapx - X 좌표 (경도 또는 Easting, 문자열 또는 숫자)
+ * @param mapy - Y 좌표 (위도 또는 Northing, 문자열 또는 숫자)
+ * @param options.format - 좌표 형식 (생략 시 값의 범위로 판별)
+ * @returns 변환 결과 (valid: false이면 지도/거리 계산에서 제외)
  *
  * @example
  * ```ts
- * const { lat, lng } = convertKATECToWGS84("1270455151", "377533531");
- * // lat: 37.7533531, lng: 127.0455151
+ * convertToWGS84("126.9779692", "37.566535");
+ * // { valid: true, lat: 37.566535, lng: 126.9779692, format: "WGS84" }
+ *
+ * convertToWGS84("309947", "552092");
+ * // { valid: true, lat: 37.5666..., lng: 126.9783..., format: "KATEC" }
+ *
+ * convertToWGS84("198056", "551885", { format: "TM_CENTRAL" });
+ * // { valid: true, lat: 37.5664..., lng: 126.9779..., format: "TM_CENTRAL" }
+ *
+ * convertToWGS84("", "");
+ * // { valid: false, reason: "missing" }
  * ```
  */
-export function convertKATECToWGS84(
-  mapx: string,
-  mapy: string
-): { lat: number; lng: number } {
-  // 좌표가 없거나 빈 문자열인 경우 기본값 반환
-  if (!mapx || !mapy || mapx.trim() === "" || mapy.trim() === "") {
-    console.warn("좌표가 없습니다. 기본값(한국 중심)을 반환합니다.");
-    return { lat: 36.5, lng: 127.5 }; // 한국 중심 좌표
+export function convertToWGS84(
+  mapx: string | number | null | undefined,
+  mapy: string | number | null | undefined,
+  options: { format?: CoordinateFormat } = {}
+): CoordinateResult {
+  if (
+    mapx === undefined ||
+    mapx === null ||
+    mapy === undefined ||
+    mapy === null ||
+    String(mapx).trim() === "" ||
+    String(mapy).trim() === ""
+  ) {
+    return { valid: false, reason: "missing" };
   }
 
-  try {
-    // KATEC 좌표를 숫자로 변환
-    const x = parseFloat(mapx);
-    const y = parseFloat(mapy);
-
-    // 유효하지 않은 숫자인 경우 기본값 반환
-    if (isNaN(x) || isNaN(y)) {
-      console.warn("유효하지 않은 좌표입니다. 기본값을 반환합니다.", { mapx, mapy });
-      return { lat: 36.5, lng: 127.5 };
-    }
-
-    // 좌표 형식 판단: 소수점 형태(이미 WGS84)인지 정수 형태(KATEC)인지 확인
-    // 한국 영역 좌표는 경도 124-132, 위도 33-43 범위
-    // 소수점 형태면 이미 WGS84, 정수 형태면 KATEC로 판단
-    let lng: number;
-    let lat: number;
-
-    if (Math.abs(x) < 200 && Math.abs(y) < 200) {
-      // 소수점 형태 (이미 WGS84 좌표)
-      lng = x;
-      lat = y;
-    } else {
-      // 정수 형태 (KATEC 좌표) - 10000000으로 나누어 변환
-      lng = x / 10000000;
-      lat = y / 10000000;
-    }
-
-    // 좌표 범위 검증 (한국 영역: 위도 33-43, 경도 124-132)
-    if (lat < 33 || lat > 43 || lng < 124 || lng > 132) {
-      console.warn("한국 영역을 벗어난 좌표입니다.", { 
-        원본: { mapx, mapy }, 
-        변환: { lat, lng } 
-      });
-      // 경고만 출력하고 변환된 좌표는 반환 (데이터 오류일 수 있음)
-    }
-
-    return { lat, lng };
-  } catch (error) {
-    console.error("좌표 변환 중 오류 발생:", error, { mapx, mapy });
-    return { lat: 36.5, lng: 127.5 }; // 에러 시 기본값 반환
+  const x = typeof mapx === "number" ? mapx : Number(mapx.trim());
+  const y = typeof mapy === "number" ? mapy : Number(mapy.trim());
+  if (!Number.isFinite(x) || !Number.isFinite(y)) {
+    return { valid: false, reason: "not-a-number" };
   }
-}
 
+  const format = options.format ?? detectCoordinateFormat(x, y);
+  if (!format) {
+    return { valid: false, reason: "unknown-format" };
+  }
+
+  let coord: { lat: number; lng: number };
+  if (format === "WGS84") {
+    coord = { lat: y, lng: x };
+  } else if (format === "WGS84_SCALED") {
+    coord = { lat: y / 10000000, lng: x / 10000000 };
+  } else {
+    const projection = PROJECTIONS[format];
+    const geographic = inverseTransverseMercator(projection, x, y);
+    coord = projection.isBessel ? besselToWGS84(geographic.lat, geographic.lng) : geographic;
+  }
+
+  if (!Number.isFinite(coord.lat) || !Number.isFinite(coord.lng) || !isWithinKorea(coord.lat, coord.lng)) {
+    return { valid: false, reason: "out-of-range", format };
+  }
+
+  return { valid: true, lat: coord.lat, lng: coord.lng, format };
+}
@@ -0,0 +1,178 @@
+/**
+ * @file date-utils.ts
+ * @description 날짜 관련 유틸리티 함수
+ *
+ * 한국관광공사 API의 날짜 형식(YYYYMMDD)과 HTML date input 형식(YYYY-MM-DD) 간 변환,
+ * 축제/행사 진행 여부 판단 등 날짜 관련 기능을 제공합니다.
+ * 날짜 비교는 모두 한국 시간(Asia/Seoul) 기준으로 처리합니다.
+ *
+ * @see {@link /lib/api/tour-api.ts} - searchFestival
+ */
+
+/**
+ * YYYYMMDD 형식 검증 정규식
+ */
+const API_DATE_PATTERN = /^\d{8}$/;
+
+/**
+ * 한국 시간 기준 날짜를 YYYYMMDD 형식으로 변환
+ *
+ * @param date - 변환할 날짜 (기본값: 현재 시각)
+ * @returns YYYYMMDD 형식 문자열
+ *
+ * @example
+ * ```ts
+ * toApiDate(new Date("2025-12-24T20:00:00Z")); // "20251225" (KST 기준)
+ * ```
+ */
+export function toApiDate(date: Date = new Date()): string {
+  // en-CA 로케일은 YYYY-MM-DD 형식을 반환
+  const formatted = new Intl.DateTimeFormat("en-CA", {
+    timeZone: "Asia/Seoul",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+  return formatted.replace(/-/g, "");
+}
+
+/**
+ * YYYYMMDD 형식 문자열인지 확인
+ */
+export function isApiDate(value: string | undefined | null): value is string {
+  return Boolean(value && API_DATE_PATTERN.test(value));
+}
+
+/**
+ * YYYYMMDD를 date input 형식(YYYY-MM-DD)으로 변환
+ *
+ * @param apiDate - YYYYMMDD 형식 문자열
+ * @returns YYYY-MM-DD 형식 문자열 (유효하지 않으면 빈 문자열)
+ */
+export function apiDateToInputValue(apiDate: string | undefined | null): string {
+  if (!isApiDate(apiDate)) {
+    return "";
+  }
+  return `${apiDate.slice(0, 4)}-${apiDate.slice(4, 6)}-${apiDate.slice(6, 8)}`;
+}
+
+/**
+ * date input 형식(YYYY-MM-DD)을 YYYYMMDD로 변환
+ *
+ * @param inputValue - YYYY-MM-DD 형식 문자열
+ * @returns YYYYMMDD 형식 문자열 (유효하지 않으면 빈 문자열)
+ */
+export function inputValueToApiDate(inputValue: string): string {
+  const apiDate = inputValue.replace(/-/g, "");
+  return isApiDate(apiDate) ? apiDate : "";
+}
+
+/**
+ * YYYYMMDD를 표시용 문자열(YYYY.MM.DD)로 변환
+ *
+ * @param apiDate - YYYYMMDD 형식 문자열
+ * @returns 표시용 문자열 또는 null
+ */
+export function formatApiDate(apiDate: string | undefined | null): string | null {
+  if (!isApiDate(apiDate)) {
+    return null;
+  }
+  return `${apiDate.slice(0, 4)}.${apiDate.slice(4, 6)}.${apiDate.slice(6, 8)}`;
+}
+
+/**
+ * 축제/행사 기간 표시 문자열 생성
+ *
+ * @param startDate - 행사 시작일 (YYYYMMDD)
+ * @param endDate - 행사 종료일 (YYYYMMDD)
+ * @returns "2025.10.01 ~ 2025.10.05" 형식 문자열 또는 null
+ */
+export function formatEventPeriod(
+  startDate: string | undefined,
+  endDate: string | undefined
+): string | null {
+  const start = formatApiDate(startDate);
+  const end = formatApiDate(endDate);
+
+  if (start && end) {
+    return start === end ? start : `${start} ~ ${end}`;
+  }
+  return start || end;
+}
+
+/**
+ * 축제/행사가 오늘(한국 시간 기준) 진행 중인지 확인
+ *
+ * @param startDate - 행사 시작일 (YYYYMMDD)
+ * @param endDate - 행사 종료일 (YYYYMMDD, 없으면 시작일 당일만 진행으로 간주)
+ * @param today - 기준일 (YYYYMMDD, 기본값: 오늘)
+ * @returns 진행 중 여부
+ *
+ * @example
+ * ```ts
+ * isEventOngoing("20251001", "20251005", "20251003"); // true
+ * ```
+ */
+export function isEventOngoing(
+  startDate: string | undefined,
+  endDate: string | undefined,
+  today: string = toApiDate()
+): boolean {
+  if (!isApiDate(startDate)) {
+    return false;
+  }
+  const end = isApiDate(endDate) ? endDate : startDate;
+  // YYYYMMDD는 문자열 비교로 날짜 순서 비교 가능
+  return startDate <= today && today <= end;
+}
+
+/**
+ * 다가오는 주말(토~일) 기간 계산 (한국 시간 기준)
+ *
+ * 오늘이 토요일이면 오늘~내일, 일요일이면 오늘 하루를 반환합니다.
+ *
+ * @returns { start, end } YYYYMMDD 형식 주말 기간
+ */
+export function getUpcomingWeekend(): { start: string; end: string } {
+  const today = toApiDate();
+  // 한국 시간 기준 자정으로 Date 생성 (요일 계산용, UTC 기준으로 처리)
+  const base = new Date(
+    Date.UTC(
+      Number(today.slice(0, 4)),
+      Number(today.slice(4, 6)) - 1,
+      Number(today.slice(6, 8))
+    )
+  );
+  const day = base.getUTCDay(); // 0: 일요일, 6: 토요일
+
+  const daysUntilSaturday = day === 0 ? -1 : 6 - day;
+  const saturday = new Date(base.getTime() + daysUntilSaturday * 86400000);
+  const sunday = new Date(saturday.getTime() + 86400000);
+
+  const toUtcApiDate = (date: Date) =>
+    date.toISOString().slice(0, 10).replace(/-/g, "");
+
+  return {
+    start: day === 0 ? today : toUtcApiDate(saturday),
+    end: toUtcApiDate(sunday),
+  };
+}
+
+/**
+ * YYYYMMDD 날짜에 일수 더하기
+ *
+ * @param apiDate - YYYYMMDD 형식 문자열
+ * @param days - 더할 일수 (음수면 이전 날짜)
+ * @returns YYYYMMDD 형식 문자열
+ *
+ * @example
+ * ```ts
+ * addApiDays("20251231", 1); // "20260101"
+ * ```
+ */
+export function addApiDays(apiDate: string, days: number): string {
+  const date = new Date(
+    Date.UTC(Number(apiDate.slice(0, 4)), Number(apiDate.slice(4, 6)) - 1, Number(apiDate.slice(6, 8)) + days)
+  );
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
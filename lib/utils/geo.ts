@@ -0,0 +1,199 @@
+/**
+ * @file geo.ts
+ * @description 측지 계산 유틸리티 (WGS84 위경도)
+ *
+ * 지구를 평균 반지름의 구로 보고 거리, 방위각, 반경 경계 박스를 계산합니다.
+ * 국내 관광지 간 거리(수십 km 이내)에서는 타원체 계산과의 차이가 0.5% 이내입니다.
+ *
+ * 주요 기능:
+ * - 두 좌표 사이 거리 (하버사인 공식)
+ * - 두 좌표 사이 방위각, 방위각/거리로 도착 좌표 계산
+ * - 중심 + 반경을 포함하는 경계 박스
+ * - 다각형 내부 판정
+ *
+ * @see {@link /lib/utils/map-utils.ts} - 관광지 목록 거리 필터/정렬
+ */
+
+/** 지구 평균 반지름 (m) */
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * WGS84 위경도
+ */
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * 위경도 경계 박스
+ */
+export interface GeoBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+const toRadians = (degree: number) => (degree * Math.PI) / 180;
+const toDegrees = (radian: number) => (radian * 180) / Math.PI;
+
+/**
+ * 두 WGS84 좌표 사이의 거리 계산 (하버사인 공식)
+ *
+ * @returns 거리 (미터)
+ *
+ * @example
+ * ```ts
+ * getDistanceMeters(37.5665, 126.978, 35.1796, 129.0756); // 약 325000 (서울시청 ~ 부산시청)
+ * ```
+ */
+export function getDistanceMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+
+  // a가 부동소수점 오차로 1을 넘으면 asin이 NaN이 되므로 보정
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * 출발 좌표에서 도착 좌표를 바라보는 방위각 (대권 항로의 초기 방위각)
+ *
+ * @returns 방위각 (도, 북쪽 0 기준 시계 방향 0 이상 360 미만)
+ *
+ * @example
+ * ```ts
+ * getBearing(37.5665, 126.978, 35.1796, 129.0756); // 약 144 (남동쪽)
+ * ```
+ */
+export function getBearing(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const phi1 = toRadians(lat1);
+  const phi2 = toRadians(lat2);
+  const dLng = toRadians(lng2 - lng1);
+  const y = Math.sin(dLng) * Math.cos(phi2);
+  const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLng);
+
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+}
+
+/**
+ * 출발 좌표에서 방위각 방향으로 일정 거리만큼 이동한 좌표
+ *
+ * @param lat - 출발 위도
+ * @param lng - 출발 경도
+ * @param bearing - 방위각 (도, 북쪽 0 기준 시계 방향)
+ * @param distance - 이동 거리 (미터)
+ * @returns 도착 좌표 (경도는 -180 ~ 180 범위로 정규화)
+ */
+export function getDestinationPoint(
+  lat: number,
+  lng: number,
+  bearing: number,
+  distance: number
+): GeoPoint {
+  const delta = distance / EARTH_RADIUS_METERS;
+  const theta = toRadians(bearing);
+  const phi1 = toRadians(lat);
+  const lambda1 = toRadians(lng);
+
+  const phi2 = Math.asin(
+    Math.sin(phi1) * Math.cos(delta) + Math.cos(phi1) * Math.sin(delta) * Math.cos(theta)
+  );
+  const lambda2 =
+    lambda1 +
+    Math.atan2(
+      Math.sin(theta) * Math.sin(delta) * Math.cos(phi1),
+      Math.cos(delta) - Math.sin(phi1) * Math.sin(phi2)
+    );
+
+  return {
+    lat: toDegrees(phi2),
+    lng: ((toDegrees(lambda2) + 540) % 360) - 180,
+  };
+}
+
+/**
+ * 중심 좌표에서 반경 안의 모든 지점을 포함하는 경계 박스
+ *
+ * 거리 계산 전에 후보를 빠르게 거르는 용도입니다.
+ * 극지방을 포함하면 경도 전체 범위를, 날짜 변경선을 넘으면 minLng > maxLng인 박스를 반환합니다.
+ *
+ * @param lat - 중심 위도
+ * @param lng - 중심 경도
+ * @param radius - 반경 (미터)
+ *
+ * @example
+ * ```ts
+ * getBoundingBoxFromRadius(37.5665, 126.978, 1000);
+ * // { minLat: 37.5575, maxLat: 37.5755, minLng: 126.9667, maxLng: 126.9893 }
+ * ```
+ */
+export function getBoundingBoxFromRadius(lat: number, lng: number, radius: number): GeoBounds {
+  const delta = radius / EARTH_RADIUS_METERS;
+  const phi = toRadians(lat);
+  const minPhi = phi - delta;
+  const maxPhi = phi + delta;
+
+  // 극점을 포함하면 모든 경도가 범위 안에 들어감
+  if (maxPhi >= Math.PI / 2 || minPhi <= -Math.PI / 2) {
+    return {
+      minLat: Math.max(toDegrees(minPhi), -90),
+      maxLat: Math.min(toDegrees(maxPhi), 90),
+      minLng: -180,
+      maxLng: 180,
+    };
+  }
+
+  const dLng = toDegrees(Math.asin(Math.sin(delta) / Math.cos(phi)));
+  const normalize = (value: number) => ((value + 540) % 360) - 180;
+
+  return {
+    minLat: toDegrees(minPhi),
+    maxLat: toDegrees(maxPhi),
+    minLng: normalize(lng - dLng),
+    maxLng: normalize(lng + dLng),
+  };
+}
+
+/**
+ * 좌표가 다각형 내부에 있는지 판정 (Ray casting)
+ *
+ * 위경도를 평면 좌표로 보고 계산하므로 날짜 변경선을 넘는 다각형은 지원하지 않습니다.
+ * 경계선 위의 점은 내부/외부가 일정하지 않을 수 있습니다.
+ *
+ * @param point - 판정할 좌표
+ * @param polygon - 다각형 꼭짓점 (닫지 않아도 됨, 3개 미만이면 항상 false)
+ *
+ * @example
+ * ```ts
+ * const jeju = [
+ *   { lat: 33.1, lng: 126.1 },
+ *   { lat: 33.1, lng: 127.0 },
+ *   { lat: 33.6, lng: 127.0 },
+ *   { lat: 33.6, lng: 126.1 },
+ * ];
+ * isPointInPolygon({ lat: 33.4996, lng: 126.5312 }, jeju); // true
+ * ```
+ */
+export function isPointInPolygon(point: GeoPoint, polygon: GeoPoint[]): boolean {
+  if (polygon.length < 3) {
+    return false;
+  }
+
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses =
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
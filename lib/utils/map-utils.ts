@@ -3,17 +3,23 @@
  * @description 지도 관련 유틸리티 함수
  *
  * 관광지 목록의 중심 좌표를 계산하고, 지도 초기화에 필요한 좌표를 제공합니다.
+ * 지도 화면 영역을 위치 기반 조회 범위(중심 + 반경)로 변환합니다.
+ * 현재 목록을 기준 위치로부터의 거리로 필터링/정렬합니다.
  *
  * @see {@link /docs/PRD.md} - MVP 2.2 네이버 지도 연동
+ * @see {@link /lib/utils/geo.ts} - 거리/방위각 등 측지 계산
  */
 
-import { convertKATECToWGS84 } from "./coordinate";
+import { convertToWGS84 } from "./coordinate";
+import { getBoundingBoxFromRadius, getDistanceMeters } from "./geo";
+import { LOCATION_RADIUS } from "@/lib/types/tour";
 import type { TourItem } from "@/lib/types/tour";
 
 /**
  * 관광지 목록의 중심 좌표를 계산
  *
  * 관광지 목록의 모든 좌표의 평균값을 계산하여 중심 좌표를 반환합니다.
+ * 좌표가 유효하지 않은 관광지(convertToWGS84 결과 valid: false)는 제외합니다.
  * 빈 목록이거나 유효한 좌표가 없는 경우 한국 중심 좌표를 반환합니다.
  *
  * @param tours - 관광지 목록
@@ -37,17 +43,9 @@ export function calculateCenterFromTours(
   const validCoords: { lat: number; lng: number }[] = [];
 
   for (const tour of tours) {
-    if (tour.mapx && tour.mapy) {
-      try {
-        const coord = convertKATECToWGS84(tour.mapx, tour.mapy);
-        // 한국 영역 내 좌표만 사용 (위도 33-43, 경도 124-132)
-        if (coord.lat >= 33 && coord.lat <= 43 && coord.lng >= 124 && coord.lng <= 132) {
-          validCoords.push(coord);
-        }
-      } catch (error) {
-        // 좌표 변환 실패 시 해당 관광지 제외
-        console.warn("좌표 변환 실패:", tour.contentid, error);
-      }
+    const coord = convertToWGS84(tour.mapx, tour.mapy);
+    if (coord.valid) {
+      validCoords.push({ lat: coord.lat, lng: coord.lng });
     }
   }
 
@@ -71,6 +69,7 @@ export function calculateCenterFromTours(
  *
  * 관광지 목록의 최소/최대 좌표를 계산하여 경계 박스를 반환합니다.
  * 지도 줌 레벨 설정에 활용할 수 있습니다.
+ * 좌표가 유효하지 않은 관광지는 제외합니다.
  *
  * @param tours - 관광지 목록
  * @returns 경계 박스 { minLat, maxLat, minLng, maxLng } 또는 null
@@ -88,15 +87,9 @@ export function calculateBoundsFromTours(tours: TourItem[]): {
   const validCoords: { lat: number; lng: number }[] = [];
 
   for (const tour of tours) {
-    if (tour.mapx && tour.mapy) {
-      try {
-        const coord = convertKATECToWGS84(tour.mapx, tour.mapy);
-        if (coord.lat >= 33 && coord.lat <= 43 && coord.lng >= 124 && coord.lng <= 132) {
-          validCoords.push(coord);
-        }
-      } catch (error) {
-        // 좌표 변환 실패 시 제외
-      }
+    const coord = convertToWGS84(tour.mapx, tour.mapy);
+    if (coord.valid) {
+      validCoords.push({ lat: coord.lat, lng: coord.lng });
     }
   }
 
@@ -120,3 +113,185 @@ export function calculateBoundsFromTours(tours: TourItem[]): {
 
 
 
+
+/**
+ * 거리(미터)를 사람이 읽기 쉬운 문자열로 변환
+ *
+ * 1km 미만은 미터 단위 정수로, 1km 이상은 소수점 첫째 자리까지 km 단위로 표시합니다.
+ *
+ * @param meters - 거리 (미터, 숫자 또는 숫자 문자열)
+ * @returns 표시용 거리 문자열 또는 null (유효하지 않은 값)
+ *
+ * @example
+ * ```ts
+ * formatDistance("352.7"); // "353m"
+ * formatDistance(1520);    // "1.5km"
+ * ```
+ */
+export function formatDistance(meters: number | string | undefined): string | null {
+  if (meters === undefined || meters === null || meters === "") {
+    return null;
+  }
+
+  const value = typeof meters === "number" ? meters : parseFloat(meters);
+  if (!Number.isFinite(value) || value < 0) {
+    return null;
+  }
+
+  if (value < 1000) {
+    return `${Math.round(value)}m`;
+  }
+
+  return `${(value / 1000).toFixed(1)}km`;
+}
+
+/**
+ * 위치 기반 조회 범위 (중심 좌표 + 반경)
+ */
+export interface SearchArea {
+  lat: number;
+  lng: number;
+  /** 반경 (미터) */
+  radius: number;
+}
+
+/**
+ * 지도 화면 영역을 위치 기반 조회 범위로 변환
+ *
+ * 화면 중심에서 가장 먼 모서리까지의 거리를 반경으로 사용하여 화면 전체를 포함합니다.
+ * 반경은 100m 단위로 올림하며, locationBasedList2 최대 반경(20km)을 넘지 않습니다.
+ *
+ * @param bounds - 지도 화면 경계 (위경도)
+ * @returns 조회 범위
+ *
+ * @example
+ * ```ts
+ * const sw = map.getBounds().getSW();
+ * const ne = map.getBounds().getNE();
+ * getSearchAreaFromBounds({ minLat: sw.lat(), maxLat: ne.lat(), minLng: sw.lng(), maxLng: ne.lng() });
+ * // { lat: 37.5665, lng: 126.978, radius: 4300 }
+ * ```
+ */
+export function getSearchAreaFromBounds(bounds: {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}): SearchArea {
+  const lat = (bounds.minLat + bounds.maxLat) / 2;
+  const lng = (bounds.minLng + bounds.maxLng) / 2;
+
+  const cornerDistance = Math.max(
+    getDistanceMeters(lat, lng, bounds.maxLat, bounds.maxLng),
+    getDistanceMeters(lat, lng, bounds.minLat, bounds.minLng)
+  );
+  const radius = Math.min(
+    Math.max(Math.ceil(cornerDistance / 100) * 100, 100),
+    LOCATION_RADIUS.MAX
+  );
+
+  return { lat, lng, radius };
+}
+
+/**
+ * 거리 필터 반경 상수 (미터)
+ *
+ * 현재 목록을 브라우저에서 거르므로 locationBasedList2 최대 반경(20km)보다 넓게 허용합니다.
+ */
+export const DISTANCE_FILTER_RADIUS = {
+  MIN: 100,
+  DEFAULT: 5000,
+  MAX: 50000,
+} as const;
+
+/**
+ * 거리 필터 기준 위치
+ * - map: 지도 중심
+ * - place: 선택한 관광지
+ * - user: 현재 위치
+ * - custom: 지도에서 반경 원을 끌어 옮긴 위치
+ */
+export type DistanceOrigin = "map" | "place" | "user" | "custom";
+
+/**
+ * 현재 목록의 거리 필터/정렬 조건
+ */
+export interface DistanceFilter {
+  origin: DistanceOrigin;
+  /** 기준 위도 (WGS84) */
+  lat: number;
+  /** 기준 경도 (WGS84) */
+  lng: number;
+  /** 반경 (미터, null이면 거르지 않고 거리만 표시) */
+  radius: number | null;
+  /** 가까운 순으로 정렬할지 여부 */
+  sortByDistance: boolean;
+}
+
+/**
+ * 관광지 목록에 거리 필터/정렬 적용
+ *
+ * 각 관광지의 dist를 기준 위치로부터의 거리(미터)로 바꿔 카드에 표시되도록 합니다.
+ * 반경이 있으면 좌표가 유효하지 않은 관광지는 제외하고,
+ * 거리순 정렬만 할 때는 목록 끝에 원래 순서대로 둡니다.
+ * 거리가 같으면 원래 순서(API 정렬 순서)를 유지합니다.
+ *
+ * @param tours - 관광지 목록
+ * @param filter - 거리 필터 조건
+ * @returns 필터/정렬된 새 목록 (원본은 변경하지 않음)
+ *
+ * @example
+ * ```ts
+ * applyDistanceFilter(tours, {
+ *   origin: "user",
+ *   lat: 37.5665,
+ *   lng: 126.978,
+ *   radius: 3000,
+ *   sortByDistance: true,
+ * });
+ * ```
+ */
+export function applyDistanceFilter(tours: TourItem[], filter: DistanceFilter): TourItem[] {
+  // 반경 밖이 확실한 관광지는 거리 계산 전에 제외
+  const box = filter.radius !== null ? getBoundingBoxFromRadius(filter.lat, filter.lng, filter.radius) : null;
+  const isOutsideBox = (lat: number, lng: number) => {
+    if (!box) return false;
+    if (lat < box.minLat || lat > box.maxLat) return true;
+    // 날짜 변경선을 넘는 박스는 minLng > maxLng
+    return box.minLng <= box.maxLng
+      ? lng < box.minLng || lng > box.maxLng
+      : lng < box.minLng && lng > box.maxLng;
+  };
+
+  const measured: { tour: TourItem; distance: number | null }[] = [];
+  for (const tour of tours) {
+    const coord = convertToWGS84(tour.mapx, tour.mapy);
+    if (!coord.valid) {
+      // 위치 기반 조회의 dist는 다른 기준 위치의 거리이므로 표시하지 않음
+      if (!box) measured.push({ tour: { ...tour, dist: undefined }, distance: null });
+      continue;
+    }
+
+    if (isOutsideBox(coord.lat, coord.lng)) {
+      continue;
+    }
+
+    const distance = getDistanceMeters(filter.lat, filter.lng, coord.lat, coord.lng);
+    if (filter.radius !== null && distance > filter.radius) {
+      continue;
+    }
+    measured.push({ tour: { ...tour, dist: distance.toFixed(2) }, distance });
+  }
+
+  if (filter.sortByDistance) {
+    // Array.prototype.sort는 안정 정렬이므로 거리가 같으면 원래 순서 유지
+    measured.sort((a, b) => {
+      if (a.distance === null || b.distance === null) {
+        return (a.distance === null ? 1 : 0) - (b.distance === null ? 1 : 0);
+      }
+      return a.distance - b.distance;
+    });
+  }
+
+  return measured.map((entry) => entry.tour);
+}
@@ -0,0 +1,170 @@
+/**
+ * @file marker-cluster.ts
+ * @description 지도 마커 클러스터링 유틸리티
+ *
+ * 줌 레벨에 따라 화면상 가까운 마커를 하나의 클러스터로 묶습니다.
+ * 지도 SDK에 의존하지 않는 순수 함수로 구현되어 있습니다.
+ *
+ * 동작 방식:
+ * - 위경도를 Web Mercator 월드 픽셀 좌표로 변환 (줌 레벨이 1 오를 때마다 2배)
+ * - gridSize(px) 크기의 격자 칸에 들어간 마커를 하나의 클러스터로 묶음
+ * - maxZoom 이상에서는 클러스터링하지 않고 모든 마커를 개별 표시
+ *
+ * @see {@link /components/naver-map.tsx} - 관광지 목록 지도
+ */
+
+/**
+ * 클러스터링 대상 좌표
+ */
+export interface ClusterPoint<T> {
+  /** 고유 ID (관광지 콘텐츠 ID 등) */
+  id: string;
+  lat: number;
+  lng: number;
+  data: T;
+}
+
+/**
+ * 클러스터 (points가 1개면 개별 마커로 표시)
+ */
+export interface MarkerCluster<T> {
+  /** 클러스터 키 (같은 줌 레벨에서 같은 격자 칸이면 동일) */
+  key: string;
+  /** 클러스터 중심 좌표 (포함된 좌표의 평균) */
+  lat: number;
+  lng: number;
+  points: ClusterPoint<T>[];
+  /** 포함된 좌표의 경계 박스 (클릭 시 확대 범위) */
+  bounds: {
+    minLat: number;
+    maxLat: number;
+    minLng: number;
+    maxLng: number;
+  };
+}
+
+/**
+ * 클러스터링 옵션
+ */
+export interface ClusterOptions {
+  /** 격자 크기 (px, 기본값: 60) */
+  gridSize?: number;
+  /** 이 줌 레벨 이상에서는 클러스터링하지 않음 (기본값: 15) */
+  maxZoom?: number;
+  /** 클러스터로 묶을 최소 마커 수 (기본값: 2) */
+  minClusterSize?: number;
+}
+
+export const DEFAULT_CLUSTER_OPTIONS: Required<ClusterOptions> = {
+  gridSize: 60,
+  maxZoom: 15,
+  minClusterSize: 2,
+};
+
+/** 줌 레벨 0의 월드 크기 (px) */
+const TILE_SIZE = 256;
+
+/**
+ * 위경도를 Web Mercator 월드 픽셀 좌표로 변환
+ */
+function toWorldPixel(lat: number, lng: number, zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  // 극지방에서 무한대가 되지 않도록 sin 값 제한
+  const sinLat = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999);
+
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+}
+
+/**
+ * 단일 좌표 클러스터 생성
+ */
+function toSingleCluster<T>(point: ClusterPoint<T>): MarkerCluster<T> {
+  return {
+    key: point.id,
+    lat: point.lat,
+    lng: point.lng,
+    points: [point],
+    bounds: {
+      minLat: point.lat,
+      maxLat: point.lat,
+      minLng: point.lng,
+      maxLng: point.lng,
+    },
+  };
+}
+
+/**
+ * 좌표 목록을 줌 레벨에 맞게 클러스터링
+ *
+ * @param points - 클러스터링할 좌표 목록
+ * @param zoom - 현재 지도 줌 레벨
+ * @param options - 클러스터링 옵션
+ * @returns 클러스터 목록 (묶이지 않은 좌표는 points가 1개인 클러스터)
+ *
+ * @example
+ * ```ts
+ * const clusters = clusterPoints(points, map.getZoom());
+ * clusters.forEach((cluster) => {
+ *   if (cluster.points.length === 1) {
+ *     // 개별 마커 표시
+ *   } else {
+ *     // 개수 버블 표시
+ *   }
+ * });
+ * ```
+ */
+export function clusterPoints<T>(
+  points: ClusterPoint<T>[],
+  zoom: number,
+  options: ClusterOptions = {}
+): MarkerCluster<T>[] {
+  const { gridSize, maxZoom, minClusterSize } = { ...DEFAULT_CLUSTER_OPTIONS, ...options };
+
+  // 충분히 확대된 상태에서는 모든 마커를 개별 표시
+  if (zoom >= maxZoom) {
+    return points.map(toSingleCluster);
+  }
+
+  // 격자 칸별로 좌표 분류
+  const cells = new Map<string, ClusterPoint<T>[]>();
+  for (const point of points) {
+    const pixel = toWorldPixel(point.lat, point.lng, zoom);
+    const cellKey = `${zoom}:${Math.floor(pixel.x / gridSize)}:${Math.floor(pixel.y / gridSize)}`;
+    const cell = cells.get(cellKey);
+    if (cell) {
+      cell.push(point);
+    } else {
+      cells.set(cellKey, [point]);
+    }
+  }
+
+  const clusters: MarkerCluster<T>[] = [];
+  cells.forEach((cellPoints, cellKey) => {
+    // 최소 개수 미만이면 개별 마커로 표시
+    if (cellPoints.length < minClusterSize) {
+      clusters.push(...cellPoints.map(toSingleCluster));
+      return;
+    }
+
+    const lats = cellPoints.map((point) => point.lat);
+    const lngs = cellPoints.map((point) => point.lng);
+
+    clusters.push({
+      key: cellKey,
+      lat: lats.reduce((sum, lat) => sum + lat, 0) / cellPoints.length,
+      lng: lngs.reduce((sum, lng) => sum + lng, 0) / cellPoints.length,
+      points: cellPoints,
+      bounds: {
+        minLat: Math.min(...lats),
+        maxLat: Math.max(...lats),
+        minLng: Math.min(...lngs),
+        maxLng: Math.max(...lngs),
+      },
+    });
+  });
+
+  return clusters;
+}
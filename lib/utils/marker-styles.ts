@@ -0,0 +1,198 @@
+/**
+ * @file marker-styles.ts
+ * @description 관광지 지도 마커 스타일 (콘텐츠 타입별 색상/아이콘, 라이트/다크 테마)
+ *
+ * 콘텐츠 타입마다 핀 색상과 아이콘(글리프)을 정해 지도에서 관광 타입을 구분할 수 있게 합니다.
+ * 마커 아이콘과 지도 범례가 같은 스타일을 사용하도록 이 모듈에서만 정의합니다.
+ *
+ * 스타일 규칙:
+ * - 알 수 없는 콘텐츠 타입(교통 등)은 "other" 스타일로 표시
+ * - 다크 테마에서는 어두운 지도 위에서 잘 보이도록 밝은 색상과 어두운 테두리 사용
+ * - 선택된 마커는 타입 색상을 유지한 채 크기를 키우고 강조 테두리를 표시
+ *
+ * 글리프는 lucide 아이콘(24x24, stroke 기반)의 경로를 사용합니다.
+ *
+ * @see {@link /components/naver-map.tsx} - 관광지 목록 지도
+ * @see {@link /components/map-legend.tsx} - 지도 범례
+ */
+
+import { CONTENT_TYPE, type ContentTypeId } from "@/lib/types/tour";
+import type { MapMarkerIcon } from "@/lib/maps";
+
+/**
+ * 마커 스타일 키 (콘텐츠 타입 ID 또는 기타)
+ */
+export type MarkerTypeKey = ContentTypeId | "other";
+
+/**
+ * 콘텐츠 타입별 마커 스타일
+ */
+interface MarkerTypeStyle {
+  /** 라이트 테마 색상 */
+  color: string;
+  /** 다크 테마 색상 */
+  darkColor: string;
+  /** 아이콘 SVG 요소 (24x24 viewBox, stroke 기반) */
+  glyph: string;
+}
+
+/**
+ * 테마별 마커 공통 색상
+ */
+export interface MarkerTheme {
+  /** 핀 테두리 */
+  pinStroke: string;
+  /** 핀 안쪽 원 (글리프 배경) */
+  pinInner: string;
+  /** 선택된 마커 강조 테두리 */
+  selectedRing: string;
+  /** 클러스터 버블 배경 */
+  clusterFill: string;
+  /** 클러스터 버블 테두리 */
+  clusterBorder: string;
+  /** 클러스터 버블 글자 */
+  clusterText: string;
+}
+
+/**
+ * 콘텐츠 타입별 마커 스타일 (범례 표시 순서)
+ */
+const MARKER_TYPE_STYLES: Record<MarkerTypeKey, MarkerTypeStyle> = {
+  [CONTENT_TYPE.TOURIST_SPOT]: {
+    color: "#16a34a", // 초록
+    darkColor: "#4ade80",
+    glyph: '<path d="m8 3 4 8 5-5 5 15H2L8 3z"/>', // mountain
+  },
+  [CONTENT_TYPE.CULTURAL_FACILITY]: {
+    color: "#9333ea", // 보라
+    darkColor: "#c084fc",
+    glyph: '<path d="M3 22h18M6 18v-7M10 18v-7M14 18v-7M18 18v-7M12 2l8 5H4z"/>', // landmark
+  },
+  [CONTENT_TYPE.FESTIVAL]: {
+    color: "#db2777", // 분홍
+    darkColor: "#f472b6",
+    glyph:
+      '<path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z"/>', // star
+  },
+  [CONTENT_TYPE.TRAVEL_COURSE]: {
+    color: "#0d9488", // 청록
+    darkColor: "#2dd4bf",
+    glyph:
+      '<circle cx="6" cy="19" r="3"/><path d="M9 19h8.5a3.5 3.5 0 0 0 0-7h-11a3.5 3.5 0 0 1 0-7H15"/><circle cx="18" cy="5" r="3"/>', // route
+  },
+  [CONTENT_TYPE.LEISURE_SPORTS]: {
+    color: "#0284c7", // 하늘
+    darkColor: "#38bdf8",
+    glyph:
+      '<circle cx="5.5" cy="17.5" r="3.5"/><circle cx="18.5" cy="17.5" r="3.5"/><circle cx="15" cy="5" r="1"/><path d="M12 17.5V14l-3-3 4-3 2 3h2"/>', // bike
+  },
+  [CONTENT_TYPE.ACCOMMODATION]: {
+    color: "#4f46e5", // 남색
+    darkColor: "#818cf8",
+    glyph: '<path d="M2 4v16M2 8h18a2 2 0 0 1 2 2v10M2 17h20M6 8v9"/>', // bed
+  },
+  [CONTENT_TYPE.SHOPPING]: {
+    color: "#d97706", // 호박
+    darkColor: "#fbbf24",
+    glyph:
+      '<path d="M6 2 3 6v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2V6l-3-4z"/><path d="M3 6h18M16 10a4 4 0 0 1-8 0"/>', // shopping-bag
+  },
+  [CONTENT_TYPE.RESTAURANT]: {
+    color: "#ea580c", // 주황
+    darkColor: "#fb923c",
+    glyph:
+      '<path d="M3 2v7c0 1.1.9 2 2 2h4a2 2 0 0 0 2-2V2M7 2v20M21 15V2a5 5 0 0 0-5 5v6c0 1.1.9 2 2 2h3zm0 0v7"/>', // utensils
+  },
+  other: {
+    color: "#6b7280", // 회색
+    darkColor: "#9ca3af",
+    glyph: '<circle cx="12" cy="12" r="4"/>',
+  },
+};
+
+const LIGHT_THEME: MarkerTheme = {
+  pinStroke: "#ffffff",
+  pinInner: "#ffffff",
+  selectedRing: "#111827",
+  clusterFill: "rgba(59, 130, 246, 0.85)",
+  clusterBorder: "rgba(255, 255, 255, 0.9)",
+  clusterText: "#ffffff",
+};
+
+const DARK_THEME: MarkerTheme = {
+  pinStroke: "#111827",
+  pinInner: "#1f2937",
+  selectedRing: "#f9fafb",
+  clusterFill: "rgba(30, 41, 59, 0.9)",
+  clusterBorder: "rgba(96, 165, 250, 0.9)",
+  clusterText: "#f9fafb",
+};
+
+/** 범례에 표시할 마커 스타일 키 (표시 순서) */
+export const MARKER_TYPE_KEYS = Object.keys(MARKER_TYPE_STYLES) as MarkerTypeKey[];
+
+/**
+ * 콘텐츠 타입 ID를 마커 스타일 키로 변환
+ *
+ * @example
+ * ```ts
+ * getMarkerTypeKey("39"); // "39"
+ * getMarkerTypeKey("77"); // "other" (교통)
+ * ```
+ */
+export function getMarkerTypeKey(contentTypeId: string): MarkerTypeKey {
+  return contentTypeId in MARKER_TYPE_STYLES ? (contentTypeId as MarkerTypeKey) : "other";
+}
+
+/**
+ * 테마별 마커 공통 색상
+ */
+export function getMarkerTheme(isDark: boolean): MarkerTheme {
+  return isDark ? DARK_THEME : LIGHT_THEME;
+}
+
+/**
+ * 콘텐츠 타입의 마커 색상 (범례 색상 견본에도 사용)
+ */
+export function getMarkerColor(contentTypeId: string, isDark: boolean): string {
+  const style = MARKER_TYPE_STYLES[getMarkerTypeKey(contentTypeId)];
+  return isDark ? style.darkColor : style.color;
+}
+
+/**
+ * 관광지 마커 아이콘 (SVG 핀, 핀 끝이 좌표를 가리키도록 하단 중앙 기준)
+ *
+ * @param contentTypeId - 콘텐츠 타입 ID
+ * @param options.isSelected - 선택된 관광지 여부 (크게 표시하고 강조 테두리 추가)
+ * @param options.isDark - 다크 테마 여부
+ */
+export function getTourMarkerIcon(
+  contentTypeId: string,
+  { isSelected, isDark }: { isSelected: boolean; isDark: boolean }
+): MapMarkerIcon {
+  const style = MARKER_TYPE_STYLES[getMarkerTypeKey(contentTypeId)];
+  const theme = getMarkerTheme(isDark);
+  const color = isDark ? style.darkColor : style.color;
+  // viewBox(32x42)와 같은 비율로 크기 지정 (기본 약 29x38px)
+  const scale = isSelected ? 1.2 : 0.9;
+  const width = Math.round(32 * scale);
+  const height = Math.round(42 * scale);
+  // 선택된 마커는 테마 대비 색상의 두꺼운 테두리로 강조
+  const stroke = isSelected ? theme.selectedRing : theme.pinStroke;
+  const strokeWidth = isSelected ? 2.5 : 1.5;
+
+  return {
+    html: `
+      <svg width="${width}" height="${height}" viewBox="-2 -2 32 42" fill="none" xmlns="http://www.w3.org/2000/svg" style="filter: drop-shadow(0 1px 2px rgba(0, 0, 0, 0.35));">
+        <path d="M14 0C6.268 0 0 6.268 0 14c0 9.917 14 24 14 24s14-14.083 14-24C28 6.268 21.732 0 14 0z" fill="${color}" stroke="${stroke}" stroke-width="${strokeWidth}"/>
+        <circle cx="14" cy="14" r="9" fill="${theme.pinInner}"/>
+        <g transform="translate(8 8) scale(0.5)" stroke="${color}" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round">
+          ${style.glyph}
+        </g>
+      </svg>
+    `,
+    size: { width, height },
+    // viewBox 여백(2)을 빼고 핀 끝(14, 38)을 기준점으로 사용
+    anchor: { x: (16 / 32) * width, y: (40 / 42) * height },
+  };
+}
@@ -0,0 +1,272 @@
+/**
+ * @file merged-pagination.ts
+ * @description 다중 조회 병합 페이지네이션 유틸리티
+ *
+ * 한국관광공사 API는 지역 코드/콘텐츠 타입을 하나씩만 받기 때문에,
+ * 여러 지역·타입을 동시에 선택하면 조합마다 따로 조회한 뒤 결과를 합쳐야 합니다.
+ * 각 조회의 페이지 상태와 미사용 항목(buffer)을 추적하면서
+ * 선택한 정렬 순서대로 결과를 하나의 목록으로 병합합니다.
+ *
+ * 상태 객체는 직렬화 가능한 순수 데이터이므로,
+ * 서버 컴포넌트에서 첫 페이지를 만든 뒤 클라이언트 컴포넌트로 그대로 넘길 수 있습니다.
+ *
+ * @see {@link /components/tour-list-container.tsx} - 무한 스크롤 병합 로드
+ */
+
+import { MULTI_SELECT_MAX } from "@/lib/types/tour";
+import type { PaginationResponse, TourArrange, TourItem } from "@/lib/types/tour";
+
+/**
+ * 개별 조회 조건 (지역 코드 × 콘텐츠 타입 조합)
+ */
+export interface MergedQuery {
+  /** 지역 코드 */
+  areaCode?: string;
+  /** 콘텐츠 타입 ID */
+  contentTypeId?: string;
+}
+
+/**
+ * 개별 조회의 페이지네이션 상태
+ */
+export interface MergedQueryState extends MergedQuery {
+  /** 마지막으로 조회한 페이지 번호 (0: 아직 조회하지 않음) */
+  pageNo: number;
+  /** 전체 페이지 수 (조회 전에는 1로 가정) */
+  totalPages: number;
+  /** 전체 결과 수 */
+  totalCount: number;
+  /** 조회했지만 아직 목록에 반영하지 않은 항목 */
+  buffer: TourItem[];
+  /** 목록에 반영한 항목 수 (정렬 기준이 같을 때 번갈아 배치하는 데 사용) */
+  emitted: number;
+}
+
+/**
+ * 병합 목록 상태
+ */
+export interface MergedListState {
+  /** 조회 조합별 상태 */
+  queries: MergedQueryState[];
+  /** 병합 목록의 현재 페이지 번호 */
+  pageNo: number;
+  /** 병합 목록의 페이지당 항목 수 */
+  numOfRows: number;
+}
+
+/**
+ * 개별 조회 함수 (조회 조건과 페이지 번호를 받아 한 페이지를 반환)
+ */
+export type MergedQueryFetcher = (
+  query: MergedQuery,
+  pageNo: number,
+  numOfRows: number
+) => Promise<PaginationResponse<TourItem>>;
+
+/**
+ * 쉼표로 구분된 다중 선택 값을 배열로 변환
+ *
+ * 중복과 빈 값을 제거하고 최대 선택 개수(MULTI_SELECT_MAX)까지만 사용합니다.
+ *
+ * @param value - URL 쿼리 파라미터 값 (예: "1,6")
+ * @returns 선택 값 배열
+ *
+ * @example
+ * ```ts
+ * parseMultiValue("1,6"); // ["1", "6"]
+ * parseMultiValue(undefined); // []
+ * ```
+ */
+export function parseMultiValue(value: string | string[] | undefined | null): string[] {
+  if (!value) {
+    return [];
+  }
+  const raw = Array.isArray(value) ? value.join(",") : value;
+  const values = raw
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+  return Array.from(new Set(values)).slice(0, MULTI_SELECT_MAX);
+}
+
+/**
+ * 병합 목록 초기 상태 생성
+ *
+ * 지역 코드와 콘텐츠 타입의 모든 조합을 개별 조회로 만듭니다.
+ * 선택하지 않은 필터는 "전체"로 취급합니다.
+ *
+ * @param params.areaCodes - 선택한 지역 코드 목록
+ * @param params.contentTypeIds - 선택한 콘텐츠 타입 ID 목록
+ * @param params.numOfRows - 병합 목록의 페이지당 항목 수 (기본값: 10)
+ * @returns 병합 목록 상태
+ */
+export function createMergedListState(params: {
+  areaCodes: string[];
+  contentTypeIds: string[];
+  numOfRows?: number;
+}): MergedListState {
+  const { areaCodes, contentTypeIds, numOfRows = 10 } = params;
+  const areaOptions = areaCodes.length > 0 ? areaCodes : [undefined];
+  const typeOptions = contentTypeIds.length > 0 ? contentTypeIds : [undefined];
+
+  const queries: MergedQueryState[] = [];
+  for (const areaCode of areaOptions) {
+    for (const contentTypeId of typeOptions) {
+      queries.push({
+        areaCode,
+        contentTypeId,
+        pageNo: 0,
+        totalPages: 1,
+        totalCount: 0,
+        buffer: [],
+        emitted: 0,
+      });
+    }
+  }
+
+  return { queries, pageNo: 0, numOfRows };
+}
+
+/**
+ * 정렬 구분(arrange)에 맞는 항목 비교 함수
+ *
+ * API가 각 조회 결과를 정렬해서 반환하므로, 병합 시에도 같은 기준으로 비교합니다.
+ * 비교 결과가 같으면 0을 반환하며, 이때는 조회별로 번갈아 배치합니다.
+ */
+function getArrangeComparator(arrange: TourArrange | undefined) {
+  const compareTime = (a?: string, b?: string) => Number(b || 0) - Number(a || 0);
+
+  switch (arrange) {
+    case "A":
+    case "O":
+      // 제목순
+      return (a: TourItem, b: TourItem) => a.title.localeCompare(b.title, "ko");
+    case "C":
+    case "Q":
+      // 수정일순 (최신 우선)
+      return (a: TourItem, b: TourItem) => compareTime(a.modifiedtime, b.modifiedtime);
+    case "D":
+    case "R":
+      // 생성일순 (최신 우선)
+      return (a: TourItem, b: TourItem) => compareTime(a.createdtime, b.createdtime);
+    case "E":
+    case "S":
+      // 거리순 (가까운 순)
+      return (a: TourItem, b: TourItem) =>
+        parseFloat(a.dist || "Infinity") - parseFloat(b.dist || "Infinity");
+    default:
+      return () => 0;
+  }
+}
+
+/**
+ * 개별 조회에 남은 페이지가 있는지 확인
+ */
+function hasMorePages(query: MergedQueryState): boolean {
+  return query.pageNo < query.totalPages;
+}
+
+/**
+ * 병합 목록 전체 페이지네이션 메타데이터 계산
+ */
+function getMergedPagination(state: MergedListState) {
+  const totalCount = state.queries.reduce((sum, query) => sum + query.totalCount, 0);
+  const exhausted = state.queries.every(
+    (query) => query.buffer.length === 0 && !hasMorePages(query)
+  );
+  const estimatedPages = state.numOfRows > 0 ? Math.ceil(totalCount / state.numOfRows) : 0;
+
+  return {
+    pageNo: state.pageNo,
+    numOfRows: state.numOfRows,
+    totalCount,
+    // 모든 조회가 끝났으면 현재 페이지가 마지막 페이지
+    totalPages: exhausted ? state.pageNo : Math.max(estimatedPages, state.pageNo + 1),
+  };
+}
+
+/**
+ * 병합 목록의 다음 페이지 조회
+ *
+ * 버퍼가 빈 조회만 다음 페이지를 가져오고(병렬 호출),
+ * 모든 조회의 버퍼 맨 앞 항목 중 정렬 순서상 가장 앞선 항목을 하나씩 꺼내
+ * numOfRows개가 될 때까지 반복합니다 (k-way merge).
+ *
+ * 전달받은 상태는 변경하지 않고, 갱신된 상태를 새 객체로 반환합니다.
+ *
+ * @param state - 현재 병합 목록 상태
+ * @param fetcher - 개별 조회 함수
+ * @param arrange - 정렬 구분 (각 조회에 사용한 값과 같아야 함)
+ * @returns 다음 페이지 항목, 페이지네이션 메타데이터, 갱신된 상태
+ *
+ * @example
+ * ```ts
+ * const state = createMergedListState({ areaCodes: ["1", "6"], contentTypeIds: ["39"] });
+ * const { items, pagination, state: nextState } = await fetchMergedPage(
+ *   state,
+ *   (query, pageNo, numOfRows) =>
+ *     getAreaBasedListWithPagination({ ...query, arrange: "C", pageNo, numOfRows }),
+ *   "C"
+ * );
+ * ```
+ */
+export async function fetchMergedPage(
+  state: MergedListState,
+  fetcher: MergedQueryFetcher,
+  arrange?: TourArrange
+): Promise<PaginationResponse<TourItem> & { state: MergedListState }> {
+  const queries = state.queries.map((query) => ({ ...query, buffer: [...query.buffer] }));
+  const compare = getArrangeComparator(arrange);
+  const items: TourItem[] = [];
+  const seenIds = new Set<string>();
+
+  while (items.length < state.numOfRows) {
+    // 버퍼가 빈 조회는 다음 페이지 조회
+    const refillTargets = queries.filter(
+      (query) => query.buffer.length === 0 && hasMorePages(query)
+    );
+    await Promise.all(
+      refillTargets.map(async (query) => {
+        const result = await fetcher(
+          { areaCode: query.areaCode, contentTypeId: query.contentTypeId },
+          query.pageNo + 1,
+          state.numOfRows
+        );
+        query.pageNo = result.pagination.pageNo;
+        query.totalPages = result.pagination.totalPages;
+        query.totalCount = result.pagination.totalCount;
+        query.buffer.push(...result.items);
+        // 빈 페이지가 오면 더 이상 조회하지 않음 (무한 루프 방지)
+        if (result.items.length === 0) {
+          query.totalPages = query.pageNo;
+        }
+      })
+    );
+
+    const candidates = queries.filter((query) => query.buffer.length > 0);
+    if (candidates.length === 0) {
+      break;
+    }
+
+    // 정렬 순서상 가장 앞선 항목을 가진 조회 선택 (같으면 적게 반영된 조회 우선)
+    const next = candidates.reduce((best, query) => {
+      const order = compare(query.buffer[0], best.buffer[0]);
+      return order < 0 || (order === 0 && query.emitted < best.emitted) ? query : best;
+    });
+
+    const item = next.buffer.shift()!;
+    next.emitted += 1;
+    if (!seenIds.has(item.contentid)) {
+      seenIds.add(item.contentid);
+      items.push(item);
+    }
+  }
+
+  const nextState: MergedListState = { ...state, queries, pageNo: state.pageNo + 1 };
+
+  return {
+    items,
+    pagination: getMergedPagination(nextState),
+    state: nextState,
+  };
+}
@@ -1,6 +1,8 @@
 import { clerkMiddleware } from '@clerk/nextjs/server';
+import { handleLocaleRouting } from '@/lib/i18n/middleware';
 
-export default clerkMiddleware();
+// 언어 접두사(/en, /ja, /zh) 처리 (lib/i18n/middleware.ts)
+export default clerkMiddleware((_auth, req) => handleLocaleRouting(req));
 
 export const config = {
   matcher: [
@@ -0,0 +1,115 @@
+/**
+ * @file sync-places.ts
+ * @description 관광지 카탈로그(places) 동기화 스크립트
+ *
+ * 한국관광공사 areaBasedSyncList2 변경분을 Supabase places 테이블에 반영합니다.
+ * 기본적으로 마지막 동기화 이후 변경분만 가져오며(증분 동기화),
+ * 직전 실행이 페이지 한도에 걸려 중단(partial)되었다면 이어서 진행합니다.
+ *
+ * 실행 방법:
+ *   pnpm tsx --env-file=.env scripts/sync-places.ts
+ *
+ * 옵션:
+ *   --full              실행 기록과 관계없이 전체 동기화
+ *   --since=YYYYMMDD    지정한 수정일 이후 변경분만 동기화
+ *   --max-pages=N       한 번에 조회할 최대 페이지 수 (기본값: 20, 페이지당 100건)
+ *
+ * 예시:
+ *   pnpm tsx --env-file=.env scripts/sync-places.ts --since=20251201
+ *   pnpm tsx --env-file=.env scripts/sync-places.ts --full --max-pages=500
+ */
+
+import { syncPlaces } from "../lib/api/place-sync-api";
+import { flushTourApiUsage } from "../lib/api/tour-api";
+
+/**
+ * 명령행 인자 파싱
+ */
+function parseArgs(argv: string[]): { full: boolean; since?: string; maxPages?: number } {
+  const options: { full: boolean; since?: string; maxPages?: number } = { full: false };
+
+  for (const arg of argv) {
+    if (arg === "--full") {
+      options.full = true;
+    } else if (arg.startsWith("--since=")) {
+      options.since = arg.slice("--since=".length);
+    } else if (arg.startsWith("--max-pages=")) {
+      const maxPages = Number(arg.slice("--max-pages=".length));
+      if (!Number.isInteger(maxPages) || maxPages < 1) {
+        throw new Error(`--max-pages는 1 이상의 정수여야 합니다: ${arg}`);
+      }
+      options.maxPages = maxPages;
+    } else {
+      throw new Error(`알 수 없는 옵션입니다: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * 메인 실행 함수
+ */
+async function main() {
+  console.log("=".repeat(60));
+  console.log("🔄 관광지 카탈로그 동기화");
+  console.log("=".repeat(60));
+  console.log("");
+
+  try {
+    const options = parseArgs(process.argv.slice(2));
+
+    if (options.full) {
+      console.log("📦 모드: 전체 동기화");
+    } else if (options.since) {
+      console.log(`📦 모드: ${options.since} 이후 변경분 동기화`);
+    } else {
+      console.log("📦 모드: 증분 동기화 (마지막 실행 기록 기준)");
+    }
+    console.log("");
+
+    const result = await syncPlaces({
+      trigger: "cli",
+      full: options.full,
+      modifiedSince: options.since,
+      maxPages: options.maxPages,
+    });
+
+    // 종료 전에 API 사용량 저장
+    await flushTourApiUsage();
+
+    console.log("=".repeat(60));
+    console.log("📊 동기화 결과");
+    console.log("=".repeat(60));
+    console.log("");
+    console.log(`실행 ID: ${result.runId}`);
+    console.log(`상태: ${result.status === "success" ? "✅ 완료" : "⏸️  일부 완료 (이어서 실행 필요)"}`);
+    console.log(`기준 수정일: ${result.modifiedSince || "전체"}`);
+    console.log(`조회한 페이지: ${result.pagesFetched}`);
+    console.log(`upsert: ${result.upsertedCount}건`);
+    console.log(`소프트 삭제: ${result.deletedCount}건`);
+
+    if (result.nextPageNo) {
+      console.log("");
+      console.log(
+        `⚠️  페이지 한도에 도달했습니다. 다시 실행하면 ${result.nextModifiedDate ? `${result.nextModifiedDate} 수정분의 ` : ""}${result.nextPageNo}페이지부터 이어서 진행합니다.`
+      );
+    }
+
+    console.log("");
+    console.log("=".repeat(60));
+    console.log("");
+
+    process.exit(0);
+  } catch (error) {
+    console.error("");
+    console.error("❌ 에러 발생:");
+    console.error(error);
+    console.error("");
+    await flushTourApiUsage();
+    process.exit(1);
+  }
+}
+
+// 스크립트 실행
+main();
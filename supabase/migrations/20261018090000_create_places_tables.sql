@@ -0,0 +1,131 @@
+-- =====================================================
+-- 마이그레이션: 관광지 카탈로그 사본(places) 및 동기화 기록 테이블 생성
+-- 작성일: 2026-10-18
+-- 설명: 한국관광공사 API(areaBasedSyncList2) 데이터를 로컬에 보관하는 테이블
+--       - places: 관광지 카탈로그 사본 (content_id 기준 upsert)
+--       - place_sync_runs: 동기화 실행 기록 (증분 동기화 기준 시점 관리)
+--       - 비표출(showflag=0) 콘텐츠는 삭제하지 않고 deleted_at으로 소프트 삭제
+--       - RLS 비활성화 (개발 환경)
+-- =====================================================
+
+-- =====================================================
+-- places 테이블 (관광지 카탈로그 사본)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.places (
+    content_id TEXT PRIMARY KEY,
+    content_type_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    addr1 TEXT,
+    addr2 TEXT,
+    area_code TEXT,
+    sigungu_code TEXT,
+    cat1 TEXT,
+    cat2 TEXT,
+    cat3 TEXT,
+    map_x DOUBLE PRECISION,
+    map_y DOUBLE PRECISION,
+    first_image TEXT,
+    first_image2 TEXT,
+    tel TEXT,
+    modified_time TEXT NOT NULL,
+    created_time TEXT,
+    show_flag BOOLEAN DEFAULT true NOT NULL,
+    deleted_at TIMESTAMP WITH TIME ZONE,
+    raw JSONB NOT NULL,
+    synced_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.places OWNER TO postgres;
+
+-- 인덱스 생성 (성능 최적화)
+CREATE INDEX IF NOT EXISTS idx_places_area_code ON public.places(area_code, sigungu_code);
+CREATE INDEX IF NOT EXISTS idx_places_content_type_id ON public.places(content_type_id);
+CREATE INDEX IF NOT EXISTS idx_places_cat3 ON public.places(cat3);
+CREATE INDEX IF NOT EXISTS idx_places_modified_time ON public.places(modified_time DESC);
+-- 표출 중인 관광지만 조회하는 경우가 대부분이므로 부분 인덱스 사용
+CREATE INDEX IF NOT EXISTS idx_places_active ON public.places(content_id) WHERE deleted_at IS NULL;
+
+-- Row Level Security (RLS) 비활성화
+ALTER TABLE public.places DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여 (쓰기는 동기화 작업(service_role)만 수행)
+GRANT SELECT ON TABLE public.places TO anon;
+GRANT SELECT ON TABLE public.places TO authenticated;
+GRANT ALL ON TABLE public.places TO service_role;
+
+-- 테이블 설명
+COMMENT ON TABLE public.places IS '한국관광공사 관광지 카탈로그 사본 - areaBasedSyncList2로 증분 동기화';
+COMMENT ON COLUMN public.places.content_id IS '한국관광공사 콘텐츠 ID (contentid)';
+COMMENT ON COLUMN public.places.map_x IS '경도 (API mapx 값)';
+COMMENT ON COLUMN public.places.map_y IS '위도 (API mapy 값)';
+COMMENT ON COLUMN public.places.modified_time IS 'API 수정일 (YYYYMMDDHHmmss, 증분 동기화 기준)';
+COMMENT ON COLUMN public.places.show_flag IS 'API 표출 여부 (showflag, false면 비표출)';
+COMMENT ON COLUMN public.places.deleted_at IS '소프트 삭제 시각 (비표출 전환 시 기록, 다시 표출되면 NULL)';
+COMMENT ON COLUMN public.places.raw IS 'API 원본 응답 항목';
+COMMENT ON COLUMN public.places.synced_at IS '마지막으로 동기화된 시각';
+
+-- =====================================================
+-- place_sync_runs 테이블 (동기화 실행 기록)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.place_sync_runs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    trigger TEXT NOT NULL CHECK (trigger IN ('cron', 'manual', 'cli')),
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'partial', 'failed')),
+    modified_since TEXT,
+    start_page_no INTEGER DEFAULT 1 NOT NULL,
+    next_page_no INTEGER,
+    max_modified_time TEXT,
+    pages_fetched INTEGER DEFAULT 0 NOT NULL,
+    upserted_count INTEGER DEFAULT 0 NOT NULL,
+    deleted_count INTEGER DEFAULT 0 NOT NULL,
+    error_message TEXT,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    finished_at TIMESTAMP WITH TIME ZONE
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.place_sync_runs OWNER TO postgres;
+
+-- 인덱스 생성 (성능 최적화)
+CREATE INDEX IF NOT EXISTS idx_place_sync_runs_started_at ON public.place_sync_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_place_sync_runs_status ON public.place_sync_runs(status);
+
+-- Row Level Security (RLS) 비활성화
+ALTER TABLE public.place_sync_runs DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여 (동기화 기록은 서버 전용)
+GRANT ALL ON TABLE public.place_sync_runs TO service_role;
+
+-- 테이블 설명
+COMMENT ON TABLE public.place_sync_runs IS 'places 테이블 동기화 실행 기록';
+COMMENT ON COLUMN public.place_sync_runs.trigger IS '실행 주체: cron(예약 실행), manual(API 수동 호출), cli(스크립트)';
+COMMENT ON COLUMN public.place_sync_runs.status IS '상태: running(실행 중), success(완료), partial(페이지 한도 도달, 이어서 실행 필요), failed(실패)';
+COMMENT ON COLUMN public.place_sync_runs.modified_since IS '조회 기준 수정일 (YYYYMMDD, NULL이면 전체 동기화)';
+COMMENT ON COLUMN public.place_sync_runs.next_page_no IS 'partial 상태일 때 다음 실행에서 이어서 조회할 페이지 번호';
+COMMENT ON COLUMN public.place_sync_runs.max_modified_time IS '이번 동기화에서 확인한 가장 최근 수정일 (다음 증분 동기화 기준)';
+
+-- =====================================================
+-- 완료 메시지
+-- =====================================================
+DO $$
+BEGIN
+    RAISE NOTICE '✅ 관광지 카탈로그 사본 마이그레이션 완료!';
+    RAISE NOTICE '';
+    RAISE NOTICE '📊 생성된 테이블:';
+    RAISE NOTICE '   places (관광지 카탈로그 사본)';
+    RAISE NOTICE '   place_sync_runs (동기화 실행 기록)';
+    RAISE NOTICE '';
+    RAISE NOTICE '🔓 RLS: 비활성화 (DISABLE ROW LEVEL SECURITY)';
+    RAISE NOTICE '🔑 인덱스: places(area_code, content_type_id, cat3, modified_time), place_sync_runs(started_at, status)';
+    RAISE NOTICE '';
+    RAISE NOTICE '🚀 사용 예시:';
+    RAISE NOTICE '   -- 서울 지역 표출 중인 관광지 조회';
+    RAISE NOTICE '   SELECT content_id, title FROM places';
+    RAISE NOTICE '   WHERE area_code = ''1'' AND deleted_at IS NULL;';
+    RAISE NOTICE '';
+    RAISE NOTICE '   -- 최근 동기화 기록 조회';
+    RAISE NOTICE '   SELECT status, upserted_count, deleted_count, started_at';
+    RAISE NOTICE '   FROM place_sync_runs ORDER BY started_at DESC LIMIT 5;';
+END $$;
@@ -0,0 +1,69 @@
+-- =====================================================
+-- 마이그레이션: 한국관광공사 API 일일 사용량(tour_api_usage) 테이블 생성
+-- 작성일: 2026-10-18
+-- 설명: data.go.kr 서비스 키의 일일 호출 한도를 관리하기 위한 날짜별 호출 수 기록
+--       - 서버 인스턴스가 여러 개여도 같은 날짜 행에 누적 (increment_tour_api_usage 함수)
+--       - 날짜는 한국 시간 기준 YYYYMMDD (data.go.kr 한도 초기화 기준)
+--       - RLS 비활성화 (개발 환경)
+-- =====================================================
+
+-- =====================================================
+-- tour_api_usage 테이블 (일일 API 사용량)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.tour_api_usage (
+    usage_date TEXT PRIMARY KEY CHECK (usage_date ~ '^\d{8}$'),
+    call_count INTEGER DEFAULT 0 NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.tour_api_usage OWNER TO postgres;
+
+-- Row Level Security (RLS) 비활성화
+ALTER TABLE public.tour_api_usage DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여 (사용량 기록은 서버 전용)
+GRANT ALL ON TABLE public.tour_api_usage TO service_role;
+
+-- 테이블 설명
+COMMENT ON TABLE public.tour_api_usage IS '한국관광공사 API 일일 호출 수 (일일 한도 관리용)';
+COMMENT ON COLUMN public.tour_api_usage.usage_date IS '사용 날짜 (한국 시간 기준 YYYYMMDD)';
+COMMENT ON COLUMN public.tour_api_usage.call_count IS '해당 날짜의 누적 호출 수';
+
+-- =====================================================
+-- increment_tour_api_usage 함수 (호출 수 원자적 증가)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.increment_tour_api_usage(p_usage_date TEXT, p_count INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+    INSERT INTO public.tour_api_usage (usage_date, call_count, updated_at)
+    VALUES (p_usage_date, p_count, now())
+    ON CONFLICT (usage_date)
+    DO UPDATE SET
+        call_count = public.tour_api_usage.call_count + EXCLUDED.call_count,
+        updated_at = now()
+    RETURNING call_count;
+$$;
+
+-- 권한 부여
+GRANT EXECUTE ON FUNCTION public.increment_tour_api_usage(TEXT, INTEGER) TO service_role;
+
+-- 함수 설명
+COMMENT ON FUNCTION public.increment_tour_api_usage(TEXT, INTEGER) IS '날짜별 API 호출 수를 증가시키고 누적 호출 수를 반환';
+
+-- =====================================================
+-- 완료 메시지
+-- =====================================================
+DO $$
+BEGIN
+    RAISE NOTICE '✅ API 사용량 마이그레이션 완료!';
+    RAISE NOTICE '';
+    RAISE NOTICE '📊 생성된 테이블: tour_api_usage (일일 API 사용량)';
+    RAISE NOTICE '🔧 생성된 함수: increment_tour_api_usage(usage_date, count)';
+    RAISE NOTICE '';
+    RAISE NOTICE '🚀 사용 예시:';
+    RAISE NOTICE '   -- 최근 7일 사용량 조회';
+    RAISE NOTICE '   SELECT usage_date, call_count FROM tour_api_usage';
+    RAISE NOTICE '   ORDER BY usage_date DESC LIMIT 7;';
+END $$;
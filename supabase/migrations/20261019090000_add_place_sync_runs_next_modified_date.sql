@@ -0,0 +1,14 @@
+-- =====================================================
+-- 마이그레이션: place_sync_runs 다음 조회 날짜(next_modified_date) 컬럼 추가
+-- 작성일: 2026-10-19
+-- 설명: areaBasedSyncList2의 modifiedtime은 해당 날짜의 변경분만 조회하므로(접두 일치)
+--       증분 동기화는 기준 날짜부터 오늘까지 하루씩 조회합니다.
+--       - partial: 중단한 날짜 (next_page_no와 함께 이어서 진행할 위치)
+--       - success: 다음 실행에서 조회를 시작할 날짜 (마지막으로 조회한 날짜)
+--       - NULL: 전체 동기화(날짜 조건 없음) 중 중단
+-- =====================================================
+
+ALTER TABLE public.place_sync_runs
+    ADD COLUMN IF NOT EXISTS next_modified_date TEXT CHECK (next_modified_date ~ '^\d{8}$');
+
+COMMENT ON COLUMN public.place_sync_runs.next_modified_date IS '다음 실행에서 조회를 시작할 수정일 (YYYYMMDD, NULL이면 전체 동기화 중)';
@@ -0,0 +1,25 @@
+-- =====================================================
+-- 마이그레이션: place_sync_runs 동시 실행 방지
+-- 작성일: 2026-10-19
+-- 설명: 예약 실행(cron), 수동 실행(API), CLI 실행이 겹치면 같은 partial 기록을 읽고
+--       서로의 진행 위치를 덮어쓰므로 running 상태 행을 하나만 허용합니다.
+--       - 두 번째 실행은 기록 생성(INSERT) 시 유니크 제약 위반(23505)으로 시작하지 않음
+--       - 비정상 종료로 남은 running 행은 동기화 시작 시 failed로 정리 (lib/api/place-sync-api.ts)
+-- =====================================================
+
+-- 이미 겹쳐 남은 running 행이 있으면 인덱스를 만들 수 없으므로 가장 최근 행만 남기고 정리
+UPDATE public.place_sync_runs
+SET status = 'failed',
+    error_message = '동시 실행 방지 마이그레이션으로 정리',
+    finished_at = now()
+WHERE status = 'running'
+  AND id <> (
+    SELECT id FROM public.place_sync_runs
+    WHERE status = 'running'
+    ORDER BY started_at DESC
+    LIMIT 1
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_place_sync_runs_single_running
+    ON public.place_sync_runs (status)
+    WHERE status = 'running';